@@ -0,0 +1,71 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * QUANTLLM - BACKTEST RUNNER
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Replays the agent pipeline over synthetic data or a CSV file
+ *
+ * Usage:
+ *   npx tsx backtest.ts                 # 500 synthetic 1-min candles
+ *   npx tsx backtest.ts data/eurusd.csv # CSV or JSON candles (columns detected automatically)
+ *   npx tsx backtest.ts --fit [csv]     # fit signal weights on the first 70%, test on the rest
+ *   npx tsx backtest.ts --costs         # charge trading costs (frictionless fills by default)
+ *   npx tsx backtest.ts --costs --asset forex # costs of an asset class (default stocks)
+ */
+
+import 'dotenv/config';
+import { runBacktest, fitSignalWeights } from './src/backtest.js';
+import { makeSyntheticSeries } from './src/utils/synthetic.js';
+import { readCandlesFile } from './src/utils/candleIO.js';
+import { PipelineConfigInput } from './src/config.js';
+import { costModelFor } from './src/agents/index.js';
+
+if (process.argv[1] && process.argv[1].endsWith('backtest.ts')) {
+  (async () => {
+    const args = process.argv.slice(2);
+    const flag = (name: string) => {
+      const i = args.indexOf(name);
+      return i >= 0 ? args.splice(i, 2)[1] : undefined;
+    };
+    const asset = flag('--asset') as 'stocks' | 'crypto' | 'forex' | 'commodities' | 'indices' | undefined;
+    const fit = args.includes('--fit');
+    const costs = args.includes('--costs');
+    const csvPath = args.find(arg => !arg.startsWith('--'));
+    let candles = csvPath ? (await readCandlesFile(csvPath)).candles : makeSyntheticSeries(500, 1.0000);
+
+    let pipeline: PipelineConfigInput = { risk: { costs: { enabled: costs, assetClass: asset } } };
+    if (fit) {
+      const split = Math.floor(candles.length * 0.7);
+      console.log(`🧮 Fitting signal weights on ${split} candles...`);
+      const fitted = await fitSignalWeights(candles.slice(0, split));
+      console.log(`   Weights:     ${Object.entries(fitted.weights).map(([k, w]) => `${k}=${w.toFixed(2)}`).join(', ')}`);
+      console.log(`   Calibration: slope=${fitted.calibration.slope.toFixed(2)}, intercept=${fitted.calibration.intercept.toFixed(2)}`);
+      console.log(`   Hit rate:    ${(fitted.hitRate * 100).toFixed(1)}% over ${fitted.samples} samples\n`);
+      pipeline = { ...pipeline, aggregation: { weights: fitted.weights, calibration: fitted.calibration } };
+      candles = candles.slice(split);
+    }
+
+    console.log(`🚀 Backtesting ${candles.length} candles${csvPath ? ` from ${csvPath}` : ' (synthetic)'}${fit ? ' (out of sample)' : ''}...\n`);
+
+    const result = await runBacktest(candles, { pipeline });
+    const m = result.metrics;
+
+    console.log('=== Backtest Report ===');
+    console.log(`Trades:        ${m.totalTrades} (${m.wins} wins / ${m.losses} losses)`);
+    console.log(`Win rate:      ${(m.winRate * 100).toFixed(1)}%`);
+    console.log(`Profit factor: ${m.profitFactor.toFixed(2)}`);
+    console.log(`Total return:  ${(m.totalReturn * 100).toFixed(2)}%`);
+    console.log(`Max drawdown:  ${(m.maxDrawdown * 100).toFixed(2)}%`);
+    console.log(`Sharpe:        ${m.sharpe.toFixed(2)}`);
+    const model = costModelFor(result.config.risk);
+    console.log(`Costs:         ${model ? `${m.totalCosts.toFixed(2)} (${model.assetClass} defaults)` : 'off'}`);
+    console.log(`Final equity:  ${result.finalEquity.toFixed(2)}`);
+
+    console.log('\n📋 Last 5 trades:');
+    for (const t of result.trades.slice(-5)) {
+      console.log(
+        `   ${t.side.padEnd(5)} ${t.entryPrice.toFixed(5)} → ${t.exitPrice.toFixed(5)} ` +
+        `(${t.exitReason}) pnl=${t.pnl.toFixed(2)} costs=${t.costs.toFixed(2)}`
+      );
+    }
+  })();
+}
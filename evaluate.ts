@@ -0,0 +1,56 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * QUANTLLM - AGENT EVALUATION RUNNER
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Scores agent regime calls on labeled synthetic markets or a labeled CSV file
+ *
+ * Usage:
+ *   npx tsx evaluate.ts                          # 3 seeded synthetic markets, 400 daily bars each
+ *   npx tsx evaluate.ts data/labeled.csv         # CSV or JSON candles with a 'label' column
+ *   npx tsx evaluate.ts --out eval.json          # also save the full result as JSON
+ *   npx tsx evaluate.ts --baseline eval.json     # show changes against a saved result
+ *   npx tsx evaluate.ts --preset conservative    # evaluate a pipeline preset
+ */
+
+import 'dotenv/config';
+import { readFile, writeFile } from 'fs/promises';
+import { evaluateAgents, formatEvaluationReport, readLabeledSeries, LabeledSeries, EvaluationResult } from './src/evaluation.js';
+import { generateMarketSeries } from './src/utils/synthetic.js';
+import { PipelinePreset } from './src/config.js';
+
+const SEEDS = [1, 2, 3];
+const START_TIME = Date.UTC(2020, 0, 1) / 1000;
+
+if (process.argv[1] && process.argv[1].endsWith('evaluate.ts')) {
+  (async () => {
+    const args = process.argv.slice(2);
+    const flag = (name: string) => {
+      const i = args.indexOf(name);
+      return i >= 0 ? args.splice(i, 2)[1] : undefined;
+    };
+    const out = flag('--out');
+    const baselinePath = flag('--baseline');
+    const preset = flag('--preset') as PipelinePreset | undefined;
+    const path = args.find(arg => !arg.startsWith('--'));
+
+    const series: LabeledSeries[] = path
+      ? [await readLabeledSeries(path)]
+      : SEEDS.map(seed => {
+          const market = generateMarketSeries({ bars: 400, seed, startTime: START_TIME });
+          return { name: `synthetic-seed-${seed}`, candles: market.candles, labels: market.regimes };
+        });
+
+    console.log(`🔬 Evaluating agents on ${series.length} labeled series...\n`);
+    const result = await evaluateAgents(series, { pipeline: preset ?? {} });
+    const baseline: EvaluationResult | undefined = baselinePath
+      ? JSON.parse(await readFile(baselinePath, 'utf8'))
+      : undefined;
+
+    console.log(formatEvaluationReport(result, baseline));
+
+    if (out) {
+      await writeFile(out, JSON.stringify(result, null, 2) + '\n');
+      console.log(`\n💾 Saved result to ${out}`);
+    }
+  })();
+}
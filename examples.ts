@@ -45,8 +45,8 @@ async function demonstrateAgents() {
 
   // 4. RiskAgent - Risk management
   console.log('4️⃣ RiskAgent - Risk Management');
-  const risk = await runRiskAgent(indicator, pattern, trend);
-  console.log(`   Stop-loss (ρ): ${risk.rho.toFixed(5)}`);
+  const risk = await runRiskAgent(indicator, pattern, trend, candles, { stopMode: 'atr' });
+  console.log(`   Stop-loss (ρ): ${risk.rho.toFixed(5)} (${risk.stopMode}, ${risk.stopDistance.toFixed(5)} / ${risk.stopPercent.toFixed(3)}%)`);
   console.log(`   Risk multiplier (r): ${risk.rMultiplier.toFixed(2)}`);
   console.log(`   Take-profit (R): ${risk.takeProfit.toFixed(5)}`);
   console.log(`   Commentary: ${risk.commentary}\n`);
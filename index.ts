@@ -6,18 +6,105 @@
  */
 
 // Core functionality
-export { runPipeline, runAnalysis } from './src/orchestrator.js';
+export { runPipeline, runAnalysis, runAgents, getOverallSentiment } from './src/orchestrator.js';
+export type { PipelineOptions } from './src/orchestrator.js';
+export {
+  resolvePipelineConfig,
+  safeResolvePipelineConfig,
+  pipelineConfigSchema,
+  PIPELINE_PRESETS,
+  PRESET_NAMES
+} from './src/config.js';
+export type { PipelineConfig, PipelineConfigInput, PipelinePreset } from './src/config.js';
+export { runBacktest, computeBacktestMetrics, fitSignalWeights } from './src/backtest.js';
+export { aggregateSignals, extractSignals, DEFAULT_SIGNAL_WEIGHTS } from './src/signals.js';
+export type { AggregationOptions } from './src/signals.js';
+export {
+  runMultiTimeframeAnalysis,
+  analyzePortfolioRisk,
+  syncPaperAccount,
+  tradePaperSignal,
+  incrementalIndicatorsFor
+} from './src/orchestrator.js';
+export { computeConfluence, describeConfluence } from './src/confluence.js';
+export type { ConfluenceOptions } from './src/confluence.js';
+export {
+  parseAlertExpression,
+  evaluateCondition,
+  formatCondition,
+  conditionFields,
+  alertFacts,
+  factValue,
+  safeParseAlertRule,
+  alertRuleSchema,
+  alertConditionSchema,
+  ALERT_OPERATORS
+} from './src/alerts.js';
+export type {
+  AlertCondition,
+  AlertComparison,
+  AlertOperator,
+  AlertValue,
+  AlertFacts,
+  AlertRuleInput,
+  AlertRuleDefinition,
+  AlertSink
+} from './src/alerts.js';
+export { costModel, estimateCosts, averageVolume, netOfCosts, DEFAULT_COST_MODELS } from './src/costs.js';
+export type { CostModel, CostRequest, TradeCost, NetSetup } from './src/costs.js';
+export { optimizeParameters, deflatedSharpe, DEFAULT_PARAMETER_SPACE } from './src/optimizer.js';
+export {
+  sizePosition,
+  kellyFraction,
+  riskParityWeights,
+  covarianceMatrix,
+  alignReturns,
+  annualizedVolatility,
+  portfolioExposure,
+  portfolioRisk,
+  instrumentSpec,
+  DEFAULT_INSTRUMENT_SPECS,
+  SIZING_METHODS
+} from './src/portfolio.js';
+export type {
+  InstrumentSpec,
+  PortfolioPosition,
+  ExposureLimits,
+  SizingRequest,
+  PortfolioExposure,
+  PortfolioRisk,
+  PortfolioRiskOptions
+} from './src/portfolio.js';
+export {
+  evaluateAgents,
+  compareEvaluations,
+  formatEvaluationReport,
+  readLabeledSeries,
+  parseRegimeLabel,
+  REGIME_LABELS
+} from './src/evaluation.js';
 
 // Individual agents
 export {
   IndicatorAgent,
   PatternAgent,
+  ChartPatternAgent,
   TrendAgent,
   RiskAgent,
   runIndicatorAgent,
   runPatternAgent,
+  runChartPatternAgent,
   runTrendAgent,
-  runRiskAgent
+  runRiskAgent,
+  getPatternDescription,
+  getPatternBias,
+  calculatePositionSize,
+  stopDistanceAt,
+  costModelFor,
+  AgentRegistry,
+  agentRegistry,
+  registerAgent,
+  registerBuiltInAgents
 } from './src/agents/index.js';
 
 // Types
@@ -25,11 +112,225 @@ export type {
   Candle,
   IndicatorOut,
   PatternOut,
+  PatternMatch,
+  ChartPatternOut,
+  ChartPatternMatch,
+  Pivot,
+  PriceLevel,
+  TrendLine,
   TrendOut,
   RiskOut,
-  AgentContext
+  AgentContext,
+  RsiMethod,
+  ExtraIndicator,
+  MacdReading,
+  BollingerReading,
+  StochasticReading,
+  AdxReading,
+  StopMode,
+  SignalScore,
+  SignalContribution,
+  TimeframeSignal,
+  TimeframeConflict,
+  ConfluenceResult,
+  SizingMethod,
+  PositionSizing,
+  CostAssessment,
+  IndicatorReadings
 } from './src/types.js';
+export type {
+  IndicatorOptions,
+  PatternOptions,
+  ChartPatternOptions,
+  TrendOptions,
+  RiskOptions,
+  RiskHeuristic,
+  SizingOptions,
+  CostOptions,
+  AgentDefinition
+} from './src/agents/index.js';
+export type {
+  BacktestOptions,
+  BacktestResult,
+  BacktestTrade,
+  BacktestMetrics,
+  EquityPoint,
+  SignalFitOptions,
+  SignalFitResult
+} from './src/backtest.js';
+export type {
+  OptimizerOptions,
+  OptimizationResult,
+  OptimizationFold,
+  OptimizationTrial,
+  OptimizationObjective,
+  ParameterSpace,
+  ParameterRange,
+  ParameterStability,
+  DeflatedSharpe,
+  SearchMethod,
+  SplitMethod
+} from './src/optimizer.js';
+export type {
+  LabeledSeries,
+  EvaluationOptions,
+  EvaluationResult,
+  EvaluationDelta,
+  AgentEvaluation,
+  LabelMetrics,
+  HorizonStats,
+  ConfusionMatrix
+} from './src/evaluation.js';
+
+// Market data providers
+export { setMarketDataProvider, getMarketDataSources, getMarketCacheStats, purgeMarketCache } from './src/orchestrator.js';
+export { PaperAccount, PaperTradingService, DEFAULT_PAPER_SETTINGS, isValidAccountId } from './src/services/paperTrading.js';
+export type {
+  PaperOrder,
+  PaperFill,
+  PaperPosition,
+  PaperAccountState,
+  PaperAccountSummary,
+  PaperAccountOptions,
+  PaperAccountSettings,
+  OrderRequest,
+  BracketRequest,
+  BracketOrders,
+  OrderSide,
+  OrderType,
+  OrderStatus,
+  SlippageModel,
+  CommissionModel
+} from './src/services/paperTrading.js';
+export { AnalysisStreamService, DEMO_SYMBOL } from './src/services/analysisStream.js';
+export type {
+  StreamEvent,
+  StreamListener,
+  StreamSnapshot,
+  StreamSubscriptionKey,
+  StreamFeed,
+  StreamStats,
+  StreamAnalysis,
+  AnalysisStreamOptions
+} from './src/services/analysisStream.js';
+export { AlertService } from './src/services/alerts.js';
+export type { AlertRule, AlertEvent, AlertDelivery, AlertRun, AlertServiceOptions } from './src/services/alerts.js';
+export { EmailService } from './src/services/email.js';
+export type { SmtpConfig, EmailMessage } from './src/services/email.js';
+export { OHLCVCache, DEFAULT_CACHE_TTL } from './src/services/ohlcvCache.js';
+export type { OHLCVCacheKey, OHLCVCacheMeta, OHLCVCacheOptions, OHLCVCacheStats } from './src/services/ohlcvCache.js';
+export {
+  ProviderChain,
+  createDefaultProviderChain,
+  AlphaVantageProvider,
+  CsvDirectoryProvider,
+  FixtureProvider,
+  SyntheticProvider,
+  classifySymbol
+} from './src/services/providers/index.js';
+export type {
+  MarketDataProvider,
+  OHLCVRequest,
+  Quote,
+  MarketInfo,
+  DataInterval,
+  AssetClass,
+  ProviderRoutes,
+  FixtureData
+} from './src/services/providers/index.js';
+
+// Candle import/export
+export {
+  parseCandles,
+  parseCandlesCsv,
+  parseCandlesJson,
+  parseTimestamp,
+  readCandlesFile,
+  writeCandlesFile,
+  candlesToCsv,
+  candlesToJson
+} from './src/utils/candleIO.js';
+export type {
+  CandleImportOptions,
+  CandleImportResult,
+  CandleExportOptions,
+  CandleSchema
+} from './src/utils/candleIO.js';
+
+// Resampling
+export {
+  resampleCandles,
+  resampleMany,
+  parseTimeframe,
+  isTimeframe,
+  timeframeSeconds
+} from './src/utils/resample.js';
+export type { Timeframe, TimeframeSpec, ResampleOptions, ResampleResult } from './src/utils/resample.js';
+
+// Data quality
+export {
+  validateCandles,
+  repairCandles,
+  checkCandles,
+  DEFAULT_REPAIR_POLICY,
+  DATA_ISSUE_KINDS
+} from './src/utils/dataQuality.js';
+export type {
+  DataIssue,
+  DataIssueKind,
+  DataQualityOptions,
+  DataQualityReport,
+  RepairPolicy,
+  RepairAction
+} from './src/utils/dataQuality.js';
 
 // Utilities
-export { ema, rsi, simpleSlope } from './src/utils/technical.js';
-export { makeSyntheticSeries } from './src/utils/synthetic.js';
\ No newline at end of file
+export {
+  ema,
+  rsi,
+  simpleSlope,
+  emaSeries,
+  rsiSeries,
+  slopeSeries,
+  sma,
+  smaSeries,
+  macd,
+  macdSeries,
+  bollinger,
+  bollingerSeries,
+  atr,
+  atrSeries,
+  stochastic,
+  stochasticSeries,
+  adx,
+  adxSeries,
+  obv,
+  obvSeries,
+  vwap,
+  vwapSeries
+} from './src/utils/technical.js';
+export {
+  IncrementalEma,
+  IncrementalRsi,
+  IncrementalAtr,
+  IncrementalSlope,
+  IncrementalIndicators,
+  currentReading,
+  rsiKey
+} from './src/utils/incremental.js';
+export type {
+  CalculatorSnapshot,
+  EmaState,
+  RsiState,
+  AtrState,
+  SlopeState,
+  IncrementalIndicatorOptions,
+  IncrementalIndicatorsState
+} from './src/utils/incremental.js';
+export {
+  makeSyntheticSeries,
+  generateMarketSeries,
+  seededRandom,
+  DEFAULT_REGIME_PARAMS
+} from './src/utils/synthetic.js';
+export type { MarketRegime, RegimeParams, MarketSeries, MarketSeriesOptions } from './src/utils/synthetic.js';
\ No newline at end of file
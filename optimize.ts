@@ -0,0 +1,76 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * QUANTLLM - PARAMETER OPTIMIZATION RUNNER
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Tunes agent settings with walk-forward or purged k-fold validation
+ *
+ * Usage:
+ *   npx tsx optimize.ts                               # 600 synthetic 1-min candles, random search, walk-forward
+ *   npx tsx optimize.ts data/eurusd.csv               # CSV or JSON candles (columns detected automatically)
+ *   npx tsx optimize.ts --search bayesian --trials 40 # grid | random | bayesian
+ *   npx tsx optimize.ts --split purged-kfold --folds 5
+ *   npx tsx optimize.ts --objective totalReturn --preset scalping
+ */
+
+import 'dotenv/config';
+import { optimizeParameters, SearchMethod, SplitMethod, OptimizationObjective } from './src/optimizer.js';
+import { makeSyntheticSeries } from './src/utils/synthetic.js';
+import { readCandlesFile } from './src/utils/candleIO.js';
+import { PipelinePreset } from './src/config.js';
+
+if (process.argv[1] && process.argv[1].endsWith('optimize.ts')) {
+  (async () => {
+    const args = process.argv.slice(2);
+    const flag = (name: string) => {
+      const i = args.indexOf(name);
+      return i >= 0 ? args.splice(i, 2)[1] : undefined;
+    };
+    const search = (flag('--search') ?? 'random') as SearchMethod;
+    const split = (flag('--split') ?? 'walk-forward') as SplitMethod;
+    const objective = (flag('--objective') ?? 'sharpe') as OptimizationObjective;
+    const trials = flag('--trials');
+    const folds = flag('--folds');
+    const preset = flag('--preset') as PipelinePreset | undefined;
+    const csvPath = args.find(arg => !arg.startsWith('--'));
+    const candles = csvPath ? (await readCandlesFile(csvPath)).candles : makeSyntheticSeries(600, 1.0000, 60, 42);
+
+    console.log(`🎛️  Optimizing on ${candles.length} candles${csvPath ? ` from ${csvPath}` : ' (synthetic)'}: ${search} search, ${split}, ${objective}...\n`);
+
+    const result = await optimizeParameters(candles, {
+      search,
+      split,
+      objective,
+      trials: trials ? parseInt(trials, 10) : undefined,
+      folds: folds ? parseInt(folds, 10) : undefined,
+      pipeline: preset ?? {},
+      onTrial: (fold, trial) => process.stdout.write(`\r   fold ${fold}: ${trial.score.toFixed(3)}        `)
+    });
+    process.stdout.write('\r' + ' '.repeat(40) + '\r');
+
+    console.log('=== Folds ===');
+    for (const f of result.folds) {
+      console.log(
+        `Fold ${f.fold}: train ${f.train.map(([s, e]) => `${s}-${e}`).join(' + ')}, test ${f.test[0]}-${f.test[1]} · ` +
+        `IS ${f.inSampleScore.toFixed(3)} → OOS ${f.outOfSampleScore.toFixed(3)} (${f.trials.length} trials)`
+      );
+    }
+
+    const m = result.outOfSampleMetrics;
+    const dsr = result.deflatedSharpe;
+    console.log('\n=== Out of sample ===');
+    console.log(`In-sample ${objective}:     ${result.inSample.toFixed(3)}`);
+    console.log(`Out-of-sample ${objective}: ${result.outOfSample.toFixed(3)}`);
+    console.log(`Efficiency:        ${result.efficiency === null ? 'n/a' : result.efficiency.toFixed(2)}`);
+    console.log(`Trades:            ${m.totalTrades} (win rate ${(m.winRate * 100).toFixed(1)}%)`);
+    console.log(`Total return:      ${(m.totalReturn * 100).toFixed(2)}%`);
+    console.log(`Deflated Sharpe:   P(SR > 0) = ${(dsr.probability * 100).toFixed(1)}% over ${dsr.trials} trials`);
+
+    console.log('\n=== Parameters ===');
+    for (const [path, s] of Object.entries(result.stability)) {
+      console.log(
+        `${path.padEnd(24)} ${String(result.recommended[path]).padStart(6)}  ` +
+        `folds [${s.values.join(', ')}] agreement ${(s.agreement * 100).toFixed(0)}% spread ${s.spread.toFixed(2)}`
+      );
+    }
+  })();
+}
@@ -10,11 +10,19 @@ import express from 'express';
 import cors from 'cors';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
-import { runPipeline, runAnalysis, runRealTimeAnalysis, getMarketData, searchMarketSymbols, getPopularSymbols, validateSymbol } from './src/orchestrator.js';
+import { runPipeline, runAnalysis, runAgents, runRealTimeAnalysis, getMarketData, searchMarketSymbols, getPopularSymbols, validateSymbol, getMarketDataSources, getMarketCandles, getMarketCacheStats, purgeMarketCache, runMultiTimeframeAnalysis, analyzePortfolioRisk, syncPaperAccount, tradePaperSignal } from './src/orchestrator.js';
 import { makeSyntheticSeries } from './src/utils/synthetic.js';
-import { runIndicatorAgent, runPatternAgent, runTrendAgent, runRiskAgent } from './src/agents/index.js';
+import { isTimeframe } from './src/utils/resample.js';
+import { checkCandles } from './src/utils/dataQuality.js';
+import { agentRegistry } from './src/agents/index.js';
+import { safeResolvePipelineConfig, resolvePipelineConfig, PIPELINE_PRESETS, PRESET_NAMES } from './src/config.js';
 import { ChatService } from './src/chat.js';
 import N8NIntegrationService from './src/services/n8nIntegration.js';
+import PaperTradingService, { isValidAccountId } from './src/services/paperTrading.js';
+import AnalysisStreamService, { DEMO_SYMBOL } from './src/services/analysisStream.js';
+import AlertService from './src/services/alerts.js';
+import { aggregateSignals } from './src/signals.js';
+import { parseCandles, parseCandlesJson, candlesToCsv, CandleImportResult } from './src/utils/candleIO.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -24,7 +32,7 @@ const PORT = process.env.PORT || 3000;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '10mb' }));
 app.use(express.static(join(__dirname, 'public')));
 
 // Store latest analysis for dashboard
@@ -37,6 +45,46 @@ const chatService = new ChatService();
 // N8N integration service
 const n8nService = new N8NIntegrationService();
 
+// Paper trading accounts (persisted under PAPER_TRADING_DIR)
+const paperService = new PaperTradingService();
+
+// Alert rules, evaluated on every analysis run (persisted under ALERTS_DIR)
+const alertService = new AlertService({ n8n: n8nService });
+
+// Live analysis streams: one shared loop per symbol/interval/preset
+const streamService = new AnalysisStreamService({ onAnalysis: run => alertService.evaluate(run) });
+
+/**
+ * Run the alert rules on a real-time analysis result
+ * @param config - Preset name or config object of the request (alert state is kept per config)
+ */
+async function evaluateAlerts(analysis: Awaited<ReturnType<typeof runRealTimeAnalysis>>, config: unknown) {
+  try {
+    const signal = aggregateSignals(analysis.analysis, analysis.config.aggregation);
+    const source = `api:${typeof config === 'string' ? config : JSON.stringify(config ?? {})}`;
+    return await alertService.evaluate({ symbol: analysis.symbol, interval: analysis.interval, ctx: analysis.analysis, signal, source });
+  } catch (error) {
+    console.error('Alert evaluation failed:', error);
+    return [];
+  }
+}
+
+const MAX_BODY_PERIODS = 5000;
+
+/**
+ * Bar count from a JSON body (number or numeric string): the fallback when absent,
+ * null unless a whole number in 1..MAX_BODY_PERIODS
+ */
+function bodyPeriods(value: unknown, fallback: number): number | null {
+  if (value === undefined) return fallback;
+  const periods = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof periods === 'number' && Number.isInteger(periods) && periods >= 1 && periods <= MAX_BODY_PERIODS
+    ? periods
+    : null;
+}
+
+const INVALID_PERIODS = { error: `Periods must be a whole number from 1 to ${MAX_BODY_PERIODS}` };
+
 /**
  * Generate fresh analysis data
  */
@@ -55,6 +103,7 @@ async function generateAnalysis() {
       data: {
         indicator: ctx.indicator,
         pattern: ctx.pattern,
+        chart: ctx.chart,
         trend: ctx.trend,
         risk: ctx.risk,
         summary: jsonOutput.summary
@@ -94,36 +143,38 @@ app.get('/api/analysis/fresh', async (req, res) => {
   }
 });
 
+app.get('/api/agents', (req, res) => {
+  res.json({
+    agents: agentRegistry.list().map(def => ({
+      name: def.name,
+      description: def.description,
+      dependsOn: def.dependsOn ?? []
+    })),
+    stages: agentRegistry.resolveStages(),
+    timestamp: new Date().toISOString()
+  });
+});
+
 app.get('/api/agents/:agent', async (req, res) => {
   try {
     const { agent } = req.params;
-    const candles = makeSyntheticSeries(100, 1.0000);
-    
-    let result;
-    switch (agent) {
-      case 'indicator':
-        result = await runIndicatorAgent(candles);
-        break;
-      case 'pattern':
-        result = await runPatternAgent(candles);
-        break;
-      case 'trend':
-        result = await runTrendAgent(candles);
-        break;
-      case 'risk':
-        const indicator = await runIndicatorAgent(candles);
-        const pattern = await runPatternAgent(candles);
-        const trend = await runTrendAgent(candles);
-        result = await runRiskAgent(indicator, pattern, trend);
-        break;
-      default:
-        return res.status(404).json({ error: 'Agent not found' });
+    if (!agentRegistry.has(agent)) {
+      return res.status(404).json({ error: 'Agent not found' });
     }
+
+    const resolved = safeResolvePipelineConfig(req.query.preset ?? {});
+    if (!resolved.success) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
+    const candles = makeSyntheticSeries(100, 1.0000);
+    const ctx = await runAgents(candles, resolved.config, agentRegistry, [agent]);
     
     res.json({
       agent,
       timestamp: new Date().toISOString(),
-      result,
+      result: ctx[agent],
+      config: resolved.config,
       candles: candles.slice(-10) // Last 10 candles
     });
   } catch (error) {
@@ -132,12 +183,22 @@ app.get('/api/agents/:agent', async (req, res) => {
   }
 });
 
+app.get('/api/config/presets', (req, res) => {
+  res.json({
+    default: resolvePipelineConfig(),
+    presets: Object.fromEntries(PRESET_NAMES.map(name => [name, resolvePipelineConfig(name)])),
+    overrides: PIPELINE_PRESETS,
+    timestamp: new Date().toISOString()
+  });
+});
+
 app.get('/api/health', (req, res) => {
   res.json({
     status: 'healthy',
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
-    agents: ['indicator', 'pattern', 'trend', 'risk'],
+    agents: agentRegistry.list().map(def => def.name),
+    marketData: getMarketDataSources(),
     chat: 'enabled'
   });
 });
@@ -221,8 +282,11 @@ app.get('/api/market/data/:symbol', async (req, res) => {
     if (isNaN(periodsNum) || periodsNum <= 0) {
       return res.status(400).json({ error: 'Periods must be a positive number' });
     }
+    if (!isTimeframe(interval)) {
+      return res.status(400).json({ error: `Unknown interval: ${interval}` });
+    }
 
-    const data = await getMarketData(symbol, interval as any, periodsNum);
+    const data = await getMarketData(symbol, interval, periodsNum);
     res.json(data);
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -237,14 +301,23 @@ app.get('/api/market/data/:symbol', async (req, res) => {
 app.get('/api/market/analysis/:symbol', async (req, res) => {
   try {
     const { symbol } = req.params;
-    const { interval = 'daily', periods = '100' } = req.query;
+    const { interval = 'daily', periods = '100', preset } = req.query;
     
     const periodsNum = parseInt(periods as string, 10);
     if (isNaN(periodsNum) || periodsNum <= 0) {
       return res.status(400).json({ error: 'Periods must be a positive number' });
     }
+    if (!isTimeframe(interval)) {
+      return res.status(400).json({ error: `Unknown interval: ${interval}` });
+    }
 
-    const analysis = await runRealTimeAnalysis(symbol, interval as any, periodsNum);
+    const resolved = safeResolvePipelineConfig(preset ?? {});
+    if (!resolved.success) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
+    const analysis = await runRealTimeAnalysis(symbol, interval, periodsNum, resolved.config);
+    const alerts = await evaluateAlerts(analysis, preset);
     
     // Send to n8n workflow
     const n8nResult = await n8nService.sendAnalysisToN8N(
@@ -259,6 +332,7 @@ app.get('/api/market/analysis/:symbol', async (req, res) => {
     // Add n8n result to response
     const response = {
       ...analysis,
+      alerts,
       n8n: n8nResult,
     };
     
@@ -273,6 +347,40 @@ app.get('/api/market/analysis/:symbol', async (req, res) => {
   }
 });
 
+// Multi-timeframe confluence: ?intervals=15min,60min,daily
+app.get('/api/market/confluence/:symbol', async (req, res) => {
+  try {
+    const { symbol } = req.params;
+    const { intervals = '15min,60min,daily', periods = '100', preset } = req.query;
+
+    const periodsNum = parseInt(periods as string, 10);
+    if (isNaN(periodsNum) || periodsNum <= 0) {
+      return res.status(400).json({ error: 'Periods must be a positive number' });
+    }
+
+    const list = (intervals as string).split(',').map(i => i.trim()).filter(Boolean);
+    const unknown = list.filter(i => !isTimeframe(i));
+    if (list.length === 0 || unknown.length > 0) {
+      return res.status(400).json({ error: `Unknown interval: ${unknown.join(', ') || '(none)'}` });
+    }
+
+    const resolved = safeResolvePipelineConfig(preset ?? {});
+    if (!resolved.success) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
+    const analysis = await runMultiTimeframeAnalysis(symbol, list.filter(isTimeframe), periodsNum, resolved.config);
+    res.json(analysis);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({
+      error: 'Failed to run multi-timeframe analysis',
+      details: errorMessage,
+      symbol: req.params.symbol
+    });
+  }
+});
+
 app.get('/api/market/search', async (req, res) => {
   try {
     const { keywords } = req.query;
@@ -363,20 +471,19 @@ app.get('/api/market/ohlcv/:symbol', async (req, res) => {
     if (isNaN(periodsNum) || periodsNum <= 0) {
       return res.status(400).json({ error: 'Periods must be a positive number' });
     }
+    if (!isTimeframe(interval)) {
+      return res.status(400).json({ error: `Unknown interval: ${interval}` });
+    }
 
-    const data = await getMarketData(symbol, interval as any, periodsNum);
-    
     if (format === 'csv') {
-      // CSV format for downloads
-      const csvHeader = 'Date,Open,High,Low,Close,Volume,Change\n';
-      const csvData = data.data.map((row: any) => 
-        `${row.date},${row.open},${row.high},${row.low},${row.close},${row.volume},${row.change}`
-      ).join('\n');
+      // CSV format for downloads (re-importable via /api/candles/upload)
+      const { candles } = await getMarketCandles(symbol, interval, periodsNum);
       
       res.setHeader('Content-Type', 'text/csv');
       res.setHeader('Content-Disposition', `attachment; filename="${symbol}_ohlcv.csv"`);
-      res.send(csvHeader + csvData);
+      res.send(candlesToCsv(candles));
     } else {
+      const data = await getMarketData(symbol, interval, periodsNum);
       res.json(data);
     }
   } catch (error) {
@@ -389,17 +496,445 @@ app.get('/api/market/ohlcv/:symbol', async (req, res) => {
   }
 });
 
+// OHLCV cache stats and purge
+app.get('/api/market/cache', async (req, res) => {
+  try {
+    const stats = await getMarketCacheStats();
+    res.json({ enabled: stats !== null, ...stats, timestamp: new Date().toISOString() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to read market data cache', details: errorMessage });
+  }
+});
+
+app.delete('/api/market/cache', async (req, res) => {
+  try {
+    const { symbol, interval, provider } = req.query;
+    const removed = await purgeMarketCache({
+      symbol: symbol as string | undefined,
+      interval: interval as string | undefined,
+      provider: provider as string | undefined
+    });
+    res.json({ removed, timestamp: new Date().toISOString() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to purge market data cache', details: errorMessage });
+  }
+});
+
+// Portfolio exposure and VaR/CVaR: { equity, positions: [{ symbol, quantity, price? }], interval?, periods?, confidence?, horizon? }
+app.post('/api/portfolio/risk', async (req, res) => {
+  try {
+    const { equity, positions, interval = 'daily', periods: periodsValue, confidence = 0.95, horizon = 1 } = req.body ?? {};
+
+    if (typeof equity !== 'number' || !(equity > 0)) {
+      return res.status(400).json({ error: 'equity must be a positive number' });
+    }
+    if (!Array.isArray(positions) || positions.length === 0 ||
+        !positions.every(p => typeof p?.symbol === 'string' && typeof p?.quantity === 'number')) {
+      return res.status(400).json({ error: 'positions must be a non-empty array of { symbol, quantity, price? }' });
+    }
+    if (!isTimeframe(interval)) {
+      return res.status(400).json({ error: `Unknown interval: ${interval}` });
+    }
+    const periods = bodyPeriods(periodsValue, 250);
+    if (periods === null) return res.status(400).json(INVALID_PERIODS);
+    if (typeof confidence !== 'number' || !(confidence > 0 && confidence < 1)) {
+      return res.status(400).json({ error: 'confidence must be between 0 and 1' });
+    }
+    if (!Number.isInteger(horizon) || horizon < 1) {
+      return res.status(400).json({ error: 'horizon must be a whole number of bars (at least 1)' });
+    }
+
+    res.json(await analyzePortfolioRisk(positions, { equity, interval, periods, confidence, horizon }));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to compute portfolio risk', details: errorMessage });
+  }
+});
+
+// Candle upload: raw CSV/JSON body, or JSON { data: "<csv or json text>" | candles[], format?, config? }
+app.post('/api/candles/upload', express.text({ type: ['text/*', 'application/csv'], limit: '10mb' }), async (req, res) => {
+  let imported: CandleImportResult;
+  try {
+    const { format = 'auto', dayFirst } = req.query;
+    const options = {
+      format: format as 'csv' | 'json' | 'auto',
+      dayFirst: dayFirst === undefined ? undefined : dayFirst === 'true'
+    };
+
+    if (typeof req.body === 'string') {
+      imported = parseCandles(req.body, options);
+    } else if (typeof req.body?.data === 'string') {
+      imported = parseCandles(req.body.data, { ...options, format: req.body.format ?? options.format });
+    } else {
+      imported = parseCandlesJson(req.body, options);
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(400).json({ error: 'Failed to parse candles', details: errorMessage });
+  }
+
+  const { candles: parsed, ...report } = imported;
+
+  const resolved = safeResolvePipelineConfig(req.body?.config ?? req.query.preset ?? {});
+  if (!resolved.success) {
+    return res.status(400).json({ error: resolved.error });
+  }
+
+  // Uploaded data is untrusted: validate and repair before analysis
+  const { candles, report: dataQuality } = checkCandles(parsed, resolved.config.quality);
+  if (candles.length < 2) {
+    return res.status(400).json({ error: 'At least 2 valid candles are required', ...report, dataQuality });
+  }
+
+  try {
+    const analyze = req.query.analyze !== 'false';
+    res.json({
+      ...report,
+      dataQuality,
+      count: candles.length,
+      range: { from: candles[0].time, to: candles[candles.length - 1].time },
+      analysis: analyze ? await runAnalysis(candles, resolved.config) : undefined,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to analyze uploaded candles', details: errorMessage });
+  }
+});
+
+/**
+ * Read single-valued query parameters; null when one is not a single string (e.g. ?a=1&a=2)
+ */
+function queryStrings<K extends string>(query: express.Request['query'], keys: K[]): Partial<Record<K, string>> | null {
+  const values: Partial<Record<K, string>> = {};
+  for (const key of keys) {
+    const value = query[key];
+    if (value === undefined) continue;
+    if (typeof value !== 'string') return null;
+    values[key] = value;
+  }
+  return values;
+}
+
+// Live analysis over Server-Sent Events: ?symbol=AAPL&interval=5min&preset=scalping
+// (symbol DEMO, the default, streams a synthetic random walk)
+app.get('/api/stream', (req, res) => {
+  const query = queryStrings(req.query, ['symbol', 'interval', 'preset']);
+  if (!query) {
+    return res.status(400).json({ error: 'symbol, interval and preset must each be given once' });
+  }
+  const { symbol = DEMO_SYMBOL, interval = '1min', preset } = query;
+  if (!isTimeframe(interval)) {
+    return res.status(400).json({ error: `Unknown interval: ${interval}` });
+  }
+  const resolved = safeResolvePipelineConfig(preset ?? {});
+  if (!resolved.success) {
+    return res.status(400).json({ error: resolved.error });
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = streamService.subscribe(
+    { symbol, interval, config: resolved.config, configKey: preset },
+    event => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`)
+  );
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), 15_000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
+});
+
+app.get('/api/stream/subscriptions', (req, res) => {
+  res.json({ subscriptions: streamService.stats(), timestamp: new Date().toISOString() });
+});
+
+// Paper trading: simulated accounts filled from market candles (?account= or body.account, default 'default')
+
+/**
+ * Account id from a query or body value: 'default' when absent, null when not a valid id
+ */
+function paperAccountId(value: unknown): string | null {
+  if (value === undefined) return 'default';
+  return isValidAccountId(value) ? value : null;
+}
+
+const INVALID_ACCOUNT = { error: 'account must be 1-64 letters, digits, "_" or "-"' };
+
+app.get('/api/paper/accounts', async (req, res) => {
+  res.json({ accounts: await paperService.listAccounts() });
+});
+
+app.get('/api/paper/account', async (req, res) => {
+  try {
+    const id = paperAccountId(req.query.account);
+    if (id === null) return res.status(400).json(INVALID_ACCOUNT);
+    const account = await paperService.getAccount(id);
+    res.json(account.summary());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to load paper account', details: errorMessage });
+  }
+});
+
+// { account?, initialCash?, slippage?: { type, amount }, commission?: { perOrder, perUnit, percent, minimum }, allowShort? }
+app.post('/api/paper/account/reset', async (req, res) => {
+  try {
+    const { account: accountValue, initialCash, slippage, commission, allowShort } = req.body ?? {};
+    const account = paperAccountId(accountValue);
+    if (account === null) return res.status(400).json(INVALID_ACCOUNT);
+    if (slippage !== undefined && !['none', 'fixed', 'bps'].includes(slippage?.type)) {
+      return res.status(400).json({ error: "slippage.type must be 'none', 'fixed' or 'bps'" });
+    }
+    const reset = await paperService.resetAccount(account, { initialCash, slippage, commission, allowShort });
+    res.json(reset.summary());
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(400).json({ error: 'Failed to reset paper account', details: errorMessage });
+  }
+});
+
+app.get('/api/paper/orders', async (req, res) => {
+  try {
+    const account = paperAccountId(req.query.account);
+    if (account === null) return res.status(400).json(INVALID_ACCOUNT);
+    const paper = await paperService.getAccount(account);
+    const { status } = req.query;
+    res.json({ orders: paper.getOrders(status as Parameters<typeof paper.getOrders>[0]) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to list paper orders', details: errorMessage });
+  }
+});
+
+// { account?, symbol, side, type?, quantity, limitPrice?, stopPrice?, stopDistance?, targetDistance? }
+// stopDistance + targetDistance (price units from the entry fill) turn the order into a bracket
+app.post('/api/paper/orders', async (req, res) => {
+  try {
+    const { account: accountValue, stopDistance, targetDistance, ...request } = req.body ?? {};
+    const account = paperAccountId(accountValue);
+    if (account === null) return res.status(400).json(INVALID_ACCOUNT);
+    const paper = await paperService.getAccount(account);
+    const result = stopDistance !== undefined || targetDistance !== undefined
+      ? paper.submitBracket({ ...request, stopDistance, targetDistance })
+      : paper.submitOrder(request);
+    await paperService.save(paper);
+    res.status(201).json(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(400).json({ error: 'Failed to submit paper order', details: errorMessage });
+  }
+});
+
+app.delete('/api/paper/orders/:id', async (req, res) => {
+  try {
+    const account = paperAccountId(req.query.account);
+    if (account === null) return res.status(400).json(INVALID_ACCOUNT);
+    const paper = await paperService.getAccount(account);
+    const order = paper.cancelOrder(req.params.id);
+    await paperService.save(paper);
+    res.json(order);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(404).json({ error: 'Failed to cancel paper order', details: errorMessage });
+  }
+});
+
+app.get('/api/paper/fills', async (req, res) => {
+  try {
+    const account = paperAccountId(req.query.account);
+    if (account === null) return res.status(400).json(INVALID_ACCOUNT);
+    const { symbol } = req.query;
+    if (symbol !== undefined && typeof symbol !== 'string') {
+      return res.status(400).json({ error: 'symbol must be a single value' });
+    }
+    const paper = await paperService.getAccount(account);
+    res.json({ fills: paper.getFills(symbol) });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to list paper fills', details: errorMessage });
+  }
+});
+
+// Push bars for one symbol: { account?, symbol, candles: [...] } (same JSON shapes as /api/candles/upload)
+app.post('/api/paper/candles', async (req, res) => {
+  const { account: accountValue, symbol, candles: data } = req.body ?? {};
+  const account = paperAccountId(accountValue);
+  if (account === null) return res.status(400).json(INVALID_ACCOUNT);
+  if (typeof symbol !== 'string' || !symbol) {
+    return res.status(400).json({ error: 'symbol is required' });
+  }
+
+  let candles;
+  try {
+    candles = checkCandles(parseCandlesJson(data).candles).candles;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return res.status(400).json({ error: 'Failed to parse candles', details: errorMessage });
+  }
+
+  try {
+    const paper = await paperService.getAccount(account);
+    const fills = paper.processCandles(symbol, candles);
+    await paperService.save(paper);
+    res.json({ fills, account: paper.summary() });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to process candles', details: errorMessage });
+  }
+});
+
+// Pull the latest market bars for every symbol the account trades: { account?, interval?, periods? }
+app.post('/api/paper/sync', async (req, res) => {
+  try {
+    const { account: accountValue, interval = 'daily', periods: periodsValue } = req.body ?? {};
+    const account = paperAccountId(accountValue);
+    if (account === null) return res.status(400).json(INVALID_ACCOUNT);
+    const periods = bodyPeriods(periodsValue, 5);
+    if (periods === null) return res.status(400).json(INVALID_PERIODS);
+    if (!isTimeframe(interval)) {
+      return res.status(400).json({ error: `Unknown interval: ${interval}` });
+    }
+    const paper = await paperService.getAccount(account);
+    const result = await syncPaperAccount(paper, { interval, periods });
+    await paperService.save(paper);
+    res.json(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to sync paper account', details: errorMessage });
+  }
+});
+
+// Analyze a symbol and submit a bracket from the signal and RiskAgent output:
+// { account?, interval?, periods?, config?, quantity?, orderType? }
+app.post('/api/paper/signal/:symbol', async (req, res) => {
+  try {
+    const { account: accountValue, interval = 'daily', periods: periodsValue, config = {}, quantity, orderType = 'market' } = req.body ?? {};
+    const account = paperAccountId(accountValue);
+    if (account === null) return res.status(400).json(INVALID_ACCOUNT);
+    const periods = bodyPeriods(periodsValue, 100);
+    if (periods === null) return res.status(400).json(INVALID_PERIODS);
+    if (!isTimeframe(interval)) {
+      return res.status(400).json({ error: `Unknown interval: ${interval}` });
+    }
+    if (orderType !== 'market' && orderType !== 'limit') {
+      return res.status(400).json({ error: "orderType must be 'market' or 'limit'" });
+    }
+    if (quantity !== undefined && !(quantity > 0)) {
+      return res.status(400).json({ error: 'quantity must be a positive number' });
+    }
+    const resolved = safeResolvePipelineConfig(config);
+    if (!resolved.success) {
+      return res.status(400).json({ error: resolved.error });
+    }
+
+    const paper = await paperService.getAccount(account);
+    const result = await tradePaperSignal(paper, req.params.symbol, {
+      interval, periods, config: resolved.config, quantity, orderType
+    });
+    await paperService.save(paper);
+    res.json(result);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(500).json({ error: 'Failed to trade signal', details: errorMessage });
+  }
+});
+
+// Alert rules: { name, expression | condition, symbols?, intervals?, trigger?, debounce?, cooldownSec?, sinks?, message? }
+// e.g. expression: 'indicator.rsi crosses below 30 and trend.trend == "Uptrend"'
+app.get('/api/alerts/rules', async (req, res) => {
+  res.json({ rules: await alertService.listRules() });
+});
+
+app.post('/api/alerts/rules', async (req, res) => {
+  try {
+    res.status(201).json(await alertService.createRule(req.body ?? {}));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(400).json({ error: 'Failed to create alert rule', details: errorMessage });
+  }
+});
+
+app.get('/api/alerts/rules/:id', async (req, res) => {
+  const rule = await alertService.getRule(req.params.id);
+  if (!rule) return res.status(404).json({ error: `Unknown alert rule: ${req.params.id}` });
+  res.json(rule);
+});
+
+// Partial update: only the given fields change
+app.put('/api/alerts/rules/:id', async (req, res) => {
+  try {
+    const rule = await alertService.updateRule(req.params.id, req.body ?? {});
+    if (!rule) return res.status(404).json({ error: `Unknown alert rule: ${req.params.id}` });
+    res.json(rule);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    res.status(400).json({ error: 'Failed to update alert rule', details: errorMessage });
+  }
+});
+
+app.delete('/api/alerts/rules/:id', async (req, res) => {
+  const deleted = await alertService.deleteRule(req.params.id);
+  if (!deleted) return res.status(404).json({ error: `Unknown alert rule: ${req.params.id}` });
+  res.json({ deleted: true, id: req.params.id });
+});
+
+// Send a sample alert through the rule's sinks
+app.post('/api/alerts/rules/:id/test', async (req, res) => {
+  const deliveries = await alertService.testRule(req.params.id);
+  if (!deliveries) return res.status(404).json({ error: `Unknown alert rule: ${req.params.id}` });
+  res.json({ deliveries });
+});
+
+// ?rule=&symbol=&limit= (newest first)
+app.get('/api/alerts/history', async (req, res) => {
+  const query = queryStrings(req.query, ['rule', 'symbol', 'limit']);
+  if (!query) {
+    return res.status(400).json({ error: 'rule, symbol and limit must each be given once' });
+  }
+  const { rule, symbol, limit = '100' } = query;
+  const limitNum = parseInt(limit, 10);
+  if (isNaN(limitNum) || limitNum <= 0) {
+    return res.status(400).json({ error: 'Limit must be a positive number' });
+  }
+  res.json({ alerts: await alertService.getHistory({ ruleId: rule, symbol, limit: limitNum }) });
+});
+
+app.delete('/api/alerts/history', async (req, res) => {
+  await alertService.clearHistory();
+  res.json({ cleared: true });
+});
+
 // N8N Integration API endpoints
 app.post('/api/n8n/analyze', async (req, res) => {
   try {
-    const { symbol, interval = 'daily', periods = 100, trigger = 'manual' } = req.body;
+    const { symbol, interval = 'daily', periods = 100, trigger = 'manual', config = {} } = req.body;
     
     if (!symbol) {
       return res.status(400).json({ error: 'Symbol is required' });
     }
+    if (!isTimeframe(interval)) {
+      return res.status(400).json({ error: `Unknown interval: ${interval}` });
+    }
+
+    // Preset name or partial config object
+    const resolved = safeResolvePipelineConfig(config);
+    if (!resolved.success) {
+      return res.status(400).json({ error: resolved.error });
+    }
 
     // Run analysis
-    const analysis = await runRealTimeAnalysis(symbol, interval, periods);
+    const analysis = await runRealTimeAnalysis(symbol, interval, periods, resolved.config);
+    const alerts = await evaluateAlerts(analysis, config);
     
     // Send to n8n workflow
     const n8nResult = await n8nService.sendAnalysisToN8N(
@@ -414,6 +949,7 @@ app.post('/api/n8n/analyze', async (req, res) => {
     res.json({
       success: true,
       analysis,
+      alerts,
       n8n: n8nResult,
       timestamp: new Date().toISOString(),
     });
@@ -508,7 +1044,7 @@ app.listen(PORT, () => {
   console.log(`📊 Dashboard: http://localhost:${PORT}`);
   console.log(`� Chat Interface: http://localhost:${PORT} (integrated)`);
   console.log(`�🔗 API: http://localhost:${PORT}/api/analysis`);
-  console.log(`🤖 Individual agents: http://localhost:${PORT}/api/agents/{indicator|pattern|trend|risk}`);
+  console.log(`🤖 Individual agents: http://localhost:${PORT}/api/agents/{${agentRegistry.list().map(def => def.name).join('|')}}`);
   console.log(`💭 Chat API: http://localhost:${PORT}/api/chat/messages`);
   
   // Generate initial analysis
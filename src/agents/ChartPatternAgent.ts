@@ -0,0 +1,317 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * CHART PATTERN AGENT
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Finds structural chart patterns from swing pivots in raw price data
+ *
+ * Features:
+ * - Swing pivot detection (fractal highs/lows)
+ * - Clusters pivots into support/resistance levels
+ * - Detects double tops/bottoms and (inverse) head-and-shoulders
+ * - Detects ascending/descending/symmetrical triangles and channels
+ * - Returns price levels and candle ranges so the dashboard can draw them
+ */
+
+import {
+  AgentContext,
+  Candle,
+  ChartPatternMatch,
+  ChartPatternOut,
+  Pivot,
+  PriceLevel,
+  TrendLine
+} from '../types.js';
+import { atr } from '../utils/technical.js';
+
+export type ChartPatternOptions = {
+  pivotStrength?: number;   // bars on each side a pivot must dominate (default 3)
+  tolerance?: number;       // price tolerance as a multiple of ATR(14) (default 0.5)
+  minTouches?: number;      // pivots required to form a level (default 2)
+  maxLevels?: number;       // strongest levels returned (default 6)
+  trendPivots?: number;     // recent highs/lows used for triangles/channels (default 3)
+};
+
+/**
+ * ChartPatternAgent: pivots → levels → structural patterns
+ *
+ * Rules:
+ * - A pivot high is the highest high within ±pivotStrength bars (lows mirrored)
+ * - Pivots within the price tolerance are clustered into one level
+ * - Equal peaks/troughs and head-and-shoulders are matched on the
+ *   alternating high/low pivot sequence
+ * - Triangles/channels come from regression lines through recent pivots
+ *
+ * @param ctx - Agent context containing candle data
+ * @param options - Pivot and clustering settings
+ * @returns Promise<ChartPatternOut> - JSON with pivots, levels and patterns
+ */
+export async function ChartPatternAgent(
+  ctx: AgentContext,
+  options: ChartPatternOptions = {}
+): Promise<ChartPatternOut> {
+  const {
+    pivotStrength = 3,
+    tolerance = 0.5,
+    minTouches = 2,
+    maxLevels = 6,
+    trendPivots = 3
+  } = options;
+
+  const cs = ctx.candles;
+  const last = cs.at(-1);
+  if (!last || cs.length < 2 * pivotStrength + 1) {
+    return { pivots: [], levels: [], patterns: [] };
+  }
+
+  // Price tolerance in price units (ATR-scaled, 0.2% of price as fallback)
+  const a = atr(cs, 14);
+  const tol = Number.isFinite(a) && a > 0 ? a * tolerance : last.close * 0.002;
+
+  const pivots = findPivots(cs, pivotStrength);
+  const levels = clusterLevels(pivots, tol, minTouches, last.close).slice(0, maxLevels);
+
+  const swings = alternate(pivots);
+  const patterns: ChartPatternMatch[] = [
+    ...findDoubles(swings, tol),
+    ...findHeadAndShoulders(swings, tol),
+    ...findTrendStructures(pivots, tol, trendPivots, cs.length - 1)
+  ].sort((x, y) => x.endIndex - y.endIndex);
+
+  const supports = levels.filter(l => l.kind === 'Support').map(l => l.price);
+  const resistances = levels.filter(l => l.kind === 'Resistance').map(l => l.price);
+
+  return {
+    pivots,
+    levels,
+    patterns,
+    nearestSupport: supports.length ? Math.max(...supports) : undefined,
+    nearestResistance: resistances.length ? Math.min(...resistances) : undefined
+  };
+}
+
+/**
+ * Fractal pivots: highs/lows that dominate `k` bars on each side
+ */
+function findPivots(cs: Candle[], k: number): Pivot[] {
+  const pivots: Pivot[] = [];
+  for (let i = k; i < cs.length - k; i++) {
+    let isHigh = true, isLow = true;
+    for (let j = i - k; j <= i + k; j++) {
+      if (j === i) continue;
+      if (cs[j].high >= cs[i].high) isHigh = false;
+      if (cs[j].low <= cs[i].low) isLow = false;
+    }
+    if (isHigh) pivots.push({ kind: 'High', index: i, time: cs[i].time, price: cs[i].high });
+    if (isLow) pivots.push({ kind: 'Low', index: i, time: cs[i].time, price: cs[i].low });
+  }
+  return pivots;
+}
+
+/**
+ * Greedy 1-D clustering of pivot prices into support/resistance levels
+ */
+function clusterLevels(pivots: Pivot[], tol: number, minTouches: number, close: number): PriceLevel[] {
+  const sorted = [...pivots].sort((a, b) => a.price - b.price);
+  const clusters: Pivot[][] = [];
+
+  for (const p of sorted) {
+    const current = clusters.at(-1);
+    const mean = current ? current.reduce((s, q) => s + q.price, 0) / current.length : NaN;
+    if (current && Math.abs(p.price - mean) <= tol) current.push(p);
+    else clusters.push([p]);
+  }
+
+  return clusters
+    .filter(c => c.length >= minTouches)
+    .map((c): PriceLevel => {
+      const price = c.reduce((s, q) => s + q.price, 0) / c.length;
+      return {
+        kind: price <= close ? 'Support' : 'Resistance',
+        price,
+        touches: c.length,
+        strength: Math.min(1, c.length / 5),
+        firstIndex: Math.min(...c.map(q => q.index)),
+        lastIndex: Math.max(...c.map(q => q.index))
+      };
+    })
+    .sort((a, b) => b.touches - a.touches || b.lastIndex - a.lastIndex);
+}
+
+/**
+ * Reduce pivots to a strictly alternating High/Low sequence,
+ * keeping the more extreme pivot when two of the same kind are adjacent
+ */
+function alternate(pivots: Pivot[]): Pivot[] {
+  const out: Pivot[] = [];
+  for (const p of [...pivots].sort((a, b) => a.index - b.index)) {
+    const prev = out.at(-1);
+    if (prev && prev.kind === p.kind) {
+      const moreExtreme = p.kind === 'High' ? p.price > prev.price : p.price < prev.price;
+      if (moreExtreme) out[out.length - 1] = p;
+    } else {
+      out.push(p);
+    }
+  }
+  return out;
+}
+
+/**
+ * Double tops (H-L-H with equal highs) and double bottoms (L-H-L with equal lows)
+ */
+function findDoubles(swings: Pivot[], tol: number): ChartPatternMatch[] {
+  const out: ChartPatternMatch[] = [];
+  for (let i = 0; i + 2 < swings.length; i++) {
+    const [p1, mid, p2] = swings.slice(i, i + 3);
+    const diff = Math.abs(p1.price - p2.price);
+    const depth = Math.abs((p1.price + p2.price) / 2 - mid.price);
+    if (diff > tol || depth < 4 * tol) continue;
+
+    const isTop = p1.kind === 'High';
+    out.push({
+      pattern: isTop ? 'DoubleTop' : 'DoubleBottom',
+      bias: isTop ? 'Bearish' : 'Bullish',
+      strength: Math.min(1, (1 - diff / tol) * 0.5 + Math.min(1, depth / (6 * tol)) * 0.5),
+      startIndex: p1.index,
+      endIndex: p2.index,
+      keyLevels: [
+        { label: isTop ? 'First peak' : 'First trough', price: p1.price },
+        { label: 'Neckline', price: mid.price },
+        { label: isTop ? 'Second peak' : 'Second trough', price: p2.price }
+      ]
+    });
+  }
+  return out;
+}
+
+/**
+ * Head-and-shoulders (H-L-H-L-H, middle high tallest) and the inverse on lows
+ */
+function findHeadAndShoulders(swings: Pivot[], tol: number): ChartPatternMatch[] {
+  const out: ChartPatternMatch[] = [];
+  for (let i = 0; i + 4 < swings.length; i++) {
+    const [ls, n1, head, n2, rs] = swings.slice(i, i + 5);
+    const top = ls.kind === 'High';
+    const dir = top ? 1 : -1;
+
+    const headProminence = Math.min(dir * (head.price - ls.price), dir * (head.price - rs.price));
+    const shoulderDiff = Math.abs(ls.price - rs.price);
+    if (headProminence < tol || shoulderDiff > 2 * tol) continue;
+
+    out.push({
+      pattern: top ? 'HeadAndShoulders' : 'InverseHeadAndShoulders',
+      bias: top ? 'Bearish' : 'Bullish',
+      strength: Math.min(1, headProminence / (4 * tol)) * (1 - shoulderDiff / (4 * tol)),
+      startIndex: ls.index,
+      endIndex: rs.index,
+      keyLevels: [
+        { label: 'Left shoulder', price: ls.price },
+        { label: 'Head', price: head.price },
+        { label: 'Right shoulder', price: rs.price },
+        { label: 'Neckline', price: (n1.price + n2.price) / 2 }
+      ],
+      lines: {
+        upper: top ? line(ls, rs) : line(n1, n2),
+        lower: top ? line(n1, n2) : line(ls, rs)
+      }
+    });
+  }
+  return out;
+}
+
+/**
+ * Triangles and channels from regression lines through the most recent pivots
+ */
+function findTrendStructures(
+  pivots: Pivot[],
+  tol: number,
+  count: number,
+  lastIndex: number
+): ChartPatternMatch[] {
+  const highs = pivots.filter(p => p.kind === 'High').slice(-count);
+  const lows = pivots.filter(p => p.kind === 'Low').slice(-count);
+  if (highs.length < 2 || lows.length < 2) return [];
+
+  const upperFit = fit(highs);
+  const lowerFit = fit(lows);
+  const start = Math.min(highs[0].index, lows[0].index);
+  const span = Math.max(lastIndex - start, 1);
+
+  // Classify each line by how far it moves across the structure
+  const upperMove = upperFit.slope * span;
+  const lowerMove = lowerFit.slope * span;
+  const dirOf = (move: number) => (move > tol ? 1 : move < -tol ? -1 : 0);
+  const upDir = dirOf(upperMove);
+  const lowDir = dirOf(lowerMove);
+
+  const widthStart = upperFit.at(start) - lowerFit.at(start);
+  const widthEnd = upperFit.at(lastIndex) - lowerFit.at(lastIndex);
+  if (widthStart <= 0 || widthEnd <= 0) return [];
+  const converging = widthStart - widthEnd > tol;
+  const parallel = Math.abs(widthStart - widthEnd) <= tol;
+
+  let pattern: ChartPatternMatch['pattern'] | null = null;
+  let bias: ChartPatternMatch['bias'] = 'Neutral';
+
+  if (converging && upDir === 0 && lowDir === 1) { pattern = 'AscendingTriangle'; bias = 'Bullish'; }
+  else if (converging && upDir === -1 && lowDir === 0) { pattern = 'DescendingTriangle'; bias = 'Bearish'; }
+  else if (converging && upDir === -1 && lowDir === 1) { pattern = 'SymmetricalTriangle'; }
+  else if (parallel && upDir === 1 && lowDir === 1) { pattern = 'AscendingChannel'; bias = 'Bullish'; }
+  else if (parallel && upDir === -1 && lowDir === -1) { pattern = 'DescendingChannel'; bias = 'Bearish'; }
+  else if (parallel && upDir === 0 && lowDir === 0) { pattern = 'HorizontalChannel'; }
+  if (!pattern) return [];
+
+  // Strength: how tightly pivots hug their lines
+  const residual = (upperFit.residual + lowerFit.residual) / 2;
+  const strength = Math.max(0, Math.min(1, 1 - residual / (2 * tol)));
+
+  const upper: TrendLine = { startIndex: start, startPrice: upperFit.at(start), endIndex: lastIndex, endPrice: upperFit.at(lastIndex) };
+  const lower: TrendLine = { startIndex: start, startPrice: lowerFit.at(start), endIndex: lastIndex, endPrice: lowerFit.at(lastIndex) };
+
+  return [{
+    pattern,
+    bias,
+    strength,
+    startIndex: start,
+    endIndex: lastIndex,
+    keyLevels: [
+      { label: 'Upper line', price: upper.endPrice },
+      { label: 'Lower line', price: lower.endPrice }
+    ],
+    lines: { upper, lower }
+  }];
+}
+
+/**
+ * Least-squares line through pivots (price vs index)
+ */
+function fit(points: Pivot[]): { slope: number; at: (i: number) => number; residual: number } {
+  const n = points.length;
+  const mx = points.reduce((s, p) => s + p.index, 0) / n;
+  const my = points.reduce((s, p) => s + p.price, 0) / n;
+  let sxy = 0, sxx = 0;
+  for (const p of points) {
+    sxy += (p.index - mx) * (p.price - my);
+    sxx += (p.index - mx) ** 2;
+  }
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  const at = (i: number) => my + slope * (i - mx);
+  const residual = Math.sqrt(points.reduce((s, p) => s + (p.price - at(p.index)) ** 2, 0) / n);
+  return { slope, at, residual };
+}
+
+function line(a: Pivot, b: Pivot): TrendLine {
+  return { startIndex: a.index, startPrice: a.price, endIndex: b.index, endPrice: b.price };
+}
+
+/**
+ * Standalone function to run ChartPatternAgent with raw candle data
+ * @param candles - Array of OHLCV candles
+ * @param options - Pivot and clustering settings
+ * @returns Promise<ChartPatternOut> - Chart pattern analysis results
+ */
+export async function runChartPatternAgent(
+  candles: Candle[],
+  options: ChartPatternOptions = {}
+): Promise<ChartPatternOut> {
+  return ChartPatternAgent({ candles }, options);
+}
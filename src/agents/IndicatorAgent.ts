@@ -5,56 +5,114 @@
  * Agent that indicates the Bullish or Bearish Market (Overbought/Oversold)
  * 
  * Features:
- * - Computes RSI(14) from OHLCV candles
+ * - Computes RSI(14) from OHLCV candles (Wilder smoothing by default)
  * - Labels market regime: {Bullish, Bearish, Neutral}
  * - Flags overbought (RSI ≥ 70) and oversold (RSI ≤ 30) conditions
  * - Confidence grows with |RSI-50| deviation from neutral
+ * - Optional extra readings: SMA, MACD, Bollinger, ATR, Stochastic, ADX, OBV, VWAP
+ * - Uses the incremental RSI reading (ctx.readings) when supplied
  */
 
-import { AgentContext, IndicatorOut } from '../types.js';
-import { rsi } from '../utils/technical.js';
+import { AgentContext, IndicatorOut, RsiMethod, Candle, ExtraIndicator } from '../types.js';
+import { rsi, sma, macd, bollinger, atr, stochastic, adx, obv, vwap } from '../utils/technical.js';
+import { currentReading, rsiKey } from '../utils/incremental.js';
+
+export type IndicatorOptions = {
+  rsiPeriod?: number;        // default 14
+  rsiMethod?: RsiMethod;     // default 'wilder' (matches standard charting tools)
+  extras?: ExtraIndicator[]; // additional readings to include (standard periods)
+  overbought?: number;       // RSI ≥ overbought flags overbought (default 70)
+  oversold?: number;         // RSI ≤ oversold flags oversold (default 30)
+  bullishAbove?: number;     // RSI ≥ bullishAbove → Bullish regime (default 60)
+  bearishBelow?: number;     // RSI ≤ bearishBelow → Bearish regime (default 40)
+};
 
 /**
  * IndicatorAgent: RSI + simple regime labeling
  * 
  * Rules:
- * - regime ∈ {Bullish, Bearish, Neutral}
- * - overbought = RSI ≥ 70, oversold = RSI ≤ 30
+ * - regime ∈ {Bullish, Bearish, Neutral} (RSI ≥ 60 / ≤ 40 by default)
+ * - overbought = RSI ≥ 70, oversold = RSI ≤ 30 (configurable)
  * - confidence ∈ [0,1], grows with |RSI-50|
  * 
  * @param ctx - Agent context containing candle data
+ * @param options - RSI period, smoothing method and thresholds
  * @returns Promise<IndicatorOut> - JSON with RSI, regime, flags, and confidence
  */
-export async function IndicatorAgent(ctx: AgentContext): Promise<IndicatorOut> {
-  const closes = ctx.candles.map(c => c.close);
-  const rsiVal = rsi(closes, 14);
+export async function IndicatorAgent(
+  ctx: AgentContext,
+  options: IndicatorOptions = {}
+): Promise<IndicatorOut> {
+  const {
+    rsiPeriod = 14,
+    rsiMethod = 'wilder',
+    extras = [],
+    overbought: overboughtAt = 70,
+    oversold: oversoldAt = 30,
+    bullishAbove = 60,
+    bearishBelow = 40
+  } = options;
+  const rsiVal = currentReading(ctx, 'rsi', rsiKey(rsiPeriod, rsiMethod))
+    ?? rsi(ctx.candles.map(c => c.close), rsiPeriod, rsiMethod);
   
   // Overbought/Oversold flags
-  const overbought = rsiVal >= 70;
-  const oversold = rsiVal <= 30;
+  const overbought = rsiVal >= overboughtAt;
+  const oversold = rsiVal <= oversoldAt;
 
   // Market regime classification
   let regime: IndicatorOut['regime'] = 'Neutral';
-  if (rsiVal >= 60) regime = 'Bullish';
-  else if (rsiVal <= 40) regime = 'Bearish';
+  if (rsiVal >= bullishAbove) regime = 'Bullish';
+  else if (rsiVal <= bearishBelow) regime = 'Bearish';
 
-  // Confidence grows as RSI departs from 50 (neutral)
-  const confidence = Math.min(1, Math.abs(rsiVal - 50) / 30);
+  // Confidence grows as RSI departs from 50 (neutral); none before RSI has enough bars (NaN)
+  const confidence = Number.isFinite(rsiVal) ? Math.min(1, Math.abs(rsiVal - 50) / 30) : 0;
 
   return { 
     rsi: rsiVal, 
+    rsiMethod,
+    rsiPeriod,
     overbought, 
     oversold, 
     regime, 
-    confidence 
+    confidence,
+    ...computeExtras(ctx.candles, extras)
   };
 }
 
+/**
+ * Compute the optional indicator readings that were requested
+ * @param candles - Array of OHLCV candles
+ * @param extras - Indicators to include
+ * @returns Partial IndicatorOut with only the requested readings
+ */
+function computeExtras(candles: Candle[], extras: ExtraIndicator[]): Partial<IndicatorOut> {
+  const closes = candles.map(c => c.close);
+  const out: Partial<IndicatorOut> = {};
+
+  for (const name of extras) {
+    switch (name) {
+      case 'sma':        out.sma = sma(closes, 20); break;
+      case 'macd':       out.macd = macd(closes); break;
+      case 'bollinger':  out.bollinger = bollinger(closes); break;
+      case 'atr':        out.atr = atr(candles); break;
+      case 'stochastic': out.stochastic = stochastic(candles); break;
+      case 'adx':        out.adx = adx(candles); break;
+      case 'obv':        out.obv = obv(candles); break;
+      case 'vwap':       out.vwap = vwap(candles); break;
+    }
+  }
+  return out;
+}
+
 /**
  * Standalone function to run IndicatorAgent with raw candle data
  * @param candles - Array of OHLCV candles
+ * @param options - RSI period and smoothing method
  * @returns Promise<IndicatorOut> - Indicator analysis results
  */
-export async function runIndicatorAgent(candles: any[]): Promise<IndicatorOut> {
-  return IndicatorAgent({ candles });
+export async function runIndicatorAgent(
+  candles: Candle[],
+  options: IndicatorOptions = {}
+): Promise<IndicatorOut> {
+  return IndicatorAgent({ candles }, options);
 }
\ No newline at end of file
@@ -3,45 +3,102 @@
  * PATTERN AGENT
  * ──────────────────────────────────────────────────────────────────────────────
  * Makes clear candlestick charts directly from raw price data
- * 
+ *
  * Features:
- * - Detects dominant candlestick patterns from OHLCV data
- * - Supports: BullishEngulfing, BearishEngulfing, Doji, None
- * - Calculates pattern strength based on body size ratios
+ * - Detects candlestick patterns from OHLCV data over a lookback window
+ * - Single-candle: Doji, Hammer, InvertedHammer, ShootingStar, HangingMan, Marubozu
+ * - Two-candle: Engulfing, Harami, PiercingLine, DarkCloudCover, Tweezers
+ * - Three-candle: MorningStar, EveningStar, ThreeWhiteSoldiers, ThreeBlackCrows
+ * - Calculates pattern strength based on body/shadow ratios
  * - Real-time pattern recognition for trading signals
  */
 
-import { AgentContext, PatternOut, Candle } from '../types.js';
+import { AgentContext, PatternOut, PatternMatch, Candle } from '../types.js';
+
+export type PatternOptions = {
+  lookback?: number;    // candles scanned for completed patterns (default 10)
+  dojiBodyPct?: number; // max body as a fraction of close for a doji (default 0.001)
+};
+
+type PatternName = PatternMatch['pattern'];
+
+const PATTERN_BIAS: Record<PatternName, PatternMatch['bias']> = {
+  BullishEngulfing: 'Bullish',
+  BearishEngulfing: 'Bearish',
+  Doji: 'Neutral',
+  Hammer: 'Bullish',
+  InvertedHammer: 'Bullish',
+  ShootingStar: 'Bearish',
+  HangingMan: 'Bearish',
+  MorningStar: 'Bullish',
+  EveningStar: 'Bearish',
+  ThreeWhiteSoldiers: 'Bullish',
+  ThreeBlackCrows: 'Bearish',
+  BullishHarami: 'Bullish',
+  BearishHarami: 'Bearish',
+  PiercingLine: 'Bullish',
+  DarkCloudCover: 'Bearish',
+  TweezerTop: 'Bearish',
+  TweezerBottom: 'Bullish',
+  BullishMarubozu: 'Bullish',
+  BearishMarubozu: 'Bearish'
+};
 
 /**
- * PatternAgent: Basic candlestick patterns (2-candle engulfing + doji)
- * 
+ * PatternAgent: Candlestick pattern scan over the last `lookback` candles
+ *
  * Rules:
  * - Doji if body is tiny relative to price (~0.1% of close)
  * - Engulfing if last body fully covers previous body with opposite color
+ * - Hammer-type shapes are named by the preceding move (hammer vs hanging man)
  * - strength ∈ [0,1] ~ body-size-ratio or clarity
- * 
+ * - pattern/strength report the strongest match on the last candle
+ *
  * @param ctx - Agent context containing candle data
- * @returns Promise<PatternOut> - JSON with pattern type and strength
+ * @param options - Lookback window and doji threshold
+ * @returns Promise<PatternOut> - JSON with pattern type, strength and all matches
  */
-export async function PatternAgent(ctx: AgentContext): Promise<PatternOut> {
+export async function PatternAgent(ctx: AgentContext, options: PatternOptions = {}): Promise<PatternOut> {
+  const { lookback = 10, dojiBodyPct = 0.001 } = options;
   const cs = ctx.candles;
-  if (cs.length < 2) return { pattern: 'None', strength: 0 };
+  if (cs.length < 2) return { pattern: 'None', strength: 0, matches: [] };
 
-  const prev = cs[cs.length - 2];
-  const last = cs[cs.length - 1];
+  const matches: PatternMatch[] = [];
+  for (let i = Math.max(1, cs.length - lookback); i < cs.length; i++) {
+    for (const [pattern, strength] of detectAt(cs, i, dojiBodyPct)) {
+      matches.push({ pattern, bias: PATTERN_BIAS[pattern], strength, index: i, time: cs[i].time });
+    }
+  }
+
+  // Headline pattern: strongest match completing on the last candle
+  const latest = matches
+    .filter(m => m.index === cs.length - 1)
+    .sort((a, b) => b.strength - a.strength)[0];
+
+  if (!latest) return { pattern: 'None', strength: 0, matches };
+  return { pattern: latest.pattern, strength: latest.strength, matches };
+}
+
+/**
+ * Detect every pattern that completes on candle i
+ * @returns List of [pattern, strength] pairs
+ */
+function detectAt(cs: Candle[], i: number, dojiBodyPct: number): Array<[PatternName, number]> {
+  const found: Array<[PatternName, number]> = [];
+  const last = cs[i];
+  const prev = cs[i - 1];
+  const prior = priorMove(cs, i);
 
   // Calculate candle body sizes
   const prevBody = Math.abs(prev.close - prev.open);
   const lastBody = Math.abs(last.close - last.open);
-  
-  // Helper function to check if body is tiny (Doji condition)
-  const isTinyBody = (bodySize: number, price: number) => 
-    bodySize <= (0.001 * price);
+  const range = last.high - last.low;
+  const upper = last.high - Math.max(last.open, last.close);
+  const lower = Math.min(last.open, last.close) - last.low;
 
-  // Check for Doji pattern
-  const isDoji = isTinyBody(lastBody, last.close);
-  if (isDoji) return { pattern: 'Doji', strength: 0.4 };
+  // Helper function to check if body is tiny (Doji condition)
+  const isTinyBody = (bodySize: number, price: number) =>
+    bodySize <= (dojiBodyPct * price);
 
   // Determine candle colors (bullish/bearish)
   const lastBull = last.close > last.open;
@@ -49,35 +106,139 @@ export async function PatternAgent(ctx: AgentContext): Promise<PatternOut> {
   const prevBull = prev.close > prev.open;
   const prevBear = prev.close < prev.open;
 
-  // Check for engulfing pattern
+  // ── Single-candle patterns ──────────────────────────────────────────────────
+  const isDoji = isTinyBody(lastBody, last.close);
+  if (isDoji) found.push(['Doji', 0.4]);
+
+  if (!isDoji && range > 0 && lastBody <= 0.35 * range) {
+    // Long lower shadow, little upper shadow: hammer / hanging man
+    if (lower >= 2 * lastBody && upper <= 0.1 * range) {
+      const strength = Math.min(1, lower / range);
+      if (prior === 'down') found.push(['Hammer', strength]);
+      else if (prior === 'up') found.push(['HangingMan', strength]);
+    }
+    // Long upper shadow, little lower shadow: inverted hammer / shooting star
+    if (upper >= 2 * lastBody && lower <= 0.1 * range) {
+      const strength = Math.min(1, upper / range);
+      if (prior === 'down') found.push(['InvertedHammer', strength]);
+      else if (prior === 'up') found.push(['ShootingStar', strength]);
+    }
+  }
+
+  if (!isDoji && range > 0 && lastBody >= 0.95 * range) {
+    found.push([lastBull ? 'BullishMarubozu' : 'BearishMarubozu', Math.min(1, lastBody / range)]);
+  }
+
+  // ── Two-candle patterns ─────────────────────────────────────────────────────
   // Engulfing: body of last candle fully engulfs previous body
   const engulfs =
     Math.min(last.open, last.close) <= Math.min(prev.open, prev.close) &&
     Math.max(last.open, last.close) >= Math.max(prev.open, prev.close);
 
-  // Bullish Engulfing: bullish candle engulfs previous bearish candle
-  if (lastBull && prevBear && engulfs) {
-    const strength = Math.min(1, lastBody / (prevBody + 1e-9));
-    return { pattern: 'BullishEngulfing', strength };
+  if (!isDoji && lastBull && prevBear && engulfs) {
+    found.push(['BullishEngulfing', Math.min(1, lastBody / (prevBody + 1e-9))]);
+  }
+  if (!isDoji && lastBear && prevBull && engulfs) {
+    found.push(['BearishEngulfing', Math.min(1, lastBody / (prevBody + 1e-9))]);
   }
 
-  // Bearish Engulfing: bearish candle engulfs previous bullish candle
-  if (lastBear && prevBull && engulfs) {
-    const strength = Math.min(1, lastBody / (prevBody + 1e-9));
-    return { pattern: 'BearishEngulfing', strength };
+  // Harami: small body contained inside the previous (opposite-colour) body
+  const inside =
+    Math.min(last.open, last.close) > Math.min(prev.open, prev.close) &&
+    Math.max(last.open, last.close) < Math.max(prev.open, prev.close);
+
+  if (inside && lastBull && prevBear) {
+    found.push(['BullishHarami', Math.min(1, 1 - lastBody / (prevBody + 1e-9))]);
+  }
+  if (inside && lastBear && prevBull) {
+    found.push(['BearishHarami', Math.min(1, 1 - lastBody / (prevBody + 1e-9))]);
   }
 
-  // No significant pattern detected
-  return { pattern: 'None', strength: 0 };
+  // Piercing line / dark cloud cover: open beyond prior close, close past its midpoint
+  const prevMid = (prev.open + prev.close) / 2;
+  if (prevBear && lastBull && last.open < prev.close && last.close > prevMid && last.close < prev.open) {
+    found.push(['PiercingLine', Math.min(1, (last.close - prevMid) / (prevBody / 2 + 1e-9))]);
+  }
+  if (prevBull && lastBear && last.open > prev.close && last.close < prevMid && last.close > prev.open) {
+    found.push(['DarkCloudCover', Math.min(1, (prevMid - last.close) / (prevBody / 2 + 1e-9))]);
+  }
+
+  // Tweezers: matching extremes with a colour change at the end of a move
+  const tolerance = 0.0005 * last.close;
+  if (prior === 'down' && prevBear && lastBull && Math.abs(last.low - prev.low) <= tolerance) {
+    found.push(['TweezerBottom', 1 - Math.abs(last.low - prev.low) / (tolerance + 1e-12) * 0.5]);
+  }
+  if (prior === 'up' && prevBull && lastBear && Math.abs(last.high - prev.high) <= tolerance) {
+    found.push(['TweezerTop', 1 - Math.abs(last.high - prev.high) / (tolerance + 1e-12) * 0.5]);
+  }
+
+  // ── Three-candle patterns ───────────────────────────────────────────────────
+  if (i >= 2) {
+    const first = cs[i - 2];
+    const firstBody = Math.abs(first.close - first.open);
+    const firstMid = (first.open + first.close) / 2;
+    const starSmall = prevBody <= 0.3 * firstBody;
+
+    // Stars: long body, small-bodied star beyond it, strong reversal candle
+    if (first.close < first.open && starSmall && Math.max(prev.open, prev.close) <= first.close &&
+        lastBull && last.close > firstMid) {
+      found.push(['MorningStar', Math.min(1, (last.close - firstMid) / (firstBody / 2 + 1e-9))]);
+    }
+    if (first.close > first.open && starSmall && Math.min(prev.open, prev.close) >= first.close &&
+        lastBear && last.close < firstMid) {
+      found.push(['EveningStar', Math.min(1, (firstMid - last.close) / (firstBody / 2 + 1e-9))]);
+    }
+
+    // Three soldiers / crows: three strong same-colour bodies, each opening inside the prior body
+    const trio = [first, prev, last];
+    const strongBodies = trio.every(c => Math.abs(c.close - c.open) >= 0.5 * (c.high - c.low) && c.high > c.low);
+    const opensInside = [1, 2].every(k => {
+      const c = trio[k], p = trio[k - 1];
+      return c.open >= Math.min(p.open, p.close) && c.open <= Math.max(p.open, p.close);
+    });
+
+    if (strongBodies && opensInside) {
+      const avgFill = trio.reduce((s, c) => s + Math.abs(c.close - c.open) / (c.high - c.low), 0) / 3;
+      if (trio.every(c => c.close > c.open) && first.close < prev.close && prev.close < last.close) {
+        found.push(['ThreeWhiteSoldiers', Math.min(1, avgFill)]);
+      }
+      if (trio.every(c => c.close < c.open) && first.close > prev.close && prev.close > last.close) {
+        found.push(['ThreeBlackCrows', Math.min(1, avgFill)]);
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Direction of the move leading into candle i (close of i-1 vs ~5 bars earlier)
+ */
+function priorMove(cs: Candle[], i: number, bars = 5): 'up' | 'down' | 'flat' {
+  const end = cs[i - 1].close;
+  const start = cs[Math.max(0, i - 1 - bars)].close;
+  if (end > start) return 'up';
+  if (end < start) return 'down';
+  return 'flat';
 }
 
 /**
  * Standalone function to run PatternAgent with raw candle data
  * @param candles - Array of OHLCV candles
+ * @param options - Lookback window and doji threshold
  * @returns Promise<PatternOut> - Pattern analysis results
  */
-export async function runPatternAgent(candles: Candle[]): Promise<PatternOut> {
-  return PatternAgent({ candles });
+export async function runPatternAgent(candles: Candle[], options: PatternOptions = {}): Promise<PatternOut> {
+  return PatternAgent({ candles }, options);
+}
+
+/**
+ * Directional bias of a pattern
+ * @param pattern - Pattern type
+ * @returns Bullish, Bearish or Neutral
+ */
+export function getPatternBias(pattern: PatternOut['pattern']): PatternMatch['bias'] {
+  return pattern === 'None' ? 'Neutral' : PATTERN_BIAS[pattern];
 }
 
 /**
@@ -93,8 +254,40 @@ export function getPatternDescription(pattern: PatternOut['pattern']): string {
       return 'Bearish reversal signal: Large red candle engulfs previous green candle';
     case 'Doji':
       return 'Indecision signal: Open and close prices are nearly equal';
+    case 'Hammer':
+      return 'Bullish reversal signal: Long lower shadow after a decline, buyers rejected lower prices';
+    case 'InvertedHammer':
+      return 'Bullish reversal signal: Long upper shadow after a decline, buyers testing higher';
+    case 'ShootingStar':
+      return 'Bearish reversal signal: Long upper shadow after a rally, sellers rejected higher prices';
+    case 'HangingMan':
+      return 'Bearish warning: Long lower shadow after a rally, selling pressure appearing';
+    case 'MorningStar':
+      return 'Bullish reversal signal: Red candle, small star, then strong green candle';
+    case 'EveningStar':
+      return 'Bearish reversal signal: Green candle, small star, then strong red candle';
+    case 'ThreeWhiteSoldiers':
+      return 'Bullish continuation: Three strong green candles closing progressively higher';
+    case 'ThreeBlackCrows':
+      return 'Bearish continuation: Three strong red candles closing progressively lower';
+    case 'BullishHarami':
+      return 'Bullish reversal signal: Small green body inside previous red body';
+    case 'BearishHarami':
+      return 'Bearish reversal signal: Small red body inside previous green body';
+    case 'PiercingLine':
+      return 'Bullish reversal signal: Green candle closes above midpoint of previous red candle';
+    case 'DarkCloudCover':
+      return 'Bearish reversal signal: Red candle closes below midpoint of previous green candle';
+    case 'TweezerTop':
+      return 'Bearish reversal signal: Matching highs at the end of a rally';
+    case 'TweezerBottom':
+      return 'Bullish reversal signal: Matching lows at the end of a decline';
+    case 'BullishMarubozu':
+      return 'Strong buying: Green candle with almost no shadows';
+    case 'BearishMarubozu':
+      return 'Strong selling: Red candle with almost no shadows';
     case 'None':
     default:
       return 'No significant pattern detected';
   }
-}
\ No newline at end of file
+}
@@ -2,34 +2,115 @@
  * ──────────────────────────────────────────────────────────────────────────────
  * RISK AGENT
  * ──────────────────────────────────────────────────────────────────────────────
- * Uses fixed stop-loss value ρ = 0.0005 to reflect short-term price movements
+ * Sets the stop-loss distance with a configurable stop mode and derives the take-profit
  * 
  * Features:
- * - Fixed stop-loss: ρ = 0.0005 (0.05% of price)
+ * - Stop modes (stopMode): fixed ρ (0.0005 = 0.05% of price, the default), ATR multiple,
+ *   beyond the recent swing low/high, percentile of realized volatility, or beyond the
+ *   nearest support/resistance level; falls back to fixed ρ when a mode lacks data
+ * - Output records the mode used, the stop distance in price units and as % of price
+ * - Optional take-profit at the nearest opposing level (r kept within [min, max])
  * - Dynamic risk multiplier: r ∈ [1.2, 1.8] based on market context
  * - Take-profit calculation: R = r * ρ
  * - Context-aware risk adjustment using other agent outputs
+ * - Optional position size from the portfolio module (fixed-fractional, Kelly,
+ *   vol-target, risk parity) within exposure limits
+ * - Opt-in round-trip trading costs per asset class: setups whose expected reward is
+ *   negative after costs are flagged (or, on request, not sized), and the size is
+ *   capped at a share of average bar volume
  * - Optional LLM-based intelligent risk tuning
  */
 
 import 'dotenv/config';
-import { AgentContext, RiskOut } from '../types.js';
+import { AgentContext, RiskOut, StopMode, Candle, PositionSizing, CostAssessment } from '../types.js';
+import { atr } from '../utils/technical.js';
+import { currentReading } from '../utils/incremental.js';
+import { getPatternBias } from './PatternAgent.js';
+import { sizePosition, instrumentSpec, annualizedVolatility, InstrumentSpec, SizingRequest } from '../portfolio.js';
+import { costModel, estimateCosts, averageVolume, netOfCosts, CostModel, DEFAULT_MAX_PARTICIPATION } from '../costs.js';
+
+export type RiskOptions = {
+  stopMode?: StopMode;     // default 'fixed'
+  fixedRho?: number;       // fixed mode: stop as fraction of price (default 0.0005)
+  atrPeriod?: number;      // atr mode: ATR period (default 14)
+  atrMultiplier?: number;  // atr mode: stop = k × ATR (default 2)
+  swingLookback?: number;  // swing mode: bars searched for the swing low/high (default 20)
+  swingBuffer?: number;    // swing mode: extra distance as fraction of price (default 0.001)
+  volLookback?: number;    // volatility mode: bars of returns sampled (default 100)
+  volPercentile?: number;  // volatility mode: percentile of |returns| used (default 0.9)
+  levelBuffer?: number;    // level mode: extra distance beyond the level as fraction of price (default 0.001)
+  targetMode?: 'multiplier' | 'level'; // take-profit at r × ρ or at the nearest opposing level (default 'multiplier')
+  heuristic?: Partial<RiskHeuristic>;  // weights for the heuristic r selection
+  sizing?: SizingOptions;              // position sizing; skipped unless equity is set
+  costs?: CostOptions;                 // trading costs; assessed when enabled
+};
+
+export type CostOptions = Partial<CostModel> & {
+  enabled?: boolean;        // default false
+  winRate?: number;         // expectancy win probability (default sizing.winRate, else 0.5)
+  rejectNegative?: boolean; // zero the size of setups with negative net expectancy (default false)
+  maxParticipation?: number; // size cap as a share of average bar volume (default 0.1)
+};
+
+export type SizingOptions =
+  Partial<Omit<SizingRequest,
+    'price' | 'stopDistance' | 'side' | 'rewardRisk' | 'volatility' | 'instrument' | 'averageVolume' | 'maxParticipation'>> &
+  Partial<Pick<InstrumentSpec, 'assetClass' | 'contractMultiplier' | 'lotStep' | 'minQuantity' | 'leverage'>>;
+
+export type RiskHeuristic = {
+  base: number;                // starting multiplier (default 1.5)
+  indicatorWeight: number;     // ± for Bullish/Bearish RSI regime (default 0.15)
+  trendWeight: number;         // ± for Uptrend/Downtrend (default 0.1)
+  patternWeight: number;       // ± for bullish/bearish candlestick pattern (default 0.05)
+  confidenceThreshold: number; // indicator confidence above which the bonus applies (default 0.7)
+  confidenceBonus: number;     // (default 0.05)
+  strengthThreshold: number;   // trend strength above which the bonus applies (default 0.6)
+  strengthBonus: number;       // + in an uptrend, - otherwise (default 0.05)
+  min: number;                 // clamp range for r (default 1.2–1.8)
+  max: number;
+};
+
+export const DEFAULT_RISK_HEURISTIC: RiskHeuristic = {
+  base: 1.5,
+  indicatorWeight: 0.15,
+  trendWeight: 0.1,
+  patternWeight: 0.05,
+  confidenceThreshold: 0.7,
+  confidenceBonus: 0.05,
+  strengthThreshold: 0.6,
+  strengthBonus: 0.05,
+  min: 1.2,
+  max: 1.8
+};
+
+type StopResult = {
+  mode: StopMode;
+  distance: number;        // price units
+  note: string;
+};
 
 /**
- * RiskAgent: Fixed rho + LLM/heuristic r in [1.2, 1.8]
+ * RiskAgent: Stop-loss ρ (fixed or adaptive) + LLM/heuristic r in [1.2, 1.8]
  * 
  * Guidance:
- * - Strong Uptrend + Bullish + BullishEngulfing → r ≈ 1.7–1.8
+ * - Strong Uptrend + Bullish + bullish pattern → r ≈ 1.7–1.8
  * - Sideways/uncertain → r ≈ 1.5
- * - Downtrend/Bearish/BearishEngulfing → r ≈ 1.2–1.3
+ * - Downtrend/Bearish/bearish pattern → r ≈ 1.2–1.3
  * 
  * @param ctx - Agent context containing other agent outputs
- * @returns Promise<RiskOut> - JSON with rho, rMultiplier, takeProfit, commentary
+ * @param options - Stop-loss mode and its parameters
+ * @returns Promise<RiskOut> - JSON with rho, rMultiplier, takeProfit, stop details, commentary
  */
-export async function RiskAgent(ctx: AgentContext): Promise<RiskOut> {
-  // Fixed stop-loss value reflecting short-term price movements
-  const rho = 0.0005; // 0.05% stop-loss
+export async function RiskAgent(ctx: AgentContext, options: RiskOptions = {}): Promise<RiskOut> {
+  const referencePrice = ctx.candles.at(-1)?.close ?? 0;
+  const stop = computeStop(ctx, options, referencePrice);
+
+  // Stop-loss as a fraction of price; fixed mode keeps ρ exact
+  const rho = stop.mode === 'fixed'
+    ? (options.fixedRho ?? 0.0005)
+    : stop.distance / referencePrice;
   
+  const heuristic = { ...DEFAULT_RISK_HEURISTIC, ...options.heuristic };
   const useLLM = !!process.env.OPENAI_API_KEY;
 
   // Build context summary from other agents
@@ -39,43 +120,319 @@ export async function RiskAgent(ctx: AgentContext): Promise<RiskOut> {
     trend: ctx.trend
   };
 
-  let rMultiplier = 1.5; // Conservative fallback
+  let rMultiplier = heuristic.base; // Conservative fallback
   let commentary = 'Heuristic risk selection based on market context.';
 
   if (useLLM) {
     try {
-      rMultiplier = await getLLMRiskMultiplier(summary);
+      rMultiplier = await getLLMRiskMultiplier(summary, rho, heuristic.min, heuristic.max);
       commentary = 'LLM-selected risk multiplier based on market analysis.';
     } catch (err) {
-      rMultiplier = getHeuristicRiskMultiplier(ctx);
+      rMultiplier = getHeuristicRiskMultiplier(ctx, heuristic);
       commentary = `LLM fallback to heuristic: ${String(err).slice(0, 50)}...`;
     }
   } else {
-    rMultiplier = getHeuristicRiskMultiplier(ctx);
+    rMultiplier = getHeuristicRiskMultiplier(ctx, heuristic);
+  }
+
+  if (options.targetMode === 'level') {
+    const target = levelTargetMultiplier(ctx, rho * referencePrice, referencePrice, heuristic);
+    if (target) {
+      rMultiplier = target.r;
+      commentary += ` ${target.note}`;
+    }
   }
 
   const takeProfit = rMultiplier * rho;
+  if (stop.note) commentary += ` ${stop.note}`;
+
+  const stopDistance = rho * referencePrice;
+  const model = referencePrice > 0 ? costModelFor(options) : undefined;
+
+  let sizing = options.sizing?.equity
+    ? sizeForContext(ctx, options.sizing, stopDistance, rMultiplier, referencePrice, model, options.costs?.maxParticipation)
+    : undefined;
+
+  let costs: CostAssessment | undefined;
+  if (model) {
+    costs = assessCosts(ctx, options, model, sizing, stopDistance, rMultiplier, referencePrice);
+    if (costs.rejected && sizing) sizing = rejectSizing(sizing);
+  }
+  if (sizing) commentary += ` ${describeSizing(sizing)}`;
+  if (costs) commentary += ` ${costs.note}`;
   
   return { 
     rho, 
     rMultiplier, 
     takeProfit, 
-    commentary 
+    commentary,
+    stopMode: stop.mode,
+    stopDistance: rho * referencePrice,
+    stopPercent: rho * 100,
+    referencePrice,
+    ...(sizing && { sizing }),
+    ...(costs && { costs })
+  };
+}
+
+/**
+ * Size the trade implied by the context: direction from the bias,
+ * Kelly payoff from r, volatility from the last 100 returns; round-trip
+ * costs are risked with the stop and the size is capped at a share of
+ * average bar volume
+ */
+function sizeForContext(
+  ctx: AgentContext,
+  options: SizingOptions,
+  stopDistance: number,
+  rMultiplier: number,
+  price: number,
+  model?: CostModel,
+  maxParticipation = DEFAULT_MAX_PARTICIPATION
+): PositionSizing {
+  const { assetClass, contractMultiplier, lotStep, minQuantity, leverage, ...request } = options;
+  const volume = model ? averageVolume(ctx.candles) : undefined;
+  const size = (costPerUnit?: number) => sizePosition({
+    ...request,
+    equity: options.equity!,
+    price,
+    stopDistance,
+    side: isBearishBias(ctx) ? 'Short' : 'Long',
+    rewardRisk: rMultiplier,
+    volatility: annualizedVolatility(ctx.candles.slice(-101)),
+    instrument: { assetClass, contractMultiplier, lotStep, minQuantity, leverage },
+    costPerUnit,
+    fixedCosts: model ? 2 * model.fixedFee : undefined,
+    averageVolume: volume,
+    maxParticipation: model ? maxParticipation : undefined
+  });
+  if (!model) return size();
+
+  // Market impact grows with size: size once without it, then again with the impact at that size
+  const first = size(estimateCosts(model, { price, includeFixed: false }).perUnit);
+  if (first.quantity === 0 || volume === undefined) return first;
+  return size(estimateCosts(model, { price, quantity: first.quantity, averageVolume: volume, includeFixed: false }).perUnit);
+}
+
+/**
+ * Cost model for the configured instrument: asset class from risk.costs, else from
+ * the sizing instrument; undefined when costs are disabled
+ * @param options - Risk options (costs overrides, sizing symbol / asset class)
+ */
+export function costModelFor(options: RiskOptions): CostModel | undefined {
+  const { enabled = false, winRate, rejectNegative, maxParticipation, ...overrides } = options.costs ?? {};
+  if (!enabled) return undefined;
+  return costModel(options.sizing?.symbol, { ...overrides, assetClass: overrides.assetClass ?? options.sizing?.assetClass });
+}
+
+/**
+ * Round-trip costs of the setup and its expectancy net of them.
+ * With a size, costs include fixed fees and market impact at that size;
+ * without one they are per unit, excluding fixed fees.
+ */
+function assessCosts(
+  ctx: AgentContext,
+  options: RiskOptions,
+  model: CostModel,
+  sizing: PositionSizing | undefined,
+  stopDistance: number,
+  rMultiplier: number,
+  price: number
+): CostAssessment {
+  const sized = !!sizing && sizing.quantity > 0;
+  const roundTrip = sized
+    ? estimateCosts(model, {
+        price,
+        quantity: sizing!.quantity,
+        contractMultiplier: instrumentSpec(options.sizing?.symbol, {
+          assetClass: options.sizing?.assetClass,
+          contractMultiplier: options.sizing?.contractMultiplier
+        }).contractMultiplier,
+        averageVolume: averageVolume(ctx.candles)
+      }).perUnit
+    : estimateCosts(model, { price, includeFixed: false }).perUnit;
+  const winRate = options.costs?.winRate ?? options.sizing?.winRate ?? 0.5;
+  const net = netOfCosts({ stopDistance, targetDistance: stopDistance * rMultiplier, costPerUnit: roundTrip, winRate });
+  const rejected = !net.viable && !!options.costs?.rejectNegative;
+
+  const roundTripBps = roundTrip / price * 10_000;
+  const costToStop = stopDistance > 0 ? roundTrip / stopDistance : Infinity;
+  const verdict = net.viable
+    ? `net r ${net.netRewardRisk.toFixed(2)}`
+    : `negative expected reward after costs (net r ${net.netRewardRisk.toFixed(2)}, p=${winRate.toFixed(2)})${rejected ? '; rejected' : ''}`;
+
+  return {
+    assetClass: model.assetClass,
+    roundTrip,
+    roundTripBps,
+    spreadBps: model.spreadBps,
+    costToStop,
+    netRewardRisk: net.netRewardRisk,
+    expectancy: net.expectancy,
+    viable: net.viable,
+    rejected,
+    note: `Costs: ${roundTripBps.toFixed(1)} bps round trip (${(costToStop * 100).toFixed(0)}% of the stop, ${model.assetClass}), ${verdict}.`
   };
 }
 
+function rejectSizing(sizing: PositionSizing): PositionSizing {
+  return {
+    ...sizing,
+    quantity: 0,
+    notional: 0,
+    riskAmount: 0,
+    riskFraction: 0,
+    exposure: 0,
+    margin: 0,
+    limitedBy: [...sizing.limitedBy, 'costs'],
+    note: `${sizing.note} Rejected: negative expected reward after costs.`.trim()
+  };
+}
+
+function describeSizing(sizing: PositionSizing): string {
+  if (sizing.quantity === 0) return `Size: none (${sizing.method}). ${sizing.note}`.trim();
+  const capped = sizing.limitedBy.length > 0 ? `; capped by ${sizing.limitedBy.join(', ')}` : '';
+  return (
+    `Size: ${sizing.quantity} (${sizing.method}, risk ${(sizing.riskFraction * 100).toFixed(2)}% of equity, ` +
+    `exposure ${sizing.exposure.toFixed(2)}×${capped}). ${sizing.note}`
+  ).trim();
+}
+
+/**
+ * Compute the stop-loss distance for the requested mode.
+ * Falls back to the fixed stop when there is not enough data.
+ */
+function computeStop(ctx: AgentContext, options: RiskOptions, price: number): StopResult {
+  const {
+    stopMode = 'fixed',
+    fixedRho = 0.0005,
+    atrPeriod = 14,
+    atrMultiplier = 2,
+    swingLookback = 20,
+    swingBuffer = 0.001,
+    volLookback = 100,
+    volPercentile = 0.9,
+    levelBuffer = 0.001
+  } = options;
+
+  const fixed: StopResult = { mode: 'fixed', distance: fixedRho * price, note: '' };
+  const fallback = (why: string): StopResult =>
+    ({ ...fixed, note: `${stopMode} stop unavailable (${why}); using fixed ρ.` });
+
+  if (stopMode === 'fixed' || price <= 0) return fixed;
+  const candles = ctx.candles;
+
+  switch (stopMode) {
+    case 'atr': {
+      const a = currentReading(ctx, 'atr', atrPeriod) ?? atr(candles, atrPeriod);
+      if (!Number.isFinite(a) || a <= 0) return fallback(`need ${atrPeriod} candles`);
+      return { mode: 'atr', distance: atrMultiplier * a, note: `Stop = ${atrMultiplier}×ATR(${atrPeriod}).` };
+    }
+    case 'swing': {
+      if (candles.length < 2) return fallback('need at least 2 candles');
+      const window = candles.slice(-swingLookback);
+      const short = isBearishBias(ctx);
+      const level = short
+        ? Math.max(...window.map(c => c.high)) * (1 + swingBuffer)
+        : Math.min(...window.map(c => c.low)) * (1 - swingBuffer);
+      const distance = Math.abs(price - level);
+      if (distance <= 0) return fallback('price at swing extreme');
+      return {
+        mode: 'swing',
+        distance,
+        note: `Stop beyond ${swingLookback}-bar swing ${short ? 'high' : 'low'} at ${level.toFixed(5)}.`
+      };
+    }
+    case 'volatility': {
+      const moves = absReturns(candles.slice(-(volLookback + 1)));
+      if (moves.length < 10) return fallback('need at least 11 candles');
+      const q = percentile(moves, volPercentile);
+      if (q <= 0) return fallback('no price movement');
+      return {
+        mode: 'volatility',
+        distance: q * price,
+        note: `Stop = p${Math.round(volPercentile * 100)} of |returns| over ${moves.length} bars.`
+      };
+    }
+    case 'level': {
+      const short = isBearishBias(ctx);
+      const level = short ? ctx.chart?.nearestResistance : ctx.chart?.nearestSupport;
+      if (level === undefined) return fallback(`no ${short ? 'resistance' : 'support'} level`);
+      const buffered = short ? level * (1 + levelBuffer) : level * (1 - levelBuffer);
+      const distance = Math.abs(price - buffered);
+      if (distance <= 0) return fallback('price at level');
+      return {
+        mode: 'level',
+        distance,
+        note: `Stop beyond ${short ? 'resistance' : 'support'} at ${level.toFixed(5)}.`
+      };
+    }
+  }
+  return fixed;
+}
+
+/**
+ * Reward-to-risk multiple for a take-profit at the nearest opposing level,
+ * clamped to the heuristic r range like the other targets
+ * @returns r and a commentary note, or null when no usable level exists
+ */
+function levelTargetMultiplier(
+  ctx: AgentContext,
+  stopDistance: number,
+  price: number,
+  bounds: Pick<RiskHeuristic, 'min' | 'max'>
+): { r: number; note: string } | null {
+  if (stopDistance <= 0) return null;
+  const short = isBearishBias(ctx);
+  const level = short ? ctx.chart?.nearestSupport : ctx.chart?.nearestResistance;
+  if (level === undefined) return null;
+
+  const reward = short ? price - level : level - price;
+  if (reward <= 0) return null;
+  const raw = Math.round((reward / stopDistance) * 100) / 100;
+  const r = Math.min(bounds.max, Math.max(bounds.min, raw));
+  const clamped = r !== raw ? `, clamped from ${raw.toFixed(2)}` : '';
+  return { r, note: `Target at ${short ? 'support' : 'resistance'} ${level.toFixed(5)} (r=${r.toFixed(2)}${clamped}).` };
+}
+
+/**
+ * Bearish bias (short-side stop) when trend or regime points down
+ */
+function isBearishBias(ctx: AgentContext): boolean {
+  return ctx.trend?.trend === 'Downtrend' ||
+    (ctx.trend?.trend !== 'Uptrend' && ctx.indicator?.regime === 'Bearish');
+}
+
+function absReturns(candles: Candle[]): number[] {
+  const out: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const prev = candles[i - 1].close;
+    if (prev > 0) out.push(Math.abs(candles[i].close / prev - 1));
+  }
+  return out;
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil(p * sorted.length) - 1));
+  return sorted[idx];
+}
+
 /**
  * Get risk multiplier using LLM analysis
  * @param summary - Context summary from other agents
- * @returns Promise<number> - Risk multiplier between 1.2 and 1.8
+ * @param rho - Stop-loss as a fraction of price
+ * @param min - Lowest acceptable multiplier (default 1.2)
+ * @param max - Highest acceptable multiplier (default 1.8)
+ * @returns Promise<number> - Risk multiplier between min and max
  */
-async function getLLMRiskMultiplier(summary: any): Promise<number> {
+async function getLLMRiskMultiplier(summary: any, rho: number, min = 1.2, max = 1.8): Promise<number> {
   const { OpenAI } = await import('openai');
   const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
   
   const prompt = `
-You are RiskAgent. Choose r in [1.2, 1.8] (float with 2 decimals) for take-profit R = r * rho.
-Fixed stop-loss: ρ = 0.0005 (0.05%)
+You are RiskAgent. Choose r in [${min.toFixed(2)}, ${max.toFixed(2)}] (float with 2 decimals) for take-profit R = r * rho.
+Stop-loss: ρ = ${rho.toFixed(5)} (${(rho * 100).toFixed(3)}%)
 
 Market Context:
 ${JSON.stringify(summary, null, 2)}
@@ -103,7 +460,7 @@ Return ONLY the number (e.g., 1.65).
   const raw = (resp.choices[0]?.message?.content || '').trim();
   const parsed = Number.parseFloat(raw);
   
-  if (!Number.isNaN(parsed) && parsed >= 1.2 && parsed <= 1.8) {
+  if (!Number.isNaN(parsed) && parsed >= min && parsed <= max) {
     return Math.round(parsed * 100) / 100;
   }
   
@@ -113,36 +470,38 @@ Return ONLY the number (e.g., 1.65).
 /**
  * Get risk multiplier using heuristic analysis
  * @param ctx - Agent context
- * @returns number - Risk multiplier between 1.2 and 1.8
+ * @param h - Heuristic weights
+ * @returns number - Risk multiplier between h.min and h.max (1.2–1.8 by default)
  */
-function getHeuristicRiskMultiplier(ctx: AgentContext): number {
+function getHeuristicRiskMultiplier(ctx: AgentContext, h: RiskHeuristic = DEFAULT_RISK_HEURISTIC): number {
   // Base multiplier
-  let multiplier = 1.5;
+  let multiplier = h.base;
   
   // Indicator bias
-  if (ctx.indicator?.regime === 'Bullish') multiplier += 0.15;
-  else if (ctx.indicator?.regime === 'Bearish') multiplier -= 0.15;
+  if (ctx.indicator?.regime === 'Bullish') multiplier += h.indicatorWeight;
+  else if (ctx.indicator?.regime === 'Bearish') multiplier -= h.indicatorWeight;
   
   // Trend bias
-  if (ctx.trend?.trend === 'Uptrend') multiplier += 0.1;
-  else if (ctx.trend?.trend === 'Downtrend') multiplier -= 0.1;
+  if (ctx.trend?.trend === 'Uptrend') multiplier += h.trendWeight;
+  else if (ctx.trend?.trend === 'Downtrend') multiplier -= h.trendWeight;
   
   // Pattern bias
-  if (ctx.pattern?.pattern === 'BullishEngulfing') multiplier += 0.05;
-  else if (ctx.pattern?.pattern === 'BearishEngulfing') multiplier -= 0.05;
+  const patternBias = ctx.pattern ? getPatternBias(ctx.pattern.pattern) : 'Neutral';
+  if (patternBias === 'Bullish') multiplier += h.patternWeight;
+  else if (patternBias === 'Bearish') multiplier -= h.patternWeight;
   
   // Confidence adjustment
-  if (ctx.indicator?.confidence && ctx.indicator.confidence > 0.7) {
-    multiplier += 0.05; // Higher confidence = slightly more aggressive
+  if (ctx.indicator?.confidence && ctx.indicator.confidence > h.confidenceThreshold) {
+    multiplier += h.confidenceBonus; // Higher confidence = slightly more aggressive
   }
   
   // Strength adjustment
-  if (ctx.trend?.strength && ctx.trend.strength > 0.6) {
-    multiplier += ctx.trend.trend === 'Uptrend' ? 0.05 : -0.05;
+  if (ctx.trend?.strength && ctx.trend.strength > h.strengthThreshold) {
+    multiplier += ctx.trend.trend === 'Uptrend' ? h.strengthBonus : -h.strengthBonus;
   }
   
   // Clamp to valid range
-  return Math.min(1.8, Math.max(1.2, multiplier));
+  return Math.min(h.max, Math.max(h.min, multiplier));
 }
 
 /**
@@ -150,19 +509,39 @@ function getHeuristicRiskMultiplier(ctx: AgentContext): number {
  * @param indicator - Indicator agent output
  * @param pattern - Pattern agent output  
  * @param trend - Trend agent output
+ * @param candles - OHLCV candles (needed for adaptive stop modes)
+ * @param options - Stop-loss mode and its parameters
  * @returns Promise<RiskOut> - Risk analysis results
  */
 export async function runRiskAgent(
   indicator?: any, 
   pattern?: any, 
-  trend?: any
+  trend?: any,
+  candles: Candle[] = [],
+  options: RiskOptions = {}
 ): Promise<RiskOut> {
   return RiskAgent({ 
-    candles: [], 
+    candles, 
     indicator, 
     pattern, 
     trend 
-  });
+  }, options);
+}
+
+/**
+ * Stop-loss distance in price units for a given entry price.
+ * Percent-based modes (fixed, volatility) scale with the entry price;
+ * price-unit modes (atr, swing, level) keep their absolute distance.
+ * @param riskOut - Risk agent output
+ * @param entryPrice - Entry price for the position
+ * @returns Stop distance in price units
+ */
+export function stopDistanceAt(riskOut: RiskOut, entryPrice: number): number {
+  const priceUnitMode = riskOut.stopMode === 'atr' || riskOut.stopMode === 'swing' || riskOut.stopMode === 'level';
+  if (priceUnitMode && riskOut.stopDistance > 0) {
+    return riskOut.stopDistance;
+  }
+  return entryPrice * riskOut.rho;
 }
 
 /**
@@ -171,15 +550,21 @@ export async function runRiskAgent(
  * @param riskPercentage - Risk percentage per trade (e.g., 0.02 for 2%)
  * @param entryPrice - Entry price for the position
  * @param riskOut - Risk agent output
+ * @param instrument - Contract multiplier and lot rounding (default: unrounded units)
  * @returns Position size
  */
 export function calculatePositionSize(
   accountBalance: number,
   riskPercentage: number,
   entryPrice: number,
-  riskOut: RiskOut
+  riskOut: RiskOut,
+  instrument?: Partial<InstrumentSpec>
 ): number {
   const riskAmount = accountBalance * riskPercentage;
-  const stopLossDistance = entryPrice * riskOut.rho;
-  return riskAmount / stopLossDistance;
+  const stopLossDistance = stopDistanceAt(riskOut, entryPrice);
+  if (!instrument) return riskAmount / stopLossDistance;
+
+  const spec = instrumentSpec(instrument.symbol, instrument);
+  const quantity = Math.floor(riskAmount / (stopLossDistance * spec.contractMultiplier) / spec.lotStep + 1e-9) * spec.lotStep;
+  return quantity >= spec.minQuantity ? quantity : 0;
 }
\ No newline at end of file
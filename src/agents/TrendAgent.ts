@@ -9,10 +9,19 @@
  * - Recent slope calculation to measure momentum
  * - Trend strength quantification based on EMA divergence
  * - Real-time trend classification: Uptrend, Downtrend, Sideways
+ * - Uses incremental readings (ctx.readings) when supplied instead of recomputing
  */
 
 import { AgentContext, TrendOut, Candle } from '../types.js';
 import { ema, simpleSlope } from '../utils/technical.js';
+import { currentReading } from '../utils/incremental.js';
+
+export type TrendOptions = {
+  fastPeriod?: number;     // fast EMA period (default 12)
+  slowPeriod?: number;     // slow EMA period (default 26)
+  slopeLookback?: number;  // bars used for the slope (default 12)
+  bandPct?: number;        // EMA band treated as Sideways, fraction of slow EMA (default 0.001)
+};
 
 /**
  * TrendAgent: EMA cross + slope strength analysis
@@ -23,27 +32,31 @@ import { ema, simpleSlope } from '../utils/technical.js';
  * - Include emaFast (EMA12), emaSlow (EMA26), slope
  * 
  * @param ctx - Agent context containing candle data
+ * @param options - EMA periods, slope lookback and sideways band
  * @returns Promise<TrendOut> - JSON with trend, EMAs, slope, and strength
  */
-export async function TrendAgent(ctx: AgentContext): Promise<TrendOut> {
+export async function TrendAgent(ctx: AgentContext, options: TrendOptions = {}): Promise<TrendOut> {
   const closes = ctx.candles.map(c => c.close);
   
   // EMA periods for trend analysis
-  const fastPeriod = 12;
-  const slowPeriod = 26;
+  const {
+    fastPeriod = 12,
+    slowPeriod = 26,
+    slopeLookback = 12,
+    bandPct = 0.001
+  } = options;
   
-  // Calculate EMAs using sufficient data
-  const dataSlice = closes.slice(-Math.max(slowPeriod, fastPeriod));
-  const emaFast = ema(dataSlice, fastPeriod);
-  const emaSlow = ema(dataSlice, slowPeriod);
+  // EMAs over the full history (the incremental readings carry the same recursion)
+  const emaFast = currentReading(ctx, 'ema', fastPeriod) ?? ema(closes, fastPeriod);
+  const emaSlow = currentReading(ctx, 'ema', slowPeriod) ?? ema(closes, slowPeriod);
   
   // Calculate recent price momentum
-  const slopeVal = simpleSlope(closes, 12);
+  const slopeVal = currentReading(ctx, 'slope', slopeLookback) ?? simpleSlope(closes, slopeLookback);
 
   // Determine trend direction based on EMA crossover
   let trend: TrendOut['trend'] = 'Sideways';
-  if (emaFast > emaSlow * 1.001) trend = 'Uptrend';
-  else if (emaFast < emaSlow * 0.999) trend = 'Downtrend';
+  if (emaFast > emaSlow * (1 + bandPct)) trend = 'Uptrend';
+  else if (emaFast < emaSlow * (1 - bandPct)) trend = 'Downtrend';
 
   // Calculate trend strength based on EMA divergence
   const emaDivergence = Math.abs((emaFast - emaSlow) / Math.max(emaSlow, 1e-9));
@@ -54,17 +67,20 @@ export async function TrendAgent(ctx: AgentContext): Promise<TrendOut> {
     emaFast, 
     emaSlow, 
     slope: slopeVal, 
-    strength 
+    strength,
+    fastPeriod,
+    slowPeriod
   };
 }
 
 /**
  * Standalone function to run TrendAgent with raw candle data
  * @param candles - Array of OHLCV candles
+ * @param options - EMA periods, slope lookback and sideways band
  * @returns Promise<TrendOut> - Trend analysis results
  */
-export async function runTrendAgent(candles: Candle[]): Promise<TrendOut> {
-  return TrendAgent({ candles });
+export async function runTrendAgent(candles: Candle[], options: TrendOptions = {}): Promise<TrendOut> {
+  return TrendAgent({ candles }, options);
 }
 
 /**
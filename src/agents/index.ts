@@ -5,7 +5,11 @@
  */
 
 export { IndicatorAgent, runIndicatorAgent } from './IndicatorAgent.js';
-export { PatternAgent, runPatternAgent, getPatternDescription } from './PatternAgent.js';
+export type { IndicatorOptions } from './IndicatorAgent.js';
+export { PatternAgent, runPatternAgent, getPatternDescription, getPatternBias } from './PatternAgent.js';
+export type { PatternOptions } from './PatternAgent.js';
+export { ChartPatternAgent, runChartPatternAgent } from './ChartPatternAgent.js';
+export type { ChartPatternOptions } from './ChartPatternAgent.js';
 export { 
   TrendAgent, 
   runTrendAgent, 
@@ -13,8 +17,21 @@ export {
   isBullishTrend, 
   isBearishTrend 
 } from './TrendAgent.js';
+export type { TrendOptions } from './TrendAgent.js';
 export { 
   RiskAgent, 
   runRiskAgent, 
-  calculatePositionSize 
-} from './RiskAgent.js';
\ No newline at end of file
+  calculatePositionSize,
+  stopDistanceAt,
+  costModelFor,
+  DEFAULT_RISK_HEURISTIC
+} from './RiskAgent.js';
+export type { RiskOptions, RiskHeuristic, SizingOptions, CostOptions } from './RiskAgent.js';
+export {
+  AgentRegistry,
+  agentRegistry,
+  registerAgent,
+  registerBuiltInAgents,
+  runRegisteredAgent
+} from './registry.js';
+export type { AgentDefinition } from './registry.js';
\ No newline at end of file
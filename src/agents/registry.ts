@@ -0,0 +1,229 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * AGENT REGISTRY
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Named agent registrations with dependencies and output schemas
+ *
+ * Features:
+ * - Register custom agents alongside the built-in Indicator/Pattern/Chart/Trend/Risk agents
+ * - Resolves dependencies into execution stages (agents in a stage run concurrently)
+ * - Detects unknown dependencies and cycles
+ * - Validates agent output against an optional zod schema
+ */
+
+import { z } from 'zod';
+import { AgentContext, PatternOut, ChartPatternOut, ChartPatternMatch } from '../types.js';
+import { IndicatorAgent } from './IndicatorAgent.js';
+import { PatternAgent, getPatternBias } from './PatternAgent.js';
+import { ChartPatternAgent } from './ChartPatternAgent.js';
+import { TrendAgent } from './TrendAgent.js';
+import { RiskAgent } from './RiskAgent.js';
+
+export type AgentDefinition<TOut = unknown, TOptions = any> = {
+  name: string;                          // context key the output is stored under
+  description?: string;
+  dependsOn?: string[];                  // agents whose outputs this agent reads
+  outputSchema?: z.ZodType<TOut>;        // validated after every run
+  run: (ctx: AgentContext, options?: TOptions) => Promise<TOut>;
+  describe?: (output: TOut) => string;   // optional narrative line
+  signal?: (output: TOut, ctx: AgentContext) => number; // directional vote in [-1, 1] for signal aggregation
+};
+
+// Context keys the pipeline fills itself
+const RESERVED_NAMES = ['candles', 'readings'];
+
+export class AgentRegistry {
+  private agents = new Map<string, AgentDefinition>();
+
+  /**
+   * Register (or replace) an agent
+   */
+  register<TOut, TOptions>(definition: AgentDefinition<TOut, TOptions>): this {
+    if (!definition.name || RESERVED_NAMES.includes(definition.name)) {
+      throw new Error(`Invalid agent name: "${definition.name}"`);
+    }
+    this.agents.set(definition.name, definition as AgentDefinition);
+    return this;
+  }
+
+  /**
+   * Remove an agent registration
+   */
+  unregister(name: string): boolean {
+    return this.agents.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.agents.has(name);
+  }
+
+  get(name: string): AgentDefinition | undefined {
+    return this.agents.get(name);
+  }
+
+  list(): AgentDefinition[] {
+    return [...this.agents.values()];
+  }
+
+  /**
+   * Resolve agents and their dependencies into execution stages
+   * @param targets - Agents to run (default: all registered)
+   * @returns Stages of agent names; agents within a stage are independent
+   */
+  resolveStages(targets?: string[]): string[][] {
+    const needed = new Set<string>();
+    const visit = (name: string, from?: string) => {
+      if (needed.has(name)) return;
+      const def = this.agents.get(name);
+      if (!def) {
+        throw new Error(from
+          ? `Agent "${from}" depends on unknown agent "${name}"`
+          : `Unknown agent "${name}"`);
+      }
+      needed.add(name);
+      for (const dep of def.dependsOn ?? []) visit(dep, name);
+    };
+    for (const name of targets ?? [...this.agents.keys()]) visit(name);
+
+    // Kahn's algorithm, grouped by depth
+    const stages: string[][] = [];
+    const done = new Set<string>();
+    while (done.size < needed.size) {
+      const ready = [...needed].filter(name =>
+        !done.has(name) &&
+        (this.agents.get(name)!.dependsOn ?? []).every(dep => done.has(dep))
+      );
+      if (ready.length === 0) {
+        const remaining = [...needed].filter(name => !done.has(name));
+        throw new Error(`Circular agent dependencies between: ${remaining.join(', ')}`);
+      }
+      ready.forEach(name => done.add(name));
+      stages.push(ready);
+    }
+    return stages;
+  }
+}
+
+// ── Built-in registrations ───────────────────────────────────────────────────
+
+const biasSchema = z.enum(['Bullish', 'Bearish', 'Neutral']);
+
+// A chart pattern votes only while its last pivot is this many bars from the latest candle or fewer
+// (pivots are confirmed pivotStrength bars later, 3 by default)
+const CHART_SIGNAL_MAX_AGE = 10;
+
+const biasSign = (bias: string): number =>
+  bias === 'Bullish' || bias === 'Uptrend' ? 1 :
+  bias === 'Bearish' || bias === 'Downtrend' ? -1 : 0;
+
+/**
+ * Register the built-in agents on a registry
+ * @param registry - Registry to populate
+ * @returns The same registry
+ */
+export function registerBuiltInAgents(registry: AgentRegistry): AgentRegistry {
+  return registry
+    .register({
+      name: 'indicator',
+      description: 'RSI regime, overbought/oversold flags and optional extra indicators',
+      outputSchema: z.object({
+        regime: biasSchema,
+        overbought: z.boolean(),
+        oversold: z.boolean(),
+        confidence: z.number()
+      }).passthrough(),
+      run: IndicatorAgent,
+      signal: out => biasSign(out.regime) * out.confidence
+    })
+    .register({
+      name: 'pattern',
+      description: 'Candlestick patterns over the lookback window',
+      outputSchema: z.object({
+        pattern: z.string(),
+        strength: z.number(),
+        matches: z.array(z.object({ pattern: z.string(), index: z.number() }).passthrough())
+      }).passthrough(),
+      run: PatternAgent,
+      signal: out => biasSign(getPatternBias(out.pattern as PatternOut['pattern'])) * out.strength
+    })
+    .register({
+      name: 'chart',
+      description: 'Support/resistance levels and structural chart patterns',
+      outputSchema: z.object({
+        pivots: z.array(z.unknown()),
+        levels: z.array(z.unknown()),
+        patterns: z.array(z.unknown())
+      }).passthrough(),
+      run: ChartPatternAgent,
+      signal: (out, ctx) => {
+        const lastIndex = ctx.candles.length - 1;
+        const latest = (out as ChartPatternOut).patterns
+          .filter(p => lastIndex - p.endIndex <= CHART_SIGNAL_MAX_AGE)
+          .reduce<ChartPatternMatch | undefined>((best, p) => (!best || p.endIndex >= best.endIndex ? p : best), undefined);
+        return latest ? biasSign(latest.bias) * latest.strength : 0;
+      }
+    })
+    .register({
+      name: 'trend',
+      description: 'EMA crossover trend direction and strength',
+      outputSchema: z.object({
+        trend: z.enum(['Uptrend', 'Downtrend', 'Sideways']),
+        emaFast: z.number(),
+        emaSlow: z.number(),
+        slope: z.number(),
+        strength: z.number()
+      }).passthrough(),
+      run: TrendAgent,
+      signal: out => biasSign(out.trend) * out.strength
+    })
+    .register({
+      name: 'risk',
+      description: 'Stop-loss and take-profit selection',
+      dependsOn: ['indicator', 'pattern', 'chart', 'trend'],
+      outputSchema: z.object({
+        rho: z.number(),
+        rMultiplier: z.number(),
+        takeProfit: z.number(),
+        commentary: z.string()
+      }).passthrough(),
+      run: RiskAgent
+    });
+}
+
+/**
+ * Default registry used by the orchestrator
+ */
+export const agentRegistry = registerBuiltInAgents(new AgentRegistry());
+
+/**
+ * Register a custom agent on the default registry
+ * @param definition - Agent definition
+ */
+export function registerAgent<TOut, TOptions>(definition: AgentDefinition<TOut, TOptions>): void {
+  agentRegistry.register(definition);
+}
+
+/**
+ * Run one registered agent and validate its output
+ * @param definition - Agent definition
+ * @param ctx - Context holding candles and dependency outputs
+ * @param options - Agent-specific options
+ * @returns Validated agent output
+ */
+export async function runRegisteredAgent(
+  definition: AgentDefinition,
+  ctx: AgentContext,
+  options?: unknown
+): Promise<unknown> {
+  const output = await definition.run(ctx, options);
+  if (!definition.outputSchema) return output;
+
+  const parsed = definition.outputSchema.safeParse(output);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new Error(
+      `Agent "${definition.name}" produced invalid output: ${issue.path.join('.') || '(root)'} ${issue.message}`
+    );
+  }
+  return output;
+}
@@ -0,0 +1,365 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * ALERT RULES
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Conditions over agent outputs, written as JSON or a small expression language
+ *
+ * Features:
+ * - Fields are dot paths into the analysis facts: every agent output (indicator.rsi,
+ *   trend.trend, risk.stopDistance, ...), signal.score/sentiment, price, symbol, interval
+ * - Comparisons (> >= < <= == !=), crossings (crosses above/below) and state changes
+ *   (changes, changes to "Uptrend") against the previous run of the same symbol/interval
+ * - and / or / not with parentheses; JSON form: { all }, { any }, { not }, { field, op, value | ref }
+ * - Validated rule definitions (zod) with debounce, cooldown, trigger mode and sinks
+ *
+ * DSL example:
+ *   indicator.rsi crosses below 30 and trend.trend == "Uptrend"
+ */
+
+import { z } from 'zod';
+import { AgentContext, SignalScore } from './types.js';
+
+export const ALERT_OPERATORS = ['>', '>=', '<', '<=', '==', '!=', 'crossesAbove', 'crossesBelow', 'changes'] as const;
+export type AlertOperator = typeof ALERT_OPERATORS[number];
+
+export type AlertValue = number | string | boolean;
+
+export type AlertComparison = {
+  field: string;            // dot path into the facts
+  op: AlertOperator;
+  value?: AlertValue;       // literal operand (optional for 'changes')
+  ref?: string;             // or another field as the operand
+};
+
+export type AlertCondition =
+  | AlertComparison
+  | { all: AlertCondition[] }
+  | { any: AlertCondition[] }
+  | { not: AlertCondition };
+
+/** Values a rule is evaluated against: agent outputs plus run metadata */
+export type AlertFacts = Record<string, unknown> & {
+  symbol: string;
+  interval: string;
+  price: number;            // last close
+  time: number;             // last candle time (unix seconds)
+  signal?: SignalScore;
+};
+
+const valueSchema = z.union([z.number(), z.string(), z.boolean()]);
+
+export const alertConditionSchema: z.ZodType<AlertCondition> = z.lazy(() => z.union([
+  z.object({ all: z.array(alertConditionSchema).min(1) }).strict(),
+  z.object({ any: z.array(alertConditionSchema).min(1) }).strict(),
+  z.object({ not: alertConditionSchema }).strict(),
+  z.object({
+    field: z.string().min(1),
+    op: z.enum(ALERT_OPERATORS),
+    value: valueSchema.optional(),
+    ref: z.string().min(1).optional()
+  }).strict().refine(c => c.op === 'changes' || (c.value !== undefined) !== (c.ref !== undefined), {
+    message: 'comparison needs exactly one of value or ref'
+  })
+]));
+
+export const alertSinkSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('n8n'), level: z.enum(['info', 'warning', 'error', 'success']).default('warning') }),
+  z.object({
+    type: z.literal('webhook'),
+    url: z.string().url().refine(url => /^https?:\/\//i.test(url), { message: 'webhook url must use http or https' }),
+    headers: z.record(z.string()).optional()
+  }),
+  z.object({ type: z.literal('email'), to: z.array(z.string().email()).min(1), subject: z.string().optional() })
+]);
+
+export const alertRuleSchema = z.object({
+  name: z.string().min(1),
+  enabled: z.boolean().default(true),
+  symbols: z.array(z.string().min(1)).default([]),     // empty: every symbol
+  intervals: z.array(z.string().min(1)).default([]),   // empty: every interval
+  expression: z.string().min(1).optional(),            // DSL form of the condition
+  condition: alertConditionSchema.optional(),          // JSON form (derived from expression when omitted)
+  trigger: z.enum(['state-change', 'always']).default('state-change'), // state-change: fire on false → true only
+  debounce: z.number().int().min(1).default(1),       // consecutive true runs before firing
+  cooldownSec: z.number().min(0).default(300),         // minimum gap between alerts per symbol/interval
+  sinks: z.array(alertSinkSchema).default([]),         // none: history only
+  message: z.string().optional()                       // template: {rule}, {symbol}, {interval}, {field.path}
+})
+  .superRefine((rule, issue) => {
+    if ((rule.expression === undefined) === (rule.condition === undefined)) {
+      issue.addIssue({ code: z.ZodIssueCode.custom, path: ['expression'], message: 'provide exactly one of expression or condition' });
+      return;
+    }
+    if (rule.expression !== undefined) {
+      try {
+        parseAlertExpression(rule.expression);
+      } catch (error) {
+        issue.addIssue({ code: z.ZodIssueCode.custom, path: ['expression'], message: (error as Error).message });
+      }
+    }
+  })
+  .transform(rule => ({ ...rule, condition: rule.condition ?? parseAlertExpression(rule.expression!) }));
+
+export type AlertRuleInput = z.input<typeof alertRuleSchema>;
+export type AlertRuleDefinition = z.output<typeof alertRuleSchema>;
+export type AlertSink = z.output<typeof alertSinkSchema>;
+
+/**
+ * Validate a rule definition
+ * @returns The rule with defaults filled in and the condition parsed, or the first error
+ */
+export function safeParseAlertRule(
+  input: unknown
+): { success: true; rule: AlertRuleDefinition } | { success: false; error: string } {
+  const parsed = alertRuleSchema.safeParse(input);
+  if (parsed.success) return { success: true, rule: parsed.data };
+  const issue = parsed.error.issues[0];
+  return { success: false, error: `Invalid alert rule: ${issue.path.join('.') || 'rule'}: ${issue.message}` };
+}
+
+/**
+ * Facts for one analysis run
+ * @param ctx - Pipeline context
+ * @param meta - Symbol, interval and (optionally) the aggregated signal
+ */
+export function alertFacts(
+  ctx: AgentContext,
+  meta: { symbol: string; interval: string; signal?: SignalScore }
+): AlertFacts {
+  const outputs = Object.fromEntries(
+    Object.entries(ctx).filter(([key, value]) => key !== 'candles' && key !== 'readings' && value !== undefined)
+  );
+  const last = ctx.candles.at(-1);
+  return {
+    ...outputs,
+    symbol: meta.symbol.toUpperCase(),
+    interval: meta.interval,
+    price: last?.close ?? NaN,
+    time: last?.time ?? NaN,
+    signal: meta.signal
+  };
+}
+
+/**
+ * Resolve a dot path (array indices and .length work too)
+ */
+export function factValue(facts: Record<string, unknown>, path: string): unknown {
+  let value: unknown = facts;
+  for (const key of path.split('.')) {
+    if (value === null || value === undefined) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Evaluate a condition
+ * @param condition - JSON condition
+ * @param facts - Current run
+ * @param previous - Previous run of the same symbol/interval (crossings and changes are false without it)
+ */
+export function evaluateCondition(condition: AlertCondition, facts: AlertFacts, previous?: AlertFacts): boolean {
+  if ('all' in condition) return condition.all.every(c => evaluateCondition(c, facts, previous));
+  if ('any' in condition) return condition.any.some(c => evaluateCondition(c, facts, previous));
+  if ('not' in condition) return !evaluateCondition(condition.not, facts, previous);
+
+  const { field, op } = condition;
+  const operand = (f: AlertFacts) => (condition.ref !== undefined ? factValue(f, condition.ref) : condition.value);
+  const now = factValue(facts, field);
+  if (now === undefined) return false;
+
+  if (op === 'changes') {
+    if (!previous) return false;
+    const before = factValue(previous, field);
+    return before !== undefined && !sameValue(before, now) && (condition.value === undefined || sameValue(now, condition.value));
+  }
+
+  const target = operand(facts);
+  if (op === 'crossesAbove' || op === 'crossesBelow') {
+    if (!previous) return false;
+    const before = factValue(previous, field);
+    const targetBefore = operand(previous);
+    if (![now, target, before, targetBefore].every(v => typeof v === 'number' && Number.isFinite(v))) return false;
+    return op === 'crossesAbove'
+      ? (before as number) <= (targetBefore as number) && (now as number) > (target as number)
+      : (before as number) >= (targetBefore as number) && (now as number) < (target as number);
+  }
+
+  return compare(now, op, target);
+}
+
+/**
+ * Every field path a condition reads (for alert payloads)
+ */
+export function conditionFields(condition: AlertCondition): string[] {
+  if ('all' in condition) return unique(condition.all.flatMap(conditionFields));
+  if ('any' in condition) return unique(condition.any.flatMap(conditionFields));
+  if ('not' in condition) return conditionFields(condition.not);
+  return unique(condition.ref !== undefined ? [condition.field, condition.ref] : [condition.field]);
+}
+
+/**
+ * Render a condition in the expression language
+ */
+export function formatCondition(condition: AlertCondition): string {
+  if ('all' in condition) return condition.all.map(c => group(c, 'and')).join(' and ');
+  if ('any' in condition) return condition.any.map(c => group(c, 'or')).join(' or ');
+  if ('not' in condition) return `not ${group(condition.not, 'not')}`;
+
+  const operand = condition.ref ?? (condition.value !== undefined ? JSON.stringify(condition.value) : '');
+  switch (condition.op) {
+    case 'crossesAbove': return `${condition.field} crosses above ${operand}`;
+    case 'crossesBelow': return `${condition.field} crosses below ${operand}`;
+    case 'changes': return condition.value !== undefined ? `${condition.field} changes to ${operand}` : `${condition.field} changes`;
+    default: return `${condition.field} ${condition.op} ${operand}`;
+  }
+}
+
+// ─── Expression language ─────────────────────────────────────────────────────
+//
+//   expr       := and ( ('or' | '||') and )*
+//   and        := unary ( ('and' | '&&') unary )*
+//   unary      := ('not' | '!') unary | '(' expr ')' | comparison
+//   comparison := path ( cmp operand | 'crosses' ('above' | 'below') operand | 'changes' ('to' operand)? )
+//   operand    := number | "string" | 'string' | true | false | path
+
+type Token = { kind: 'path' | 'number' | 'string' | 'op' | 'paren'; text: string; value?: AlertValue };
+
+const KEYWORDS = new Set(['and', 'or', 'not', 'crosses', 'above', 'below', 'changes', 'to', 'true', 'false']);
+
+/**
+ * Parse an alert expression into a JSON condition
+ * @throws With the offending position when the expression is malformed
+ */
+export function parseAlertExpression(expression: string): AlertCondition {
+  const tokens = tokenize(expression);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isWord = (word: string) => peek()?.kind === 'path' && peek().text.toLowerCase() === word;
+  const fail = (what: string): never => {
+    const token = peek();
+    throw new Error(`Expected ${what} ${token ? `at "${token.text}"` : 'at end of expression'}`);
+  };
+
+  const parseOr = (): AlertCondition => {
+    const parts = [parseAnd()];
+    while (isWord('or') || peek()?.text === '||') { pos++; parts.push(parseAnd()); }
+    return parts.length === 1 ? parts[0] : { any: parts };
+  };
+
+  const parseAnd = (): AlertCondition => {
+    const parts = [parseUnary()];
+    while (isWord('and') || peek()?.text === '&&') { pos++; parts.push(parseUnary()); }
+    return parts.length === 1 ? parts[0] : { all: parts };
+  };
+
+  const parseUnary = (): AlertCondition => {
+    if (isWord('not') || peek()?.text === '!') { pos++; return { not: parseUnary() }; }
+    if (peek()?.text === '(') {
+      pos++;
+      const inner = parseOr();
+      if (peek()?.text !== ')') fail('")"');
+      pos++;
+      return inner;
+    }
+    return parseComparison();
+  };
+
+  const parseOperand = (): Pick<AlertComparison, 'value' | 'ref'> => {
+    const token = peek();
+    if (!token) return fail('a value');
+    if (token.kind === 'number' || token.kind === 'string') { pos++; return { value: token.value }; }
+    if (token.kind === 'path') {
+      const word = token.text.toLowerCase();
+      if (word === 'true' || word === 'false') { pos++; return { value: word === 'true' }; }
+      if (!KEYWORDS.has(word)) { pos++; return { ref: token.text }; }
+    }
+    return fail('a value');
+  };
+
+  const parseComparison = (): AlertCondition => {
+    const token = peek();
+    if (!token || token.kind !== 'path' || KEYWORDS.has(token.text.toLowerCase())) return fail('a field');
+    pos++;
+    const field = token.text;
+
+    if (isWord('crosses')) {
+      pos++;
+      if (!isWord('above') && !isWord('below')) fail('"above" or "below"');
+      const op = peek().text.toLowerCase() === 'above' ? 'crossesAbove' : 'crossesBelow';
+      pos++;
+      return { field, op, ...parseOperand() };
+    }
+    if (isWord('changes')) {
+      pos++;
+      if (!isWord('to')) return { field, op: 'changes' };
+      pos++;
+      const operand = parseOperand();
+      if (operand.ref !== undefined) fail('a literal after "changes to"');
+      return { field, op: 'changes', ...operand };
+    }
+    const op = peek();
+    if (!op || op.kind !== 'op' || !ALERT_OPERATORS.includes(op.text as AlertOperator)) return fail('a comparison');
+    pos++;
+    return { field, op: op.text as AlertOperator, ...parseOperand() };
+  };
+
+  if (tokens.length === 0) throw new Error('Empty alert expression');
+  const condition = parseOr();
+  if (pos < tokens.length) fail('end of expression');
+  return condition;
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(-?\d+(?:\.\d+)?(?:e[+-]?\d+)?)|"((?:[^"\\]|\\.)*)"|'((?:[^'\\]|\\.)*)'|([A-Za-z_][\w.]*)|(>=|<=|==|!=|&&|\|\||[<>!])|([()]))/y;
+  let index = 0;
+  while (index < expression.length) {
+    if (/^\s*$/.test(expression.slice(index))) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) throw new Error(`Unexpected character at position ${index}: "${expression.slice(index).trim()[0]}"`);
+    index = pattern.lastIndex;
+    const [, number, dq, sq, path, op, paren] = match;
+    if (number !== undefined) tokens.push({ kind: 'number', text: number, value: Number(number) });
+    else if (dq !== undefined || sq !== undefined) {
+      const text = (dq ?? sq)!.replace(/\\(.)/g, '$1');
+      tokens.push({ kind: 'string', text, value: text });
+    }
+    else if (path !== undefined) tokens.push({ kind: 'path', text: path });
+    else if (op !== undefined) tokens.push({ kind: 'op', text: op });
+    else tokens.push({ kind: 'paren', text: paren });
+  }
+  return tokens;
+}
+
+function compare(left: unknown, op: AlertOperator, right: unknown): boolean {
+  if (right === undefined) return false;
+  switch (op) {
+    case '==': return sameValue(left, right);
+    case '!=': return !sameValue(left, right);
+    default: {
+      if (typeof left !== 'number' || typeof right !== 'number' || !Number.isFinite(left) || !Number.isFinite(right)) return false;
+      if (op === '>') return left > right;
+      if (op === '>=') return left >= right;
+      if (op === '<') return left < right;
+      return left <= right;
+    }
+  }
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' && typeof b === 'string') return a.toLowerCase() === b.toLowerCase();
+  return a === b;
+}
+
+function group(condition: AlertCondition, parent: 'and' | 'or' | 'not'): string {
+  const text = formatCondition(condition);
+  const compound = 'all' in condition || 'any' in condition;
+  return compound && !(parent === 'and' && 'all' in condition) ? `(${text})` : text;
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
@@ -0,0 +1,524 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * QUANTLLM BACKTESTER
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Event-driven replay of the agent pipeline over historical candles
+ *
+ * Features:
+ * - Walks a Candle[] bar by bar, feeding a growing window into runPipeline
+ * - Keeps EMA/RSI/ATR/slope state incrementally across the whole history,
+ *   so the agents do not recompute them from each window; these readings cover
+ *   every bar up to the current one, not just the `lookback` window, so they can
+ *   differ slightly from values recomputed over the window (EMA and Wilder seeds)
+ * - Opens trades from the combined sentiment on the next bar's open
+ * - Exits on the RiskAgent stop (ρ) and take-profit (R = r × ρ) levels
+ * - Optionally charges commission, fees, spread and slippage from the risk.costs model,
+ *   sizing trades so the stop loss plus round-trip costs stays within the risk budget
+ *   and the order stays within a share of average bar volume
+ * - Reports equity curve, trade list, win rate, profit factor,
+ *   max drawdown and Sharpe ratio
+ * - Fits signal aggregation weights and confidence calibration to forward returns
+ */
+
+import { Candle, AgentContext, RiskOut } from './types.js';
+import { runPipeline, getOverallSentiment, incrementalIndicatorsFor } from './orchestrator.js';
+import { resolvePipelineConfig, PipelineConfig, PipelineConfigInput, PipelinePreset } from './config.js';
+import { calculatePositionSize, stopDistanceAt, costModelFor } from './agents/index.js';
+import { CostModel, estimateCosts, averageVolume } from './costs.js';
+import { extractSignals, DEFAULT_SIGNAL_WEIGHTS } from './signals.js';
+
+export type BacktestOptions = {
+  warmup?: number;          // bars required before the first signal (default 30)
+  lookback?: number;        // max bars fed to the agents per step (default 200); EMA/RSI/ATR/slope use all bars
+  initialCapital?: number;  // starting equity (default 10_000)
+  riskPerTrade?: number;    // fraction of equity risked per trade (default 0.01)
+  allowShort?: boolean;     // trade Bearish sentiment as shorts (default true)
+  periodsPerYear?: number;  // Sharpe annualisation; inferred from bar spacing if omitted
+  pipeline?: PipelineConfigInput | PipelinePreset; // agent thresholds or preset name
+};
+
+export type BacktestTrade = {
+  side: 'Long' | 'Short';
+  entryIndex: number;
+  entryTime: number;
+  entryPrice: number;
+  exitIndex: number;
+  exitTime: number;
+  exitPrice: number;
+  quantity: number;
+  stopLoss: number;
+  takeProfit: number;
+  exitReason: 'StopLoss' | 'TakeProfit' | 'EndOfData';
+  grossPnl: number;         // price move × quantity
+  costs: number;            // entry + exit commission, fees, spread and slippage
+  pnl: number;              // grossPnl - costs
+  returnPct: number;        // pnl relative to equity at entry
+};
+
+export type EquityPoint = {
+  time: number;
+  equity: number;
+  drawdown: number;         // fraction below running peak
+};
+
+export type BacktestMetrics = {
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;          // 0..1
+  profitFactor: number;     // gross profit / gross loss (Infinity if no losses)
+  totalReturn: number;      // final equity / initial capital - 1
+  maxDrawdown: number;      // 0..1
+  sharpe: number;           // annualised, per-bar equity returns
+  totalCosts: number;       // trading costs paid over all trades
+};
+
+export type BacktestResult = {
+  initialCapital: number;
+  finalEquity: number;
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+  metrics: BacktestMetrics;
+  config: PipelineConfig;   // resolved agent configuration used for the run
+};
+
+export type SignalFitOptions = {
+  warmup?: number;          // bars required before the first sample (default 30)
+  lookback?: number;        // max bars fed to the agents per step (default 200); EMA/RSI/ATR/slope use all bars
+  horizon?: number;         // forward return horizon in bars (default 5)
+  step?: number;            // bars between samples (default 1)
+  pipeline?: PipelineConfigInput | PipelinePreset;
+};
+
+export type SignalFitResult = {
+  weights: Record<string, number>;                 // max-normalised, ready for config.aggregation.weights
+  calibration: { slope: number; intercept: number }; // ready for config.aggregation.calibration
+  informationCoefficients: Record<string, number>; // correlation of each agent's signal with forward returns
+  samples: number;
+  hitRate: number;                                 // directional accuracy of the fitted score (non-zero scores)
+};
+
+type OpenPosition = {
+  side: BacktestTrade['side'];
+  entryIndex: number;
+  entryPrice: number;
+  quantity: number;
+  stopLoss: number;
+  takeProfit: number;
+  equityAtEntry: number;
+  entryCost: number;
+  averageVolume?: number;
+};
+
+type PendingEntry = {
+  side: BacktestTrade['side'];
+  risk: RiskOut;
+};
+
+const SECONDS_PER_YEAR = 365 * 24 * 60 * 60;
+
+/**
+ * Replay the pipeline over historical candles and simulate trades
+ *
+ * A signal produced on the close of bar i is filled at the open of bar i+1.
+ * If a bar touches both the stop and the target, the stop is assumed to fill
+ * first (conservative).
+ *
+ * @param candles - Historical OHLCV candles, oldest first
+ * @param options - Backtest settings
+ * @returns Trades, equity curve and performance metrics
+ */
+export async function runBacktest(
+  candles: Candle[],
+  options: BacktestOptions = {}
+): Promise<BacktestResult> {
+  const {
+    warmup = 30,
+    lookback = 200,
+    initialCapital = 10_000,
+    riskPerTrade = 0.01,
+    allowShort = true
+  } = options;
+
+  // Validate once up front rather than on every bar
+  const config = resolvePipelineConfig(options.pipeline);
+  const costs = costModelFor(config.risk) ?? null;
+  const indicators = incrementalIndicatorsFor(config);
+
+  const trades: BacktestTrade[] = [];
+  const equityCurve: EquityPoint[] = [];
+
+  let cash = initialCapital;
+  let peak = initialCapital;
+  let position: OpenPosition | null = null;
+  let pending: PendingEntry | null = null;
+
+  for (let i = 0; i < candles.length; i++) {
+    const bar = candles[i];
+    indicators.update(bar);
+
+    // Fill the entry decided on the previous bar at this bar's open
+    if (pending && !position) {
+      position = openPosition(
+        pending, bar.open, i, cash, riskPerTrade, costs,
+        averageVolume(candles.slice(Math.max(0, i - 20), i)), config.risk.costs.maxParticipation
+      );
+      pending = null;
+    }
+
+    // Check exits against this bar's range
+    if (position) {
+      const exit = checkExit(position, bar);
+      if (exit) {
+        const trade = closePosition(position, candles, i, exit.price, exit.reason, costs);
+        trades.push(trade);
+        cash += trade.pnl;
+        position = null;
+      }
+    }
+
+    // Mark to market
+    const equity = position ? cash + unrealisedPnl(position, bar.close) - position.entryCost : cash;
+    peak = Math.max(peak, equity);
+    equityCurve.push({ time: bar.time, equity, drawdown: peak > 0 ? (peak - equity) / peak : 0 });
+
+    // Look for a new signal when flat and there is a next bar to trade on
+    if (!position && i + 1 >= warmup && i < candles.length - 1) {
+      const window = candles.slice(Math.max(0, i + 1 - lookback), i + 1);
+      const { ctx } = await runPipeline(window, config, undefined, indicators.readings());
+      pending = decideEntry(ctx, allowShort, config);
+    }
+  }
+
+  // Close anything still open at the final close
+  if (position) {
+    const lastIndex = candles.length - 1;
+    const trade = closePosition(position, candles, lastIndex, candles[lastIndex].close, 'EndOfData', costs);
+    trades.push(trade);
+    cash += trade.pnl;
+    const last = equityCurve[equityCurve.length - 1];
+    last.equity = cash;
+    peak = Math.max(peak, cash);
+    last.drawdown = peak > 0 ? (peak - cash) / peak : 0;
+  }
+
+  const periodsPerYear = options.periodsPerYear ?? inferPeriodsPerYear(candles);
+
+  return {
+    initialCapital,
+    finalEquity: cash,
+    trades,
+    equityCurve,
+    metrics: computeBacktestMetrics(trades, equityCurve, initialCapital, periodsPerYear),
+    config
+  };
+}
+
+/**
+ * Turn the pipeline context into an entry decision
+ */
+function decideEntry(ctx: AgentContext, allowShort: boolean, config: PipelineConfig): PendingEntry | null {
+  if (!ctx.risk) return null;
+
+  const sentiment = getOverallSentiment(ctx, config.aggregation);
+  if (sentiment === 'Bullish') return { side: 'Long', risk: ctx.risk };
+  if (sentiment === 'Bearish' && allowShort) return { side: 'Short', risk: ctx.risk };
+  return null;
+}
+
+/**
+ * Open a position with stop/target derived from the RiskAgent output.
+ * The target sits r × the stop distance away from the entry. With a cost
+ * model, the round-trip costs are risked alongside the stop and the quantity
+ * is capped at maxParticipation × the average bar volume.
+ */
+function openPosition(
+  pending: PendingEntry,
+  entryPrice: number,
+  index: number,
+  equity: number,
+  riskPerTrade: number,
+  costs: CostModel | null,
+  volume?: number,
+  maxParticipation?: number
+): OpenPosition {
+  const { side, risk } = pending;
+  const dir = side === 'Long' ? 1 : -1;
+  const distance = stopDistanceAt(risk, entryPrice);
+
+  let quantity = calculatePositionSize(equity, riskPerTrade, entryPrice, risk);
+  let entryCost = 0;
+  if (costs) {
+    const budget = Math.max(0, equity * riskPerTrade - 2 * costs.fixedFee);
+    const perUnit = (size: number) =>
+      estimateCosts(costs, { price: entryPrice, quantity: size, averageVolume: volume, includeFixed: false }).perUnit;
+    const maxQuantity = volume !== undefined && maxParticipation !== undefined ? maxParticipation * volume : Infinity;
+    // Market impact grows with size: size once without it, then again with the impact at that size
+    quantity = Math.min(budget / (distance + perUnit(1)), maxQuantity);
+    quantity = Math.min(budget / (distance + perUnit(quantity)), maxQuantity);
+    entryCost = estimateCosts(costs, { price: entryPrice, quantity, averageVolume: volume, sides: 1 }).total;
+  }
+
+  return {
+    side,
+    entryIndex: index,
+    entryPrice,
+    quantity,
+    stopLoss: entryPrice - dir * distance,
+    takeProfit: entryPrice + dir * distance * risk.rMultiplier,
+    equityAtEntry: equity,
+    entryCost,
+    averageVolume: volume
+  };
+}
+
+/**
+ * Check whether a bar hits the stop or target of an open position
+ */
+function checkExit(
+  position: OpenPosition,
+  bar: Candle
+): { price: number; reason: BacktestTrade['exitReason'] } | null {
+  if (position.side === 'Long') {
+    // Gap through the stop fills at the open
+    if (bar.low <= position.stopLoss) {
+      return { price: Math.min(bar.open, position.stopLoss), reason: 'StopLoss' };
+    }
+    if (bar.high >= position.takeProfit) {
+      return { price: Math.max(bar.open, position.takeProfit), reason: 'TakeProfit' };
+    }
+  } else {
+    if (bar.high >= position.stopLoss) {
+      return { price: Math.max(bar.open, position.stopLoss), reason: 'StopLoss' };
+    }
+    if (bar.low <= position.takeProfit) {
+      return { price: Math.min(bar.open, position.takeProfit), reason: 'TakeProfit' };
+    }
+  }
+  return null;
+}
+
+function unrealisedPnl(position: OpenPosition, price: number): number {
+  const dir = position.side === 'Long' ? 1 : -1;
+  return dir * (price - position.entryPrice) * position.quantity;
+}
+
+function closePosition(
+  position: OpenPosition,
+  candles: Candle[],
+  exitIndex: number,
+  exitPrice: number,
+  exitReason: BacktestTrade['exitReason'],
+  costs: CostModel | null
+): BacktestTrade {
+  const grossPnl = unrealisedPnl(position, exitPrice);
+  const exitCost = costs
+    ? estimateCosts(costs, { price: exitPrice, quantity: position.quantity, averageVolume: position.averageVolume, sides: 1 }).total
+    : 0;
+  const tradeCosts = position.entryCost + exitCost;
+  const pnl = grossPnl - tradeCosts;
+
+  return {
+    side: position.side,
+    entryIndex: position.entryIndex,
+    entryTime: candles[position.entryIndex].time,
+    entryPrice: position.entryPrice,
+    exitIndex,
+    exitTime: candles[exitIndex].time,
+    exitPrice,
+    quantity: position.quantity,
+    stopLoss: position.stopLoss,
+    takeProfit: position.takeProfit,
+    exitReason,
+    grossPnl,
+    costs: tradeCosts,
+    pnl,
+    returnPct: pnl / Math.max(position.equityAtEntry, 1e-9)
+  };
+}
+
+/**
+ * Estimate bars per year from the median spacing between candles
+ */
+export function inferPeriodsPerYear(candles: Candle[]): number {
+  if (candles.length < 2) return 252;
+  const deltas = candles
+    .slice(1)
+    .map((c, i) => c.time - candles[i].time)
+    .filter(d => d > 0)
+    .sort((a, b) => a - b);
+  if (deltas.length === 0) return 252;
+  const median = deltas[Math.floor(deltas.length / 2)];
+  return SECONDS_PER_YEAR / median;
+}
+
+/**
+ * Compute summary statistics for a finished backtest
+ * @param trades - Closed trades
+ * @param equityCurve - Per-bar equity
+ * @param initialCapital - Starting equity
+ * @param periodsPerYear - Bars per year for Sharpe annualisation
+ * @returns Performance metrics
+ */
+export function computeBacktestMetrics(
+  trades: BacktestTrade[],
+  equityCurve: EquityPoint[],
+  initialCapital: number,
+  periodsPerYear = 252
+): BacktestMetrics {
+  const wins = trades.filter(t => t.pnl > 0);
+  const losses = trades.filter(t => t.pnl <= 0);
+  const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0);
+  const grossLoss = -losses.reduce((sum, t) => sum + t.pnl, 0);
+
+  const finalEquity = equityCurve.at(-1)?.equity ?? initialCapital;
+  const maxDrawdown = equityCurve.reduce((max, p) => Math.max(max, p.drawdown), 0);
+
+  // Per-bar returns of the equity curve
+  const returns: number[] = [];
+  for (let i = 1; i < equityCurve.length; i++) {
+    const prev = equityCurve[i - 1].equity;
+    if (prev > 0) returns.push(equityCurve[i].equity / prev - 1);
+  }
+  const mean = returns.reduce((a, b) => a + b, 0) / Math.max(returns.length, 1);
+  const variance = returns.reduce((a, r) => a + (r - mean) ** 2, 0) / Math.max(returns.length - 1, 1);
+  const std = Math.sqrt(variance);
+
+  return {
+    totalTrades: trades.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: trades.length > 0 ? wins.length / trades.length : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : (grossProfit > 0 ? Infinity : 0),
+    totalReturn: finalEquity / initialCapital - 1,
+    maxDrawdown,
+    sharpe: std > 0 ? (mean / std) * Math.sqrt(periodsPerYear) : 0,
+    totalCosts: trades.reduce((sum, t) => sum + t.costs, 0)
+  };
+}
+
+/**
+ * Fit signal aggregation weights and confidence calibration on historical candles
+ *
+ * Each agent's weight is its information coefficient (correlation of its signal
+ * with the forward return), floored at zero and scaled so the largest weight is 1.
+ * The confidence calibration is a logistic fit of "score direction was right"
+ * against |score|.
+ *
+ * @param candles - Historical OHLCV candles, oldest first
+ * @param options - Sampling and pipeline settings
+ * @returns Weights and calibration to plug into config.aggregation
+ */
+export async function fitSignalWeights(
+  candles: Candle[],
+  options: SignalFitOptions = {}
+): Promise<SignalFitResult> {
+  const { warmup = 30, lookback = 200, horizon = 5, step = 1 } = options;
+  const config = resolvePipelineConfig(options.pipeline);
+
+  const indicators = incrementalIndicatorsFor(config);
+  let folded = 0;
+
+  const samples: Array<{ signals: Record<string, number>; forward: number }> = [];
+  for (let i = Math.max(warmup - 1, 0); i + horizon < candles.length; i += Math.max(1, step)) {
+    while (folded <= i) indicators.update(candles[folded++]);
+    const window = candles.slice(Math.max(0, i + 1 - lookback), i + 1);
+    const { ctx } = await runPipeline(window, config, undefined, indicators.readings());
+    const signals = Object.fromEntries(extractSignals(ctx).map(s => [s.agent, s.signal]));
+    samples.push({ signals, forward: candles[i + horizon].close / candles[i].close - 1 });
+  }
+
+  if (samples.length < 10) {
+    throw new Error(`Not enough candles to fit signal weights (${samples.length} samples; need at least 10)`);
+  }
+
+  const agents = [...new Set(samples.flatMap(s => Object.keys(s.signals)))];
+  const forward = samples.map(s => s.forward);
+  const informationCoefficients = Object.fromEntries(
+    agents.map(agent => [agent, correlation(samples.map(s => s.signals[agent] ?? 0), forward)])
+  );
+
+  // Keep only agents with positive predictive power; fall back to the configured weights
+  const maxIc = Math.max(0, ...Object.values(informationCoefficients));
+  const weights = maxIc > 0
+    ? Object.fromEntries(agents.map(agent => [agent, Math.max(0, informationCoefficients[agent]) / maxIc]))
+    : { ...DEFAULT_SIGNAL_WEIGHTS, ...config.aggregation.weights };
+
+  // Score every sample with the fitted weights
+  const scored = samples.map(s => {
+    let num = 0;
+    let den = 0;
+    for (const [agent, signal] of Object.entries(s.signals)) {
+      const w = weights[agent] ?? 1;
+      num += w * signal;
+      den += w;
+    }
+    return { score: den > 0 ? num / den : 0, forward: s.forward };
+  }).filter(s => s.score !== 0 && s.forward !== 0);
+
+  const outcomes = scored.map(s => ({ x: Math.abs(s.score), y: Math.sign(s.score) === Math.sign(s.forward) ? 1 : 0 }));
+  const hits = outcomes.filter(o => o.y === 1).length;
+
+  return {
+    weights,
+    calibration: fitLogistic(outcomes),
+    informationCoefficients,
+    samples: samples.length,
+    hitRate: outcomes.length > 0 ? hits / outcomes.length : 0
+  };
+}
+
+/**
+ * Pearson correlation (0 when either series is constant)
+ */
+function correlation(xs: number[], ys: number[]): number {
+  const n = xs.length;
+  const mx = xs.reduce((a, b) => a + b, 0) / n;
+  const my = ys.reduce((a, b) => a + b, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    sxy += (xs[i] - mx) * (ys[i] - my);
+    sxx += (xs[i] - mx) ** 2;
+    syy += (ys[i] - my) ** 2;
+  }
+  return sxx > 0 && syy > 0 ? sxy / Math.sqrt(sxx * syy) : 0;
+}
+
+/**
+ * One-feature logistic regression (Newton's method with a small ridge penalty)
+ * @returns slope and intercept of P(y=1) = sigmoid(slope × x + intercept)
+ */
+function fitLogistic(points: Array<{ x: number; y: number }>): { slope: number; intercept: number } {
+  const ridge = 1e-3;
+  let slope = 0;
+  let intercept = 0;
+  if (points.length === 0) return { slope, intercept };
+
+  for (let iter = 0; iter < 50; iter++) {
+    // Gradient and Hessian of the penalised negative log-likelihood
+    let gA = ridge * slope;
+    let gB = 0;
+    let hAA = ridge;
+    let hAB = 0;
+    let hBB = 1e-9;
+    for (const { x, y } of points) {
+      const p = 1 / (1 + Math.exp(-(slope * x + intercept)));
+      const w = p * (1 - p);
+      gA += (p - y) * x;
+      gB += p - y;
+      hAA += w * x * x;
+      hAB += w * x;
+      hBB += w;
+    }
+    const det = hAA * hBB - hAB * hAB;
+    if (Math.abs(det) < 1e-12) break;
+    const dA = (hBB * gA - hAB * gB) / det;
+    const dB = (hAA * gB - hAB * gA) / det;
+    slope -= dA;
+    intercept -= dB;
+    if (Math.abs(dA) + Math.abs(dB) < 1e-8) break;
+  }
+  return { slope, intercept };
+}
@@ -502,7 +502,8 @@ What would you like to explore next?`
             category: category.name,
             asset: asset,
             symbol: symbolMapping,
-            isRealData: true,
+            isRealData: realAnalysis.dataSource !== 'synthetic',
+            dataSource: realAnalysis.dataSource,
             narrative: realAnalysis.narrative,
             data: realAnalysis.analysis,
             marketSummary: realAnalysis.marketSummary,
@@ -687,7 +688,7 @@ What would you like to explore next?`
   private formatAssetAnalysisResponse(category: TradingCategory, asset: string, analysis: any): string {
     const data = analysis.data;
     const dataSourceIcon = analysis.isRealData ? '📊' : '🎲';
-    const dataSourceText = analysis.isRealData ? 'Real Market Data' : 'Synthetic Data';
+    const dataSourceText = analysis.isRealData ? `Real Market Data (${analysis.dataSource ?? 'alphavantage'})` : 'Synthetic Data';
     const symbol = analysis.symbol || 'N/A';
     
     let marketInfo = '';
@@ -714,11 +715,11 @@ ${marketInfo}
 • **Risk Multiplier**: ${data.risk.rMultiplier}x
 
 📈 **Market Assessment**:
-- **Overall Sentiment**: ${data.summary.overallSentiment}
+- **Overall Sentiment**: ${data.summary.overallSentiment} (score ${data.summary.score?.toFixed(2)}, confidence ${(data.summary.confidence * 100)?.toFixed(0)}%)
 - **Bullish Signals**: ${data.summary.bullishSignals}
 - **Bearish Signals**: ${data.summary.bearishSignals}
 
-${analysis.isRealData ? '🔄 **Live Data**: This analysis uses real-time market data from Alpha Vantage!' : '⚠️ **Note**: Real market data unavailable, using high-quality synthetic data.'}
+${analysis.isRealData ? `🔄 **Live Data**: This analysis uses market data from ${analysis.dataSource === 'alphavantage' ? 'Alpha Vantage' : `recorded data (${analysis.dataSource})`}!` : '⚠️ **Note**: Real market data unavailable, using high-quality synthetic data.'}
 
 🎯 **Ready for next analysis?**
 Type "analyze another ${category.name.toLowerCase()}" for more ${category.name} assets, or "categories" to explore different markets!`;
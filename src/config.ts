@@ -0,0 +1,289 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * QUANTLLM PIPELINE CONFIG
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Typed, validated per-run configuration for every agent threshold
+ *
+ * Features:
+ * - One object covering indicator, pattern, chart, trend and risk settings
+ *   (including position sizing and trading costs), the signal aggregation weights and
+ *   data-quality repair policies
+ * - Defaults reproduce the original hard-coded thresholds
+ * - Named presets: scalping, swing, position
+ * - Cross-field checks (oversold < bearish ≤ bullish < overbought, fast < slow EMA, ...)
+ * - Unknown top-level keys pass through as options for custom registered agents
+ */
+
+import { z } from 'zod';
+import { DATA_ISSUE_KINDS, REPAIR_POLICIES } from './utils/dataQuality.js';
+import { SIZING_METHODS } from './portfolio.js';
+import { DEFAULT_MAX_PARTICIPATION } from './costs.js';
+
+const indicatorSchema = z.object({
+  rsiPeriod: z.number().int().min(2).default(14),
+  rsiMethod: z.enum(['wilder', 'cutler']).default('wilder'),
+  overbought: z.number().min(0).max(100).default(70),
+  oversold: z.number().min(0).max(100).default(30),
+  bullishAbove: z.number().min(0).max(100).default(60),
+  bearishBelow: z.number().min(0).max(100).default(40),
+  extras: z.array(z.enum(['sma', 'macd', 'bollinger', 'atr', 'stochastic', 'adx', 'obv', 'vwap'])).default([])
+});
+
+const patternSchema = z.object({
+  lookback: z.number().int().min(1).default(10),
+  dojiBodyPct: z.number().positive().max(0.1).default(0.001)
+});
+
+const chartSchema = z.object({
+  pivotStrength: z.number().int().min(1).default(3),
+  tolerance: z.number().positive().default(0.5),
+  minTouches: z.number().int().min(2).default(2),
+  maxLevels: z.number().int().min(1).default(6),
+  trendPivots: z.number().int().min(2).default(3)
+});
+
+const trendSchema = z.object({
+  fastPeriod: z.number().int().min(1).default(12),
+  slowPeriod: z.number().int().min(2).default(26),
+  slopeLookback: z.number().int().min(2).default(12),
+  bandPct: z.number().min(0).max(0.1).default(0.001)
+});
+
+const heuristicSchema = z.object({
+  base: z.number().positive().default(1.5),
+  indicatorWeight: z.number().min(0).default(0.15),
+  trendWeight: z.number().min(0).default(0.1),
+  patternWeight: z.number().min(0).default(0.05),
+  confidenceThreshold: z.number().min(0).max(1).default(0.7),
+  confidenceBonus: z.number().default(0.05),
+  strengthThreshold: z.number().min(0).max(1).default(0.6),
+  strengthBonus: z.number().default(0.05),
+  min: z.number().positive().default(1.2),
+  max: z.number().positive().default(1.8)
+});
+
+const assetClassSchema = z.enum(['stocks', 'crypto', 'forex', 'commodities', 'indices']);
+
+const sizingSchema = z.object({
+  method: z.enum(SIZING_METHODS).default('fixed-fractional'),
+  equity: z.number().positive().optional(),          // account equity; no sizing without it
+  symbol: z.string().optional(),                     // instrument being analysed (asset class, exposure limits)
+  assetClass: assetClassSchema.optional(),           // default: classified from symbol
+  contractMultiplier: z.number().positive().optional(),
+  lotStep: z.number().positive().optional(),
+  minQuantity: z.number().min(0).optional(),
+  leverage: z.number().positive().optional(),
+  riskPerTrade: z.number().gt(0).max(1).default(0.01),
+  maxRiskPerTrade: z.number().gt(0).max(1).default(0.02),
+  kellyFraction: z.number().gt(0).max(1).default(0.5),
+  winRate: z.number().gt(0).lt(1).default(0.5),      // Kelly win probability
+  targetVolatility: z.number().positive().default(0.15),
+  positions: z.array(z.object({
+    symbol: z.string(),
+    quantity: z.number(),
+    price: z.number().positive(),
+    assetClass: assetClassSchema.optional(),
+    contractMultiplier: z.number().positive().optional(),
+    leverage: z.number().positive().optional()
+  })).default([]),
+  limits: z.object({
+    maxAssetExposure: z.number().positive().optional(),
+    maxCategoryExposure: z.union([z.number().positive(), z.record(assetClassSchema, z.number().positive())]).optional(),
+    maxGrossLeverage: z.number().positive().optional(),
+    maxPortfolioVolatility: z.number().positive().optional()
+  }).default({})
+});
+
+const costsSchema = z.object({
+  enabled: z.boolean().default(false),               // opt-in; off, sizing and backtests are frictionless
+  assetClass: assetClassSchema.optional(),           // default: sizing.assetClass, else classified from sizing.symbol
+  commissionBps: z.number().min(0).optional(),       // overrides of the asset class defaults (see costs.ts)
+  fixedFee: z.number().min(0).optional(),
+  spreadBps: z.number().min(0).optional(),
+  slippageBps: z.number().min(0).optional(),
+  impactBps: z.number().min(0).optional(),
+  winRate: z.number().gt(0).lt(1).optional(),        // expectancy win probability (default sizing.winRate)
+  rejectNegative: z.boolean().default(false),        // zero the position size of non-viable setups
+  maxParticipation: z.number().gt(0).max(1).default(DEFAULT_MAX_PARTICIPATION) // size cap: share of average bar volume
+});
+
+const riskSchema = z.object({
+  stopMode: z.enum(['fixed', 'atr', 'swing', 'volatility', 'level']).default('fixed'),
+  fixedRho: z.number().positive().max(0.5).default(0.0005),
+  atrPeriod: z.number().int().min(1).default(14),
+  atrMultiplier: z.number().positive().default(2),
+  swingLookback: z.number().int().min(2).default(20),
+  swingBuffer: z.number().min(0).default(0.001),
+  volLookback: z.number().int().min(10).default(100),
+  volPercentile: z.number().gt(0).max(1).default(0.9),
+  levelBuffer: z.number().min(0).default(0.001),
+  targetMode: z.enum(['multiplier', 'level']).default('multiplier'),
+  heuristic: heuristicSchema.default({}),
+  sizing: sizingSchema.default({}),
+  costs: costsSchema.default({})
+});
+
+const aggregationSchema = z.object({
+  weights: z.record(z.number().min(0)).default({}),  // per agent; unlisted agents use DEFAULT_SIGNAL_WEIGHTS or 1
+  threshold: z.number().min(0).max(1).default(0.1), // |score| needed for a Bullish/Bearish call
+  calibration: z.object({                            // confidence = sigmoid(slope × |score| + intercept)
+    slope: z.number().default(4),
+    intercept: z.number().default(0)
+  }).default({})
+});
+
+const repairPolicySchema = z.enum(REPAIR_POLICIES);
+
+const qualitySchema = z.object({
+  // One policy for every issue kind, or per kind over DEFAULT_REPAIR_POLICY
+  repair: z.union([repairPolicySchema, z.record(z.enum(DATA_ISSUE_KINDS), repairPolicySchema)]).default({}),
+  spikeThreshold: z.number().positive().default(8),
+  gapFactor: z.number().gt(1).default(1.5),
+  ignoreSessionBreaks: z.boolean().default(true),
+  maxIssues: z.number().int().min(0).default(50),
+  maxFill: z.number().int().min(0).default(500)
+});
+
+export const PRESET_NAMES = ['scalping', 'swing', 'position'] as const;
+export type PipelinePreset = typeof PRESET_NAMES[number];
+
+export const pipelineConfigSchema = z.object({
+  preset: z.enum(PRESET_NAMES).optional(),
+  indicator: indicatorSchema.default({}),
+  pattern: patternSchema.default({}),
+  chart: chartSchema.default({}),
+  trend: trendSchema.default({}),
+  risk: riskSchema.default({}),
+  aggregation: aggregationSchema.default({}),
+  quality: qualitySchema.default({})
+})
+  .passthrough() // options for custom registered agents, keyed by name
+  .superRefine((cfg, issue) => {
+    const { indicator, trend, risk } = cfg;
+    if (!(indicator.oversold < indicator.bearishBelow &&
+          indicator.bearishBelow <= indicator.bullishAbove &&
+          indicator.bullishAbove < indicator.overbought)) {
+      issue.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['indicator'],
+        message: 'RSI thresholds must satisfy oversold < bearishBelow ≤ bullishAbove < overbought'
+      });
+    }
+    if (trend.fastPeriod >= trend.slowPeriod) {
+      issue.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['trend', 'fastPeriod'],
+        message: 'fastPeriod must be shorter than slowPeriod'
+      });
+    }
+    if (risk.heuristic.min > risk.heuristic.max) {
+      issue.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['risk', 'heuristic', 'min'],
+        message: 'heuristic min must not exceed max'
+      });
+    }
+  });
+
+/** Fully resolved configuration, as echoed back in pipeline output */
+export type PipelineConfig = z.output<typeof pipelineConfigSchema>;
+
+/** Partial configuration accepted from callers; missing fields take defaults */
+export type PipelineConfigInput = z.input<typeof pipelineConfigSchema>;
+
+/**
+ * Preset overrides on top of the defaults
+ * - scalping: short lookbacks, tight ATR stops, modest targets
+ * - swing: default thresholds with swing-point stops and level targets
+ * - position: slow EMAs, wide ATR stops, larger targets
+ */
+export const PIPELINE_PRESETS: Record<PipelinePreset, PipelineConfigInput> = {
+  scalping: {
+    indicator: { rsiPeriod: 7, overbought: 75, oversold: 25, bullishAbove: 55, bearishBelow: 45 },
+    pattern: { lookback: 5 },
+    chart: { pivotStrength: 2, maxLevels: 4 },
+    trend: { fastPeriod: 5, slowPeriod: 13, slopeLookback: 5, bandPct: 0.0005 },
+    risk: {
+      stopMode: 'atr',
+      atrPeriod: 7,
+      atrMultiplier: 1.5,
+      heuristic: { base: 1.3, min: 1.1, max: 1.5 }
+    }
+  },
+  swing: {
+    risk: { stopMode: 'swing', swingLookback: 20, targetMode: 'level' }
+  },
+  position: {
+    indicator: { rsiPeriod: 21, extras: ['sma', 'adx'] },
+    pattern: { lookback: 20 },
+    chart: { pivotStrength: 5, tolerance: 0.75 },
+    trend: { fastPeriod: 20, slowPeriod: 50, slopeLookback: 20, bandPct: 0.002 },
+    risk: {
+      stopMode: 'atr',
+      atrMultiplier: 3,
+      heuristic: { base: 2, indicatorWeight: 0.25, trendWeight: 0.2, min: 1.5, max: 3 }
+    }
+  }
+};
+
+/**
+ * Resolve a preset name or partial config into a validated PipelineConfig.
+ * A `preset` key inside the input is applied first and the remaining fields override it.
+ * @param input - Preset name or partial configuration
+ * @returns Fully populated configuration
+ * @throws Error describing the first invalid field
+ */
+export function resolvePipelineConfig(input: PipelineConfigInput | PipelinePreset = {}): PipelineConfig {
+  const result = safeResolvePipelineConfig(input);
+  if (!result.success) throw new Error(result.error);
+  return result.config;
+}
+
+/**
+ * Non-throwing variant of resolvePipelineConfig
+ * @param input - Preset name or partial configuration
+ * @returns The resolved config, or a readable error message
+ */
+export function safeResolvePipelineConfig(
+  input: unknown = {}
+): { success: true; config: PipelineConfig } | { success: false; error: string } {
+  const raw = typeof input === 'string' ? { preset: input } : input;
+  if (!isPlainObject(raw)) {
+    return { success: false, error: 'Invalid pipeline config: expected an object or preset name' };
+  }
+
+  const preset = raw.preset;
+  if (preset !== undefined && !PRESET_NAMES.includes(preset as PipelinePreset)) {
+    return {
+      success: false,
+      error: `Unknown pipeline preset "${String(preset)}" (expected one of: ${PRESET_NAMES.join(', ')})`
+    };
+  }
+  const merged = preset ? mergeConfig(PIPELINE_PRESETS[preset as PipelinePreset], raw) : raw;
+
+  const parsed = pipelineConfigSchema.safeParse(merged);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return {
+      success: false,
+      error: `Invalid pipeline config: ${issue.path.join('.') || '(root)'} ${issue.message}`
+    };
+  }
+  return { success: true, config: parsed.data };
+}
+
+/**
+ * Recursively merge plain objects; arrays and scalars in `override` replace `base`
+ */
+function mergeConfig(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const out: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    const prev = out[key];
+    out[key] = isPlainObject(prev) && isPlainObject(value) ? mergeConfig(prev, value) : value;
+  }
+  return out;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
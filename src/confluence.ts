@@ -0,0 +1,142 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * MULTI-TIMEFRAME CONFLUENCE
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Combines the signal scores of several timeframes for the same symbol
+ *
+ * Features:
+ * - Longer timeframes weigh more (rank weights: shortest = 1, next = 2, ...)
+ * - Confluence score = weighted mean of the timeframe scores, in [-1, 1]
+ * - Alignment label: aligned / mixed (some neutral) / conflicting / neutral
+ * - Every pair of timeframes pointing opposite ways, higher timeframe first
+ */
+
+import { ConfluenceResult, TimeframeConflict, TimeframeSignal } from './types.js';
+import { timeframeSeconds } from './utils/resample.js';
+
+export interface ConfluenceOptions {
+  /** Weight per interval (default: rank by timeframe length) */
+  weights?: Record<string, number>;
+  /** |score| needed for a Bullish/Bearish confluence (default 0.1) */
+  threshold?: number;
+}
+
+/**
+ * Measure how far the timeframes agree
+ * @param frames - Signal score per interval
+ * @param options - Interval weights and sentiment threshold
+ * @returns Confluence score, agreement, alignment label and conflicts
+ */
+export function computeConfluence(
+  frames: TimeframeSignal[],
+  options: ConfluenceOptions = {}
+): ConfluenceResult {
+  const threshold = options.threshold ?? 0.1;
+  const sorted = sortByTimeframe(frames);
+  const weights = Object.fromEntries(
+    sorted.map((f, i) => [f.interval, options.weights?.[f.interval] ?? i + 1])
+  );
+
+  const totalWeight = sorted.reduce((sum, f) => sum + weights[f.interval], 0);
+  const score = totalWeight > 0
+    ? sorted.reduce((sum, f) => sum + weights[f.interval] * f.signal.score, 0) / totalWeight
+    : 0;
+
+  let sentiment: ConfluenceResult['sentiment'] = 'Neutral';
+  if (score >= threshold && score > 0) sentiment = 'Bullish';
+  else if (score <= -threshold && score < 0) sentiment = 'Bearish';
+
+  const agreeing = sorted
+    .filter(f => f.signal.sentiment === sentiment)
+    .reduce((sum, f) => sum + weights[f.interval], 0);
+
+  const conflicts: TimeframeConflict[] = [];
+  for (let hi = sorted.length - 1; hi > 0; hi--) {
+    for (let lo = hi - 1; lo >= 0; lo--) {
+      const higher = sorted[hi].signal.sentiment;
+      const lower = sorted[lo].signal.sentiment;
+      if (higher === 'Neutral' || lower === 'Neutral' || higher === lower) continue;
+      conflicts.push({
+        higher: sorted[hi].interval,
+        lower: sorted[lo].interval,
+        higherSentiment: higher,
+        lowerSentiment: lower
+      });
+    }
+  }
+
+  const directional = sorted.filter(f => f.signal.sentiment !== 'Neutral').length;
+  let alignment: ConfluenceResult['alignment'] = 'aligned';
+  if (conflicts.length > 0) alignment = 'conflicting';
+  else if (directional === 0) alignment = 'neutral';
+  else if (directional < sorted.length) alignment = 'mixed';
+
+  return {
+    score,
+    agreement: totalWeight > 0 ? agreeing / totalWeight : 0,
+    sentiment,
+    alignment,
+    weights,
+    conflicts
+  };
+}
+
+/**
+ * Human-readable confluence summary, explaining each conflict
+ * @param frames - Signal score per interval
+ * @param confluence - Result of computeConfluence
+ * @returns Narrative lines joined by newlines
+ */
+export function describeConfluence(frames: TimeframeSignal[], confluence: ConfluenceResult): string {
+  const sorted = sortByTimeframe(frames);
+  if (sorted.length === 0) return 'No timeframes analysed';
+
+  const frameLine = '🕰️ Timeframes: ' + sorted
+    .map(f => `${f.interval} ${f.signal.sentiment} (${f.signal.score >= 0 ? '+' : ''}${f.signal.score.toFixed(2)})`)
+    .join(' · ');
+
+  const confluenceLine =
+    `🧭 Confluence: ${confluence.sentiment} (score=${confluence.score.toFixed(2)}, ` +
+    `agreement=${confluence.agreement.toFixed(2)}, ${confluence.alignment})`;
+
+  const lowest = sorted[0].interval;
+  const highest = sorted[sorted.length - 1].interval;
+  const details: string[] = [];
+
+  switch (confluence.alignment) {
+    case 'aligned':
+      details.push(`✅ All timeframes agree: ${sorted[0].signal.sentiment} from ${lowest} to ${highest}.`);
+      break;
+    case 'neutral':
+      details.push('➖ No timeframe shows a directional bias; wait for one to develop.');
+      break;
+    case 'mixed': {
+      const neutral = sorted.filter(f => f.signal.sentiment === 'Neutral').map(f => f.interval);
+      const top = sorted[sorted.length - 1];
+      details.push(
+        top.signal.sentiment === 'Neutral'
+          ? `➖ ${neutral.join(', ')} neutral: the ${top.interval} chart does not back the shorter-term move, so treat it as range trading.`
+          : `➖ ${neutral.join(', ')} neutral: no timeframe opposes the ${top.interval} ${top.signal.sentiment} bias, but ${neutral.join(', ')} ${neutral.length === 1 ? 'does' : 'do'} not confirm it yet.`
+      );
+      break;
+    }
+    case 'conflicting':
+      for (const c of confluence.conflicts) {
+        details.push(
+          `⚠️ ${c.higher} ${c.higherSentiment} vs ${c.lower} ${c.lowerSentiment}: the ${c.lower} move runs against the ` +
+          `${c.higher} bias, likely a counter-trend ${c.lowerSentiment === 'Bullish' ? 'bounce' : 'pullback'}; ` +
+          `wait for ${c.lower} to turn ${c.higherSentiment} before trading with the ${c.higher} direction.`
+        );
+      }
+      break;
+  }
+
+  return [frameLine, confluenceLine, ...details].join('\n');
+}
+
+/**
+ * Frames ordered from the shortest to the longest timeframe
+ */
+function sortByTimeframe(frames: TimeframeSignal[]): TimeframeSignal[] {
+  return [...frames].sort((a, b) => timeframeSeconds(a.interval) - timeframeSeconds(b.interval));
+}
@@ -0,0 +1,143 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * TRANSACTION COSTS
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Commission, fees, spread and slippage per asset class, and what they do to a setup
+ *
+ * Features:
+ * - Default cost models for the chat categories: stocks, crypto, forex,
+ *   commodities, indices (each field overridable)
+ * - Volume-dependent slippage: base bps plus square-root market impact in the
+ *   order's share of average bar volume
+ * - Per-trade cost breakdown in account currency, price units per unit and bps
+ * - Reward-to-risk and expectancy of a stop/target setup net of round-trip costs
+ */
+
+import { Candle, CostAssessment } from './types.js';
+import { AssetClass } from './services/providers/types.js';
+import { classifySymbol } from './services/providers/assetClass.js';
+
+export type CostModel = {
+  assetClass: AssetClass;
+  commissionBps: number;    // per side, bps of notional
+  fixedFee: number;         // per side, account currency
+  spreadBps: number;        // full bid/ask spread; half is paid on each side
+  slippageBps: number;      // per side, for an order that is negligible against volume
+  impactBps: number;        // extra slippage per side at ≥100% of average bar volume, × √participation below
+};
+
+export type CostRequest = {
+  price: number;
+  quantity?: number;        // default 1
+  contractMultiplier?: number; // default 1
+  averageVolume?: number;   // average bar volume; no market impact without it
+  sides?: 1 | 2;            // 1: entry only, 2: round trip (default 2)
+  includeFixed?: boolean;   // include fixed fees (default true)
+};
+
+export type TradeCost = {
+  commission: number;       // account currency, all fields
+  fixedFees: number;
+  spread: number;
+  slippage: number;
+  total: number;
+  perUnit: number;          // total / (quantity × multiplier), price units
+  bps: number;              // total / notional × 10_000
+  participation: number;    // quantity / averageVolume (0 when unknown)
+};
+
+export type NetSetup = {
+  stopDistance: number;     // price units, gross
+  targetDistance: number;
+  costPerUnit: number;      // round trip, price units
+  winRate: number;
+};
+
+/** Largest order as a share of average bar volume when sizing with costs */
+export const DEFAULT_MAX_PARTICIPATION = 0.1;
+
+export const DEFAULT_COST_MODELS: Record<AssetClass, Omit<CostModel, 'assetClass'>> = {
+  stocks: { commissionBps: 0.5, fixedFee: 0, spreadBps: 1, slippageBps: 0.5, impactBps: 30 },
+  crypto: { commissionBps: 10, fixedFee: 0, spreadBps: 5, slippageBps: 2, impactBps: 100 },
+  forex: { commissionBps: 0.3, fixedFee: 0, spreadBps: 1.5, slippageBps: 0.5, impactBps: 10 },
+  commodities: { commissionBps: 1, fixedFee: 2, spreadBps: 3, slippageBps: 1, impactBps: 50 },
+  indices: { commissionBps: 0.5, fixedFee: 1, spreadBps: 1, slippageBps: 0.5, impactBps: 20 }
+};
+
+/**
+ * Cost model for a symbol: its asset class defaults with overrides applied
+ * @param symbol - Instrument (classified into an asset class unless overrides.assetClass is set)
+ * @param overrides - Individual cost fields
+ */
+export function costModel(symbol?: string, overrides: Partial<CostModel> = {}): CostModel {
+  const assetClass = overrides.assetClass ?? (symbol ? classifySymbol(symbol) : 'stocks');
+  const defined = Object.fromEntries(Object.entries(overrides).filter(([, v]) => v !== undefined));
+  return { assetClass, ...DEFAULT_COST_MODELS[assetClass], ...defined };
+}
+
+/**
+ * Cost of trading `quantity` at `price`
+ *
+ * Per side: commission = commissionBps × notional, spread = half the spread,
+ * slippage = (slippageBps + impactBps × √min(participation, 1)) × notional, plus the fixed fee.
+ * @param model - Cost model
+ * @param request - Price, size and average volume
+ * @returns Breakdown in account currency, per unit and in bps
+ */
+export function estimateCosts(model: CostModel, request: CostRequest): TradeCost {
+  const { price, quantity = 1, contractMultiplier = 1, averageVolume, sides = 2, includeFixed = true } = request;
+  const notional = Math.abs(quantity) * price * contractMultiplier;
+  const participation = averageVolume && averageVolume > 0 ? Math.abs(quantity) / averageVolume : 0;
+  const impact = model.impactBps * Math.sqrt(Math.min(participation, 1));
+
+  const commission = sides * notional * model.commissionBps / 10_000;
+  const fixedFees = includeFixed && quantity !== 0 ? sides * model.fixedFee : 0;
+  const spread = sides * notional * (model.spreadBps / 2) / 10_000;
+  const slippage = sides * notional * (model.slippageBps + impact) / 10_000;
+  const total = commission + fixedFees + spread + slippage;
+  const units = Math.abs(quantity) * contractMultiplier;
+
+  return {
+    commission,
+    fixedFees,
+    spread,
+    slippage,
+    total,
+    perUnit: units > 0 ? total / units : 0,
+    bps: notional > 0 ? total / notional * 10_000 : 0,
+    participation
+  };
+}
+
+/**
+ * Mean volume of the last `lookback` bars, or undefined when the series carries no volume
+ */
+export function averageVolume(candles: Candle[], lookback = 20): number | undefined {
+  const volumes = candles.slice(-lookback).map(c => c.volume ?? 0).filter(v => v > 0);
+  return volumes.length > 0 ? volumes.reduce((a, b) => a + b, 0) / volumes.length : undefined;
+}
+
+/**
+ * Reward, risk and expectancy of a setup once round-trip costs are paid
+ *
+ * Costs shrink the target and widen the stop: net reward = target − costs,
+ * net risk = stop + costs, expectancy = p × net reward − (1 − p) × net risk.
+ * @param setup - Gross stop and target distances, round-trip cost and win probability
+ * @returns Net reward/risk, expectancy per unit (price units) and whether it is positive
+ */
+export function netOfCosts(setup: NetSetup): Pick<CostAssessment, 'netRewardRisk' | 'expectancy' | 'viable'> & {
+  netReward: number;
+  netRisk: number;
+} {
+  const { stopDistance, targetDistance, costPerUnit, winRate } = setup;
+  const netReward = targetDistance - costPerUnit;
+  const netRisk = stopDistance + costPerUnit;
+  const expectancy = winRate * netReward - (1 - winRate) * netRisk;
+  return {
+    netReward,
+    netRisk,
+    netRewardRisk: netRisk > 0 ? netReward / netRisk : 0,
+    expectancy,
+    viable: netReward > 0 && expectancy > 0
+  };
+}
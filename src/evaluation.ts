@@ -0,0 +1,356 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * QUANTLLM AGENT EVALUATION
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Measures how well agents classify market regimes on labeled series
+ *
+ * Features:
+ * - Replays agents bar by bar over series labeled bull / bear / range
+ *   (generateMarketSeries ground truth or a label column in a CSV)
+ * - Confusion matrix, precision / recall / F1 per label, accuracy and macro-F1
+ * - Forward-return hit rates of the directional calls at several horizons
+ * - Deterministic text report and a comparison against a saved baseline,
+ *   so threshold changes can be diffed between versions
+ */
+
+import { Candle, AgentContext } from './types.js';
+import { runAgents } from './orchestrator.js';
+import { resolvePipelineConfig, PipelineConfig, PipelineConfigInput, PipelinePreset } from './config.js';
+import { agentRegistry, AgentRegistry } from './agents/index.js';
+import { aggregateSignals } from './signals.js';
+import { readCandlesFile, CandleImportOptions } from './utils/candleIO.js';
+import { MarketRegime } from './utils/synthetic.js';
+
+export const REGIME_LABELS: MarketRegime[] = ['bull', 'bear', 'range'];
+
+export type LabeledSeries = {
+  name?: string;
+  candles: Candle[];
+  labels: Array<MarketRegime | null>; // regime of every candle; null = unlabeled
+};
+
+export type EvaluationOptions = {
+  agents?: string[];        // agents to score; 'signal' is the aggregated score (default trend, indicator, signal)
+  horizons?: number[];      // forward return horizons in bars (default [1, 5, 20])
+  warmup?: number;          // bars required before the first sample (default 30)
+  lookback?: number;        // max bars fed to the agents per step (default 200)
+  step?: number;            // bars between samples (default 1)
+  threshold?: number;       // |signal| needed for bull/bear when an agent has no regime output (default 0.1)
+  pipeline?: PipelineConfigInput | PipelinePreset;
+};
+
+/** counts[actual][predicted] */
+export type ConfusionMatrix = Record<MarketRegime, Record<MarketRegime, number>>;
+
+export type LabelMetrics = {
+  precision: number;        // 0..1, of the bars predicted as this label
+  recall: number;           // 0..1, of the bars labeled this way
+  f1: number;
+  support: number;          // labeled bars
+  predicted: number;        // bars predicted as this label
+};
+
+export type HorizonStats = {
+  horizon: number;
+  calls: number;            // bull/bear predictions with a known forward return
+  hits: number;             // calls whose forward return had the predicted sign
+  hitRate: number;          // hits / calls (0 without calls)
+  upRate: number;           // share of all samples with a positive forward return (base rate)
+  meanReturn: Record<MarketRegime, number | null>; // mean forward return per predicted label
+};
+
+export type AgentEvaluation = {
+  agent: string;
+  samples: number;          // labeled samples in the confusion matrix
+  accuracy: number;
+  macroF1: number;
+  confusion: ConfusionMatrix;
+  labels: Record<MarketRegime, LabelMetrics>;
+  horizons: HorizonStats[];
+};
+
+export type EvaluationResult = {
+  series: Array<{ name: string; bars: number; samples: number }>;
+  horizons: number[];
+  agents: Record<string, AgentEvaluation>;
+  config: PipelineConfig;   // resolved agent configuration used for the run
+};
+
+export type EvaluationDelta = {
+  agent: string;
+  accuracy: number;         // current - baseline
+  macroF1: number;
+  f1: Record<MarketRegime, number>;
+  hitRate: Record<number, number>; // per horizon
+};
+
+type Sample = {
+  actual: MarketRegime | null;
+  predicted: Record<string, MarketRegime>;
+  forward: Array<number | null>; // per horizon
+};
+
+const LABEL_ALIASES: Record<string, MarketRegime> = {
+  bull: 'bull', bullish: 'bull', up: 'bull', uptrend: 'bull', long: 'bull', '1': 'bull', '+1': 'bull',
+  bear: 'bear', bearish: 'bear', down: 'bear', downtrend: 'bear', short: 'bear', '-1': 'bear',
+  range: 'range', sideways: 'range', neutral: 'range', flat: 'range', '0': 'range'
+};
+
+/**
+ * Evaluate agent regime calls against labeled series
+ * @param series - Candles with one regime label per candle
+ * @param options - Agents, horizons, sampling and pipeline settings
+ * @param registry - Agent registry
+ * @returns Per-agent confusion matrix, label metrics and forward-return hit rates
+ */
+export async function evaluateAgents(
+  series: LabeledSeries[],
+  options: EvaluationOptions = {},
+  registry: AgentRegistry = agentRegistry
+): Promise<EvaluationResult> {
+  const { warmup = 30, lookback = 200, step = 1, threshold = 0.1 } = options;
+  const agents = options.agents ?? ['trend', 'indicator', 'signal'];
+  const horizons = [...new Set(options.horizons ?? [1, 5, 20])].sort((a, b) => a - b);
+  const config = resolvePipelineConfig(options.pipeline);
+
+  for (const agent of agents) {
+    if (agent !== 'signal' && !registry.get(agent)) {
+      throw new Error(`Unknown agent: ${agent}`);
+    }
+  }
+  if (horizons.some(h => !Number.isInteger(h) || h < 1)) {
+    throw new Error('Horizons must be positive whole numbers of bars');
+  }
+
+  // Only the agents the evaluated outputs depend on (skips e.g. the LLM risk call)
+  const targets = agents.includes('signal')
+    ? registry.list().filter(def => def.signal).map(def => def.name)
+    : agents;
+
+  const samples: Sample[] = [];
+  const seriesInfo: EvaluationResult['series'] = [];
+
+  for (const [index, s] of series.entries()) {
+    if (s.labels.length !== s.candles.length) {
+      throw new Error(`Series ${s.name ?? index + 1} has ${s.labels.length} labels for ${s.candles.length} candles`);
+    }
+    let count = 0;
+    for (let i = Math.max(warmup - 1, 0); i < s.candles.length; i += Math.max(1, step)) {
+      const window = s.candles.slice(Math.max(0, i + 1 - lookback), i + 1);
+      const ctx = await runAgents(window, config, registry, targets);
+      const predicted = Object.fromEntries(
+        agents.map(agent => [agent, predictRegime(agent, ctx, config, registry, threshold)])
+      );
+      samples.push({
+        actual: s.labels[i],
+        predicted,
+        forward: horizons.map(h => i + h < s.candles.length ? s.candles[i + h].close / s.candles[i].close - 1 : null)
+      });
+      count++;
+    }
+    seriesInfo.push({ name: s.name ?? `series-${index + 1}`, bars: s.candles.length, samples: count });
+  }
+
+  return {
+    series: seriesInfo,
+    horizons,
+    agents: Object.fromEntries(agents.map(agent => [agent, scoreAgent(agent, samples, horizons)])),
+    config
+  };
+}
+
+/**
+ * Differences between two evaluations of the same agents (current - baseline)
+ * @param baseline - Earlier result, e.g. loaded from a saved JSON report
+ * @param current - New result
+ * @returns One delta per agent present in both
+ */
+export function compareEvaluations(baseline: EvaluationResult, current: EvaluationResult): EvaluationDelta[] {
+  return Object.values(current.agents)
+    .filter(a => baseline.agents[a.agent])
+    .map(a => {
+      const b = baseline.agents[a.agent];
+      return {
+        agent: a.agent,
+        accuracy: a.accuracy - b.accuracy,
+        macroF1: a.macroF1 - b.macroF1,
+        f1: Object.fromEntries(REGIME_LABELS.map(l => [l, a.labels[l].f1 - b.labels[l].f1])) as Record<MarketRegime, number>,
+        hitRate: Object.fromEntries(
+          a.horizons
+            .filter(h => b.horizons.some(bh => bh.horizon === h.horizon))
+            .map(h => [h.horizon, h.hitRate - b.horizons.find(bh => bh.horizon === h.horizon)!.hitRate])
+        )
+      };
+    });
+}
+
+/**
+ * Plain-text evaluation report; identical inputs give identical text
+ * @param result - Result of evaluateAgents
+ * @param baseline - Optional earlier result to show deltas against
+ * @returns Report lines joined by newlines
+ */
+export function formatEvaluationReport(result: EvaluationResult, baseline?: EvaluationResult): string {
+  const pct = (x: number) => `${(x * 100).toFixed(1)}%`.padStart(6);
+  const lines: string[] = ['=== Agent Evaluation ==='];
+
+  for (const s of result.series) lines.push(`Series: ${s.name} (${s.bars} bars, ${s.samples} samples)`);
+
+  for (const a of Object.values(result.agents)) {
+    lines.push('', `## ${a.agent}`);
+    lines.push(`Accuracy: ${pct(a.accuracy).trim()}  Macro-F1: ${a.macroF1.toFixed(3)}  Samples: ${a.samples}`);
+
+    lines.push('', 'actual \\ predicted'.padEnd(20) + REGIME_LABELS.map(l => l.padStart(8)).join(''));
+    for (const actual of REGIME_LABELS) {
+      lines.push(actual.padEnd(20) + REGIME_LABELS.map(p => String(a.confusion[actual][p]).padStart(8)).join(''));
+    }
+
+    lines.push('', 'label'.padEnd(8) + ['precision', 'recall', 'f1', 'support'].map(h => h.padStart(10)).join(''));
+    for (const label of REGIME_LABELS) {
+      const m = a.labels[label];
+      lines.push(
+        label.padEnd(8) +
+        [pct(m.precision), pct(m.recall), m.f1.toFixed(3), String(m.support)].map(v => v.padStart(10)).join('')
+      );
+    }
+
+    lines.push('', 'horizon'.padEnd(8) + ['calls', 'hit rate', 'up rate', 'ret bull', 'ret bear', 'ret range'].map(h => h.padStart(10)).join(''));
+    for (const h of a.horizons) {
+      const ret = (x: number | null) => x === null ? '-' : `${(x * 100).toFixed(2)}%`;
+      lines.push(
+        `${h.horizon}`.padEnd(8) +
+        [String(h.calls), pct(h.hitRate), pct(h.upRate), ret(h.meanReturn.bull), ret(h.meanReturn.bear), ret(h.meanReturn.range)]
+          .map(v => v.padStart(10)).join('')
+      );
+    }
+  }
+
+  if (baseline) {
+    const signed = (x: number, digits: number) => `${x >= 0 ? '+' : ''}${x.toFixed(digits)}`;
+    lines.push('', '=== Change vs baseline ===');
+    for (const d of compareEvaluations(baseline, result)) {
+      lines.push(
+        `${d.agent}: accuracy ${signed(d.accuracy * 100, 1)}pp, macro-F1 ${signed(d.macroF1, 3)}, ` +
+        `F1 ${REGIME_LABELS.map(l => `${l} ${signed(d.f1[l], 3)}`).join(' / ')}, ` +
+        `hit rate ${Object.entries(d.hitRate).map(([h, v]) => `${h}: ${signed(v * 100, 1)}pp`).join(' / ')}`
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Read candles with a regime label column from CSV or JSON
+ * @param path - File path
+ * @param options - Candle import options plus the label column name (default 'label')
+ * @returns Labeled series named after the file; unknown labels become null
+ */
+export async function readLabeledSeries(
+  path: string,
+  options: CandleImportOptions & { labelColumn?: string } = {}
+): Promise<LabeledSeries> {
+  const { labelColumn = 'label', ...importOptions } = options;
+  const result = await readCandlesFile(path, {
+    ...importOptions,
+    extraColumns: [...(importOptions.extraColumns ?? []), labelColumn]
+  });
+  const raw = result.extras?.[labelColumn] ?? [];
+  if (!raw.some(v => v !== undefined)) {
+    throw new Error(`No "${labelColumn}" column in ${path}`);
+  }
+  return { name: path, candles: result.candles, labels: result.candles.map((_, i) => parseRegimeLabel(raw[i])) };
+}
+
+/**
+ * Map a label such as 'Bullish', 'uptrend', 'sideways' or -1 to a regime
+ * @returns Regime, or null for empty or unknown labels
+ */
+export function parseRegimeLabel(value: unknown): MarketRegime | null {
+  if (value === undefined || value === null) return null;
+  return LABEL_ALIASES[String(value).trim().toLowerCase()] ?? null;
+}
+
+/**
+ * Regime called by one agent (or the aggregated signal) for the latest bar
+ */
+function predictRegime(
+  agent: string,
+  ctx: AgentContext,
+  config: PipelineConfig,
+  registry: AgentRegistry,
+  threshold: number
+): MarketRegime {
+  if (agent === 'signal') return fromSentiment(aggregateSignals(ctx, config.aggregation, registry).sentiment);
+  if (agent === 'trend' && ctx.trend) return fromSentiment(ctx.trend.trend);
+  if (agent === 'indicator' && ctx.indicator) return fromSentiment(ctx.indicator.regime);
+
+  const def = registry.get(agent);
+  const signal = def?.signal && ctx[agent] !== undefined ? def.signal(ctx[agent], ctx) : 0;
+  if (signal >= threshold && signal > 0) return 'bull';
+  if (signal <= -threshold && signal < 0) return 'bear';
+  return 'range';
+}
+
+function fromSentiment(value: string): MarketRegime {
+  if (value === 'Bullish' || value === 'Uptrend') return 'bull';
+  if (value === 'Bearish' || value === 'Downtrend') return 'bear';
+  return 'range';
+}
+
+function scoreAgent(agent: string, samples: Sample[], horizons: number[]): AgentEvaluation {
+  const confusion = Object.fromEntries(
+    REGIME_LABELS.map(actual => [actual, Object.fromEntries(REGIME_LABELS.map(p => [p, 0]))])
+  ) as ConfusionMatrix;
+
+  let labeled = 0;
+  for (const s of samples) {
+    if (s.actual === null) continue;
+    confusion[s.actual][s.predicted[agent]]++;
+    labeled++;
+  }
+
+  const labels = Object.fromEntries(REGIME_LABELS.map(label => {
+    const tp = confusion[label][label];
+    const support = REGIME_LABELS.reduce((sum, p) => sum + confusion[label][p], 0);
+    const predicted = REGIME_LABELS.reduce((sum, a) => sum + confusion[a][label], 0);
+    const precision = predicted > 0 ? tp / predicted : 0;
+    const recall = support > 0 ? tp / support : 0;
+    const f1 = precision + recall > 0 ? 2 * precision * recall / (precision + recall) : 0;
+    return [label, { precision, recall, f1, support, predicted }];
+  })) as Record<MarketRegime, LabelMetrics>;
+
+  // Macro-F1 over the labels that occur in the data
+  const present = REGIME_LABELS.filter(l => labels[l].support > 0);
+  const correct = REGIME_LABELS.reduce((sum, l) => sum + confusion[l][l], 0);
+
+  return {
+    agent,
+    samples: labeled,
+    accuracy: labeled > 0 ? correct / labeled : 0,
+    macroF1: present.length > 0 ? present.reduce((sum, l) => sum + labels[l].f1, 0) / present.length : 0,
+    confusion,
+    labels,
+    horizons: horizons.map((horizon, k) => horizonStats(agent, samples, horizon, k))
+  };
+}
+
+function horizonStats(agent: string, samples: Sample[], horizon: number, k: number): HorizonStats {
+  const known = samples.filter(s => s.forward[k] !== null);
+  const calls = known.filter(s => s.predicted[agent] !== 'range');
+  const hits = calls.filter(s => s.predicted[agent] === 'bull' ? s.forward[k]! > 0 : s.forward[k]! < 0).length;
+
+  const meanReturn = Object.fromEntries(REGIME_LABELS.map(label => {
+    const returns = known.filter(s => s.predicted[agent] === label).map(s => s.forward[k]!);
+    return [label, returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : null];
+  })) as Record<MarketRegime, number | null>;
+
+  return {
+    horizon,
+    calls: calls.length,
+    hits,
+    hitRate: calls.length > 0 ? hits / calls.length : 0,
+    upRate: known.length > 0 ? known.filter(s => s.forward[k]! > 0).length / known.length : 0,
+    meanReturn
+  };
+}
@@ -0,0 +1,572 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * QUANTLLM PARAMETER OPTIMIZER
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Tunes agent settings on historical candles without fooling itself
+ *
+ * Features:
+ * - Search space over any numeric config path (RSI period and thresholds,
+ *   EMA fast/slow, risk multiplier range, ...) as value lists or ranges
+ * - Grid, seeded random, or Bayesian search (tree-structured Parzen estimator)
+ * - Walk-forward (rolling or anchored) or purged k-fold splits with an embargo
+ * - In-sample vs out-of-sample scores per fold and stitched out-of-sample metrics
+ * - Stability of the best parameters across folds
+ * - Deflated Sharpe ratio, correcting the out-of-sample Sharpe for the number of trials
+ */
+
+import { Candle } from './types.js';
+import {
+  runBacktest,
+  computeBacktestMetrics,
+  inferPeriodsPerYear,
+  BacktestOptions,
+  BacktestMetrics,
+  BacktestTrade,
+  EquityPoint
+} from './backtest.js';
+import {
+  safeResolvePipelineConfig,
+  resolvePipelineConfig,
+  PipelineConfig,
+  PipelineConfigInput,
+  PipelinePreset
+} from './config.js';
+import { seededRandom } from './utils/synthetic.js';
+import { mean, variance, normalCdf, inverseNormal } from './utils/stats.js';
+
+/** Explicit values, or a range (stepped, or continuous for random / Bayesian search) */
+export type ParameterRange = number[] | { min: number; max: number; step?: number; integer?: boolean };
+
+/** Ranges keyed by dotted config path, e.g. 'indicator.rsiPeriod' */
+export type ParameterSpace = Record<string, ParameterRange>;
+
+export type SearchMethod = 'grid' | 'random' | 'bayesian';
+export type SplitMethod = 'walk-forward' | 'purged-kfold';
+export type OptimizationObjective = 'sharpe' | 'totalReturn' | 'profitFactor' | 'winRate';
+
+export type OptimizerOptions = {
+  space?: ParameterSpace;            // default DEFAULT_PARAMETER_SPACE
+  search?: SearchMethod;             // default 'random'
+  trials?: number;                   // configurations per fold for random / Bayesian search (default 30)
+  maxTrials?: number;                // largest grid accepted (default 500)
+  split?: SplitMethod;               // default 'walk-forward'
+  folds?: number;                    // default 4 (walk-forward) or 5 (purged k-fold)
+  testSize?: number;                 // walk-forward test bars per fold (default bars / (folds + 2))
+  trainSize?: number;                // walk-forward train bars (default 2 × testSize)
+  anchored?: boolean;                // walk-forward train always starts at the first bar (default false)
+  purge?: number;                    // purged k-fold: train bars dropped before each test fold (default 20)
+  embargo?: number;                  // purged k-fold: train bars dropped after each test fold (default purge)
+  objective?: OptimizationObjective; // default 'sharpe'; an infinite profit factor counts as 10
+  seed?: number | string;            // random / Bayesian search seed (default 1)
+  pipeline?: PipelineConfigInput | PipelinePreset; // base configuration the parameters override
+  backtest?: Omit<BacktestOptions, 'pipeline'>;
+  onTrial?: (fold: number, trial: OptimizationTrial) => void; // progress callback
+};
+
+export type OptimizationTrial = {
+  params: Record<string, number>;
+  score: number;                     // objective on the training data
+  metrics: BacktestMetrics;
+};
+
+export type OptimizationFold = {
+  fold: number;
+  train: Array<[number, number]>;    // bar index ranges [start, end)
+  test: [number, number];
+  best: Record<string, number>;
+  inSampleScore: number;
+  outOfSampleScore: number;
+  inSample: BacktestMetrics;
+  outOfSample: BacktestMetrics;
+  trials: OptimizationTrial[];
+  skipped: number;                   // configurations rejected by config validation
+};
+
+export type ParameterStability = {
+  values: number[];                  // best value per fold
+  mean: number;
+  std: number;
+  spread: number;                    // std relative to the searched range (0 = identical every fold)
+  agreement: number;                 // share of folds picking the most common value
+};
+
+export type DeflatedSharpe = {
+  sharpe: number;                    // per-bar out-of-sample Sharpe
+  annualized: number;
+  benchmark: number;                 // expected best per-bar Sharpe of `trials` unskilled trials
+  probability: number;               // P(true Sharpe > 0) after deflation; > 0.95 is significant
+  trials: number;
+  observations: number;
+  skewness: number;
+  kurtosis: number;                  // non-excess (3 for normal returns)
+};
+
+export type OptimizationResult = {
+  search: SearchMethod;
+  split: SplitMethod;
+  objective: OptimizationObjective;
+  folds: OptimizationFold[];
+  inSample: number;                  // mean in-sample objective of the chosen parameters
+  outOfSample: number;               // mean out-of-sample objective
+  efficiency: number | null;         // outOfSample / inSample (null when inSample ≤ 0)
+  outOfSampleMetrics: BacktestMetrics; // test folds stitched together
+  stability: Record<string, ParameterStability>;
+  deflatedSharpe: DeflatedSharpe;
+  recommended: Record<string, number>;
+  config: PipelineConfig;            // base configuration with the recommended parameters
+};
+
+/** RSI period and thresholds, EMA periods and the RiskAgent multiplier range */
+export const DEFAULT_PARAMETER_SPACE: ParameterSpace = {
+  'indicator.rsiPeriod': { min: 7, max: 21, step: 7 },
+  'indicator.bullishAbove': [55, 60, 65],
+  'indicator.bearishBelow': [35, 40, 45],
+  'trend.fastPeriod': [5, 8, 12],
+  'trend.slowPeriod': [21, 26, 50],
+  'risk.heuristic.min': [1.1, 1.2, 1.4],
+  'risk.heuristic.max': [1.6, 1.8, 2.2]
+};
+
+type Dimension = {
+  path: string;
+  values: number[] | null;           // null = continuous
+  min: number;
+  max: number;
+  integer: boolean;
+};
+
+type Segment = { start: number; end: number; floor: number }; // floor = earliest bar usable as context
+type Fold = { train: Segment[]; test: Segment };
+type SegmentRun = { trades: BacktestTrade[]; curve: EquityPoint[] };
+
+type Evaluated = OptimizationTrial & { perBarSharpe: number };
+
+const EULER_GAMMA = 0.5772156649;
+const TPE_CANDIDATES = 24;
+
+/**
+ * Optimize agent parameters with out-of-sample validation
+ *
+ * Each fold searches the space on its training bars, then backtests the best
+ * configuration on the unseen test bars. Test bars may use earlier bars as
+ * indicator history; training bars after a purged k-fold test fold may not.
+ *
+ * @param candles - Historical OHLCV candles, oldest first
+ * @param options - Search space and method, splits, objective and backtest settings
+ * @returns Per-fold results, in/out-of-sample summary, stability and deflated Sharpe
+ */
+export async function optimizeParameters(
+  candles: Candle[],
+  options: OptimizerOptions = {}
+): Promise<OptimizationResult> {
+  const search = options.search ?? 'random';
+  const split = options.split ?? 'walk-forward';
+  const objective = options.objective ?? 'sharpe';
+  const dims = Object.entries(options.space ?? DEFAULT_PARAMETER_SPACE).map(([path, range]) => toDimension(path, range));
+  if (dims.length === 0) throw new Error('Parameter space is empty');
+
+  const base: Record<string, unknown> = typeof options.pipeline === 'string'
+    ? { preset: options.pipeline }
+    : structuredClone(options.pipeline ?? {});
+  resolvePipelineConfig(base as PipelineConfigInput); // fail fast on an invalid base
+
+  const backtest: BacktestOptions = {
+    ...options.backtest,
+    periodsPerYear: options.backtest?.periodsPerYear ?? inferPeriodsPerYear(candles)
+  };
+  const folds = split === 'walk-forward'
+    ? walkForwardFolds(candles.length, options, backtest.warmup ?? 30)
+    : purgedKFolds(candles.length, options, backtest.warmup ?? 30);
+
+  const random = seededRandom(options.seed ?? 1);
+  const results: OptimizationFold[] = [];
+  const allTrials: Evaluated[] = [];
+  const testRuns: SegmentRun[] = [];
+
+  for (const [k, fold] of folds.entries()) {
+    const cache = new Map<string, Evaluated>();
+    let skipped = 0;
+
+    const evaluate = async (params: Record<string, number>): Promise<Evaluated | null> => {
+      const key = JSON.stringify(params);
+      if (cache.has(key)) return null;
+      const resolved = safeResolvePipelineConfig(withParams(base, params));
+      if (!resolved.success) {
+        skipped++;
+        return null;
+      }
+      const run = stitch(await Promise.all(fold.train.map(seg => runSegment(candles, seg, resolved.config, backtest))), backtest);
+      const metrics = computeBacktestMetrics(run.trades, run.curve, backtest.initialCapital ?? 10_000, backtest.periodsPerYear);
+      const trial = { params, score: scoreOf(metrics, objective), metrics, perBarSharpe: perBarSharpe(run.curve) };
+      cache.set(key, trial);
+      options.onTrial?.(k + 1, { params, score: trial.score, metrics });
+      return trial;
+    };
+
+    await runSearch(search, dims, evaluate, random, options);
+    const trials = [...cache.values()];
+    if (trials.length === 0) {
+      throw new Error(`Fold ${k + 1}: no valid configuration in the parameter space`);
+    }
+    allTrials.push(...trials);
+
+    const best = trials.reduce((a, b) => (b.score > a.score ? b : a));
+    const config = resolvePipelineConfig(withParams(base, best.params) as PipelineConfigInput);
+    const testRun = await runSegment(candles, fold.test, config, backtest);
+    testRuns.push(testRun);
+    const outOfSample = computeBacktestMetrics(testRun.trades, testRun.curve, backtest.initialCapital ?? 10_000, backtest.periodsPerYear);
+
+    results.push({
+      fold: k + 1,
+      train: fold.train.map(s => [s.start, s.end]),
+      test: [fold.test.start, fold.test.end],
+      best: best.params,
+      inSampleScore: best.score,
+      outOfSampleScore: scoreOf(outOfSample, objective),
+      inSample: best.metrics,
+      outOfSample,
+      trials: trials.map(({ params, score, metrics }) => ({ params, score, metrics })),
+      skipped
+    });
+  }
+
+  const inSample = mean(results.map(f => f.inSampleScore));
+  const outOfSample = mean(results.map(f => f.outOfSampleScore));
+  const oos = stitch(testRuns, backtest);
+
+  const stability = Object.fromEntries(dims.map(dim => [dim.path, stabilityOf(dim, results.map(f => f.best[dim.path]))]));
+  const recommended = recommend(dims, stability, base, results);
+
+  return {
+    search,
+    split,
+    objective,
+    folds: results,
+    inSample,
+    outOfSample,
+    efficiency: inSample > 0 ? outOfSample / inSample : null,
+    outOfSampleMetrics: computeBacktestMetrics(oos.trades, oos.curve, backtest.initialCapital ?? 10_000, backtest.periodsPerYear),
+    stability,
+    deflatedSharpe: deflatedSharpe(curveReturns(oos.curve), allTrials.map(t => t.perBarSharpe), backtest.periodsPerYear ?? 252),
+    recommended,
+    config: resolvePipelineConfig(withParams(base, recommended) as PipelineConfigInput)
+  };
+}
+
+/**
+ * Deflated Sharpe ratio (Bailey & López de Prado, 2014)
+ * @param returns - Per-bar returns of the selected strategy
+ * @param trialSharpes - Per-bar Sharpe ratio of every configuration tried
+ * @param periodsPerYear - Bars per year for the annualised figure
+ * @returns Observed Sharpe, the deflated benchmark and P(true Sharpe > 0)
+ */
+export function deflatedSharpe(returns: number[], trialSharpes: number[], periodsPerYear = 252): DeflatedSharpe {
+  const n = returns.length;
+  const m = mean(returns);
+  const sd = Math.sqrt(variance(returns));
+  const sharpe = sd > 0 ? m / sd : 0;
+  const skewness = sd > 0 ? mean(returns.map(r => ((r - m) / sd) ** 3)) : 0;
+  const kurtosis = sd > 0 ? mean(returns.map(r => ((r - m) / sd) ** 4)) : 3;
+
+  // Expected maximum Sharpe of N independent unskilled trials
+  const trials = trialSharpes.length;
+  const benchmark = trials > 1
+    ? Math.sqrt(variance(trialSharpes)) *
+      ((1 - EULER_GAMMA) * inverseNormal(1 - 1 / trials) + EULER_GAMMA * inverseNormal(1 - 1 / (trials * Math.E)))
+    : 0;
+
+  const denominator = Math.sqrt(Math.max(1e-12, 1 - skewness * sharpe + ((kurtosis - 1) / 4) * sharpe ** 2));
+  const probability = n > 1 ? normalCdf(((sharpe - benchmark) * Math.sqrt(n - 1)) / denominator) : 0;
+
+  return {
+    sharpe,
+    annualized: sharpe * Math.sqrt(periodsPerYear),
+    benchmark,
+    probability,
+    trials,
+    observations: n,
+    skewness,
+    kurtosis
+  };
+}
+
+// ── Search ───────────────────────────────────────────────────────────────────
+
+async function runSearch(
+  method: SearchMethod,
+  dims: Dimension[],
+  evaluate: (params: Record<string, number>) => Promise<Evaluated | null>,
+  random: () => number,
+  options: OptimizerOptions
+): Promise<void> {
+  const trials = options.trials ?? 30;
+
+  if (method === 'grid') {
+    const axes = dims.map(gridValues);
+    const size = axes.reduce((n, a) => n * a.length, 1);
+    if (size > (options.maxTrials ?? 500)) {
+      throw new Error(`Grid has ${size} combinations (maxTrials ${options.maxTrials ?? 500}); narrow the space or use random search`);
+    }
+    for (let i = 0; i < size; i++) {
+      let rest = i;
+      const params: Record<string, number> = {};
+      dims.forEach((dim, d) => {
+        params[dim.path] = axes[d][rest % axes[d].length];
+        rest = Math.floor(rest / axes[d].length);
+      });
+      await evaluate(params);
+    }
+    return;
+  }
+
+  const done: Evaluated[] = [];
+  const startup = method === 'bayesian' ? Math.min(trials, Math.max(5, Math.ceil(trials / 4))) : trials;
+
+  // Duplicates and invalid configurations do not count; give up after 20× the budget
+  for (let attempt = 0; done.length < trials && attempt < trials * 20; attempt++) {
+    const params = done.length < startup
+      ? Object.fromEntries(dims.map(dim => [dim.path, fromUnit(dim, random())]))
+      : proposeParzen(dims, done, random);
+    const trial = await evaluate(params);
+    if (trial) done.push(trial);
+  }
+}
+
+/**
+ * Tree-structured Parzen estimator: sample around the best quarter of the trials,
+ * keep the candidate most likely under the good density relative to the rest
+ */
+function proposeParzen(dims: Dimension[], done: Evaluated[], random: () => number): Record<string, number> {
+  const sorted = [...done].sort((a, b) => b.score - a.score);
+  const split = Math.max(1, Math.ceil(sorted.length * 0.25));
+  const good = sorted.slice(0, split).map(t => dims.map(dim => toUnit(dim, t.params[dim.path])));
+  const bad = sorted.slice(split).map(t => dims.map(dim => toUnit(dim, t.params[dim.path])));
+  const bandwidth = Math.max(0.05, 0.5 * Math.pow(done.length, -1 / (dims.length + 4)));
+
+  const density = (x: number[], points: number[][]) => points.length === 0
+    ? 1
+    : points.reduce((sum, p) => sum + Math.exp(-x.reduce((s, xi, d) => s + (xi - p[d]) ** 2, 0) / (2 * bandwidth ** 2)), 0) / points.length;
+
+  let best: number[] = good[0];
+  let bestRatio = -Infinity;
+  for (let c = 0; c < TPE_CANDIDATES; c++) {
+    const center = good[Math.floor(random() * good.length)];
+    const x = center.map(v => Math.min(1, Math.max(0, v + bandwidth * gaussian(random))));
+    const ratio = Math.log(density(x, good) + 1e-300) - Math.log(density(x, bad) + 1e-300);
+    if (ratio > bestRatio) {
+      bestRatio = ratio;
+      best = x;
+    }
+  }
+  return Object.fromEntries(dims.map((dim, d) => [dim.path, fromUnit(dim, best[d])]));
+}
+
+function toDimension(path: string, range: ParameterRange): Dimension {
+  if (Array.isArray(range)) {
+    const values = [...new Set(range)].sort((a, b) => a - b);
+    if (values.length === 0 || !values.every(Number.isFinite)) {
+      throw new Error(`Parameter ${path} needs at least one finite value`);
+    }
+    return { path, values, min: values[0], max: values[values.length - 1], integer: values.every(Number.isInteger) };
+  }
+
+  const { min, max, step } = range;
+  if (!(Number.isFinite(min) && Number.isFinite(max) && min <= max) || (step !== undefined && !(step > 0))) {
+    throw new Error(`Parameter ${path} needs min ≤ max and a positive step`);
+  }
+  const integer = range.integer ?? (Number.isInteger(min) && Number.isInteger(max) && (step === undefined || Number.isInteger(step)));
+  if (step === undefined) return { path, values: null, min, max, integer };
+
+  const values: number[] = [];
+  for (let k = 0; min + k * step <= max + 1e-9; k++) values.push(round(min + k * step));
+  return { path, values, min, max, integer };
+}
+
+/** Grid axis: the listed values, or 5 evenly spaced points of a continuous range */
+function gridValues(dim: Dimension): number[] {
+  if (dim.values) return dim.values;
+  return [...new Set([0, 0.25, 0.5, 0.75, 1].map(u => fromUnit(dim, u)))];
+}
+
+function fromUnit(dim: Dimension, u: number): number {
+  if (dim.values) return dim.values[Math.min(dim.values.length - 1, Math.floor(u * dim.values.length))];
+  const value = dim.min + u * (dim.max - dim.min);
+  return dim.integer ? Math.round(value) : round(value);
+}
+
+function toUnit(dim: Dimension, value: number): number {
+  if (dim.values) return (Math.max(0, dim.values.indexOf(value)) + 0.5) / dim.values.length;
+  return dim.max > dim.min ? (value - dim.min) / (dim.max - dim.min) : 0.5;
+}
+
+// ── Splits ───────────────────────────────────────────────────────────────────
+
+function walkForwardFolds(n: number, options: OptimizerOptions, warmup: number): Fold[] {
+  const folds = options.folds ?? 4;
+  const testSize = options.testSize ?? Math.floor(n / (folds + 2));
+  const trainSize = options.trainSize ?? 2 * testSize;
+  if (!(folds >= 1) || testSize < 2 || trainSize <= warmup || trainSize + folds * testSize > n) {
+    throw new Error(
+      `Not enough candles for ${folds} walk-forward folds (${n} bars; train ${trainSize} + ${folds} × test ${testSize}, train must exceed warmup ${warmup})`
+    );
+  }
+
+  return Array.from({ length: folds }, (_, k) => {
+    const start = n - (folds - k) * testSize;
+    return {
+      train: [{ start: options.anchored ? 0 : start - trainSize, end: start, floor: 0 }],
+      test: { start, end: start + testSize, floor: 0 }
+    };
+  });
+}
+
+function purgedKFolds(n: number, options: OptimizerOptions, warmup: number): Fold[] {
+  const folds = options.folds ?? 5;
+  const purge = options.purge ?? 20;
+  const embargo = options.embargo ?? purge;
+  const size = Math.floor(n / folds);
+  if (!(folds >= 2) || size < 2) {
+    throw new Error(`Not enough candles for ${folds} purged folds (${n} bars)`);
+  }
+
+  return Array.from({ length: folds }, (_, k) => {
+    const start = k * size;
+    const end = k === folds - 1 ? n : start + size;
+    // Training data after the test fold must not see test bars as indicator history
+    const train = [
+      { start: 0, end: start - purge, floor: 0 },
+      { start: end + embargo, end: n, floor: end + embargo }
+    ].filter(s => s.end - s.start > warmup);
+    if (train.length === 0) {
+      throw new Error(`Fold ${k + 1} has no training segment longer than the warmup (${warmup} bars)`);
+    }
+    return { train, test: { start, end, floor: 0 } };
+  });
+}
+
+// ── Backtests ────────────────────────────────────────────────────────────────
+
+/**
+ * Backtest bars [start, end) with up to `lookback` earlier bars as indicator history.
+ * The history bars are cut from the equity curve so they do not dilute the metrics.
+ */
+async function runSegment(candles: Candle[], seg: Segment, config: PipelineConfig, options: BacktestOptions): Promise<SegmentRun> {
+  const context = Math.max(0, Math.min(seg.start - seg.floor, options.lookback ?? 200));
+  const result = await runBacktest(candles.slice(seg.start - context, seg.end), {
+    ...options,
+    warmup: Math.max(options.warmup ?? 30, context + 1),
+    pipeline: config
+  });
+  return { trades: result.trades, curve: result.equityCurve.slice(context) };
+}
+
+/**
+ * Chain segment runs into one equity curve, each continuing from the previous final equity
+ */
+function stitch(runs: SegmentRun[], options: BacktestOptions): SegmentRun {
+  const initial = options.initialCapital ?? 10_000;
+  const trades: BacktestTrade[] = [];
+  const curve: EquityPoint[] = [];
+  let scale = 1;
+  let peak = initial;
+
+  for (const run of runs) {
+    for (const p of run.curve) {
+      const equity = p.equity * scale;
+      peak = Math.max(peak, equity);
+      curve.push({ time: p.time, equity, drawdown: peak > 0 ? (peak - equity) / peak : 0 });
+    }
+    trades.push(...run.trades.map(t => ({ ...t, quantity: t.quantity * scale, pnl: t.pnl * scale })));
+    scale *= (run.curve.at(-1)?.equity ?? initial) / initial;
+  }
+  return { trades, curve };
+}
+
+function scoreOf(metrics: BacktestMetrics, objective: OptimizationObjective): number {
+  const value = metrics[objective];
+  return Number.isFinite(value) ? value : 10;
+}
+
+function curveReturns(curve: EquityPoint[]): number[] {
+  const returns: number[] = [];
+  for (let i = 1; i < curve.length; i++) {
+    if (curve[i - 1].equity > 0) returns.push(curve[i].equity / curve[i - 1].equity - 1);
+  }
+  return returns;
+}
+
+function perBarSharpe(curve: EquityPoint[]): number {
+  const returns = curveReturns(curve);
+  const sd = Math.sqrt(variance(returns));
+  return sd > 0 ? mean(returns) / sd : 0;
+}
+
+// ── Stability ────────────────────────────────────────────────────────────────
+
+function stabilityOf(dim: Dimension, values: number[]): ParameterStability {
+  const counts = new Map<number, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  const std = Math.sqrt(variance(values, 0));
+  return {
+    values,
+    mean: mean(values),
+    std,
+    spread: dim.max > dim.min ? std / (dim.max - dim.min) : 0,
+    agreement: values.length > 0 ? Math.max(...counts.values()) / values.length : 0
+  };
+}
+
+/**
+ * Majority value per parameter, else the median (snapped to the listed values);
+ * falls back to the best out-of-sample fold when the combination is invalid
+ */
+function recommend(
+  dims: Dimension[],
+  stability: Record<string, ParameterStability>,
+  base: Record<string, unknown>,
+  folds: OptimizationFold[]
+): Record<string, number> {
+  const params = Object.fromEntries(dims.map(dim => {
+    const { values, agreement } = stability[dim.path];
+    if (agreement > 0.5) return [dim.path, mode(values)];
+    const median = [...values].sort((a, b) => a - b)[Math.floor((values.length - 1) / 2)];
+    if (dim.values) return [dim.path, dim.values.reduce((a, b) => (Math.abs(b - median) < Math.abs(a - median) ? b : a))];
+    return [dim.path, median];
+  }));
+
+  if (safeResolvePipelineConfig(withParams(base, params)).success) return params;
+  return folds.reduce((a, b) => (b.outOfSampleScore > a.outOfSampleScore ? b : a)).best;
+}
+
+function mode(values: number[]): number {
+  const counts = new Map<number, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts.entries()].reduce((a, b) => (b[1] > a[1] ? b : a))[0];
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+/**
+ * Copy of the base config input with each dotted path set to its value
+ */
+function withParams(base: Record<string, unknown>, params: Record<string, number>): Record<string, unknown> {
+  const out = structuredClone(base);
+  for (const [path, value] of Object.entries(params)) {
+    const keys = path.split('.');
+    let node = out;
+    for (const key of keys.slice(0, -1)) {
+      if (typeof node[key] !== 'object' || node[key] === null) node[key] = {};
+      node = node[key] as Record<string, unknown>;
+    }
+    node[keys[keys.length - 1]] = value;
+  }
+  return out;
+}
+
+function round(x: number): number {
+  return Math.round(x * 1e9) / 1e9;
+}
+
+function gaussian(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
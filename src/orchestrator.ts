@@ -5,38 +5,107 @@
  * Main pipeline that coordinates all agents and generates market narratives
  */
 
-import { Candle, AgentContext } from './types.js';
-import { IndicatorAgent, PatternAgent, TrendAgent, RiskAgent } from './agents/index.js';
+import { Candle, AgentContext, IndicatorReadings } from './types.js';
+import { agentRegistry, AgentRegistry, runRegisteredAgent } from './agents/index.js';
+import { resolvePipelineConfig, PipelineConfig, PipelineConfigInput, PipelinePreset } from './config.js';
+import { aggregateSignals, AggregationOptions } from './signals.js';
 import MarketDataService from './services/marketData.js';
+import { OHLCVCacheKey, OHLCVCacheStats } from './services/ohlcvCache.js';
+import { Timeframe, timeframeSeconds } from './utils/resample.js';
+import { computeConfluence, describeConfluence } from './confluence.js';
+import { alignReturns, portfolioExposure, portfolioRisk, PortfolioPosition, PortfolioRiskOptions } from './portfolio.js';
+import { MarketDataProvider, ProviderChain } from './services/providers/index.js';
+import { PaperAccount, PaperFill, BracketOrders } from './services/paperTrading.js';
+import { IncrementalIndicators } from './utils/incremental.js';
 
-const marketDataService = new MarketDataService();
+let marketDataService = new MarketDataService();
+
+const BUILT_IN_AGENTS = ['indicator', 'pattern', 'chart', 'trend', 'risk'];
+
+/** Per-agent options keyed by agent name (see PipelineConfig) */
+export type PipelineOptions = PipelineConfigInput;
 
 /**
  * Run the complete QuantLLM pipeline
  * @param candles - Array of OHLCV candles
- * @returns Analysis context and narrative
+ * @param config - Preset name or per-agent configuration (validated, defaults filled in)
+ * @param registry - Agents to run (default: built-ins plus registered custom agents)
+ * @param readings - Incremental indicator values for the last candle (see incrementalIndicatorsFor)
+ * @returns Analysis context, narrative and the resolved configuration
  */
-export async function runPipeline(candles: Candle[]) {
-  const ctx: AgentContext = { candles };
-
-  // Run all agents sequentially, building context
-  ctx.indicator = await IndicatorAgent(ctx);
-  ctx.pattern   = await PatternAgent(ctx);
-  ctx.trend     = await TrendAgent(ctx);
-  ctx.risk      = await RiskAgent(ctx);
+export async function runPipeline(
+  candles: Candle[],
+  config: PipelineConfigInput | PipelinePreset = {},
+  registry: AgentRegistry = agentRegistry,
+  readings?: IndicatorReadings
+): Promise<{ ctx: AgentContext; narrative: string; config: PipelineConfig }> {
+  const resolved = resolvePipelineConfig(config);
+  const ctx = await runAgents(candles, resolved, registry, undefined, readings);
 
   // Generate human-readable narrative
-  const narrative = generateNarrative(ctx);
+  const narrative = generateNarrative(ctx, registry, resolved.aggregation);
+
+  return { ctx, narrative, config: resolved };
+}
+
+/**
+ * Run registered agents stage by stage, building context.
+ * Agents within a stage have no dependencies on each other and run concurrently.
+ * @param candles - Array of OHLCV candles
+ * @param options - Per-agent options keyed by agent name (not validated; see runPipeline)
+ * @param registry - Agent registry
+ * @param targets - Agents to run with their dependencies (default: all)
+ * @param readings - Incremental indicator values; agents use them instead of recomputing
+ *   when their time matches the last candle
+ * @returns Context with each output stored under its agent name
+ */
+export async function runAgents(
+  candles: Candle[],
+  options: PipelineOptions = {},
+  registry: AgentRegistry = agentRegistry,
+  targets?: string[],
+  readings?: IndicatorReadings
+): Promise<AgentContext> {
+  const ctx: AgentContext = readings ? { candles, readings } : { candles };
+
+  for (const stage of registry.resolveStages(targets)) {
+    const outputs = await Promise.all(
+      stage.map(name => runRegisteredAgent(registry.get(name)!, ctx, options[name]))
+    );
+    stage.forEach((name, i) => { ctx[name] = outputs[i]; });
+  }
 
-  return { ctx, narrative };
+  return ctx;
+}
+
+/**
+ * Incremental calculators for the indicators the configured agents read
+ * (trend EMAs and slope, indicator RSI, risk ATR). Feed each candle with
+ * update() and pass readings() to runPipeline to skip the batch recomputation.
+ * @param config - Preset name or pipeline configuration
+ */
+export function incrementalIndicatorsFor(config: PipelineConfigInput | PipelinePreset = {}): IncrementalIndicators {
+  const { trend, indicator, risk } = resolvePipelineConfig(config);
+  return new IncrementalIndicators({
+    emaPeriods: [trend.fastPeriod, trend.slowPeriod],
+    slopeLookbacks: [trend.slopeLookback],
+    rsi: [{ period: indicator.rsiPeriod, method: indicator.rsiMethod }],
+    atrPeriods: [risk.atrPeriod]
+  });
 }
 
 /**
  * Generate a human-readable market story
  * @param ctx - Complete agent context
+ * @param registry - Agent registry (custom agent lines and signals)
+ * @param aggregation - Signal weights for the summary line
  * @returns Formatted narrative string
  */
-function generateNarrative(ctx: AgentContext): string {
+function generateNarrative(
+  ctx: AgentContext,
+  registry: AgentRegistry = agentRegistry,
+  aggregation: AggregationOptions = {}
+): string {
   if (!ctx.indicator || !ctx.pattern || !ctx.trend || !ctx.risk) {
     return 'Incomplete analysis - missing agent outputs';
   }
@@ -57,96 +126,122 @@ function generateNarrative(ctx: AgentContext): string {
     `(${ctx.indicator.regime}${ctx.indicator.overbought ? ', Overbought' : ''}${ctx.indicator.oversold ? ', Oversold' : ''}); ` +
     `confidence=${ctx.indicator.confidence.toFixed(2)}`;
   
+  const recentPatterns = ctx.pattern.matches.length;
   const patternLine = 
-    `🕯️ Pattern: ${ctx.pattern.pattern} (strength=${ctx.pattern.strength.toFixed(2)})`;
+    `🕯️ Pattern: ${ctx.pattern.pattern} (strength=${ctx.pattern.strength.toFixed(2)}; ${recentPatterns} match${recentPatterns === 1 ? '' : 'es'} in window)`;
+  
+  const chartPattern = ctx.chart?.patterns.at(-1);
+  const levels = [
+    ctx.chart?.nearestSupport !== undefined ? `S=${ctx.chart.nearestSupport.toFixed(5)}` : null,
+    ctx.chart?.nearestResistance !== undefined ? `R=${ctx.chart.nearestResistance.toFixed(5)}` : null
+  ].filter(Boolean).join(', ');
+  const chartLine =
+    `📐 Chart: ${chartPattern ? `${chartPattern.pattern} (${chartPattern.bias}, strength=${chartPattern.strength.toFixed(2)})` : 'No structure'}` +
+    (levels ? `; levels ${levels}` : '');
   
   const trendLine = 
-    `📊 Trend: ${ctx.trend.trend} (EMA12=${ctx.trend.emaFast.toFixed(5)}, EMA26=${ctx.trend.emaSlow.toFixed(5)}, strength=${ctx.trend.strength.toFixed(2)})`;
+    `📊 Trend: ${ctx.trend.trend} (EMA${ctx.trend.fastPeriod ?? 12}=${ctx.trend.emaFast.toFixed(5)}, ` +
+    `EMA${ctx.trend.slowPeriod ?? 26}=${ctx.trend.emaSlow.toFixed(5)}, strength=${ctx.trend.strength.toFixed(2)})`;
   
   const riskLine = 
-    `🛡️ Risk: ρ=${ctx.risk.rho.toFixed(5)}, r=${ctx.risk.rMultiplier.toFixed(2)} ⇒ take-profit R=${ctx.risk.takeProfit.toFixed(5)} (${ctx.risk.commentary})`;
+    `🛡️ Risk: ρ=${ctx.risk.rho.toFixed(5)} [${ctx.risk.stopMode}: ${ctx.risk.stopDistance.toFixed(5)} / ${ctx.risk.stopPercent.toFixed(3)}%], ` +
+    `r=${ctx.risk.rMultiplier.toFixed(2)} ⇒ take-profit R=${ctx.risk.takeProfit.toFixed(5)} (${ctx.risk.commentary})`;
+
+  // One line per custom agent that knows how to describe itself
+  const customLines = registry.list()
+    .filter(def => !BUILT_IN_AGENTS.includes(def.name) && def.describe && ctx[def.name] !== undefined)
+    .map(def => `🧩 ${def.name}: ${def.describe!(ctx[def.name])}`);
+
+  const signal = aggregateSignals(ctx, aggregation, registry);
+  const signalLine =
+    `🧮 Signal: ${signal.sentiment} (score=${signal.score.toFixed(2)}, confidence=${signal.confidence.toFixed(2)}, ` +
+    `agreement=${signal.agreement.toFixed(2)}; ` +
+    signal.contributions.map(c => `${c.agent} ${c.contribution >= 0 ? '+' : ''}${c.contribution.toFixed(2)}`).join(', ') + ')';
 
-  return [timestamp, indicatorLine, patternLine, trendLine, riskLine].join('\n');
+  return [timestamp, indicatorLine, patternLine, chartLine, trendLine, riskLine, ...customLines, signalLine].join('\n');
 }
 
 /**
  * Generate JSON output for API responses
  * @param candles - Array of OHLCV candles
- * @returns Complete analysis in JSON format
+ * @param config - Preset name or per-agent configuration
+ * @returns Complete analysis in JSON format, including the configuration used
  */
-export async function runAnalysis(candles: Candle[]) {
-  const { ctx } = await runPipeline(candles);
+export async function runAnalysis(candles: Candle[], config: PipelineConfigInput | PipelinePreset = {}) {
+  const { ctx, narrative, config: resolved } = await runPipeline(candles, config);
+  const signal = aggregateSignals(ctx, resolved.aggregation);
   
   return {
     timestamp: new Date().toISOString(),
+    narrative,
     indicator: ctx.indicator,
     pattern: ctx.pattern,
+    chart: ctx.chart,
     trend: ctx.trend,
     risk: ctx.risk,
+    custom: customOutputs(ctx),
     summary: {
-      bullishSignals: countBullishSignals(ctx),
-      bearishSignals: countBearishSignals(ctx),
-      overallSentiment: getOverallSentiment(ctx)
-    }
+      bullishSignals: signal.contributions.filter(c => c.contribution > 0).length,
+      bearishSignals: signal.contributions.filter(c => c.contribution < 0).length,
+      overallSentiment: signal.sentiment,
+      score: signal.score,
+      confidence: signal.confidence,
+      agreement: signal.agreement,
+      contributions: signal.contributions
+    },
+    config: resolved
   };
 }
 
 /**
- * Count bullish signals across all agents
- */
-function countBullishSignals(ctx: AgentContext): number {
-  let count = 0;
-  if (ctx.indicator?.regime === 'Bullish') count++;
-  if (ctx.pattern?.pattern === 'BullishEngulfing') count++;
-  if (ctx.trend?.trend === 'Uptrend') count++;
-  return count;
-}
-
-/**
- * Count bearish signals across all agents
+ * Outputs of custom (non built-in) agents in the context
  */
-function countBearishSignals(ctx: AgentContext): number {
-  let count = 0;
-  if (ctx.indicator?.regime === 'Bearish') count++;
-  if (ctx.pattern?.pattern === 'BearishEngulfing') count++;
-  if (ctx.trend?.trend === 'Downtrend') count++;
-  return count;
+function customOutputs(ctx: AgentContext): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(ctx).filter(([key]) => key !== 'candles' && key !== 'readings' && !BUILT_IN_AGENTS.includes(key))
+  );
 }
 
 /**
- * Determine overall market sentiment
+ * Determine overall market sentiment from the weighted signal score
+ * @param ctx - Pipeline context
+ * @param aggregation - Weights and threshold (default: built-in weights)
  */
-function getOverallSentiment(ctx: AgentContext): 'Bullish' | 'Bearish' | 'Neutral' {
-  const bullish = countBullishSignals(ctx);
-  const bearish = countBearishSignals(ctx);
-  
-  if (bullish > bearish) return 'Bullish';
-  if (bearish > bullish) return 'Bearish';
-  return 'Neutral';
+export function getOverallSentiment(
+  ctx: AgentContext,
+  aggregation: AggregationOptions = {}
+): 'Bullish' | 'Bearish' | 'Neutral' {
+  return aggregateSignals(ctx, aggregation).sentiment;
 }
 
 /**
  * Run analysis on real market data for a given symbol
  * @param symbol - Stock/crypto symbol (e.g., 'AAPL', 'BTC')
- * @param interval - Time interval for data
+ * @param interval - Time interval for data (native or resampled, e.g. '4h', 'weekly')
  * @param periods - Number of periods to analyze
+ * @param config - Preset name or per-agent configuration
  * @returns Complete analysis with real market data
  */
 export async function runRealTimeAnalysis(
   symbol: string,
-  interval: 'daily' | '1min' | '5min' | '15min' | '30min' | '60min' = 'daily',
-  periods: number = 100
+  interval: Timeframe = 'daily',
+  periods: number = 100,
+  config: PipelineConfigInput | PipelinePreset = {}
 ) {
   try {
-    // Fetch real market data
-    const candles = await marketDataService.getOHLCVWithPeriods(symbol, periods, interval);
+    const resolved = resolvePipelineConfig(config);
+
+    // Fetch real market data, validated and repaired per the quality policies
+    const { candles, source, resampledFrom, quality } = await marketDataService.getOHLCVWithPeriodsAndSource(
+      symbol, periods, interval, { quality: resolved.quality }
+    );
     
     if (candles.length === 0) {
       throw new Error(`No market data found for symbol: ${symbol}`);
     }
 
     // Run the complete analysis pipeline
-    const { ctx, narrative } = await runPipeline(candles);
+    const { ctx, narrative } = await runPipeline(candles, resolved);
     
     // Get market summary
     const marketSummary = marketDataService.getMarketSummary(candles);
@@ -160,11 +255,15 @@ export async function runRealTimeAnalysis(
       interval,
       periods,
       timestamp: new Date().toISOString(),
+      dataSource: source,
+      resampledFrom,
+      dataQuality: quality,
       marketSummary,
       analysis: ctx,
       narrative,
       recentData: formattedData,
-      dataPoints: candles.length
+      dataPoints: candles.length,
+      config: resolved
     };
   } catch (error) {
     console.error(`Error in real-time analysis for ${symbol}:`, error);
@@ -172,6 +271,220 @@ export async function runRealTimeAnalysis(
   }
 }
 
+/**
+ * Run the full pipeline on several timeframes of the same symbol and measure their confluence
+ * @param symbol - Stock/crypto symbol
+ * @param intervals - Timeframes to analyse (native or resampled)
+ * @param periods - Number of bars per timeframe
+ * @param config - Preset name or per-agent configuration, shared by every timeframe
+ * @returns Per-timeframe results (shortest first), confluence score and narrative
+ * @throws Error when no timeframe could be analysed
+ */
+export async function runMultiTimeframeAnalysis(
+  symbol: string,
+  intervals: Timeframe[] = ['15min', '60min', 'daily'],
+  periods: number = 100,
+  config: PipelineConfigInput | PipelinePreset = {}
+) {
+  const resolved = resolvePipelineConfig(config);
+  const ordered = [...new Set(intervals)].sort((a, b) => timeframeSeconds(a) - timeframeSeconds(b));
+  if (ordered.length === 0) {
+    throw new Error('At least one interval is required');
+  }
+
+  const timeframes = [];
+  const failed: Array<{ interval: Timeframe; error: string }> = [];
+
+  // One timeframe at a time: providers rate-limit concurrent downloads
+  for (const interval of ordered) {
+    try {
+      const { candles, source, resampledFrom, quality } = await marketDataService.getOHLCVWithPeriodsAndSource(
+        symbol, periods, interval, { quality: resolved.quality }
+      );
+      if (candles.length === 0) {
+        throw new Error(`No market data found for symbol: ${symbol}`);
+      }
+
+      const { ctx, narrative } = await runPipeline(candles, resolved);
+      timeframes.push({
+        interval,
+        dataSource: source,
+        resampledFrom,
+        dataQuality: quality,
+        dataPoints: candles.length,
+        lastCandle: new Date(candles[candles.length - 1].time * 1000).toISOString(),
+        signal: aggregateSignals(ctx, resolved.aggregation),
+        analysis: ctx,
+        narrative
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error analysing ${symbol} on ${interval}:`, error);
+      failed.push({ interval, error: message });
+    }
+  }
+
+  if (timeframes.length === 0) {
+    throw new Error(`No timeframe could be analysed for ${symbol} (${failed.map(f => `${f.interval}: ${f.error}`).join('; ')})`);
+  }
+
+  const signals = timeframes.map(({ interval, signal }) => ({ interval, signal }));
+  const confluence = computeConfluence(signals, { threshold: resolved.aggregation.threshold });
+
+  return {
+    symbol: symbol.toUpperCase(),
+    intervals: ordered,
+    periods,
+    timestamp: new Date().toISOString(),
+    timeframes,
+    failed,
+    confluence,
+    narrative: describeConfluence(signals, confluence),
+    config: resolved
+  };
+}
+
+/**
+ * Exposure and VaR / CVaR of a set of positions from their market history
+ * @param positions - Positions; a missing price is taken from the latest close
+ * @param options - Account equity, history interval and length, VaR settings
+ * @returns Exposure, historical and parametric risk, and the data used
+ * @throws Error when a symbol has no market data
+ */
+export async function analyzePortfolioRisk(
+  positions: Array<Omit<PortfolioPosition, 'price'> & { price?: number }>,
+  options: { equity: number; interval?: Timeframe; periods?: number } & Omit<PortfolioRiskOptions, 'method'>
+) {
+  const { equity, interval = 'daily', periods = 250, ...riskOptions } = options;
+  const symbols = [...new Set(positions.map(p => p.symbol.toUpperCase()))];
+
+  // One symbol at a time: providers rate-limit concurrent downloads
+  const history: Record<string, Candle[]> = {};
+  const dataSources: Record<string, string> = {};
+  for (const symbol of symbols) {
+    const { candles, source } = await marketDataService.getOHLCVWithPeriodsAndSource(symbol, periods, interval);
+    if (candles.length < 2) {
+      throw new Error(`No market data found for symbol: ${symbol}`);
+    }
+    history[symbol] = candles;
+    dataSources[symbol] = source;
+  }
+
+  const priced: PortfolioPosition[] = positions.map(p => {
+    const symbol = p.symbol.toUpperCase();
+    return { ...p, symbol, price: p.price ?? history[symbol].at(-1)!.close };
+  });
+  const { returns } = alignReturns(history);
+  const periodsPerYear = riskOptions.periodsPerYear ?? Math.round((365 * 86400) / timeframeSeconds(interval));
+
+  return {
+    equity,
+    interval,
+    timestamp: new Date().toISOString(),
+    positions: priced,
+    exposure: portfolioExposure(priced, equity),
+    historical: portfolioRisk(priced, returns, equity, { ...riskOptions, periodsPerYear, method: 'historical' }),
+    parametric: portfolioRisk(priced, returns, equity, { ...riskOptions, periodsPerYear, method: 'parametric' }),
+    dataSources
+  };
+}
+
+/**
+ * Feed the latest bars of every symbol the paper account holds or has orders in
+ * @param account - Paper account (mutated: orders fill, positions are marked)
+ * @param options - Bar interval and how many recent bars to fetch per symbol
+ * @returns Fills and data source per symbol
+ */
+export async function syncPaperAccount(
+  account: PaperAccount,
+  options: { interval?: Timeframe; periods?: number } = {}
+) {
+  const { interval = 'daily', periods = 5 } = options;
+  const fills: PaperFill[] = [];
+  const dataSources: Record<string, string> = {};
+  for (const symbol of account.activeSymbols()) {
+    const { candles, source } = await marketDataService.getOHLCVWithPeriodsAndSource(symbol, periods, interval);
+    fills.push(...account.processCandles(symbol, candles));
+    dataSources[symbol] = source;
+  }
+  return { fills, dataSources, account: account.summary() };
+}
+
+/**
+ * Analyze a symbol and act on the signal in a paper account
+ *
+ * The RiskAgent sizes the trade against the account's equity; a Bullish signal
+ * submits a buy bracket and a Bearish one a sell bracket, with the stop-loss and
+ * take-profit from the RiskAgent's rho / rMultiplier. Neutral signals place nothing.
+ * @param account - Paper account (mutated)
+ * @param symbol - Symbol to analyze and trade
+ * @param options - Interval, history length, pipeline config and an optional fixed quantity
+ * @returns Signal, risk output, the bracket (if any) and why no order was placed otherwise
+ */
+export async function tradePaperSignal(
+  account: PaperAccount,
+  symbol: string,
+  options: {
+    interval?: Timeframe;
+    periods?: number;
+    config?: PipelineConfigInput | PipelinePreset;
+    quantity?: number;
+    orderType?: 'market' | 'limit';
+  } = {}
+) {
+  const { interval = 'daily', periods = 100, config = {}, quantity, orderType = 'market' } = options;
+  const upper = symbol.toUpperCase();
+  const resolved = resolvePipelineConfig(config);
+  const { candles, source } = await marketDataService.getOHLCVWithPeriodsAndSource(
+    upper, periods, interval, { quality: resolved.quality }
+  );
+  if (candles.length === 0) {
+    throw new Error(`No market data found for symbol: ${upper}`);
+  }
+
+  // Catch the account up first so the sizing sees current equity and marks
+  account.processCandles(upper, candles);
+
+  resolved.risk.sizing = { ...resolved.risk.sizing, equity: account.summary().equity, symbol: upper };
+  const { ctx } = await runPipeline(candles, resolved);
+  const signal = aggregateSignals(ctx, resolved.aggregation);
+  const risk = ctx.risk!;
+
+  let bracket: BracketOrders | null = null;
+  let note: string;
+  const last = candles[candles.length - 1].close;
+  if (signal.sentiment === 'Neutral') {
+    note = 'Neutral signal: no order placed';
+  } else if (!(quantity ?? risk.sizing?.quantity)) {
+    note = `No order placed: ${risk.sizing?.note ?? 'position size rounds to zero'}`;
+  } else {
+    bracket = account.submitRiskBracket({
+      symbol: upper,
+      side: signal.sentiment === 'Bullish' ? 'buy' : 'sell',
+      type: orderType,
+      limitPrice: orderType === 'limit' ? last : undefined,
+      quantity,
+      tag: `signal ${signal.sentiment} ${signal.score.toFixed(2)}`
+    }, risk);
+    note = bracket.entry.status === 'rejected'
+      ? `Order rejected: ${bracket.entry.reason}`
+      : `${bracket.entry.side === 'buy' ? 'Buy' : 'Sell'} bracket submitted, fills on the next bar`;
+  }
+
+  return {
+    symbol: upper,
+    interval,
+    timestamp: new Date().toISOString(),
+    dataSource: source,
+    lastPrice: last,
+    signal,
+    risk,
+    bracket,
+    note,
+    account: account.summary()
+  };
+}
+
 /**
  * Get market data for a symbol without analysis
  * @param symbol - Stock/crypto symbol
@@ -181,11 +494,11 @@ export async function runRealTimeAnalysis(
  */
 export async function getMarketData(
   symbol: string,
-  interval: 'daily' | '1min' | '5min' | '15min' | '30min' | '60min' = 'daily',
+  interval: Timeframe = 'daily',
   periods: number = 100
 ) {
   try {
-    const candles = await marketDataService.getOHLCVWithPeriods(symbol, periods, interval);
+    const { candles, source, resampledFrom, quality } = await marketDataService.getOHLCVWithPeriodsAndSource(symbol, periods, interval);
     
     if (candles.length === 0) {
       throw new Error(`No market data found for symbol: ${symbol}`);
@@ -201,6 +514,9 @@ export async function getMarketData(
       interval,
       periods,
       timestamp: new Date().toISOString(),
+      dataSource: source,
+      resampledFrom,
+      dataQuality: quality,
       marketSummary,
       data: formattedData,
       dataPoints: candles.length
@@ -211,6 +527,21 @@ export async function getMarketData(
   }
 }
 
+/**
+ * Get raw candles for a symbol (for exports)
+ * @param symbol - Stock/crypto symbol
+ * @param interval - Time interval
+ * @param periods - Number of periods
+ * @returns Candles, oldest first, and the provider that served them
+ */
+export async function getMarketCandles(
+  symbol: string,
+  interval: Timeframe = 'daily',
+  periods: number = 100
+) {
+  return marketDataService.getOHLCVWithPeriodsAndSource(symbol, periods, interval);
+}
+
 /**
  * Search for available symbols
  * @param keywords - Search keywords
@@ -246,4 +577,40 @@ export async function validateSymbol(symbol: string) {
     console.error(`Error validating symbol ${symbol}:`, error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Replace the market data source used by the real-time functions
+ * (e.g. a FixtureProvider or an offline ProviderChain)
+ * @param provider - Provider or provider chain
+ */
+export function setMarketDataProvider(provider: MarketDataProvider): void {
+  marketDataService = new MarketDataService(provider, marketDataService.getCache());
+}
+
+/**
+ * Provider names per asset-class route of the current market data source
+ */
+export function getMarketDataSources(): Record<string, string[]> {
+  const provider = marketDataService.getProvider();
+  return provider instanceof ProviderChain ? provider.describe() : { default: [provider.name] };
+}
+
+/**
+ * OHLCV cache counters and stored entries
+ * @returns Stats, or null when caching is disabled
+ */
+export async function getMarketCacheStats(): Promise<OHLCVCacheStats | null> {
+  const cache = marketDataService.getCache();
+  return cache ? cache.stats() : null;
+}
+
+/**
+ * Delete cached OHLCV series
+ * @param filter - Symbol, interval and/or provider to match (default: everything)
+ * @returns Number of entries removed
+ */
+export async function purgeMarketCache(filter: Partial<OHLCVCacheKey> = {}): Promise<number> {
+  const cache = marketDataService.getCache();
+  return cache ? cache.purge(filter) : 0;
+}
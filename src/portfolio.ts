@@ -0,0 +1,537 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * PORTFOLIO RISK
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Position sizing and risk budgeting across a portfolio of instruments
+ *
+ * Features:
+ * - Instrument specs per asset class: contract multiplier, lot step, minimum size, leverage
+ * - Sizing methods: fixed-fractional, fractional Kelly, volatility targeting, risk parity
+ * - Limits: risk per trade, margin (per-class leverage), gross leverage,
+ *   per-asset and per-category exposure, correlated portfolio volatility
+ * - Portfolio exposure, historical or parametric VaR / CVaR with per-asset contributions
+ */
+
+import { Candle, PositionSizing, SizingMethod } from './types.js';
+import { AssetClass } from './services/providers/types.js';
+import { classifySymbol } from './services/providers/assetClass.js';
+import { mean, normalPdf, inverseNormal } from './utils/stats.js';
+
+export const SIZING_METHODS = ['fixed-fractional', 'kelly', 'vol-target', 'risk-parity'] as const;
+
+export type InstrumentSpec = {
+  symbol?: string;
+  assetClass: AssetClass;
+  contractMultiplier: number; // price units per quantity unit (e.g. 100 oz per gold future)
+  lotStep: number;            // quantities are rounded down to a multiple of this
+  minQuantity: number;        // smaller orders are not placed
+  leverage: number;           // maximum leverage; margin = notional / leverage
+};
+
+export type PortfolioPosition = {
+  symbol: string;
+  quantity: number;           // signed: negative for shorts
+  price: number;              // current price
+  assetClass?: AssetClass;    // default: classifySymbol(symbol)
+  contractMultiplier?: number; // default: asset class spec
+  leverage?: number;
+};
+
+export type ExposureLimits = {
+  maxAssetExposure?: number;  // gross notional per symbol as a multiple of equity
+  maxCategoryExposure?: number | Partial<Record<AssetClass, number>>; // gross notional per asset class
+  maxGrossLeverage?: number;  // total gross notional as a multiple of equity
+  maxPortfolioVolatility?: number; // annualised, needs `returns` for every position
+};
+
+export type SizingRequest = {
+  method?: SizingMethod;      // default 'fixed-fractional'
+  equity: number;
+  price: number;              // entry price
+  stopDistance: number;       // price units
+  side?: 'Long' | 'Short';    // default 'Long'
+  symbol?: string;
+  instrument?: Partial<InstrumentSpec>;
+  riskPerTrade?: number;      // fixed-fractional: fraction of equity risked (default 0.01)
+  maxRiskPerTrade?: number;   // cap for every method (default 0.02)
+  kellyFraction?: number;     // share of the full Kelly bet (default 0.5)
+  winRate?: number;           // Kelly win probability (default 0.5)
+  rewardRisk?: number;        // Kelly payoff ratio, e.g. the RiskAgent r (default 1.5)
+  targetVolatility?: number;  // vol-target / risk-parity: annualised portfolio volatility (default 0.15)
+  volatility?: number;        // annualised volatility of the instrument (needed by vol-target / risk-parity)
+  positions?: PortfolioPosition[];
+  limits?: ExposureLimits;
+  returns?: Record<string, number[]>; // aligned per-bar returns by symbol (correlation-aware limits and risk parity)
+  periodsPerYear?: number;    // bars per year of `returns` (default 252)
+  costPerUnit?: number;       // round-trip trading costs per unit, price units (added to the stop distance)
+  fixedCosts?: number;        // round-trip fixed fees, account currency (taken from the risk budget)
+  averageVolume?: number;     // average bar volume, quantity units (needed by maxParticipation)
+  maxParticipation?: number;  // cap on quantity / averageVolume
+};
+
+export type PortfolioExposure = {
+  equity: number;
+  gross: number;              // Σ |notional| / equity
+  net: number;                // Σ notional / equity
+  margin: number;             // Σ |notional| / leverage / equity
+  byAsset: Record<string, number>;   // signed notional / equity
+  byCategory: Partial<Record<AssetClass, number>>; // gross notional / equity
+};
+
+export type PortfolioRiskOptions = {
+  confidence?: number;        // default 0.95
+  horizon?: number;           // bars, scaled by √horizon (default 1)
+  method?: 'historical' | 'parametric'; // default 'historical'
+  periodsPerYear?: number;    // for the annualised volatility (default 252)
+};
+
+export type PortfolioRisk = {
+  method: 'historical' | 'parametric';
+  confidence: number;
+  horizon: number;
+  var: number;                // loss in account currency not exceeded with `confidence`
+  cvar: number;               // mean loss beyond the VaR
+  varPct: number;             // var / equity
+  cvarPct: number;
+  volatility: number;         // annualised portfolio volatility as a fraction of equity
+  observations: number;
+  contributions: Record<string, number>; // parametric component VaR per symbol (sums to the parametric VaR)
+};
+
+export const DEFAULT_INSTRUMENT_SPECS: Record<AssetClass, Omit<InstrumentSpec, 'symbol' | 'assetClass'>> = {
+  stocks: { contractMultiplier: 1, lotStep: 1, minQuantity: 1, leverage: 2 },
+  crypto: { contractMultiplier: 1, lotStep: 0.0001, minQuantity: 0.0001, leverage: 2 },
+  forex: { contractMultiplier: 1, lotStep: 1000, minQuantity: 1000, leverage: 30 },
+  commodities: { contractMultiplier: 1, lotStep: 0.01, minQuantity: 0.01, leverage: 10 },
+  indices: { contractMultiplier: 1, lotStep: 0.1, minQuantity: 0.1, leverage: 20 }
+};
+
+/**
+ * Instrument spec for a symbol: asset class defaults plus overrides
+ * @param symbol - Symbol used to classify the asset class (default stocks)
+ * @param overrides - Fields to replace
+ */
+export function instrumentSpec(symbol?: string, overrides: Partial<InstrumentSpec> = {}): InstrumentSpec {
+  const assetClass = overrides.assetClass ?? (symbol ? classifySymbol(symbol) : 'stocks');
+  return { symbol, assetClass, ...DEFAULT_INSTRUMENT_SPECS[assetClass], ...stripUndefined(overrides) };
+}
+
+/**
+ * Size a new position and apply the portfolio limits
+ *
+ * Risk-based methods (fixed-fractional, Kelly) risk a fraction of equity to the stop;
+ * volatility methods size the notional so the position carries a share of the target
+ * volatility. The result is then cut by each limit in turn and rounded down to the lot step.
+ * Round-trip costs, when given, are risked alongside the stop.
+ *
+ * @param request - Method, account, instrument, existing positions and limits
+ * @returns Quantity, notional, risk and which limits reduced the size
+ */
+export function sizePosition(request: SizingRequest): PositionSizing {
+  const method = request.method ?? 'fixed-fractional';
+  const { equity, price, stopDistance } = request;
+  const spec = instrumentSpec(request.symbol, request.instrument);
+  const side = request.side ?? 'Long';
+  const positions = request.positions ?? [];
+  const limits = request.limits ?? {};
+  const maxRisk = request.maxRiskPerTrade ?? 0.02;
+  const unit = price * spec.contractMultiplier;           // notional per quantity unit
+  // Costs are lost on every trade, so they count as risk alongside the stop
+  const riskPerUnit = (stopDistance + (request.costPerUnit ?? 0)) * spec.contractMultiplier;
+  const fixedCosts = request.fixedCosts ?? 0;
+  const notes: string[] = [];
+
+  if (!(equity > 0) || !(unit > 0)) {
+    return emptySizing(method, spec, 'No equity or price to size against.');
+  }
+
+  // 1. Raw size from the method
+  let quantity: number;
+  switch (method) {
+    case 'kelly': {
+      const winRate = request.winRate ?? 0.5;
+      const rewardRisk = request.rewardRisk ?? 1.5;
+      const full = kellyFraction(winRate, rewardRisk);
+      const fraction = full * (request.kellyFraction ?? 0.5);
+      notes.push(`Kelly f*=${full.toFixed(3)} (p=${winRate.toFixed(2)}, b=${rewardRisk.toFixed(2)}) × ${request.kellyFraction ?? 0.5}.`);
+      quantity = riskPerUnit > 0 ? Math.max(0, equity * fraction - fixedCosts) / riskPerUnit : 0;
+      break;
+    }
+    case 'vol-target':
+    case 'risk-parity': {
+      const target = request.targetVolatility ?? 0.15;
+      const weight = method === 'vol-target'
+        ? volTargetWeight(target, request.volatility)
+        : riskParityWeight(target, request, positions);
+      if (weight === null) return emptySizing(method, spec, 'Instrument volatility unknown.');
+      quantity = (equity * weight) / unit;
+      break;
+    }
+    default:
+      quantity = riskPerUnit > 0 ? Math.max(0, equity * (request.riskPerTrade ?? 0.01) - fixedCosts) / riskPerUnit : 0;
+  }
+
+  // 2. Limits, each a cap on the quantity
+  const limitedBy: string[] = [];
+  const cap = (name: string, max: number) => {
+    if (quantity > max) {
+      quantity = Math.max(0, max);
+      limitedBy.push(name);
+    }
+  };
+
+  if (riskPerUnit > 0) cap('risk per trade', (equity * maxRisk - fixedCosts) / riskPerUnit);
+
+  const existing = positions.map(p => withNotional(p));
+  const usedMargin = existing.reduce((sum, p) => sum + Math.abs(p.notional) / p.leverage, 0);
+  cap('margin', ((equity - usedMargin) * spec.leverage) / unit);
+
+  if (limits.maxGrossLeverage !== undefined) {
+    const gross = existing.reduce((sum, p) => sum + Math.abs(p.notional), 0);
+    cap('gross leverage', (limits.maxGrossLeverage * equity - gross) / unit);
+  }
+
+  if (limits.maxAssetExposure !== undefined && request.symbol) {
+    const same = existing.filter(p => p.symbol === request.symbol);
+    // Adding to a position on the same side stacks; an opposite position is reduced first
+    const current = same.reduce((sum, p) => sum + p.notional, 0) * (side === 'Long' ? 1 : -1);
+    cap('asset exposure', (limits.maxAssetExposure * equity - current) / unit);
+  }
+
+  const categoryLimit = typeof limits.maxCategoryExposure === 'number'
+    ? limits.maxCategoryExposure
+    : limits.maxCategoryExposure?.[spec.assetClass];
+  if (categoryLimit !== undefined) {
+    const gross = existing.filter(p => p.assetClass === spec.assetClass).reduce((sum, p) => sum + Math.abs(p.notional), 0);
+    cap(`${spec.assetClass} exposure`, (categoryLimit * equity - gross) / unit);
+  }
+
+  if (limits.maxPortfolioVolatility !== undefined) {
+    const max = maxWeightForVolatility(limits.maxPortfolioVolatility, request, existing, side === 'Long' ? 1 : -1);
+    if (max === null) notes.push('Portfolio volatility limit skipped: missing return history.');
+    else cap('portfolio volatility', (max * equity) / unit);
+  }
+
+  if (request.maxParticipation !== undefined && request.averageVolume !== undefined) {
+    cap('volume participation', request.maxParticipation * request.averageVolume);
+  }
+
+  // 3. Tradable size
+  quantity = Math.floor(quantity / spec.lotStep + 1e-9) * spec.lotStep;
+  quantity = Math.round(quantity * 1e8) / 1e8;
+  if (quantity < spec.minQuantity) {
+    if (quantity > 0 || limitedBy.length === 0) notes.push(`Below the minimum size of ${spec.minQuantity}.`);
+    quantity = 0;
+  }
+
+  const notional = quantity * unit;
+  const riskAmount = quantity > 0 ? quantity * riskPerUnit + fixedCosts : 0;
+  return {
+    method,
+    quantity,
+    notional,
+    riskAmount,
+    riskFraction: riskAmount / equity,
+    exposure: notional / equity,
+    margin: notional / spec.leverage,
+    assetClass: spec.assetClass,
+    limitedBy,
+    note: notes.join(' ')
+  };
+}
+
+/**
+ * Full Kelly fraction f* = p − (1 − p) / b, floored at 0
+ * @param winRate - Probability of reaching the target
+ * @param rewardRisk - Target distance / stop distance
+ */
+export function kellyFraction(winRate: number, rewardRisk: number): number {
+  if (!(rewardRisk > 0)) return 0;
+  return Math.max(0, winRate - (1 - winRate) / rewardRisk);
+}
+
+/**
+ * Weights with equal risk contributions (w_i · (Σw)_i equal for every asset)
+ * @param covariance - Covariance matrix of returns
+ * @param options - Iterations and tolerance of the fixed-point solver
+ * @returns Weights summing to 1
+ */
+export function riskParityWeights(
+  covariance: number[][],
+  options: { iterations?: number; tolerance?: number } = {}
+): number[] {
+  const n = covariance.length;
+  if (n === 0) return [];
+  const { iterations = 500, tolerance = 1e-10 } = options;
+
+  // Start from inverse volatility, then w_i ← √(w_i · σ_p² / n / (Σw)_i)
+  let w = covariance.map((row, i) => 1 / Math.sqrt(Math.max(row[i], 1e-18)));
+  w = normalize(w);
+  for (let iter = 0; iter < iterations; iter++) {
+    const sw = matVec(covariance, w);
+    const total = dot(w, sw);
+    if (!(total > 0)) break;
+    const next = normalize(w.map((wi, i) => Math.sqrt((wi * total) / n / Math.max(sw[i], 1e-18))));
+    const change = next.reduce((max, v, i) => Math.max(max, Math.abs(v - w[i])), 0);
+    w = next;
+    if (change < tolerance) break;
+  }
+  return w;
+}
+
+/**
+ * Sample covariance matrix of aligned return series
+ * @param series - One array of returns per asset, all the same length
+ */
+export function covarianceMatrix(series: number[][]): number[][] {
+  const means = series.map(mean);
+  const n = Math.min(...series.map(s => s.length));
+  return series.map((a, i) => series.map((b, j) => {
+    let sum = 0;
+    for (let t = 0; t < n; t++) sum += (a[t] - means[i]) * (b[t] - means[j]);
+    return n > 1 ? sum / (n - 1) : 0;
+  }));
+}
+
+/**
+ * Per-bar simple returns aligned on the timestamps every series has
+ * @param series - Candles by symbol
+ * @returns Shared timestamps (of each return's closing bar) and returns by symbol
+ */
+export function alignReturns(series: Record<string, Candle[]>): { times: number[]; returns: Record<string, number[]> } {
+  const symbols = Object.keys(series);
+  if (symbols.length === 0) return { times: [], returns: {} };
+
+  const closes = symbols.map(s => new Map(series[s].map(c => [c.time, c.close])));
+  const times = [...closes[0].keys()].filter(t => closes.every(m => m.has(t))).sort((a, b) => a - b);
+
+  const returns = Object.fromEntries(symbols.map((s, k) => [
+    s,
+    times.slice(1).map((t, i) => closes[k].get(t)! / closes[k].get(times[i])! - 1)
+  ]));
+  return { times: times.slice(1), returns };
+}
+
+/**
+ * Annualised volatility of close-to-close log returns
+ * @param candles - Candles, oldest first
+ * @param periodsPerYear - Bars per year (default: from the median bar spacing)
+ * @returns Volatility, or NaN with fewer than 3 candles
+ */
+export function annualizedVolatility(candles: Candle[], periodsPerYear?: number): number {
+  if (candles.length < 3) return NaN;
+  const returns = candles.slice(1).map((c, i) => Math.log(c.close / candles[i].close)).filter(Number.isFinite);
+  const m = mean(returns);
+  const sd = Math.sqrt(returns.reduce((s, r) => s + (r - m) ** 2, 0) / Math.max(returns.length - 1, 1));
+
+  let bars = periodsPerYear;
+  if (bars === undefined) {
+    const deltas = candles.slice(1).map((c, i) => c.time - candles[i].time).filter(d => d > 0).sort((a, b) => a - b);
+    bars = deltas.length > 0 ? (365 * 86400) / deltas[Math.floor(deltas.length / 2)] : 252;
+  }
+  return sd * Math.sqrt(bars);
+}
+
+/**
+ * Gross, net, margin and per-asset / per-class exposure as multiples of equity
+ * @param positions - Open positions
+ * @param equity - Account equity
+ */
+export function portfolioExposure(positions: PortfolioPosition[], equity: number): PortfolioExposure {
+  const byAsset: Record<string, number> = {};
+  const byCategory: Partial<Record<AssetClass, number>> = {};
+  let gross = 0;
+  let net = 0;
+  let margin = 0;
+
+  for (const p of positions.map(withNotional)) {
+    byAsset[p.symbol] = (byAsset[p.symbol] ?? 0) + p.notional / equity;
+    byCategory[p.assetClass] = (byCategory[p.assetClass] ?? 0) + Math.abs(p.notional) / equity;
+    gross += Math.abs(p.notional);
+    net += p.notional;
+    margin += Math.abs(p.notional) / p.leverage;
+  }
+  return { equity, gross: gross / equity, net: net / equity, margin: margin / equity, byAsset, byCategory };
+}
+
+/**
+ * Value at risk and conditional VaR of the current positions
+ *
+ * Historical VaR reprices the positions with every past bar of returns; parametric VaR
+ * assumes normal returns with the sample covariance. Both scale by √horizon.
+ *
+ * @param positions - Open positions
+ * @param returns - Aligned per-bar returns by symbol (see alignReturns)
+ * @param equity - Account equity
+ * @param options - Confidence, horizon, method and bars per year
+ * @returns VaR, CVaR (account currency and fraction of equity), volatility and contributions
+ * @throws Error when a position has no return history
+ */
+export function portfolioRisk(
+  positions: PortfolioPosition[],
+  returns: Record<string, number[]>,
+  equity: number,
+  options: PortfolioRiskOptions = {}
+): PortfolioRisk {
+  const { confidence = 0.95, horizon = 1, method = 'historical', periodsPerYear = 252 } = options;
+  if (!(confidence > 0 && confidence < 1)) throw new Error('VaR confidence must be between 0 and 1');
+
+  // Net notional per symbol
+  const notional = new Map<string, number>();
+  for (const p of positions.map(withNotional)) notional.set(p.symbol, (notional.get(p.symbol) ?? 0) + p.notional);
+  const symbols = [...notional.keys()];
+  for (const s of symbols) {
+    if (!returns[s]) throw new Error(`No return history for ${s}`);
+  }
+
+  const n = symbols.length > 0 ? Math.min(...symbols.map(s => returns[s].length)) : 0;
+  const exposures = symbols.map(s => notional.get(s)!);
+  const cov = covarianceMatrix(symbols.map(s => returns[s].slice(-n)));
+  const sigma = Math.sqrt(Math.max(0, dot(exposures, matVec(cov, exposures))));
+  const scale = Math.sqrt(horizon);
+  const z = inverseNormal(confidence);
+
+  // Component VaR: exposure_i · (Σ·exposure)_i / σ · z
+  const marginal = matVec(cov, exposures);
+  const contributions = Object.fromEntries(symbols.map((s, i) => [
+    s,
+    sigma > 0 ? (exposures[i] * marginal[i] / sigma) * z * scale : 0
+  ]));
+
+  let valueAtRisk: number;
+  let conditional: number;
+  if (method === 'parametric') {
+    valueAtRisk = z * sigma * scale;
+    conditional = (sigma * normalPdf(z) / (1 - confidence)) * scale;
+  } else {
+    const losses: number[] = [];
+    for (let t = 0; t < n; t++) {
+      losses.push(-symbols.reduce((sum, s, i) => sum + exposures[i] * returns[s][returns[s].length - n + t], 0));
+    }
+    losses.sort((a, b) => a - b);
+    const index = Math.min(losses.length - 1, Math.ceil(confidence * losses.length) - 1);
+    const tail = losses.slice(Math.max(index, 0));
+    valueAtRisk = losses.length > 0 ? Math.max(0, losses[index]) * scale : 0;
+    conditional = tail.length > 0 ? Math.max(0, mean(tail)) * scale : 0;
+  }
+
+  return {
+    method,
+    confidence,
+    horizon,
+    var: valueAtRisk,
+    cvar: conditional,
+    varPct: equity > 0 ? valueAtRisk / equity : 0,
+    cvarPct: equity > 0 ? conditional / equity : 0,
+    volatility: equity > 0 ? (sigma / equity) * Math.sqrt(periodsPerYear) : 0,
+    observations: n,
+    contributions
+  };
+}
+
+// ── Sizing helpers ───────────────────────────────────────────────────────────
+
+function volTargetWeight(target: number, volatility?: number): number | null {
+  return volatility !== undefined && volatility > 0 ? target / volatility : null;
+}
+
+/**
+ * Risk-parity weight of the new instrument: from the covariance with the existing
+ * positions when every return series is known, else equal risk assuming no correlation
+ */
+function riskParityWeight(target: number, request: SizingRequest, positions: PortfolioPosition[]): number | null {
+  const symbols = [...new Set(positions.map(p => p.symbol).filter(s => s !== request.symbol))];
+  const returns = request.returns;
+  const ppy = request.periodsPerYear ?? 252;
+
+  if (request.symbol && returns && [request.symbol, ...symbols].every(s => returns[s])) {
+    const all = [...symbols, request.symbol];
+    const n = Math.min(...all.map(s => returns[s].length));
+    const cov = covarianceMatrix(all.map(s => returns[s].slice(-n))).map(row => row.map(v => v * ppy));
+    const weights = riskParityWeights(cov);
+    const vol = Math.sqrt(dot(weights, matVec(cov, weights)));
+    return vol > 0 ? weights[weights.length - 1] * (target / vol) : null;
+  }
+
+  const volatility = request.volatility;
+  if (volatility === undefined || !(volatility > 0)) return null;
+  return target / (volatility * Math.sqrt(symbols.length + 1));
+}
+
+/**
+ * Largest weight (notional / equity) of the new instrument that keeps the annualised
+ * portfolio volatility under the limit: solves a + 2bx + cx² = limit²
+ */
+function maxWeightForVolatility(
+  limit: number,
+  request: SizingRequest,
+  existing: Array<ReturnType<typeof withNotional>>,
+  sign: number
+): number | null {
+  const returns = request.returns;
+  const symbols = [...new Set(existing.map(p => p.symbol))];
+  if (!request.symbol || !returns || ![request.symbol, ...symbols].every(s => returns[s])) return null;
+
+  const all = [...symbols.filter(s => s !== request.symbol), request.symbol];
+  const n = Math.min(...all.map(s => returns[s].length));
+  const ppy = request.periodsPerYear ?? 252;
+  const cov = covarianceMatrix(all.map(s => returns[s].slice(-n))).map(row => row.map(v => v * ppy));
+
+  // The new position adds sign × x to the weight of its symbol (last)
+  const k = all.length - 1;
+  const weights = all.map(s => existing.filter(p => p.symbol === s).reduce((sum, p) => sum + p.notional, 0) / request.equity);
+  const a = dot(weights, matVec(cov, weights));
+  const b = sign * matVec(cov, weights)[k];
+  const c = cov[k][k];
+  if (!(c > 0)) return Infinity;
+
+  const disc = b * b - c * (a - limit * limit);
+  if (disc < 0) return 0;
+  return Math.max(0, (-b + Math.sqrt(disc)) / c);
+}
+
+function withNotional(p: PortfolioPosition) {
+  const spec = instrumentSpec(p.symbol, {
+    assetClass: p.assetClass,
+    contractMultiplier: p.contractMultiplier,
+    leverage: p.leverage
+  });
+  return {
+    symbol: p.symbol,
+    assetClass: spec.assetClass,
+    leverage: spec.leverage,
+    notional: p.quantity * p.price * spec.contractMultiplier
+  };
+}
+
+function emptySizing(method: SizingMethod, spec: InstrumentSpec, note: string): PositionSizing {
+  return {
+    method,
+    quantity: 0,
+    notional: 0,
+    riskAmount: 0,
+    riskFraction: 0,
+    exposure: 0,
+    margin: 0,
+    assetClass: spec.assetClass,
+    limitedBy: [],
+    note
+  };
+}
+
+function stripUndefined<T extends object>(obj: T): Partial<T> {
+  return Object.fromEntries(Object.entries(obj).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+function normalize(w: number[]): number[] {
+  const total = w.reduce((a, b) => a + b, 0);
+  return total > 0 ? w.map(v => v / total) : w;
+}
+
+function matVec(m: number[][], v: number[]): number[] {
+  return m.map(row => row.reduce((sum, x, j) => sum + x * v[j], 0));
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, x, i) => sum + x * b[i], 0);
+}
@@ -0,0 +1,442 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * ALERT SERVICE
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Evaluates alert rules on every analysis run and routes fired alerts to sinks
+ *
+ * Features:
+ * - Rule CRUD with validation, persisted under ALERTS_DIR (default .data/alerts)
+ * - Per rule, symbol/interval and source state: previous facts for crossings and changes,
+ *   consecutive-true streak (debounce), active flag (state-change trigger), cooldown
+ * - Sinks: n8n (N8NIntegrationService.sendNotification), generic webhook (JSON POST), email (SMTP)
+ * - Webhooks only reach public addresses (checked as the host resolves, no redirects)
+ *   unless the host is listed in ALERT_WEBHOOK_ALLOWLIST
+ * - Alert history with per-sink delivery results, capped and persisted
+ */
+
+import axios from 'axios';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { AgentContext, SignalScore } from '../types.js';
+import {
+  AlertFacts,
+  AlertRuleDefinition,
+  AlertSink,
+  alertFacts,
+  conditionFields,
+  evaluateCondition,
+  factValue,
+  formatCondition,
+  safeParseAlertRule
+} from '../alerts.js';
+import N8NIntegrationService from './n8nIntegration.js';
+import EmailService from './email.js';
+
+export type AlertRule = AlertRuleDefinition & {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AlertDelivery = {
+  sink: AlertSink['type'];
+  target?: string;          // webhook URL or email recipients
+  success: boolean;
+  error?: string;
+};
+
+export type AlertEvent = {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  symbol: string;
+  interval: string;
+  message: string;
+  condition: string;        // condition in the expression language
+  values: Record<string, unknown>; // every field the condition reads, at firing time
+  price: number;
+  candleTime: number;
+  firedAt: string;
+  deliveries: AlertDelivery[];
+};
+
+export type AlertRun = {
+  symbol: string;
+  interval: string;
+  ctx: AgentContext;
+  signal?: SignalScore;
+  source?: string;          // analysis that produced the run (stream loop, API preset); rule state is kept per source
+};
+
+export type AlertServiceOptions = {
+  dir?: string;             // state directory (default ALERTS_DIR or '.data/alerts')
+  historyLimit?: number;    // alerts kept (default 500)
+  n8n?: N8NIntegrationService;
+  email?: EmailService;
+  now?: () => number;       // clock, ms (tests and replays)
+};
+
+type RuleState = {
+  previous?: AlertFacts;    // last run on an earlier candle (crossings and changes compare against it)
+  current?: AlertFacts;     // last run (re-runs on a forming bar replace it)
+  streak: number;
+  active: boolean;
+  lastFired?: number;       // ms
+};
+
+export class AlertService {
+  private dir: string;
+  private historyLimit: number;
+  private n8n: N8NIntegrationService;
+  private email: EmailService;
+  private now: () => number;
+  private rules = new Map<string, AlertRule>();
+  private history: AlertEvent[] = [];
+  private states = new Map<string, RuleState>();
+  private loaded: Promise<void> | null = null;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(options: AlertServiceOptions = {}) {
+    this.dir = options.dir ?? (process.env.ALERTS_DIR || join('.data', 'alerts'));
+    this.historyLimit = options.historyLimit ?? 500;
+    this.n8n = options.n8n ?? new N8NIntegrationService();
+    this.email = options.email ?? new EmailService();
+    this.now = options.now ?? Date.now;
+  }
+
+  async listRules(): Promise<AlertRule[]> {
+    await this.load();
+    return [...this.rules.values()];
+  }
+
+  async getRule(id: string): Promise<AlertRule | undefined> {
+    await this.load();
+    return this.rules.get(id);
+  }
+
+  /**
+   * Create a rule
+   * @throws If the definition is invalid
+   */
+  async createRule(input: unknown): Promise<AlertRule> {
+    await this.load();
+    const parsed = safeParseAlertRule(input);
+    if (!parsed.success) throw new Error(parsed.error);
+    const timestamp = new Date(this.now()).toISOString();
+    const rule: AlertRule = { ...parsed.rule, id: randomUUID(), createdAt: timestamp, updatedAt: timestamp };
+    this.rules.set(rule.id, rule);
+    await this.saveRules();
+    return rule;
+  }
+
+  /**
+   * Update fields of a rule; its evaluation state is reset when the condition or scope changes
+   * @returns The updated rule, or undefined when it does not exist
+   * @throws If the merged definition is invalid
+   */
+  async updateRule(id: string, changes: Record<string, unknown>): Promise<AlertRule | undefined> {
+    await this.load();
+    const existing = this.rules.get(id);
+    if (!existing) return undefined;
+
+    const { id: _id, createdAt, updatedAt: _updated, ...definition } = existing;
+    const merged: Record<string, unknown> = { ...definition, ...changes };
+    // A condition derived from the expression is parsed again; an explicit new condition drops the expression
+    if (changes.condition === undefined) {
+      if (merged.expression !== undefined) delete merged.condition;
+    } else if (changes.expression === undefined) {
+      delete merged.expression;
+    }
+
+    const parsed = safeParseAlertRule(merged);
+    if (!parsed.success) throw new Error(parsed.error);
+    const rule: AlertRule = { ...parsed.rule, id, createdAt, updatedAt: new Date(this.now()).toISOString() };
+    this.rules.set(id, rule);
+    if (['expression', 'condition', 'symbols', 'intervals', 'trigger', 'debounce'].some(key => key in changes)) {
+      this.resetState(id);
+    }
+    await this.saveRules();
+    return rule;
+  }
+
+  async deleteRule(id: string): Promise<boolean> {
+    await this.load();
+    if (!this.rules.delete(id)) return false;
+    this.resetState(id);
+    await this.saveRules();
+    return true;
+  }
+
+  /**
+   * Fired alerts, newest first
+   */
+  async getHistory(filter: { ruleId?: string; symbol?: string; limit?: number } = {}): Promise<AlertEvent[]> {
+    await this.load();
+    const symbol = filter.symbol?.toUpperCase();
+    return this.history
+      .filter(e => (!filter.ruleId || e.ruleId === filter.ruleId) && (!symbol || e.symbol === symbol))
+      .slice(-(filter.limit ?? 100))
+      .reverse();
+  }
+
+  async clearHistory(): Promise<void> {
+    await this.load();
+    this.history = [];
+    await this.saveHistory();
+  }
+
+  /**
+   * Evaluate every enabled rule against one analysis run and deliver what fires
+   * @param run - Symbol, interval, pipeline context and aggregated signal
+   * @returns Alerts fired by this run
+   */
+  async evaluate(run: AlertRun): Promise<AlertEvent[]> {
+    await this.load();
+    const facts = alertFacts(run.ctx, run);
+    const now = this.now();
+    const fired: AlertEvent[] = [];
+
+    for (const rule of this.rules.values()) {
+      if (!rule.enabled || !inScope(rule, facts)) continue;
+
+      // Runs from different sources (stream loops per preset, API requests) do not share crossings or cooldowns
+      const key = `${rule.id}|${facts.symbol}|${facts.interval}|${run.source ?? ''}`;
+      const state = this.states.get(key) ?? { streak: 0, active: false };
+      this.states.set(key, state);
+
+      // Runs on the same candle (forming bar, repeated requests) compare against the bar before it
+      if (state.current && state.current.time !== facts.time) state.previous = state.current;
+      state.current = facts;
+      const matched = evaluateCondition(rule.condition, facts, state.previous);
+
+      if (!matched) {
+        state.streak = 0;
+        state.active = false;
+        continue;
+      }
+      state.streak++;
+      if (state.streak < rule.debounce) continue;
+      if (rule.trigger === 'state-change' && state.active) continue;
+
+      // A match suppressed by the cooldown still counts as the state change
+      state.active = true;
+      if (state.lastFired !== undefined && now - state.lastFired < rule.cooldownSec * 1000) continue;
+      state.lastFired = now;
+      fired.push(this.buildEvent(rule, facts, now));
+    }
+
+    for (const event of fired) {
+      event.deliveries = await this.deliver(this.rules.get(event.ruleId)!, event);
+    }
+    if (fired.length > 0) {
+      this.history.push(...fired);
+      if (this.history.length > this.historyLimit) this.history = this.history.slice(-this.historyLimit);
+      await this.saveHistory();
+    }
+    return fired;
+  }
+
+  /**
+   * Send a sample alert for a rule through its sinks (no cooldown or history)
+   */
+  async testRule(id: string): Promise<AlertDelivery[] | undefined> {
+    const rule = await this.getRule(id);
+    if (!rule) return undefined;
+    const event: AlertEvent = {
+      ...this.buildEvent(rule, { symbol: 'TEST', interval: 'test', price: NaN, time: NaN }, this.now()),
+      message: `Test alert for rule "${rule.name}"`
+    };
+    return this.deliver(rule, event);
+  }
+
+  private buildEvent(rule: AlertRule, facts: AlertFacts, now: number): AlertEvent {
+    const values = Object.fromEntries(conditionFields(rule.condition).map(path => [path, factValue(facts, path)]));
+    const condition = formatCondition(rule.condition);
+    return {
+      id: randomUUID(),
+      ruleId: rule.id,
+      ruleName: rule.name,
+      symbol: facts.symbol,
+      interval: facts.interval,
+      message: rule.message
+        ? renderMessage(rule.message, rule, facts)
+        : `${rule.name}: ${facts.symbol} ${facts.interval} — ${condition} (${describeValues(values)})`,
+      condition,
+      values,
+      price: facts.price,
+      candleTime: facts.time,
+      firedAt: new Date(now).toISOString(),
+      deliveries: []
+    };
+  }
+
+  private async deliver(rule: AlertRule, event: AlertEvent): Promise<AlertDelivery[]> {
+    return Promise.all(rule.sinks.map(async (sink): Promise<AlertDelivery> => {
+      try {
+        switch (sink.type) {
+          case 'n8n': {
+            const result = await this.n8n.sendNotification(event.message, sink.level, { type: 'alert', alert: event });
+            return { sink: 'n8n', success: Boolean(result?.success), error: result?.success ? undefined : (result?.error ?? result?.message) };
+          }
+          case 'webhook':
+            await postWebhook(sink.url, { type: 'alert', alert: event }, sink.headers);
+            return { sink: 'webhook', target: sink.url, success: true };
+          case 'email':
+            await this.email.send({
+              to: sink.to,
+              subject: sink.subject ? renderMessage(sink.subject, rule, event) : `[QuantLLM] ${rule.name}: ${event.symbol}`,
+              text: [
+                event.message,
+                '',
+                `Condition: ${event.condition}`,
+                ...Object.entries(event.values).map(([path, value]) => `${path} = ${JSON.stringify(value)}`),
+                `Price: ${event.price}`,
+                `Fired: ${event.firedAt}`
+              ].join('\n')
+            });
+            return { sink: 'email', target: sink.to.join(', '), success: true };
+        }
+      } catch (error) {
+        const target = sink.type === 'webhook' ? sink.url : sink.type === 'email' ? sink.to.join(', ') : undefined;
+        return { sink: sink.type, target, success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    }));
+  }
+
+  private resetState(ruleId: string): void {
+    for (const key of [...this.states.keys()]) {
+      if (key.startsWith(`${ruleId}|`)) this.states.delete(key);
+    }
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= (async () => {
+      const rules = await readJson<AlertRule[]>(join(this.dir, 'rules.json'), []);
+      this.rules = new Map(rules.map(rule => [rule.id, rule]));
+      this.history = await readJson<AlertEvent[]>(join(this.dir, 'history.json'), []);
+    })();
+    return this.loaded;
+  }
+
+  private saveRules(): Promise<void> {
+    return this.write('rules.json', [...this.rules.values()]);
+  }
+
+  private saveHistory(): Promise<void> {
+    return this.write('history.json', this.history);
+  }
+
+  /**
+   * Atomic, serialized write of one state file
+   */
+  private write(file: string, data: unknown): Promise<void> {
+    const text = JSON.stringify(data, null, 2);
+    const path = join(this.dir, file);
+    const write = this.writes.then(async () => {
+      await mkdir(this.dir, { recursive: true });
+      const tmp = `${path}.${process.pid}.tmp`;
+      await writeFile(tmp, text, 'utf8');
+      await rename(tmp, path);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+}
+
+// Loopback, private, link-local, shared, reserved and multicast ranges
+// (BlockList matches IPv4-mapped IPv6 addresses against the IPv4 subnets)
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+
+function isPublicAddress(address: string): boolean {
+  return !NON_PUBLIC.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * POST a JSON alert to a webhook sink
+ *
+ * Hosts outside ALERT_WEBHOOK_ALLOWLIST (comma-separated hostnames) must resolve to public
+ * addresses only. The check runs in the connection's DNS lookup, so a name cannot re-resolve
+ * to an internal address after it passed, and redirects are not followed.
+ * @throws If the URL is not http(s) or the host is not public
+ */
+async function postWebhook(url: string, body: unknown, headers: Record<string, string> = {}): Promise<void> {
+  const target = new URL(url);
+  if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+    throw new Error(`Webhook URL must use http or https: ${url}`);
+  }
+  const host = target.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  const allowlist = (process.env.ALERT_WEBHOOK_ALLOWLIST ?? '').split(',').map(h => h.trim().toLowerCase()).filter(Boolean);
+  const restricted = !allowlist.includes(host);
+
+  // IP literals are connected to without a lookup
+  if (restricted && isIP(host) && !isPublicAddress(host)) {
+    throw new Error(`Webhook host ${host} is not a public address (allow it with ALERT_WEBHOOK_ALLOWLIST)`);
+  }
+
+  await axios.post(url, body, {
+    timeout: 10000,
+    maxRedirects: 0,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    ...(restricted && {
+      lookup: async (hostname: string) => {
+        const addresses = await lookup(hostname, { all: true });
+        const blocked = addresses.find(a => !isPublicAddress(a.address));
+        if (blocked) {
+          throw new Error(`Webhook host ${hostname} resolves to ${blocked.address}, not a public address (allow it with ALERT_WEBHOOK_ALLOWLIST)`);
+        }
+        return { address: addresses[0].address, family: addresses[0].family as 4 | 6 };
+      }
+    })
+  });
+}
+
+function inScope(rule: AlertRule, facts: AlertFacts): boolean {
+  const symbolOk = rule.symbols.length === 0 || rule.symbols.some(s => s.toUpperCase() === facts.symbol);
+  const intervalOk = rule.intervals.length === 0 || rule.intervals.includes(facts.interval);
+  return symbolOk && intervalOk;
+}
+
+/**
+ * Fill {rule}, {symbol}, {interval} and {field.path} placeholders
+ */
+function renderMessage(template: string, rule: AlertRule, facts: Record<string, unknown>): string {
+  return template.replace(/\{([\w.]+)\}/g, (_, path: string) => {
+    if (path === 'rule') return rule.name;
+    const value = factValue(facts, path);
+    if (value === undefined) return `{${path}}`;
+    return typeof value === 'number' ? formatNumber(value) : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+function describeValues(values: Record<string, unknown>): string {
+  return Object.entries(values)
+    .map(([path, value]) => `${path}=${typeof value === 'number' ? formatNumber(value) : JSON.stringify(value)}`)
+    .join(', ');
+}
+
+function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return String(value);
+  const text = value.toPrecision(6);
+  return text.includes('.') && !text.includes('e') ? text.replace(/0+$/, '').replace(/\.$/, '') : text;
+}
+
+async function readJson<T>(path: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw error;
+  }
+}
+
+export default AlertService;
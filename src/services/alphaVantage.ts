@@ -66,13 +66,19 @@ export interface AlphaVantageCryptoData {
   };
 }
 
+export interface AlphaVantageOptions {
+  mockFallback?: boolean; // serve synthetic data without a key or when rate-limited (default true)
+}
+
 export class AlphaVantageService {
   private apiKey: string;
   private baseUrl = 'https://www.alphavantage.co/query';
   private useMockData: boolean;
+  private mockFallback: boolean;
 
-  constructor() {
+  constructor(options: AlphaVantageOptions = {}) {
     this.apiKey = process.env.ALPHA_VANTAGE_API_KEY || '';
+    this.mockFallback = options.mockFallback ?? true;
     
     // Check if API key is empty or is a placeholder value
     const isPlaceholder = !this.apiKey || 
@@ -82,21 +88,30 @@ export class AlphaVantageService {
     
     this.useMockData = isPlaceholder;
     
-    if (this.useMockData) {
+    if (this.useMockData && this.mockFallback) {
       console.warn('⚠️  ALPHA_VANTAGE_API_KEY not found or invalid - using mock data for development');
       console.warn('   To use real market data, get a free API key from: https://www.alphavantage.co/support/#api-key');
+    } else if (this.useMockData) {
+      console.warn('⚠️  ALPHA_VANTAGE_API_KEY not found or invalid - Alpha Vantage disabled');
     } else {
       console.log('✅ Alpha Vantage API key found - using real market data');
     }
   }
 
+  /**
+   * Whether a usable API key is configured
+   */
+  hasApiKey(): boolean {
+    return !this.useMockData;
+  }
+
   /**
    * Fetch daily OHLCV data for a given symbol
    */
   async getDailyOHLCV(symbol: string, outputSize: 'compact' | 'full' = 'compact'): Promise<Candle[]> {
     // Return mock data if no API key is available
     if (this.useMockData) {
-      return this.generateMockData(symbol, outputSize === 'full' ? 500 : 100, 'daily');
+      return this.fallback('no API key', () => this.generateMockData(symbol, outputSize === 'full' ? 500 : 100, 'daily'));
     }
 
     try {
@@ -119,8 +134,7 @@ export class AlphaVantageService {
 
       // Check for rate limit message in "Information" field
       if (response.data['Information'] && response.data['Information'].includes('rate limit')) {
-        console.warn('⚠️  Alpha Vantage API rate limit reached - falling back to mock data');
-        return this.generateMockData(symbol, outputSize === 'full' ? 500 : 100, 'daily');
+        return this.fallback('rate limit reached', () => this.generateMockData(symbol, outputSize === 'full' ? 500 : 100, 'daily'));
       }
 
       const timeSeries = response.data['Time Series (Daily)'];
@@ -145,7 +159,7 @@ export class AlphaVantageService {
   ): Promise<Candle[]> {
     // Return mock data if no API key is available
     if (this.useMockData) {
-      return this.generateMockData(symbol, outputSize === 'full' ? 1000 : 200, 'intraday');
+      return this.fallback('no API key', () => this.generateMockData(symbol, outputSize === 'full' ? 1000 : 200, 'intraday'));
     }
 
     try {
@@ -169,8 +183,7 @@ export class AlphaVantageService {
 
       // Check for rate limit message in "Information" field
       if (response.data['Information'] && response.data['Information'].includes('rate limit')) {
-        console.warn('⚠️  Alpha Vantage API rate limit reached - falling back to mock data');
-        return this.generateMockData(symbol, outputSize === 'full' ? 1000 : 200, 'intraday');
+        return this.fallback('rate limit reached', () => this.generateMockData(symbol, outputSize === 'full' ? 1000 : 200, 'intraday'));
       }
 
       const timeSeriesKey = `Time Series (${interval})`;
@@ -192,7 +205,7 @@ export class AlphaVantageService {
   async getCryptoDailyOHLCV(symbol: string, market: string = 'USD'): Promise<Candle[]> {
     // Return mock data if no API key is available
     if (this.useMockData) {
-      return this.generateMockData(symbol, 100, 'daily');
+      return this.fallback('no API key', () => this.generateMockData(symbol, 100, 'daily'));
     }
 
     try {
@@ -215,8 +228,7 @@ export class AlphaVantageService {
 
       // Check for rate limit message in "Information" field
       if (response.data['Information'] && response.data['Information'].includes('rate limit')) {
-        console.warn('⚠️  Alpha Vantage API rate limit reached - falling back to mock data');
-        return this.generateMockData(symbol, 100, 'daily');
+        return this.fallback('rate limit reached', () => this.generateMockData(symbol, 100, 'daily'));
       }
 
       const timeSeries = response.data['Time Series (Digital Currency Daily)'];
@@ -283,6 +295,7 @@ export class AlphaVantageService {
   async searchSymbols(keywords: string): Promise<any[]> {
     // Return mock data if no API key is available
     if (this.useMockData) {
+      if (!this.mockFallback) throw new Error('Alpha Vantage unavailable: no API key');
       return [
         { '1. symbol': 'AAPL', '2. name': 'Apple Inc.' },
         { '1. symbol': 'GOOGL', '2. name': 'Alphabet Inc.' },
@@ -316,6 +329,7 @@ export class AlphaVantageService {
   async getQuote(symbol: string): Promise<any> {
     // Return mock data if no API key is available
     if (this.useMockData) {
+      if (!this.mockFallback) throw new Error('Alpha Vantage unavailable: no API key');
       return {
         '01. symbol': symbol,
         '02. open': '150.00',
@@ -346,6 +360,19 @@ export class AlphaVantageService {
     }
   }
 
+  /**
+   * Serve mock data when fallback is enabled, otherwise fail so callers can try another source
+   */
+  private fallback(reason: string, mock: () => Candle[]): Candle[] {
+    if (!this.mockFallback) {
+      throw new Error(`Alpha Vantage unavailable: ${reason}`);
+    }
+    if (reason !== 'no API key') {
+      console.warn(`⚠️  Alpha Vantage ${reason} - falling back to mock data`);
+    }
+    return mock();
+  }
+
   /**
    * Generate mock data for development/testing when API key is not available
    */
@@ -0,0 +1,363 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * ANALYSIS STREAM
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Live analysis updates pushed to subscribers of a symbol and interval
+ *
+ * Features:
+ * - One shared polling loop per subscription (symbol, interval, preset), however many
+ *   clients listen; the loop starts with the first listener and stops with the last
+ * - Rolling candle window: new bars are appended, an updated forming bar replaces the last
+ * - Incremental EMA/RSI/ATR/slope state per loop: each tick folds in only the new or
+ *   revised bars instead of recomputing those indicators over the window
+ * - onAnalysis hook after every run (the server evaluates alert rules there)
+ * - Events: snapshot (full state for a new listener), candle, agents (only the outputs that
+ *   changed), signal (aggregated score) and sentiment (Bullish/Bearish/Neutral flips)
+ * - 'DEMO' symbol: a synthetic random-walk feed that extends its own series bar by bar
+ */
+
+import { Candle, AgentContext, SignalScore } from '../types.js';
+import { runPipeline, getMarketCandles, incrementalIndicatorsFor } from '../orchestrator.js';
+import { aggregateSignals } from '../signals.js';
+import { PipelineConfig } from '../config.js';
+import { Timeframe, timeframeSeconds } from '../utils/resample.js';
+import { makeSyntheticSeries } from '../utils/synthetic.js';
+import { IncrementalIndicators } from '../utils/incremental.js';
+
+export const DEMO_SYMBOL = 'DEMO';
+
+export type StreamFeed = (symbol: string, interval: Timeframe, periods: number) => Promise<{ candles: Candle[]; source: string }>;
+
+export type StreamEvent =
+  | { type: 'snapshot'; data: StreamSnapshot }
+  | { type: 'candle'; data: { candle: Candle; update: boolean } } // update: the forming bar changed
+  | { type: 'agents'; data: { outputs: Record<string, unknown>; narrative: string; timestamp: string } }
+  | { type: 'signal'; data: SignalScore & { timestamp: string } }
+  | { type: 'sentiment'; data: { from: SignalScore['sentiment'] | null; to: SignalScore['sentiment']; score: number; timestamp: string } }
+  | { type: 'error'; data: { message: string; timestamp: string } };
+
+export type StreamListener = (event: StreamEvent) => void;
+
+export type StreamSnapshot = {
+  symbol: string;
+  interval: Timeframe;
+  source: string;
+  candles: Candle[];        // most recent bars (up to snapshotCandles)
+  outputs: Record<string, unknown>; // every agent output, keyed by agent name
+  signal: SignalScore | null;
+  narrative: string;
+  timestamp: string;
+};
+
+export type StreamSubscriptionKey = {
+  symbol: string;
+  interval: Timeframe;
+  config: PipelineConfig;
+  configKey?: string;       // identifies the config in the subscription key (e.g. the preset name)
+};
+
+export type AnalysisStreamOptions = {
+  feed?: StreamFeed;        // market data source (default: the orchestrator's market data service)
+  periods?: number;         // bars fetched and analyzed per tick (default 100)
+  pollMs?: number;          // poll period; default ¼ bar clamped to 15 s–5 min (5 s for DEMO)
+  snapshotCandles?: number; // bars included in a snapshot (default 50)
+  onAnalysis?: (run: StreamAnalysis) => unknown; // called after every analysis run (e.g. alert rules)
+};
+
+export type StreamAnalysis = {
+  symbol: string;
+  interval: Timeframe;
+  ctx: AgentContext;
+  signal: SignalScore;
+  source: string;           // 'stream:' + subscription key (symbol, interval, config key)
+};
+
+export type StreamStats = {
+  key: string;
+  symbol: string;
+  interval: string;
+  listeners: number;
+  ticks: number;
+  lastCandle: number | null;
+  sentiment: string | null;
+};
+
+type Subscription = {
+  key: string;
+  symbol: string;
+  interval: Timeframe;
+  config: PipelineConfig;
+  feed: StreamFeed;
+  listeners: Set<StreamListener>;
+  candles: Candle[];
+  indicators: IncrementalIndicators;
+  source: string;
+  outputs: Record<string, unknown>;
+  serialized: Record<string, string>;
+  signal: SignalScore | null;
+  narrative: string;
+  ticks: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  running: boolean;
+  stopped: boolean;
+};
+
+export class AnalysisStreamService {
+  private subscriptions = new Map<string, Subscription>();
+  private feed: StreamFeed;
+  private periods: number;
+  private pollMs?: number;
+  private snapshotCandles: number;
+  private onAnalysis?: (run: StreamAnalysis) => unknown;
+
+  constructor(options: AnalysisStreamOptions = {}) {
+    this.feed = options.feed ?? (async (symbol, interval, periods) => getMarketCandles(symbol, interval, periods));
+    this.periods = options.periods ?? 100;
+    this.pollMs = options.pollMs;
+    this.snapshotCandles = options.snapshotCandles ?? 50;
+    this.onAnalysis = options.onAnalysis;
+  }
+
+  /**
+   * Listen to a symbol/interval; the first listener starts the shared analysis loop
+   * @param key - Symbol, interval and resolved pipeline config
+   * @param listener - Receives a snapshot once data is available, then incremental events
+   * @returns Unsubscribe function; the loop stops when its last listener leaves
+   */
+  subscribe(key: StreamSubscriptionKey, listener: StreamListener): () => void {
+    const symbol = key.symbol.toUpperCase();
+    const id = `${symbol}|${key.interval}|${key.configKey ?? ''}`;
+
+    let sub = this.subscriptions.get(id);
+    if (!sub) {
+      sub = {
+        key: id,
+        symbol,
+        interval: key.interval,
+        config: key.config,
+        feed: symbol === DEMO_SYMBOL ? createDemoFeed() : this.feed,
+        listeners: new Set(),
+        candles: [],
+        indicators: incrementalIndicatorsFor(key.config),
+        source: '',
+        outputs: {},
+        serialized: {},
+        signal: null,
+        narrative: '',
+        ticks: 0,
+        timer: null,
+        running: false,
+        stopped: false
+      };
+      this.subscriptions.set(id, sub);
+    }
+
+    sub.listeners.add(listener);
+    if (sub.signal) listener({ type: 'snapshot', data: this.snapshot(sub) });
+    if (!sub.timer && !sub.running) void this.tick(sub);
+
+    return () => {
+      sub!.listeners.delete(listener);
+      if (sub!.listeners.size === 0) this.stop(sub!);
+    };
+  }
+
+  /**
+   * Active subscriptions with their listener counts
+   */
+  stats(): StreamStats[] {
+    return [...this.subscriptions.values()].map(sub => ({
+      key: sub.key,
+      symbol: sub.symbol,
+      interval: sub.interval,
+      listeners: sub.listeners.size,
+      ticks: sub.ticks,
+      lastCandle: sub.candles.at(-1)?.time ?? null,
+      sentiment: sub.signal?.sentiment ?? null
+    }));
+  }
+
+  /**
+   * Stop every loop (e.g. on shutdown)
+   */
+  close(): void {
+    for (const sub of [...this.subscriptions.values()]) this.stop(sub);
+  }
+
+  private stop(sub: Subscription): void {
+    sub.stopped = true;
+    if (sub.timer) clearTimeout(sub.timer);
+    sub.timer = null;
+    this.subscriptions.delete(sub.key);
+  }
+
+  private pollPeriod(sub: Subscription): number {
+    if (this.pollMs !== undefined) return this.pollMs;
+    if (sub.symbol === DEMO_SYMBOL) return 5_000;
+    return Math.min(300_000, Math.max(15_000, timeframeSeconds(sub.interval) * 250));
+  }
+
+  /**
+   * One loop iteration: fetch, merge bars, re-run the agents when the data moved
+   */
+  private async tick(sub: Subscription): Promise<void> {
+    sub.running = true;
+    try {
+      const { candles, source } = await sub.feed(sub.symbol, sub.interval, this.periods);
+      if (sub.stopped) return;
+      sub.source = source;
+      sub.ticks++;
+
+      const changed = this.merge(sub, candles);
+      if (changed.length > 0 || !sub.signal) {
+        for (const event of changed) this.emit(sub, event);
+        await this.analyze(sub);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.emit(sub, { type: 'error', data: { message, timestamp: new Date().toISOString() } });
+    } finally {
+      sub.running = false;
+      if (!sub.stopped) sub.timer = setTimeout(() => void this.tick(sub), this.pollPeriod(sub));
+    }
+  }
+
+  /**
+   * Fold fetched bars into the rolling window
+   * @returns Candle events for appended bars and a changed forming bar
+   */
+  private merge(sub: Subscription, fetched: Candle[]): StreamEvent[] {
+    if (sub.candles.length === 0) {
+      sub.candles = fetched.slice(-this.periods);
+      sub.indicators.updateMany(fetched);
+      return [];
+    }
+
+    const events: StreamEvent[] = [];
+    const last = sub.candles[sub.candles.length - 1];
+    for (const candle of fetched) {
+      if (candle.time < last.time) continue;
+      if (candle.time === last.time) {
+        if (sameCandle(candle, last)) continue;
+        sub.candles[sub.candles.length - 1] = candle;
+        sub.indicators.update(candle);
+        events.push({ type: 'candle', data: { candle, update: true } });
+      } else if (candle.time > sub.candles[sub.candles.length - 1].time) {
+        sub.candles.push(candle);
+        sub.indicators.update(candle);
+        events.push({ type: 'candle', data: { candle, update: false } });
+      }
+    }
+    if (sub.candles.length > this.periods) sub.candles = sub.candles.slice(-this.periods);
+    return events;
+  }
+
+  private async analyze(sub: Subscription): Promise<void> {
+    const { ctx, narrative } = await runPipeline(sub.candles, sub.config, undefined, sub.indicators.readings());
+    if (sub.stopped) return;
+    const timestamp = new Date().toISOString();
+    const first = !sub.signal;
+
+    const changedOutputs: Record<string, unknown> = {};
+    for (const [agent, output] of Object.entries(agentOutputs(ctx))) {
+      const serialized = JSON.stringify(output);
+      if (sub.serialized[agent] !== serialized) {
+        sub.serialized[agent] = serialized;
+        sub.outputs[agent] = output;
+        changedOutputs[agent] = output;
+      }
+    }
+    sub.narrative = narrative;
+
+    const previous = sub.signal;
+    const signal = aggregateSignals(ctx, sub.config.aggregation);
+    sub.signal = signal;
+    if (this.onAnalysis) {
+      Promise.resolve()
+        .then(() => this.onAnalysis!({ symbol: sub.symbol, interval: sub.interval, ctx, signal, source: `stream:${sub.key}` }))
+        .catch(error => console.error(`Analysis hook for ${sub.key} failed:`, error));
+    }
+
+    if (first) {
+      this.emit(sub, { type: 'snapshot', data: this.snapshot(sub) });
+      return;
+    }
+    if (Object.keys(changedOutputs).length > 0) {
+      this.emit(sub, { type: 'agents', data: { outputs: changedOutputs, narrative, timestamp } });
+    }
+    if (previous!.score !== signal.score || previous!.confidence !== signal.confidence) {
+      this.emit(sub, { type: 'signal', data: { ...signal, timestamp } });
+    }
+    if (previous!.sentiment !== signal.sentiment) {
+      this.emit(sub, {
+        type: 'sentiment',
+        data: { from: previous!.sentiment, to: signal.sentiment, score: signal.score, timestamp }
+      });
+    }
+  }
+
+  private snapshot(sub: Subscription): StreamSnapshot {
+    return {
+      symbol: sub.symbol,
+      interval: sub.interval,
+      source: sub.source,
+      candles: sub.candles.slice(-this.snapshotCandles),
+      outputs: sub.outputs,
+      signal: sub.signal,
+      narrative: sub.narrative,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private emit(sub: Subscription, event: StreamEvent): void {
+    for (const listener of sub.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Stream listener for ${sub.key} failed:`, error);
+      }
+    }
+  }
+}
+
+function agentOutputs(ctx: AgentContext): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(ctx).filter(([key, value]) => key !== 'candles' && key !== 'readings' && value !== undefined));
+}
+
+function sameCandle(a: Candle, b: Candle): boolean {
+  return a.open === b.open && a.high === b.high && a.low === b.low && a.close === b.close && a.volume === b.volume;
+}
+
+/**
+ * Synthetic live feed: a random walk whose forming bar moves on every call and
+ * which rolls to a new bar when the wall clock crosses the bar boundary
+ */
+function createDemoFeed(): StreamFeed {
+  let series: Candle[] = [];
+  return async (_symbol, interval, periods) => {
+    const step = timeframeSeconds(interval);
+    const barTime = Math.floor(Date.now() / 1000 / step) * step;
+
+    if (series.length === 0) {
+      series = makeSyntheticSeries(periods, 1.0000, step).map((c, i, all) => ({ ...c, time: barTime - (all.length - 1 - i) * step }));
+      return { candles: series, source: 'synthetic' };
+    }
+
+    const last = series[series.length - 1];
+    const move = makeSyntheticSeries(1, last.close, step)[0];
+    if (barTime > last.time) {
+      series = [...series.slice(-(periods - 1)), { ...move, time: barTime }];
+    } else {
+      series = [...series.slice(0, -1), {
+        ...last,
+        high: Math.max(last.high, move.high),
+        low: Math.min(last.low, move.low),
+        close: move.close,
+        volume: (last.volume ?? 0) + (move.volume ?? 0) / 10
+      }];
+    }
+    return { candles: series, source: 'synthetic' };
+  };
+}
+
+export default AnalysisStreamService;
@@ -0,0 +1,197 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * EMAIL SERVICE
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Minimal SMTP client for plain-text notifications
+ *
+ * Features:
+ * - Configured from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS, SMTP_FROM
+ * - Implicit TLS (port 465 or SMTP_SECURE=true) or STARTTLS when the server offers it
+ * - AUTH PLAIN when credentials are set
+ * - One connection per message, with a timeout on every reply
+ */
+
+import net from 'node:net';
+import tls from 'node:tls';
+import { once } from 'node:events';
+
+export type SmtpConfig = {
+  host?: string;
+  port: number;             // default 587 (465 with secure)
+  secure: boolean;          // implicit TLS
+  user?: string;
+  pass?: string;
+  from?: string;            // default SMTP_USER
+  timeoutMs: number;        // per reply (default 15 s)
+};
+
+export type EmailMessage = {
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+export class EmailService {
+  private config: SmtpConfig;
+
+  constructor(config: Partial<SmtpConfig> = {}) {
+    const secure = config.secure ?? process.env.SMTP_SECURE === 'true';
+    this.config = {
+      host: config.host ?? process.env.SMTP_HOST,
+      port: config.port ?? (Number(process.env.SMTP_PORT) || (secure ? 465 : 587)),
+      secure: secure || (config.port ?? Number(process.env.SMTP_PORT)) === 465,
+      user: config.user ?? process.env.SMTP_USER,
+      pass: config.pass ?? process.env.SMTP_PASS,
+      from: config.from ?? process.env.SMTP_FROM ?? process.env.SMTP_USER,
+      timeoutMs: config.timeoutMs ?? 15_000
+    };
+  }
+
+  get isEnabled(): boolean {
+    return Boolean(this.config.host && this.config.from);
+  }
+
+  getStatus() {
+    return {
+      enabled: this.isEnabled,
+      host: this.config.host ?? null,
+      port: this.config.port,
+      secure: this.config.secure,
+      auth: Boolean(this.config.user && this.config.pass)
+    };
+  }
+
+  /**
+   * Deliver a plain-text message
+   * @throws If SMTP is not configured or the server rejects a command
+   */
+  async send(message: EmailMessage): Promise<void> {
+    const { host, port, secure, user, pass, from } = this.config;
+    if (!host || !from) throw new Error('SMTP not configured (set SMTP_HOST and SMTP_FROM or SMTP_USER)');
+    if (message.to.length === 0) throw new Error('Email needs at least one recipient');
+
+    let socket: net.Socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+    await once(socket, secure ? 'secureConnect' : 'connect');
+    let session = new SmtpSession(socket, this.config.timeoutMs);
+
+    try {
+      await session.expect(220);
+      let features = await session.command(`EHLO ${clientName()}`, 250);
+
+      if (!secure && /STARTTLS/i.test(features)) {
+        await session.command('STARTTLS', 220);
+        session.detach();
+        socket = tls.connect({ socket, servername: host });
+        await once(socket, 'secureConnect');
+        session = new SmtpSession(socket, this.config.timeoutMs);
+        features = await session.command(`EHLO ${clientName()}`, 250);
+      }
+
+      if (user && pass) {
+        const token = Buffer.from(`\0${user}\0${pass}`).toString('base64');
+        await session.command(`AUTH PLAIN ${token}`, 235);
+      }
+
+      await session.command(`MAIL FROM:<${from}>`, 250);
+      for (const to of message.to) await session.command(`RCPT TO:<${to}>`, [250, 251]);
+      await session.command('DATA', 354);
+      await session.command(formatMessage(from, message), 250);
+      await session.command('QUIT', 221).catch(() => undefined);
+    } finally {
+      socket.destroy();
+    }
+  }
+}
+
+/**
+ * Line-oriented SMTP reply reader
+ */
+class SmtpSession {
+  private buffer = '';
+  private waiting: (() => void) | null = null;
+  private closed: Error | null = null;
+  private onData = (chunk: Buffer) => { this.buffer += chunk.toString('utf8'); this.waiting?.(); };
+  private onEnd = (error?: Error) => { this.closed = error ?? new Error('SMTP connection closed'); this.waiting?.(); };
+
+  constructor(private socket: net.Socket, private timeoutMs: number) {
+    socket.on('data', this.onData);
+    socket.on('error', this.onEnd);
+    socket.on('close', () => this.onEnd());
+  }
+
+  /** Stop reading (before the socket is upgraded to TLS) */
+  detach(): void {
+    this.socket.off('data', this.onData);
+    this.socket.off('error', this.onEnd);
+    this.socket.removeAllListeners('close');
+  }
+
+  async command(line: string, expected: number | number[]): Promise<string> {
+    this.socket.write(`${line}\r\n`);
+    return this.expect(expected);
+  }
+
+  /**
+   * Wait for a complete (possibly multi-line) reply and check its code
+   */
+  async expect(expected: number | number[]): Promise<string> {
+    const codes = Array.isArray(expected) ? expected : [expected];
+    const deadline = Date.now() + this.timeoutMs;
+
+    for (;;) {
+      const reply = this.takeReply();
+      if (reply) {
+        const code = Number(reply.slice(0, 3));
+        if (!codes.includes(code)) throw new Error(`SMTP error: ${reply.trim()}`);
+        return reply;
+      }
+      if (this.closed) throw this.closed;
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) throw new Error('SMTP server timed out');
+      await new Promise<void>(resolve => {
+        const timer = setTimeout(resolve, remaining);
+        this.waiting = () => { clearTimeout(timer); resolve(); };
+      });
+      this.waiting = null;
+    }
+  }
+
+  private takeReply(): string | null {
+    const lines = this.buffer.split('\r\n');
+    for (let i = 0; i < lines.length - 1; i++) {
+      // The last line of a reply has a space after the code ("250 OK"); others have a dash
+      if (/^\d{3}(?: |$)/.test(lines[i])) {
+        const reply = lines.slice(0, i + 1).join('\n');
+        this.buffer = lines.slice(i + 1).join('\r\n');
+        return reply;
+      }
+    }
+    return null;
+  }
+}
+
+function clientName(): string {
+  return 'quantllm.local';
+}
+
+/**
+ * RFC 5322 message with dot-stuffing and the terminating "."
+ */
+function formatMessage(from: string, message: EmailMessage): string {
+  const subject = /^[\x20-\x7e]*$/.test(message.subject)
+    ? message.subject
+    : `=?UTF-8?B?${Buffer.from(message.subject).toString('base64')}?=`;
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to.join(', ')}`,
+    `Subject: ${subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: 8bit'
+  ];
+  const body = message.text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+  return `${headers.join('\r\n')}\r\n\r\n${body}\r\n.`;
+}
+
+export default EmailService;
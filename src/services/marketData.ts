@@ -2,10 +2,32 @@
  * ──────────────────────────────────────────────────────────────────────────────
  * MARKET DATA SERVICE - REAL OHLCV DATA INTEGRATION
  * ──────────────────────────────────────────────────────────────────────────────
+ *
+ * Series from network providers go through the on-disk OHLCV cache: a fresh entry is
+ * served without a download, a stale one is topped up with a compact request and only
+ * the bars newer than the last cached timestamp are merged in.
+ *
+ * Timeframes the providers do not serve (4h, weekly, monthly, ...) are resampled from
+ * the coarsest native interval that divides them.
+ *
+ * Every series is validated and repaired (see utils/dataQuality) before resampling, and
+ * the quality report is returned with the candles.
  */
 
 import { Candle } from '../types.js';
-import AlphaVantageService from './alphaVantage.js';
+import { MarketDataProvider, MarketInfo, Quote, OHLCVRequest, DataInterval, ProviderChain, createDefaultProviderChain, classifySymbol } from './providers/index.js';
+import { Timeframe, ResampleOptions, parseTimeframe, resampleCandles } from '../utils/resample.js';
+import { DataQualityOptions, DataQualityReport, checkCandles } from '../utils/dataQuality.js';
+import { OHLCVCache, OHLCVCacheEntry } from './ohlcvCache.js';
+
+export type { MarketInfo } from './providers/index.js';
+
+export interface PeriodsOptions {
+  /** Time zone / session options when the timeframe is built from finer data */
+  resample?: ResampleOptions;
+  /** Validation thresholds and repair policies, or false to pass data through unchecked */
+  quality?: DataQualityOptions | false;
+}
 
 export interface MarketDataOptions {
   symbol: string;
@@ -14,52 +36,146 @@ export interface MarketDataOptions {
   market?: string; // For crypto
 }
 
-export interface MarketInfo {
-  symbol: string;
-  name: string;
-  type: 'stock' | 'crypto' | 'forex';
-  exchange?: string;
-  currency?: string;
-}
-
 export class MarketDataService {
-  private alphaVantage: AlphaVantageService;
+  private provider: MarketDataProvider;
+  private cache: OHLCVCache | null;
+
+  /**
+   * @param provider - Data source (default: provider chain configured from the environment)
+   * @param cache - On-disk OHLCV cache, or null to always download (default: configured from the environment)
+   */
+  constructor(
+    provider: MarketDataProvider = createDefaultProviderChain(),
+    cache: OHLCVCache | null = OHLCVCache.fromEnv()
+  ) {
+    this.provider = provider;
+    this.cache = cache;
+  }
 
-  constructor() {
-    this.alphaVantage = new AlphaVantageService();
+  /**
+   * The underlying provider (usually a ProviderChain)
+   */
+  getProvider(): MarketDataProvider {
+    return this.provider;
+  }
+
+  /**
+   * The OHLCV cache, or null when caching is disabled
+   */
+  getCache(): OHLCVCache | null {
+    return this.cache;
   }
 
   /**
    * Fetch OHLCV data for any symbol (stocks, crypto, etc.)
    */
   async getOHLCVData(options: MarketDataOptions): Promise<Candle[]> {
+    return (await this.getOHLCVWithSource(options)).candles;
+  }
+
+  /**
+   * Fetch OHLCV data and report which provider served it
+   */
+  async getOHLCVWithSource(options: MarketDataOptions): Promise<{ candles: Candle[]; source: string }> {
     const { symbol, interval = 'daily', outputSize = 'compact', market = 'USD' } = options;
+    const request = { symbol, interval, outputSize, market };
 
     try {
-      // Determine if it's a crypto symbol
-      const isCrypto = this.isCryptoSymbol(symbol);
-      
-      if (isCrypto) {
-        return await this.alphaVantage.getCryptoDailyOHLCV(symbol, market);
-      }
-
-      if (interval === 'daily') {
-        return await this.alphaVantage.getDailyOHLCV(symbol, outputSize);
-      } else {
-        return await this.alphaVantage.getIntradayOHLCV(symbol, interval, outputSize);
-      }
+      return this.cache
+        ? await this.fetchCached(this.cache, request)
+        : await this.fetch(request);
     } catch (error) {
       console.error(`Error fetching OHLCV data for ${symbol}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Serve from the cache when fresh, otherwise refresh incrementally or download in full
+   */
+  private async fetchCached(
+    cache: OHLCVCache,
+    request: Required<OHLCVRequest>
+  ): Promise<{ candles: Candle[]; source: string }> {
+    const symbol = request.market === 'USD' ? request.symbol : `${request.symbol}-${request.market}`;
+    const entry = await this.findCached(cache, symbol, request);
+    const wantsFull = request.outputSize === 'full';
+
+    if (entry && cache.isFresh(entry.meta) && (entry.meta.complete || !wantsFull)) {
+      cache.record('hits');
+      return { candles: entry.candles, source: entry.meta.provider };
+    }
+    cache.record('misses');
+
+    // A stale entry only needs the latest bars, unless a longer history is wanted than was stored
+    const incremental = entry !== null && (entry.meta.complete || !wantsFull);
+    const fetched = await this.fetch(incremental ? { ...request, outputSize: 'compact' } : request);
+
+    if (!cache.isCacheable(fetched.source)) {
+      if (entry) {
+        // Fallback provider answered (e.g. synthetic): stale real data beats generated data
+        cache.record('staleServed');
+        return { candles: entry.candles, source: entry.meta.provider };
+      }
+      return fetched;
+    }
+
+    if (incremental && entry && fetched.source === entry.meta.provider) {
+      const merged = await cache.merge(entry, fetched.candles);
+      if (merged) {
+        cache.record('refreshes');
+        return { candles: merged.candles, source: fetched.source };
+      }
+      // Gap between the cache and the compact download: fetch the whole series again
+      const full = await this.fetch({ ...request, outputSize: 'full' });
+      if (cache.isCacheable(full.source)) {
+        await cache.put({ symbol, interval: request.interval, provider: full.source }, full.candles, true);
+        cache.record('fullFetches');
+      }
+      return full;
+    }
+
+    // New entry, or a different provider answered this time
+    const complete = !incremental && wantsFull;
+    await cache.put({ symbol, interval: request.interval, provider: fetched.source }, fetched.candles, complete);
+    cache.record('fullFetches');
+    return fetched;
+  }
+
+  /**
+   * First cached entry along the provider route for the symbol; stops at the first
+   * provider that is never cached, since it would answer before any later one
+   */
+  private async findCached(
+    cache: OHLCVCache,
+    symbol: string,
+    request: Required<OHLCVRequest>
+  ): Promise<OHLCVCacheEntry | null> {
+    const providers = this.provider instanceof ProviderChain
+      ? this.provider.providersFor(request.symbol)
+      : [this.provider];
+
+    for (const provider of providers) {
+      if (!cache.isCacheable(provider.name)) return null;
+      const entry = await cache.get({ symbol, interval: request.interval, provider: provider.name });
+      if (entry && entry.candles.length > 0) return entry;
+    }
+    return null;
+  }
+
+  private async fetch(request: OHLCVRequest): Promise<{ candles: Candle[]; source: string }> {
+    if (this.provider instanceof ProviderChain) {
+      return this.provider.getOHLCVWithSource(request);
+    }
+    return { candles: await this.provider.getOHLCV(request), source: this.provider.name };
+  }
+
   /**
    * Get current market quote
    */
-  async getCurrentQuote(symbol: string): Promise<any> {
+  async getCurrentQuote(symbol: string): Promise<Quote | null> {
     try {
-      return await this.alphaVantage.getQuote(symbol);
+      return await this.provider.getQuote(symbol);
     } catch (error) {
       console.error(`Error fetching quote for ${symbol}:`, error);
       throw error;
@@ -71,26 +187,7 @@ export class MarketDataService {
    */
   async searchSymbols(keywords: string): Promise<MarketInfo[]> {
     try {
-      const results = await this.alphaVantage.searchSymbols(keywords);
-      
-      return results.map((result: any): MarketInfo => {
-        const type = result['3. type']?.toLowerCase();
-        let marketType: 'stock' | 'crypto' | 'forex' = 'stock';
-        
-        if (type === 'cryptocurrency') {
-          marketType = 'crypto';
-        } else if (type === 'physical currency') {
-          marketType = 'forex';
-        }
-
-        return {
-          symbol: result['1. symbol'],
-          name: result['2. name'],
-          type: marketType,
-          exchange: result['4. region'],
-          currency: result['8. currency'],
-        };
-      });
+      return await this.provider.searchSymbols(keywords);
     } catch (error) {
       console.error(`Error searching symbols for ${keywords}:`, error);
       throw error;
@@ -103,17 +200,49 @@ export class MarketDataService {
   async getOHLCVWithPeriods(
     symbol: string, 
     periods: number = 100, 
-    interval: 'daily' | '1min' | '5min' | '15min' | '30min' | '60min' = 'daily'
+    interval: Timeframe = 'daily',
+    options: PeriodsOptions = {}
   ): Promise<Candle[]> {
+    return (await this.getOHLCVWithPeriodsAndSource(symbol, periods, interval, options)).candles;
+  }
+
+  /**
+   * Get the last N periods and the provider that served them
+   * @param symbol - Symbol to fetch
+   * @param periods - Number of bars wanted
+   * @param interval - Native interval, or any timeframe to resample into (e.g. '4h', 'weekly')
+   * @param options - Resample options and data-quality policies
+   * @returns Candles, the serving provider, the native interval used when resampled
+   *          and the quality report of the downloaded series
+   */
+  async getOHLCVWithPeriodsAndSource(
+    symbol: string,
+    periods: number = 100,
+    interval: Timeframe = 'daily',
+    options: PeriodsOptions = {}
+  ): Promise<{ candles: Candle[]; source: string; resampledFrom?: DataInterval; quality?: DataQualityReport }> {
     try {
-      const data = await this.getOHLCVData({ 
-        symbol, 
-        interval, 
-        outputSize: periods > 100 ? 'full' : 'compact' 
+      const plan = planTimeframe(interval);
+      const sourcePeriods = plan.native ? periods : (periods + 1) * plan.ratio;
+      const fetched = await this.getOHLCVWithSource({
+        symbol,
+        interval: plan.interval,
+        outputSize: sourcePeriods > 100 ? 'full' : 'compact'
       });
-      
-      // Return the last N periods
-      return data.slice(-periods);
+
+      const { candles, report: quality } = options.quality === false
+        ? { candles: fetched.candles, report: undefined }
+        : checkCandles(fetched.candles, options.quality);
+      const source = fetched.source;
+
+      if (plan.native) {
+        // Return the last N periods
+        return { candles: candles.slice(-periods), source, quality };
+      }
+
+      const tradingDays = classifySymbol(symbol) === 'crypto' ? undefined : [1, 2, 3, 4, 5];
+      const resampled = resampleCandles(candles, interval, { tradingDays, ...options.resample }).candles;
+      return { candles: resampled.slice(-periods), source, resampledFrom: plan.interval, quality };
     } catch (error) {
       console.error(`Error fetching ${periods} periods for ${symbol}:`, error);
       throw error;
@@ -125,22 +254,7 @@ export class MarketDataService {
    */
   async validateSymbol(symbol: string): Promise<MarketInfo | null> {
     try {
-      // Try to get a quote first
-      const quote = await this.getCurrentQuote(symbol);
-      
-      if (quote && Object.keys(quote).length > 0) {
-        return {
-          symbol: symbol.toUpperCase(),
-          name: quote['01. symbol'] || symbol,
-          type: this.isCryptoSymbol(symbol) ? 'crypto' : 'stock',
-        };
-      }
-
-      // If quote fails, try searching
-      const searchResults = await this.searchSymbols(symbol);
-      return searchResults.find(result => 
-        result.symbol.toUpperCase() === symbol.toUpperCase()
-      ) || null;
+      return await this.provider.validateSymbol(symbol);
     } catch (error) {
       console.error(`Error validating symbol ${symbol}:`, error);
       return null;
@@ -163,19 +277,6 @@ export class MarketDataService {
     }
   }
 
-  /**
-   * Check if symbol is likely a cryptocurrency
-   */
-  private isCryptoSymbol(symbol: string): boolean {
-    const cryptoSymbols = [
-      'BTC', 'ETH', 'LTC', 'XRP', 'ADA', 'DOT', 'DOGE', 'MATIC', 'SOL', 'AVAX',
-      'BITCOIN', 'ETHEREUM', 'LITECOIN', 'RIPPLE', 'CARDANO', 'POLKADOT',
-      'USDT', 'USDC', 'BNB', 'LUNA', 'ATOM', 'LINK', 'UNI', 'ALGO'
-    ];
-    
-    return cryptoSymbols.includes(symbol.toUpperCase());
-  }
-
   /**
    * Format OHLCV data for display
    */
@@ -224,4 +325,29 @@ export class MarketDataService {
   }
 }
 
-export default MarketDataService;
\ No newline at end of file
+const NATIVE_MINUTES = [60, 30, 15, 5, 1];
+
+/**
+ * Native interval to request for a timeframe, and how many native bars make one bar
+ */
+function planTimeframe(timeframe: Timeframe): { interval: DataInterval; ratio: number; native: boolean } {
+  const { unit, count } = parseTimeframe(timeframe);
+  switch (unit) {
+    case 'minute': {
+      if (NATIVE_MINUTES.includes(count)) {
+        return { interval: `${count}min` as DataInterval, ratio: 1, native: true };
+      }
+      if (count % 1440 === 0) return { interval: 'daily', ratio: count / 1440, native: false };
+      const base = NATIVE_MINUTES.find(n => count % n === 0)!;
+      return { interval: `${base}min` as DataInterval, ratio: count / base, native: false };
+    }
+    case 'day':
+      return { interval: 'daily', ratio: count, native: count === 1 };
+    case 'week':
+      return { interval: 'daily', ratio: 7 * count, native: false };
+    case 'month':
+      return { interval: 'daily', ratio: 31 * count, native: false };
+  }
+}
+
+export default MarketDataService;
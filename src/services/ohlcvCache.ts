@@ -0,0 +1,290 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * OHLCV CACHE
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Persistent JSON-lines store of downloaded candles, keyed by symbol/interval/provider
+ *
+ * Layout:
+ *   <dir>/<provider>/<interval>/<SYMBOL>.jsonl      one candle per line, oldest first
+ *   <dir>/<provider>/<interval>/<SYMBOL>.meta.json  fetch time, completeness, range
+ *
+ * Features:
+ * - Interval-dependent TTLs (a daily series stays fresh longer than a 1-min one)
+ * - Merge of newer bars into an existing series (the last cached bar is replaced,
+ *   since it may have been partial when first stored)
+ * - Hit/miss/refresh counters and per-entry stats
+ * - Purge by symbol, interval and/or provider
+ */
+
+import { readFile, writeFile, readdir, rm, rename, mkdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { Candle } from '../types.js';
+
+export interface OHLCVCacheKey {
+  symbol: string;
+  interval: string;
+  provider: string;
+}
+
+export interface OHLCVCacheMeta extends OHLCVCacheKey {
+  fetchedAt: number;  // epoch ms of the last download
+  complete: boolean;  // true when the last full download was a 'full' output size
+  count: number;
+  first: number;      // epoch seconds of the oldest bar
+  last: number;       // epoch seconds of the newest bar
+}
+
+export interface OHLCVCacheEntry {
+  meta: OHLCVCacheMeta;
+  candles: Candle[];
+}
+
+export interface OHLCVCacheOptions {
+  /** Cache directory (default '.cache/ohlcv') */
+  dir?: string;
+  /** TTL in seconds per interval, merged over DEFAULT_CACHE_TTL */
+  ttl?: Record<string, number>;
+  /** Providers whose data is never cached (default: local and generated sources) */
+  exclude?: string[];
+  /** Clock in epoch ms (default Date.now) */
+  now?: () => number;
+}
+
+export interface OHLCVCacheStats {
+  dir: string;
+  ttl: Record<string, number>;
+  hits: number;
+  misses: number;
+  refreshes: number;     // incremental updates of a stale entry
+  fullFetches: number;   // downloads of the whole series
+  staleServed: number;   // stale entries served because no cacheable provider answered
+  entries: Array<OHLCVCacheMeta & { bytes: number; ageSeconds: number; stale: boolean }>;
+}
+
+export type OHLCVCacheCounter = 'hits' | 'misses' | 'refreshes' | 'fullFetches' | 'staleServed';
+
+/** Seconds a cached series stays fresh, per interval */
+export const DEFAULT_CACHE_TTL: Record<string, number> = {
+  '1min': 60,
+  '5min': 5 * 60,
+  '15min': 15 * 60,
+  '30min': 30 * 60,
+  '60min': 60 * 60,
+  daily: 6 * 60 * 60
+};
+
+export class OHLCVCache {
+  private dir: string;
+  private ttl: Record<string, number>;
+  private exclude: Set<string>;
+  private now: () => number;
+  private counters: Record<OHLCVCacheCounter, number> = {
+    hits: 0,
+    misses: 0,
+    refreshes: 0,
+    fullFetches: 0,
+    staleServed: 0
+  };
+
+  constructor(options: OHLCVCacheOptions = {}) {
+    this.dir = options.dir ?? join('.cache', 'ohlcv');
+    this.ttl = { ...DEFAULT_CACHE_TTL, ...options.ttl };
+    this.exclude = new Set(options.exclude ?? ['synthetic', 'csv', 'fixture']);
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Build the cache from environment variables
+   *
+   * - MARKET_DATA_CACHE=off: disable caching
+   * - MARKET_DATA_CACHE_DIR: cache directory (default .cache/ohlcv)
+   * - MARKET_DATA_CACHE_TTL_<INTERVAL>: TTL override in seconds (e.g. MARKET_DATA_CACHE_TTL_DAILY=3600)
+   *
+   * @param env - Environment to read (default process.env)
+   * @returns Cache, or null when disabled
+   */
+  static fromEnv(env: NodeJS.ProcessEnv = process.env): OHLCVCache | null {
+    if (['0', 'off', 'false', 'no'].includes((env.MARKET_DATA_CACHE ?? '').toLowerCase())) {
+      return null;
+    }
+    const ttl: Record<string, number> = {};
+    for (const interval of Object.keys(DEFAULT_CACHE_TTL)) {
+      const value = Number(env[`MARKET_DATA_CACHE_TTL_${interval.toUpperCase()}`]);
+      if (Number.isFinite(value) && value >= 0) ttl[interval] = value;
+    }
+    return new OHLCVCache({ dir: env.MARKET_DATA_CACHE_DIR, ttl });
+  }
+
+  /**
+   * Whether data from this provider may be stored
+   */
+  isCacheable(provider: string): boolean {
+    return !this.exclude.has(provider);
+  }
+
+  /**
+   * Whether an entry is still within its interval's TTL
+   */
+  isFresh(meta: OHLCVCacheMeta): boolean {
+    const ttl = this.ttl[meta.interval] ?? DEFAULT_CACHE_TTL.daily;
+    return this.now() - meta.fetchedAt < ttl * 1000;
+  }
+
+  /**
+   * Read a cached series
+   * @returns Entry, or null when nothing is cached for the key
+   */
+  async get(key: OHLCVCacheKey): Promise<OHLCVCacheEntry | null> {
+    const paths = this.paths(key);
+    try {
+      const [metaText, dataText] = await Promise.all([
+        readFile(paths.meta, 'utf8'),
+        readFile(paths.data, 'utf8')
+      ]);
+      const candles = dataText
+        .split('\n')
+        .filter(line => line.trim() !== '')
+        .map(line => JSON.parse(line) as Candle);
+      return { meta: JSON.parse(metaText) as OHLCVCacheMeta, candles };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store a whole series, replacing any cached one
+   * @param key - Symbol, interval and serving provider
+   * @param candles - Candles, oldest first
+   * @param complete - Whether this is the full available history
+   * @returns Stored metadata
+   */
+  async put(key: OHLCVCacheKey, candles: Candle[], complete: boolean): Promise<OHLCVCacheMeta> {
+    const meta: OHLCVCacheMeta = {
+      ...key,
+      fetchedAt: this.now(),
+      complete,
+      count: candles.length,
+      first: candles[0]?.time ?? 0,
+      last: candles[candles.length - 1]?.time ?? 0
+    };
+    const paths = this.paths(key);
+    await mkdir(paths.folder, { recursive: true });
+    await atomicWrite(paths.data, candles.map(c => JSON.stringify(c)).join('\n') + '\n');
+    await atomicWrite(paths.meta, JSON.stringify(meta, null, 2));
+    return meta;
+  }
+
+  /**
+   * Merge newer bars into a cached series
+   * @param entry - Cached entry
+   * @param fresh - Recently downloaded candles (any overlap with the cache)
+   * @returns Merged entry, or null when `fresh` does not reach back to the last cached bar
+   */
+  async merge(entry: OHLCVCacheEntry, fresh: Candle[]): Promise<OHLCVCacheEntry | null> {
+    const lastCached = entry.meta.last;
+    if (fresh.length === 0 || fresh[0].time > lastCached) return null;
+
+    const kept = entry.candles.filter(c => c.time < lastCached);
+    const newer = fresh.filter(c => c.time >= lastCached);
+    const candles = [...kept, ...newer];
+    const { symbol, interval, provider, complete } = entry.meta;
+    const meta = await this.put({ symbol, interval, provider }, candles, complete);
+    return { meta, candles };
+  }
+
+  /**
+   * Increment a usage counter
+   */
+  record(counter: OHLCVCacheCounter): void {
+    this.counters[counter]++;
+  }
+
+  /**
+   * Usage counters and every stored entry
+   */
+  async stats(): Promise<OHLCVCacheStats> {
+    const entries: OHLCVCacheStats['entries'] = [];
+    for (const path of await this.metaFiles()) {
+      try {
+        const meta = JSON.parse(await readFile(path, 'utf8')) as OHLCVCacheMeta;
+        const { size } = await stat(path.replace(/\.meta\.json$/, '.jsonl'));
+        entries.push({
+          ...meta,
+          bytes: size,
+          ageSeconds: Math.round((this.now() - meta.fetchedAt) / 1000),
+          stale: !this.isFresh(meta)
+        });
+      } catch {
+        // Half-written or foreign file: ignore
+      }
+    }
+    return { dir: this.dir, ttl: { ...this.ttl }, ...this.counters, entries };
+  }
+
+  /**
+   * Delete cached series
+   * @param filter - Only remove entries matching every given field (default: everything)
+   * @returns Number of entries removed
+   */
+  async purge(filter: Partial<OHLCVCacheKey> = {}): Promise<number> {
+    let removed = 0;
+    for (const path of await this.metaFiles()) {
+      let meta: OHLCVCacheMeta | null = null;
+      try {
+        meta = JSON.parse(await readFile(path, 'utf8')) as OHLCVCacheMeta;
+      } catch {
+        meta = null;
+      }
+      if (meta && !matches(meta, filter)) continue;
+      await rm(path, { force: true });
+      await rm(path.replace(/\.meta\.json$/, '.jsonl'), { force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  private paths(key: OHLCVCacheKey): { folder: string; data: string; meta: string } {
+    const folder = join(this.dir, safeName(key.provider), safeName(key.interval));
+    const file = safeName(key.symbol.toUpperCase());
+    return { folder, data: join(folder, `${file}.jsonl`), meta: join(folder, `${file}.meta.json`) };
+  }
+
+  private async metaFiles(): Promise<string[]> {
+    const found: string[] = [];
+    for (const provider of await listDir(this.dir)) {
+      for (const interval of await listDir(join(this.dir, provider))) {
+        const folder = join(this.dir, provider, interval);
+        for (const file of await listDir(folder)) {
+          if (file.endsWith('.meta.json')) found.push(join(folder, file));
+        }
+      }
+    }
+    return found;
+  }
+}
+
+function matches(meta: OHLCVCacheMeta, filter: Partial<OHLCVCacheKey>): boolean {
+  return (!filter.symbol || meta.symbol.toUpperCase() === filter.symbol.toUpperCase())
+    && (!filter.interval || meta.interval === filter.interval)
+    && (!filter.provider || meta.provider === filter.provider);
+}
+
+function safeName(value: string): string {
+  return value.replace(/[^A-Za-z0-9._-]/g, '_');
+}
+
+async function listDir(path: string): Promise<string[]> {
+  try {
+    return await readdir(path);
+  } catch {
+    return [];
+  }
+}
+
+async function atomicWrite(path: string, text: string): Promise<void> {
+  const tmp = `${path}.${process.pid}.tmp`;
+  await writeFile(tmp, text, 'utf8');
+  await rename(tmp, path);
+}
+
+export default OHLCVCache;
@@ -0,0 +1,759 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * PAPER TRADING
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Simulated broker that fills orders against incoming candles
+ *
+ * Layout:
+ *   <dir>/<ACCOUNT>.json   cash, positions, orders and fills of one account
+ *
+ * Features:
+ * - Market, limit and stop orders; market orders fill at the next bar's open,
+ *   limit/stop orders when the bar trades through their price (at the open on a gap)
+ * - Bracket orders: stop-loss and take-profit children become active when the entry
+ *   fills, priced from the actual fill, and cancel each other (OCO)
+ * - Brackets built from RiskAgent output (rho / stop distance and rMultiplier)
+ * - Slippage (fixed price units or basis points, always against the order) and
+ *   commission (per order, per unit and/or percent of notional, with a minimum)
+ * - Cash accounting with signed positions, average price, realized and unrealized P&L
+ * - No leverage: new exposure must fit the buying power, equity less the gross value of
+ *   open positions and of the exposure open orders would add
+ * - Account state persisted as JSON with atomic writes, so it survives restarts
+ */
+
+import { readFile, writeFile, readdir, rm, rename, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { Candle, RiskOut } from '../types.js';
+import { stopDistanceAt } from '../agents/RiskAgent.js';
+
+export type OrderSide = 'buy' | 'sell';
+export type OrderType = 'market' | 'limit' | 'stop';
+export type OrderStatus = 'pending' | 'open' | 'filled' | 'cancelled' | 'rejected';
+export type BracketRole = 'entry' | 'stopLoss' | 'takeProfit';
+
+export interface SlippageModel {
+  /** 'fixed': price units per fill, 'bps': basis points of the fill price (default 'none') */
+  type: 'none' | 'fixed' | 'bps';
+  amount?: number;
+}
+
+export interface CommissionModel {
+  perOrder?: number;  // flat fee per fill
+  perUnit?: number;   // fee per unit traded
+  percent?: number;   // fraction of notional (0.001 = 10 bps)
+  minimum?: number;   // floor applied to the total
+}
+
+export interface PaperAccountSettings {
+  slippage: SlippageModel;
+  commission: CommissionModel;
+  allowShort: boolean;
+}
+
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  quantity: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  status: OrderStatus;      // 'pending': bracket child waiting for its entry to fill
+  createdAt: number;        // epoch ms
+  updatedAt: number;
+  after?: number;           // epoch seconds; only bars after this time can fill the order
+  filledAt?: number;        // bar time (epoch seconds) of the fill
+  fillPrice?: number;
+  commission?: number;
+  reason?: string;          // rejection / cancellation reason
+  bracketId?: string;       // shared by entry, stop-loss and take-profit
+  role?: BracketRole;
+  stopDistance?: number;    // bracket children: distance from the entry fill in price units
+  targetDistance?: number;
+  tag?: string;
+}
+
+export interface PaperPosition {
+  symbol: string;
+  quantity: number;         // signed: negative for shorts
+  avgPrice: number;
+  realizedPnl: number;
+  lastPrice: number;
+  lastTime: number;
+}
+
+export interface PaperFill {
+  orderId: string;
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  commission: number;
+  time: number;             // bar time (epoch seconds)
+  realizedPnl: number;      // P&L closed by this fill, before commission
+}
+
+export interface PaperAccountState {
+  id: string;
+  initialCash: number;
+  cash: number;
+  positions: Record<string, PaperPosition>;
+  orders: PaperOrder[];
+  fills: PaperFill[];
+  lastBar: Record<string, number>; // newest processed bar time per symbol
+  settings: PaperAccountSettings;
+  nextId: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PaperAccountOptions {
+  initialCash?: number;     // default 100_000
+  slippage?: SlippageModel;
+  commission?: CommissionModel;
+  allowShort?: boolean;     // default true
+}
+
+export interface OrderRequest {
+  symbol: string;
+  side: OrderSide;
+  type?: OrderType;         // default 'market'
+  quantity: number;
+  limitPrice?: number;
+  stopPrice?: number;
+  tag?: string;
+}
+
+export interface BracketRequest extends OrderRequest {
+  stopDistance: number;     // stop-loss distance from the entry fill, price units
+  targetDistance: number;   // take-profit distance from the entry fill, price units
+}
+
+export interface BracketOrders {
+  entry: PaperOrder;
+  stopLoss: PaperOrder;
+  takeProfit: PaperOrder;
+}
+
+export interface PaperAccountSummary {
+  id: string;
+  initialCash: number;
+  cash: number;
+  equity: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  commissions: number;
+  grossExposure: number;
+  buyingPower: number;      // equity − gross position value − exposure reserved by open orders
+  positions: Array<PaperPosition & { marketValue: number; unrealizedPnl: number }>;
+  openOrders: PaperOrder[];
+  settings: PaperAccountSettings;
+  updatedAt: string;
+}
+
+export const DEFAULT_PAPER_SETTINGS: PaperAccountSettings = {
+  slippage: { type: 'none' },
+  commission: {},
+  allowShort: true
+};
+
+export class PaperAccount {
+  private state: PaperAccountState;
+
+  constructor(state: PaperAccountState) {
+    this.state = state;
+  }
+
+  /**
+   * Open a new account with the given starting cash and cost models
+   */
+  static create(id: string, options: PaperAccountOptions = {}): PaperAccount {
+    const initialCash = options.initialCash ?? 100_000;
+    if (!(initialCash > 0)) {
+      throw new Error('initialCash must be a positive number');
+    }
+    const now = Date.now();
+    return new PaperAccount({
+      id,
+      initialCash,
+      cash: initialCash,
+      positions: {},
+      orders: [],
+      fills: [],
+      lastBar: {},
+      settings: {
+        slippage: options.slippage ?? DEFAULT_PAPER_SETTINGS.slippage,
+        commission: options.commission ?? DEFAULT_PAPER_SETTINGS.commission,
+        allowShort: options.allowShort ?? DEFAULT_PAPER_SETTINGS.allowShort
+      },
+      nextId: 1,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  get id(): string {
+    return this.state.id;
+  }
+
+  /**
+   * Serializable copy of the account state
+   */
+  toJSON(): PaperAccountState {
+    return structuredClone(this.state);
+  }
+
+  getOrders(status?: OrderStatus): PaperOrder[] {
+    return this.state.orders.filter(o => !status || o.status === status);
+  }
+
+  getFills(symbol?: string): PaperFill[] {
+    const upper = symbol?.toUpperCase();
+    return this.state.fills.filter(f => !upper || f.symbol === upper);
+  }
+
+  /**
+   * Symbols with an open position or a working order
+   */
+  activeSymbols(): string[] {
+    const symbols = new Set<string>();
+    for (const p of Object.values(this.state.positions)) {
+      if (p.quantity !== 0) symbols.add(p.symbol);
+    }
+    for (const o of this.state.orders) {
+      if (o.status === 'open' || o.status === 'pending') symbols.add(o.symbol);
+    }
+    return [...symbols];
+  }
+
+  /**
+   * Last traded price known for a symbol (from the newest processed bar)
+   */
+  lastPrice(symbol: string): number | undefined {
+    return this.state.positions[symbol.toUpperCase()]?.lastPrice;
+  }
+
+  /**
+   * Cash, equity, P&L and marked-to-market positions
+   */
+  summary(): PaperAccountSummary {
+    let marketValue = 0;
+    let unrealizedPnl = 0;
+    let realizedPnl = 0;
+    let grossExposure = 0;
+    const positions = Object.values(this.state.positions).map(p => {
+      const value = p.quantity * p.lastPrice;
+      const unrealized = p.quantity * (p.lastPrice - p.avgPrice);
+      marketValue += value;
+      unrealizedPnl += unrealized;
+      realizedPnl += p.realizedPnl;
+      grossExposure += Math.abs(value);
+      return { ...p, marketValue: value, unrealizedPnl: unrealized };
+    });
+    const equity = this.state.cash + marketValue;
+    return {
+      id: this.state.id,
+      initialCash: this.state.initialCash,
+      cash: this.state.cash,
+      equity,
+      realizedPnl,
+      unrealizedPnl,
+      commissions: this.state.fills.reduce((sum, f) => sum + f.commission, 0),
+      grossExposure: equity > 0 ? grossExposure / equity : 0,
+      buyingPower: this.buyingPower(),
+      positions: positions.filter(p => p.quantity !== 0 || p.realizedPnl !== 0),
+      openOrders: this.state.orders.filter(o => o.status === 'open' || o.status === 'pending'),
+      settings: this.state.settings,
+      updatedAt: new Date(this.state.updatedAt).toISOString()
+    };
+  }
+
+  /**
+   * Submit a market, limit or stop order
+   * @param request - Symbol, side, quantity and the price the order type needs
+   * @returns The order; invalid requests throw, orders the account cannot take are 'rejected'
+   */
+  submitOrder(request: OrderRequest): PaperOrder {
+    const order = this.newOrder(request);
+    if (order.status === 'open') this.rejectIfUnfunded(order);
+    this.state.orders.push(order);
+    this.touch();
+    return order;
+  }
+
+  /**
+   * Submit an entry with attached stop-loss and take-profit exits
+   *
+   * The exits are priced from the entry's fill price, so a market entry keeps the
+   * intended risk even when it fills away from the last close.
+   */
+  submitBracket(request: BracketRequest): BracketOrders {
+    if (!(request.stopDistance > 0) || !(request.targetDistance > 0)) {
+      throw new Error('stopDistance and targetDistance must be positive');
+    }
+    const entry = this.newOrder(request);
+    const bracketId = `B${entry.id}`;
+    entry.bracketId = bracketId;
+    entry.role = 'entry';
+    if (entry.status === 'open') this.rejectIfUnfunded(entry);
+
+    const exitSide: OrderSide = request.side === 'buy' ? 'sell' : 'buy';
+    const child = (role: BracketRole, type: OrderType): PaperOrder => ({
+      ...this.newOrder({ symbol: request.symbol, side: exitSide, type: 'market', quantity: request.quantity, tag: request.tag }),
+      type,
+      status: entry.status === 'rejected' ? 'cancelled' : 'pending',
+      reason: entry.status === 'rejected' ? 'Entry rejected' : undefined,
+      bracketId,
+      role,
+      stopDistance: request.stopDistance,
+      targetDistance: request.targetDistance
+    });
+    const stopLoss = child('stopLoss', 'stop');
+    const takeProfit = child('takeProfit', 'limit');
+
+    this.state.orders.push(entry, stopLoss, takeProfit);
+    this.touch();
+    return { entry, stopLoss, takeProfit };
+  }
+
+  /**
+   * Bracket from RiskAgent output: stop at rho (or the ATR/swing/level distance),
+   * target at rMultiplier times the stop distance
+   * @param request - Entry order; quantity defaults to risk.sizing.quantity
+   * @param risk - RiskAgent output for the symbol
+   */
+  submitRiskBracket(request: Omit<OrderRequest, 'quantity'> & { quantity?: number }, risk: RiskOut): BracketOrders {
+    const quantity = request.quantity ?? risk.sizing?.quantity;
+    if (!quantity || !(quantity > 0)) {
+      throw new Error('quantity is required when the risk output carries no sizing');
+    }
+    const reference = request.limitPrice ?? request.stopPrice ?? risk.referencePrice;
+    const stopDistance = stopDistanceAt(risk, reference);
+    return this.submitBracket({
+      ...request,
+      quantity,
+      stopDistance,
+      targetDistance: stopDistance * risk.rMultiplier
+    });
+  }
+
+  /**
+   * Cancel a working order; cancelling a bracket entry cancels its exits
+   */
+  cancelOrder(id: string): PaperOrder {
+    const order = this.state.orders.find(o => o.id === id);
+    if (!order) {
+      throw new Error(`Unknown order: ${id}`);
+    }
+    if (order.status !== 'open' && order.status !== 'pending') {
+      throw new Error(`Order ${id} is ${order.status}`);
+    }
+    this.close(order, 'cancelled', 'Cancelled by user');
+    if (order.role === 'entry') {
+      this.cancelSiblings(order, 'Entry cancelled');
+    }
+    this.touch();
+    return order;
+  }
+
+  /**
+   * Feed one bar: update the mark price and fill every order the bar trades through
+   *
+   * Bars at or before the last processed time for the symbol are ignored, so
+   * replaying an overlapping window is safe.
+   * @returns Fills generated by this bar
+   */
+  processCandle(symbol: string, candle: Candle): PaperFill[] {
+    const upper = symbol.toUpperCase();
+    const last = this.state.lastBar[upper];
+    if (last !== undefined && candle.time <= last) return [];
+    this.state.lastBar[upper] = candle.time;
+
+    const fills: PaperFill[] = [];
+    const working = (o: PaperOrder) => o.symbol === upper && o.status === 'open' && !(o.after !== undefined && candle.time <= o.after);
+
+    // Entries and standalone orders first, then exits (including those activated by this bar)
+    for (const order of this.state.orders.filter(o => working(o) && o.role !== 'stopLoss' && o.role !== 'takeProfit')) {
+      const fill = this.tryFill(order, candle);
+      if (fill) fills.push(fill);
+    }
+    const brackets = new Set(this.state.orders.filter(o => working(o) && o.bracketId && o.role !== 'entry').map(o => o.bracketId!));
+    for (const bracketId of brackets) {
+      // Both exits touched in one bar: assume the stop was hit first
+      const exits = this.state.orders
+        .filter(o => o.bracketId === bracketId && working(o) && o.role !== 'entry')
+        .sort((a, b) => (a.role === 'stopLoss' ? -1 : 1) - (b.role === 'stopLoss' ? -1 : 1));
+      for (const exit of exits) {
+        if (exit.status !== 'open') continue;
+        const fill = this.tryFill(exit, candle);
+        if (fill) fills.push(fill);
+      }
+    }
+
+    this.mark(upper, candle);
+    this.touch();
+    return fills;
+  }
+
+  /**
+   * Feed a series of bars, oldest first
+   */
+  processCandles(symbol: string, candles: Candle[]): PaperFill[] {
+    return candles.flatMap(c => this.processCandle(symbol, c));
+  }
+
+  private newOrder(request: OrderRequest): PaperOrder {
+    const type = request.type ?? 'market';
+    if (!request.symbol) {
+      throw new Error('symbol is required');
+    }
+    if (request.side !== 'buy' && request.side !== 'sell') {
+      throw new Error(`Invalid side: ${request.side}`);
+    }
+    if (!['market', 'limit', 'stop'].includes(type)) {
+      throw new Error(`Invalid order type: ${type}`);
+    }
+    if (!(request.quantity > 0)) {
+      throw new Error('quantity must be a positive number');
+    }
+    if (type === 'limit' && !(request.limitPrice! > 0)) {
+      throw new Error('limitPrice is required for limit orders');
+    }
+    if (type === 'stop' && !(request.stopPrice! > 0)) {
+      throw new Error('stopPrice is required for stop orders');
+    }
+
+    const symbol = request.symbol.toUpperCase();
+    const now = Date.now();
+    return {
+      id: String(this.state.nextId++),
+      symbol,
+      side: request.side,
+      type,
+      quantity: request.quantity,
+      limitPrice: type === 'limit' ? request.limitPrice : undefined,
+      stopPrice: type === 'stop' ? request.stopPrice : undefined,
+      status: 'open',
+      createdAt: now,
+      updatedAt: now,
+      // No bar seen for the symbol yet: only bars that open after submission can fill it
+      after: this.state.lastBar[symbol] ?? Math.floor(now / 1000),
+      tag: request.tag
+    };
+  }
+
+  /**
+   * Equity not yet committed: less the gross value of open positions and the
+   * exposure that working orders would add when they fill
+   */
+  buyingPower(): number {
+    let equity = this.state.cash;
+    let committed = 0;
+    for (const p of Object.values(this.state.positions)) {
+      equity += p.quantity * p.lastPrice;
+      committed += Math.abs(p.quantity * p.lastPrice);
+    }
+    for (const o of this.state.orders) {
+      if (o.status === 'open') committed += this.openingExposure(o);
+    }
+    return equity - committed;
+  }
+
+  /**
+   * Notional an order adds to the symbol's gross exposure at its expected price
+   * (0 when it only reduces the position, or no price is known yet)
+   */
+  private openingExposure(order: PaperOrder): number {
+    const position = this.state.positions[order.symbol]?.quantity ?? 0;
+    const after = position + (order.side === 'buy' ? order.quantity : -order.quantity);
+    const price = order.limitPrice ?? order.stopPrice ?? this.lastPrice(order.symbol);
+    return price === undefined ? 0 : Math.max(0, Math.abs(after) - Math.abs(position)) * price;
+  }
+
+  /**
+   * Reject shorts on accounts that disallow them, and orders whose added exposure at
+   * the expected price exceeds the buying power left by positions and other open orders
+   */
+  private rejectIfUnfunded(order: PaperOrder): void {
+    const position = this.state.positions[order.symbol]?.quantity ?? 0;
+    const after = position + (order.side === 'buy' ? order.quantity : -order.quantity);
+    if (!this.state.settings.allowShort && after < -1e-9) {
+      this.close(order, 'rejected', 'Short selling is disabled for this account');
+      return;
+    }
+    const exposure = this.openingExposure(order);
+    if (exposure > 0 && exposure > this.buyingPower() + 1e-9) {
+      this.close(order, 'rejected', 'Insufficient buying power');
+    }
+  }
+
+  /**
+   * Fill price for an order on this bar, or null when the bar does not reach it
+   */
+  private triggerPrice(order: PaperOrder, candle: Candle): number | null {
+    const buy = order.side === 'buy';
+    switch (order.type) {
+      case 'market':
+        return candle.open;
+      case 'limit': {
+        const limit = order.limitPrice!;
+        if (buy) return candle.open <= limit ? candle.open : candle.low <= limit ? limit : null;
+        return candle.open >= limit ? candle.open : candle.high >= limit ? limit : null;
+      }
+      case 'stop': {
+        const stop = order.stopPrice!;
+        if (buy) return candle.open >= stop ? candle.open : candle.high >= stop ? stop : null;
+        return candle.open <= stop ? candle.open : candle.low <= stop ? stop : null;
+      }
+    }
+  }
+
+  private tryFill(order: PaperOrder, candle: Candle): PaperFill | null {
+    const trigger = this.triggerPrice(order, candle);
+    if (trigger === null) return null;
+
+    // Limit orders never fill worse than their limit; market and stop fills slip
+    const price = order.type === 'limit' ? trigger : this.slip(trigger, order.side, candle);
+    const commission = this.commissionFor(order.quantity, price);
+    const realizedPnl = this.applyFill(order.symbol, order.side, order.quantity, price, candle);
+    this.state.cash -= commission;
+
+    order.status = 'filled';
+    order.filledAt = candle.time;
+    order.fillPrice = price;
+    order.commission = commission;
+    order.updatedAt = Date.now();
+
+    const fill: PaperFill = {
+      orderId: order.id,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      price,
+      commission,
+      time: candle.time,
+      realizedPnl
+    };
+    this.state.fills.push(fill);
+
+    if (order.role === 'entry') {
+      this.activateExits(order, price);
+    } else if (order.role) {
+      this.cancelSiblings(order, `${order.role === 'stopLoss' ? 'Stop-loss' : 'Take-profit'} filled`);
+    }
+    return fill;
+  }
+
+  /**
+   * Price the bracket exits off the entry fill and make them workable from this bar
+   */
+  private activateExits(entry: PaperOrder, fillPrice: number): void {
+    const direction = entry.side === 'buy' ? 1 : -1;
+    for (const exit of this.state.orders) {
+      if (exit.bracketId !== entry.bracketId || exit.status !== 'pending') continue;
+      if (exit.role === 'stopLoss') {
+        exit.stopPrice = fillPrice - direction * exit.stopDistance!;
+      } else {
+        exit.limitPrice = fillPrice + direction * exit.targetDistance!;
+      }
+      exit.status = 'open';
+      exit.after = undefined;
+      exit.updatedAt = Date.now();
+    }
+  }
+
+  private cancelSiblings(order: PaperOrder, reason: string): void {
+    for (const other of this.state.orders) {
+      if (other !== order && other.bracketId === order.bracketId && (other.status === 'open' || other.status === 'pending')) {
+        this.close(other, 'cancelled', reason);
+      }
+    }
+  }
+
+  private close(order: PaperOrder, status: OrderStatus, reason: string): void {
+    order.status = status;
+    order.reason = reason;
+    order.updatedAt = Date.now();
+  }
+
+  /**
+   * Move the fill against the order by the configured slippage, clamped to the bar's range
+   */
+  private slip(price: number, side: OrderSide, candle: Candle): number {
+    const { type, amount = 0 } = this.state.settings.slippage;
+    const offset = type === 'fixed' ? amount : type === 'bps' ? price * amount / 10_000 : 0;
+    return side === 'buy' ? Math.min(price + offset, candle.high) : Math.max(price - offset, candle.low);
+  }
+
+  private commissionFor(quantity: number, price: number): number {
+    const { perOrder = 0, perUnit = 0, percent = 0, minimum = 0 } = this.state.settings.commission;
+    const fee = perOrder + perUnit * quantity + percent * quantity * price;
+    return fee > 0 ? Math.max(fee, minimum) : 0;
+  }
+
+  /**
+   * Update cash and the signed position; returns the P&L closed by the fill
+   */
+  private applyFill(symbol: string, side: OrderSide, quantity: number, price: number, candle: Candle): number {
+    const position = this.state.positions[symbol] ??= {
+      symbol, quantity: 0, avgPrice: 0, realizedPnl: 0, lastPrice: price, lastTime: candle.time
+    };
+    const signed = side === 'buy' ? quantity : -quantity;
+    this.state.cash -= signed * price;
+
+    let realized = 0;
+    if (position.quantity !== 0 && Math.sign(position.quantity) !== Math.sign(signed)) {
+      const closing = Math.min(Math.abs(signed), Math.abs(position.quantity));
+      realized = closing * (price - position.avgPrice) * Math.sign(position.quantity);
+    }
+    const next = position.quantity + signed;
+    if (Math.abs(next) < 1e-9) {
+      position.quantity = 0;
+      position.avgPrice = 0;
+    } else if (position.quantity === 0 || Math.sign(next) !== Math.sign(position.quantity)) {
+      // Opened from flat or flipped through zero: the remainder is a new position at this price
+      position.quantity = next;
+      position.avgPrice = price;
+    } else if (Math.abs(next) > Math.abs(position.quantity)) {
+      position.avgPrice = (position.avgPrice * position.quantity + price * signed) / next;
+      position.quantity = next;
+    } else {
+      position.quantity = next;
+    }
+    position.realizedPnl += realized;
+    return realized;
+  }
+
+  private mark(symbol: string, candle: Candle): void {
+    const position = this.state.positions[symbol];
+    if (position) {
+      position.lastPrice = candle.close;
+      position.lastTime = candle.time;
+    } else {
+      this.state.positions[symbol] = {
+        symbol, quantity: 0, avgPrice: 0, realizedPnl: 0, lastPrice: candle.close, lastTime: candle.time
+      };
+    }
+  }
+
+  private touch(): void {
+    this.state.updatedAt = Date.now();
+  }
+}
+
+export class PaperTradingService {
+  private dir: string;
+  private accounts = new Map<string, PaperAccount>();
+  private loading = new Map<string, Promise<PaperAccount>>();
+  private writes: Promise<void> = Promise.resolve();
+
+  /**
+   * @param dir - State directory (default PAPER_TRADING_DIR or '.data/paper')
+   */
+  constructor(dir: string = process.env.PAPER_TRADING_DIR || join('.data', 'paper')) {
+    this.dir = dir;
+  }
+
+  /**
+   * Load an account from memory or disk, opening it with default settings if new
+   * @param id - Account name (default 'default')
+   */
+  async getAccount(id: string = 'default'): Promise<PaperAccount> {
+    const key = accountKey(id);
+    const cached = this.accounts.get(key);
+    if (cached) return cached;
+
+    // Concurrent first requests share one load, so a new account is created only once
+    let pending = this.loading.get(key);
+    if (!pending) {
+      pending = this.loadAccount(key).finally(() => this.loading.delete(key));
+      this.loading.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Replace an account with a fresh one (existing positions and history are discarded)
+   */
+  async resetAccount(id: string = 'default', options: PaperAccountOptions = {}): Promise<PaperAccount> {
+    const account = PaperAccount.create(accountKey(id), options);
+    this.accounts.set(account.id, account);
+    await this.save(account);
+    return account;
+  }
+
+  async deleteAccount(id: string): Promise<boolean> {
+    const key = accountKey(id);
+    this.accounts.delete(key);
+    try {
+      await rm(this.path(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async listAccounts(): Promise<string[]> {
+    try {
+      const files = await readdir(this.dir);
+      return files.filter(f => f.endsWith('.json')).map(f => f.slice(0, -'.json'.length)).sort();
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Write the account state to disk (writes are serialized so concurrent requests
+   * never interleave on the temp file)
+   */
+  async save(account: PaperAccount): Promise<void> {
+    const text = JSON.stringify(account.toJSON(), null, 2);
+    const path = this.path(account.id);
+    const write = this.writes.then(async () => {
+      await mkdir(this.dir, { recursive: true });
+      const tmp = `${path}.${process.pid}.tmp`;
+      await writeFile(tmp, text, 'utf8');
+      await rename(tmp, path);
+    });
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  private async loadAccount(key: string): Promise<PaperAccount> {
+    let account: PaperAccount;
+    try {
+      const state = JSON.parse(await readFile(this.path(key), 'utf8')) as PaperAccountState;
+      account = new PaperAccount(state);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      account = PaperAccount.create(key);
+      await this.save(account);
+    }
+    this.accounts.set(key, account);
+    return account;
+  }
+
+  private path(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+}
+
+/**
+ * Account ids double as file names: 1-64 letters, digits, '_' or '-'
+ */
+export function isValidAccountId(id: unknown): id is string {
+  return typeof id === 'string' && /^[A-Za-z0-9_-]{1,64}$/.test(id);
+}
+
+/**
+ * The id as given; ids are never rewritten, so two spellings cannot share one account
+ * @throws If the id is not valid
+ */
+function accountKey(id: unknown): string {
+  if (!isValidAccountId(id)) {
+    throw new Error(`Invalid account id: ${JSON.stringify(id)} (use 1-64 letters, digits, "_" or "-")`);
+  }
+  return id;
+}
+
+export default PaperTradingService;
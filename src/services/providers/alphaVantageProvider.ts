@@ -0,0 +1,108 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * ALPHA VANTAGE PROVIDER
+ * ──────────────────────────────────────────────────────────────────────────────
+ * MarketDataProvider backed by the Alpha Vantage REST API
+ *
+ * Unlike AlphaVantageService on its own, this provider never substitutes
+ * synthetic data: a missing key or rate limit is an error so the provider
+ * chain can move on to the next source.
+ */
+
+import { Candle } from '../../types.js';
+import AlphaVantageService from '../alphaVantage.js';
+import { MarketDataProvider, OHLCVRequest, Quote, MarketInfo } from './types.js';
+import { classifySymbol } from './assetClass.js';
+
+export class AlphaVantageProvider implements MarketDataProvider {
+  readonly name = 'alphavantage';
+  private service: AlphaVantageService;
+
+  constructor(service: AlphaVantageService = new AlphaVantageService({ mockFallback: false })) {
+    this.service = service;
+  }
+
+  async getOHLCV(request: OHLCVRequest): Promise<Candle[]> {
+    const { symbol, interval = 'daily', outputSize = 'compact', market = 'USD' } = request;
+
+    if (classifySymbol(symbol) === 'crypto') {
+      if (interval !== 'daily') {
+        throw new Error(`Alpha Vantage only provides daily crypto candles (requested ${interval})`);
+      }
+      return this.service.getCryptoDailyOHLCV(symbol, market);
+    }
+
+    if (interval === 'daily') {
+      return this.service.getDailyOHLCV(symbol, outputSize);
+    }
+    return this.service.getIntradayOHLCV(symbol, interval, outputSize);
+  }
+
+  async getQuote(symbol: string): Promise<Quote | null> {
+    const raw = await this.service.getQuote(symbol);
+    if (!raw || Object.keys(raw).length === 0) return null;
+
+    const num = (key: string) => {
+      const value = Number.parseFloat(String(raw[key] ?? '').replace('%', ''));
+      return Number.isNaN(value) ? undefined : value;
+    };
+    const day = raw['07. latest trading day'];
+
+    return {
+      symbol: raw['01. symbol'] || symbol.toUpperCase(),
+      price: num('05. price') ?? NaN,
+      open: num('02. open'),
+      high: num('03. high'),
+      low: num('04. low'),
+      volume: num('06. volume'),
+      previousClose: num('08. previous close'),
+      change: num('09. change'),
+      changePercent: num('10. change percent'),
+      time: day ? new Date(day).getTime() / 1000 : undefined,
+      source: this.name
+    };
+  }
+
+  async searchSymbols(keywords: string): Promise<MarketInfo[]> {
+    const results = await this.service.searchSymbols(keywords);
+
+    return results.map((result: any): MarketInfo => {
+      const type = result['3. type']?.toLowerCase();
+      let marketType: MarketInfo['type'] = 'stock';
+
+      if (type === 'cryptocurrency') {
+        marketType = 'crypto';
+      } else if (type === 'physical currency') {
+        marketType = 'forex';
+      }
+
+      return {
+        symbol: result['1. symbol'],
+        name: result['2. name'],
+        type: marketType,
+        exchange: result['4. region'],
+        currency: result['8. currency'],
+      };
+    });
+  }
+
+  async validateSymbol(symbol: string): Promise<MarketInfo | null> {
+    // Try to get a quote first
+    const quote = await this.getQuote(symbol);
+    if (quote && !Number.isNaN(quote.price)) {
+      return {
+        symbol: symbol.toUpperCase(),
+        name: quote.symbol || symbol,
+        type: classifySymbol(symbol) === 'crypto' ? 'crypto' : 'stock',
+      };
+    }
+
+    // If quote fails, try searching
+    const searchResults = await this.searchSymbols(symbol);
+    return searchResults.find(result =>
+      result.symbol.toUpperCase() === symbol.toUpperCase()
+    ) || null;
+  }
+}
+
+export default AlphaVantageProvider;
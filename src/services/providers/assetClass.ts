@@ -0,0 +1,45 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * ASSET CLASS CLASSIFICATION
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Maps a symbol to an asset class so the provider chain can route it
+ */
+
+import { AssetClass } from './types.js';
+
+const CRYPTO_SYMBOLS = [
+  'BTC', 'ETH', 'LTC', 'XRP', 'ADA', 'DOT', 'DOGE', 'MATIC', 'SOL', 'AVAX',
+  'BITCOIN', 'ETHEREUM', 'LITECOIN', 'RIPPLE', 'CARDANO', 'POLKADOT',
+  'USDT', 'USDC', 'BNB', 'LUNA', 'ATOM', 'LINK', 'UNI', 'ALGO'
+];
+
+const CURRENCIES = ['USD', 'EUR', 'GBP', 'JPY', 'CHF', 'CAD', 'AUD', 'NZD', 'CNY'];
+
+const COMMODITY_SYMBOLS = [
+  'XAU', 'XAG', 'XPT', 'XPD', 'GOLD', 'SILVER', 'WTI', 'BRENT', 'NATGAS',
+  'COPPER', 'WHEAT', 'CORN', 'GC', 'SI', 'CL', 'NG', 'HG'
+];
+
+const INDEX_SYMBOLS = ['SPX', 'NDX', 'DJI', 'RUT', 'VIX', 'FTSE', 'DAX', 'N225', 'HSI', 'STOXX50E'];
+
+/**
+ * Classify a symbol into an asset class (defaults to stocks)
+ * @param symbol - Ticker, currency pair or crypto symbol (e.g. 'AAPL', 'EUR/USD', 'BTC', '^SPX')
+ */
+export function classifySymbol(symbol: string): AssetClass {
+  const s = symbol.toUpperCase().trim();
+  const base = s.split(/[-/:]/)[0];
+
+  if (CRYPTO_SYMBOLS.includes(base)) return 'crypto';
+  if (s.startsWith('^') || INDEX_SYMBOLS.includes(s)) return 'indices';
+  if (COMMODITY_SYMBOLS.includes(base) || /=F$/.test(s)) return 'commodities';
+
+  // Bare currency codes and pairs such as EURUSD, EUR/USD, EUR-USD
+  const compact = s.replace(/[-/]/g, '');
+  if (CURRENCIES.includes(compact)) return 'forex';
+  if (compact.length === 6 && CURRENCIES.includes(compact.slice(0, 3)) && CURRENCIES.includes(compact.slice(3))) {
+    return 'forex';
+  }
+
+  return 'stocks';
+}
@@ -0,0 +1,158 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * CSV / JSON / PARQUET DIRECTORY PROVIDER
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Serves recorded OHLCV data from a local directory
+ *
+ * File lookup for symbol S and interval I (first match wins):
+ *   <dir>/S_I.csv | <dir>/I/S.csv | <dir>/S.csv (daily only)
+ * and the same names with .json or .parquet extensions. Symbols are upper-cased and
+ * characters other than letters, digits, '.', '_' and '-' become '_'
+ * (EUR/USD → EUR_USD).
+ *
+ * CSV and JSON files go through the candle importer's schema detection.
+ * Parquet files need the optional `hyparquet` package to be installed.
+ */
+
+import { readFile, readdir, stat } from 'fs/promises';
+import { join, extname, basename } from 'path';
+import { Candle } from '../../types.js';
+import { MarketDataProvider, OHLCVRequest, Quote, MarketInfo, DataInterval } from './types.js';
+import { quoteFromCandles, toMarketInfo } from './helpers.js';
+import { parseCandles, parseTimestamp } from '../../utils/candleIO.js';
+
+const INTERVALS: DataInterval[] = ['daily', '1min', '5min', '15min', '30min', '60min'];
+const EXTENSIONS = ['.csv', '.json', '.parquet'];
+
+export class CsvDirectoryProvider implements MarketDataProvider {
+  readonly name = 'csv';
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async getOHLCV(request: OHLCVRequest): Promise<Candle[]> {
+    const { symbol, interval = 'daily' } = request;
+    const path = await this.findFile(symbol, interval);
+    if (!path) {
+      throw new Error(`No recorded ${interval} data for ${symbol} in ${this.dir}`);
+    }
+
+    const candles = extname(path) === '.parquet'
+      ? await readParquetCandles(path)
+      : parseCandles(await readFile(path, 'utf8')).candles;
+
+    if (candles.length === 0) {
+      throw new Error(`Recorded data file is empty: ${path}`);
+    }
+    return candles;
+  }
+
+  async getQuote(symbol: string): Promise<Quote | null> {
+    for (const interval of INTERVALS) {
+      if (!(await this.findFile(symbol, interval))) continue;
+      const candles = await this.getOHLCV({ symbol, interval });
+      return quoteFromCandles(symbol, candles, this.name);
+    }
+    return null;
+  }
+
+  async searchSymbols(keywords: string): Promise<MarketInfo[]> {
+    const needle = keywords.toUpperCase();
+    return (await this.listSymbols())
+      .filter(symbol => symbol.includes(needle))
+      .map(symbol => toMarketInfo(symbol, 'Recorded data'));
+  }
+
+  async validateSymbol(symbol: string): Promise<MarketInfo | null> {
+    for (const interval of INTERVALS) {
+      if (await this.findFile(symbol, interval)) return toMarketInfo(fileSymbol(symbol), 'Recorded data');
+    }
+    return null;
+  }
+
+  /**
+   * Symbols with at least one recorded file
+   */
+  async listSymbols(): Promise<string[]> {
+    const symbols = new Set<string>();
+    const collect = (file: string, stripInterval: boolean) => {
+      if (!EXTENSIONS.includes(extname(file))) return;
+      let name = basename(file, extname(file));
+      if (stripInterval) {
+        const suffix = INTERVALS.find(interval => name.endsWith(`_${interval}`));
+        if (suffix) name = name.slice(0, -suffix.length - 1);
+      }
+      symbols.add(name.toUpperCase());
+    };
+
+    for (const entry of await readdir(this.dir, { withFileTypes: true }).catch(() => [])) {
+      if (entry.isFile()) collect(entry.name, true);
+      else if (entry.isDirectory() && INTERVALS.includes(entry.name as DataInterval)) {
+        for (const file of await readdir(join(this.dir, entry.name)).catch(() => [])) collect(file, false);
+      }
+    }
+    return [...symbols].sort();
+  }
+
+  private async findFile(symbol: string, interval: DataInterval): Promise<string | null> {
+    const name = fileSymbol(symbol);
+    const stems = [join(this.dir, `${name}_${interval}`), join(this.dir, interval, name)];
+    if (interval === 'daily') stems.push(join(this.dir, name));
+
+    for (const stem of stems) {
+      for (const ext of EXTENSIONS) {
+        const path = stem + ext;
+        const info = await stat(path).catch(() => null);
+        if (info?.isFile()) return path;
+      }
+    }
+    return null;
+  }
+}
+
+function fileSymbol(symbol: string): string {
+  return symbol.toUpperCase().replace(/[^A-Z0-9._-]/g, '_');
+}
+
+/**
+ * Read candles from a Parquet file via the optional `hyparquet` package
+ */
+async function readParquetCandles(path: string): Promise<Candle[]> {
+  const moduleName = 'hyparquet';
+  let parquet: any;
+  try {
+    parquet = await import(moduleName);
+  } catch {
+    throw new Error(`Reading ${path} requires the optional "hyparquet" package (npm install hyparquet)`);
+  }
+
+  const buffer = await readFile(path);
+  const file = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength);
+  const rows: Array<Record<string, unknown>> = await new Promise((resolve, reject) => {
+    parquet.parquetRead({ file, rowFormat: 'object', onComplete: resolve }).catch(reject);
+  });
+
+  return rows
+    .map(row => {
+      const get = (...names: string[]) => {
+        const key = Object.keys(row).find(k => names.includes(k.toLowerCase()));
+        return key !== undefined ? row[key] : undefined;
+      };
+      const time = get('time', 'timestamp', 'date', 'datetime');
+      const volume = get('volume', 'vol');
+      return {
+        time: parseTimestamp(time),
+        open: Number(get('open')),
+        high: Number(get('high')),
+        low: Number(get('low')),
+        close: Number(get('close')),
+        volume: volume !== undefined && volume !== null ? Number(volume) : undefined
+      };
+    })
+    .filter(c => Number.isFinite(c.time) && Number.isFinite(c.close))
+    .sort((a, b) => a.time - b.time);
+}
+
+export default CsvDirectoryProvider;
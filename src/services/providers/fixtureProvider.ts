@@ -0,0 +1,79 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * FIXTURE PROVIDER
+ * ──────────────────────────────────────────────────────────────────────────────
+ * In-memory MarketDataProvider for tests, demos and replaying captured data
+ */
+
+import { Candle } from '../../types.js';
+import { MarketDataProvider, OHLCVRequest, Quote, MarketInfo, DataInterval } from './types.js';
+import { quoteFromCandles, toMarketInfo } from './helpers.js';
+
+export type FixtureData = Record<string, Partial<Record<DataInterval, Candle[]>>>;
+
+export class FixtureProvider implements MarketDataProvider {
+  readonly name: string;
+  private data = new Map<string, Map<DataInterval, Candle[]>>();
+
+  /**
+   * @param fixtures - Candles keyed by symbol, then interval
+   * @param name - Source name reported for served data (default 'fixture')
+   */
+  constructor(fixtures: FixtureData = {}, name = 'fixture') {
+    this.name = name;
+    for (const [symbol, byInterval] of Object.entries(fixtures)) {
+      for (const [interval, candles] of Object.entries(byInterval)) {
+        if (candles) this.set(symbol, interval as DataInterval, candles);
+      }
+    }
+  }
+
+  /**
+   * Add or replace the candles for a symbol and interval
+   */
+  set(symbol: string, interval: DataInterval, candles: Candle[]): this {
+    const key = symbol.toUpperCase();
+    if (!this.data.has(key)) this.data.set(key, new Map());
+    this.data.get(key)!.set(interval, [...candles].sort((a, b) => a.time - b.time));
+    return this;
+  }
+
+  /**
+   * Remove all candles for a symbol (every interval)
+   */
+  delete(symbol: string): boolean {
+    return this.data.delete(symbol.toUpperCase());
+  }
+
+  async getOHLCV(request: OHLCVRequest): Promise<Candle[]> {
+    const { symbol, interval = 'daily' } = request;
+    const candles = this.data.get(symbol.toUpperCase())?.get(interval);
+    if (!candles) {
+      throw new Error(`No ${interval} fixture for ${symbol}`);
+    }
+    return candles.slice();
+  }
+
+  async getQuote(symbol: string): Promise<Quote | null> {
+    const byInterval = this.data.get(symbol.toUpperCase());
+    if (!byInterval) return null;
+
+    // Quote from the series with the most recent candle
+    const latest = [...byInterval.values()]
+      .sort((a, b) => (b.at(-1)?.time ?? 0) - (a.at(-1)?.time ?? 0))[0];
+    return quoteFromCandles(symbol, latest ?? [], this.name);
+  }
+
+  async searchSymbols(keywords: string): Promise<MarketInfo[]> {
+    const needle = keywords.toUpperCase();
+    return [...this.data.keys()]
+      .filter(symbol => symbol.includes(needle))
+      .map(symbol => toMarketInfo(symbol, 'Fixture data'));
+  }
+
+  async validateSymbol(symbol: string): Promise<MarketInfo | null> {
+    return this.data.has(symbol.toUpperCase()) ? toMarketInfo(symbol.toUpperCase(), 'Fixture data') : null;
+  }
+}
+
+export default FixtureProvider;
@@ -0,0 +1,48 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * PROVIDER HELPERS
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Shared helpers for providers that serve candles they already hold
+ */
+
+import { Candle } from '../../types.js';
+import { Quote, MarketInfo } from './types.js';
+import { classifySymbol } from './assetClass.js';
+
+/**
+ * MarketInfo for a symbol, typed from its asset class
+ */
+export function toMarketInfo(symbol: string, name: string): MarketInfo {
+  const assetClass = classifySymbol(symbol.replace('_', '/'));
+  return {
+    symbol,
+    name,
+    type: assetClass === 'crypto' ? 'crypto' : assetClass === 'forex' ? 'forex' : 'stock'
+  };
+}
+
+/**
+ * Build a quote from the last two candles of a series
+ * @param symbol - Symbol the candles belong to
+ * @param candles - Candles, oldest first
+ * @param source - Provider name
+ */
+export function quoteFromCandles(symbol: string, candles: Candle[], source: string): Quote | null {
+  const last = candles.at(-1);
+  if (!last) return null;
+  const prev = candles.at(-2);
+
+  return {
+    symbol: symbol.toUpperCase(),
+    price: last.close,
+    open: last.open,
+    high: last.high,
+    low: last.low,
+    volume: last.volume,
+    previousClose: prev?.close,
+    change: prev ? last.close - prev.close : undefined,
+    changePercent: prev ? (last.close - prev.close) / prev.close * 100 : undefined,
+    time: last.time,
+    source
+  };
+}
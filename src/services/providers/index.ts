@@ -0,0 +1,23 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * MARKET DATA PROVIDERS - EXPORTS
+ * ──────────────────────────────────────────────────────────────────────────────
+ */
+
+export type {
+  MarketDataProvider,
+  OHLCVRequest,
+  Quote,
+  MarketInfo,
+  DataInterval,
+  AssetClass
+} from './types.js';
+export { classifySymbol } from './assetClass.js';
+export { quoteFromCandles } from './helpers.js';
+export { AlphaVantageProvider } from './alphaVantageProvider.js';
+export { CsvDirectoryProvider } from './csvDirectoryProvider.js';
+export { FixtureProvider } from './fixtureProvider.js';
+export type { FixtureData } from './fixtureProvider.js';
+export { SyntheticProvider } from './syntheticProvider.js';
+export { ProviderChain, createDefaultProviderChain } from './providerChain.js';
+export type { ProviderRoutes } from './providerChain.js';
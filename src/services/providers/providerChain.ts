@@ -0,0 +1,167 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * PROVIDER CHAIN
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Priority/fallback routing across market data providers
+ *
+ * Features:
+ * - Ordered provider list per asset class, with a default list for the rest
+ * - Falls through to the next provider on error (rate limit, missing file, ...)
+ * - Reports which provider served each request
+ * - Environment-driven default chain, including a fully offline mode
+ */
+
+import { Candle } from '../../types.js';
+import { MarketDataProvider, OHLCVRequest, Quote, MarketInfo, AssetClass } from './types.js';
+import { classifySymbol } from './assetClass.js';
+import { AlphaVantageProvider } from './alphaVantageProvider.js';
+import { CsvDirectoryProvider } from './csvDirectoryProvider.js';
+import { SyntheticProvider } from './syntheticProvider.js';
+
+export type ProviderRoutes = {
+  default: MarketDataProvider[];
+} & Partial<Record<AssetClass, MarketDataProvider[]>>;
+
+export class ProviderChain implements MarketDataProvider {
+  readonly name = 'chain';
+  private routes: ProviderRoutes;
+
+  constructor(routes: ProviderRoutes | MarketDataProvider[]) {
+    this.routes = Array.isArray(routes) ? { default: routes } : routes;
+    if (this.routes.default.length === 0) {
+      throw new Error('ProviderChain needs at least one default provider');
+    }
+  }
+
+  /**
+   * Providers tried, in order, for a symbol
+   */
+  providersFor(symbol: string): MarketDataProvider[] {
+    return this.routes[classifySymbol(symbol)] ?? this.routes.default;
+  }
+
+  /**
+   * Provider names per route, for diagnostics
+   */
+  describe(): Record<string, string[]> {
+    return Object.fromEntries(
+      Object.entries(this.routes).map(([route, providers]) => [route, (providers ?? []).map(p => p.name)])
+    );
+  }
+
+  /**
+   * Fetch candles and report which provider served them
+   * @param request - Symbol, interval and size hint
+   * @returns Candles plus the serving provider's name
+   * @throws Error listing every provider's failure when none can serve the request
+   */
+  async getOHLCVWithSource(request: OHLCVRequest): Promise<{ candles: Candle[]; source: string }> {
+    return this.firstSuccess(request.symbol, async provider => {
+      const candles = await provider.getOHLCV(request);
+      if (candles.length === 0) throw new Error('no candles returned');
+      return { candles, source: provider.name };
+    });
+  }
+
+  async getOHLCV(request: OHLCVRequest): Promise<Candle[]> {
+    return (await this.getOHLCVWithSource(request)).candles;
+  }
+
+  async getQuote(symbol: string): Promise<Quote | null> {
+    return this.firstSuccess(symbol, async provider => {
+      const quote = await provider.getQuote(symbol);
+      if (!quote) throw new Error('unknown symbol');
+      return quote;
+    }).catch(() => null);
+  }
+
+  async searchSymbols(keywords: string): Promise<MarketInfo[]> {
+    // Search is not symbol-specific: query the default route and merge unique results
+    const seen = new Set<string>();
+    const results: MarketInfo[] = [];
+    for (const provider of this.routes.default) {
+      const found = await provider.searchSymbols(keywords).catch(() => []);
+      for (const info of found) {
+        if (seen.has(info.symbol)) continue;
+        seen.add(info.symbol);
+        results.push(info);
+      }
+    }
+    return results;
+  }
+
+  async validateSymbol(symbol: string): Promise<MarketInfo | null> {
+    return this.firstSuccess(symbol, async provider => {
+      const info = await provider.validateSymbol(symbol);
+      if (!info) throw new Error('unknown symbol');
+      return info;
+    }).catch(() => null);
+  }
+
+  private async firstSuccess<T>(symbol: string, attempt: (provider: MarketDataProvider) => Promise<T>): Promise<T> {
+    const failures: string[] = [];
+    for (const provider of this.providersFor(symbol)) {
+      try {
+        return await attempt(provider);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        failures.push(`${provider.name}: ${message}`);
+      }
+    }
+    throw new Error(`No market data provider could serve ${symbol} (${failures.join('; ')})`);
+  }
+}
+
+/**
+ * Build the provider chain from environment variables
+ *
+ * - MARKET_DATA_DIR: directory of recorded CSV/Parquet files (enables the 'csv' provider)
+ * - MARKET_DATA_OFFLINE=true: never call network providers
+ * - MARKET_DATA_PROVIDERS: default order, e.g. "csv,alphavantage,synthetic"
+ * - MARKET_DATA_PROVIDERS_<CLASS>: order for one asset class (STOCKS, CRYPTO, FOREX, COMMODITIES, INDICES)
+ *
+ * Without any configuration the chain is alphavantage → synthetic, with csv first when
+ * MARKET_DATA_DIR is set.
+ *
+ * @param env - Environment to read (default process.env)
+ * @returns Configured chain
+ */
+export function createDefaultProviderChain(env: NodeJS.ProcessEnv = process.env): ProviderChain {
+  const offline = ['1', 'true', 'yes'].includes((env.MARKET_DATA_OFFLINE ?? '').toLowerCase());
+  const available = new Map<string, () => MarketDataProvider>();
+  if (env.MARKET_DATA_DIR) {
+    const dir = env.MARKET_DATA_DIR;
+    available.set('csv', () => new CsvDirectoryProvider(dir));
+  }
+  if (!offline) available.set('alphavantage', () => new AlphaVantageProvider());
+  available.set('synthetic', () => new SyntheticProvider());
+
+  // One instance per provider, shared between routes
+  const instances = new Map<string, MarketDataProvider>();
+  const build = (list: string): MarketDataProvider[] =>
+    list.split(',')
+      .map(name => name.trim().toLowerCase())
+      .filter(name => available.has(name))
+      .map(name => {
+        if (!instances.has(name)) instances.set(name, available.get(name)!());
+        return instances.get(name)!;
+      });
+
+  const routes: ProviderRoutes = {
+    default: build(env.MARKET_DATA_PROVIDERS ?? [...available.keys()].join(','))
+  };
+  if (routes.default.length === 0) routes.default = build('synthetic');
+
+  const classes: AssetClass[] = ['stocks', 'crypto', 'forex', 'commodities', 'indices'];
+  for (const assetClass of classes) {
+    const list = env[`MARKET_DATA_PROVIDERS_${assetClass.toUpperCase()}`];
+    if (list) {
+      const providers = build(list);
+      if (providers.length > 0) routes[assetClass] = providers;
+    }
+  }
+
+  return new ProviderChain(routes);
+}
+
+export default ProviderChain;
@@ -0,0 +1,51 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * SYNTHETIC PROVIDER
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Last-resort MarketDataProvider that generates random-walk candles.
+ * Served data is labelled 'synthetic' so callers can tell it from real data.
+ */
+
+import { Candle } from '../../types.js';
+import { makeSyntheticSeries } from '../../utils/synthetic.js';
+import { timeframeSeconds } from '../../utils/resample.js';
+import { MarketDataProvider, OHLCVRequest, Quote, MarketInfo } from './types.js';
+import { quoteFromCandles, toMarketInfo } from './helpers.js';
+
+const BASE_PRICES: Record<string, number> = {
+  AAPL: 150,
+  GOOGL: 100,
+  MSFT: 300,
+  TSLA: 200
+};
+
+export class SyntheticProvider implements MarketDataProvider {
+  readonly name = 'synthetic';
+
+  async getOHLCV(request: OHLCVRequest): Promise<Candle[]> {
+    const { symbol, interval = 'daily', outputSize = 'compact' } = request;
+    const count = interval === 'daily'
+      ? (outputSize === 'full' ? 500 : 100)
+      : (outputSize === 'full' ? 1000 : 200);
+
+    console.log(`📊 Generating synthetic ${interval} data for ${symbol} (${count} candles)`);
+    return makeSyntheticSeries(count, BASE_PRICES[symbol.toUpperCase()] ?? 100, timeframeSeconds(interval));
+  }
+
+  async getQuote(symbol: string): Promise<Quote | null> {
+    return quoteFromCandles(symbol, await this.getOHLCV({ symbol }), this.name);
+  }
+
+  async searchSymbols(keywords: string): Promise<MarketInfo[]> {
+    const needle = keywords.toUpperCase();
+    return Object.keys(BASE_PRICES)
+      .filter(symbol => symbol.includes(needle))
+      .map(symbol => toMarketInfo(symbol, 'Synthetic data'));
+  }
+
+  async validateSymbol(symbol: string): Promise<MarketInfo | null> {
+    return toMarketInfo(symbol.toUpperCase(), 'Synthetic data');
+  }
+}
+
+export default SyntheticProvider;
@@ -0,0 +1,59 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * MARKET DATA PROVIDER INTERFACE
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Common contract for every source of OHLCV data, quotes and symbol lookups
+ */
+
+import { Candle } from '../../types.js';
+
+export type DataInterval = 'daily' | '1min' | '5min' | '15min' | '30min' | '60min';
+
+/** Asset classes, matching the chat trading categories */
+export type AssetClass = 'stocks' | 'crypto' | 'forex' | 'commodities' | 'indices';
+
+export interface OHLCVRequest {
+  symbol: string;
+  interval?: DataInterval;          // default 'daily'
+  outputSize?: 'compact' | 'full'; // hint for providers that page results
+  market?: string;                  // quote currency for crypto (default 'USD')
+}
+
+export interface MarketInfo {
+  symbol: string;
+  name: string;
+  type: 'stock' | 'crypto' | 'forex';
+  exchange?: string;
+  currency?: string;
+}
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  open?: number;
+  high?: number;
+  low?: number;
+  volume?: number;
+  previousClose?: number;
+  change?: number;
+  changePercent?: number; // percent, e.g. 0.99 for +0.99%
+  time?: number;          // epoch seconds of the last update
+  source: string;         // provider name
+}
+
+export interface MarketDataProvider {
+  /** Short identifier reported as the data source (e.g. 'alphavantage', 'csv') */
+  readonly name: string;
+
+  /** OHLCV candles, oldest first; throws when the provider cannot serve the request */
+  getOHLCV(request: OHLCVRequest): Promise<Candle[]>;
+
+  /** Latest quote, or null when the symbol is unknown to this provider */
+  getQuote(symbol: string): Promise<Quote | null>;
+
+  /** Symbols matching the keywords */
+  searchSymbols(keywords: string): Promise<MarketInfo[]>;
+
+  /** Basic info when the symbol exists, otherwise null */
+  validateSymbol(symbol: string): Promise<MarketInfo | null>;
+}
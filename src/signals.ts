@@ -0,0 +1,96 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * SIGNAL AGGREGATION
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Combines agent outputs into one weighted directional score
+ *
+ * Features:
+ * - Each agent with a `signal` function votes in [-1, 1] (direction × confidence/strength)
+ * - Score = weighted mean of the votes, in [-1, 1]
+ * - Confidence = logistic calibration of |score| (fit with fitSignalWeights)
+ * - Per-agent breakdown of contributions
+ */
+
+import { AgentContext, SignalContribution, SignalScore } from './types.js';
+import { agentRegistry, AgentRegistry } from './agents/index.js';
+import type { PipelineConfig } from './config.js';
+
+export type AggregationOptions = Partial<PipelineConfig['aggregation']>;
+
+/** Weights used for agents not listed in the config (custom agents default to 1) */
+export const DEFAULT_SIGNAL_WEIGHTS: Record<string, number> = {
+  indicator: 1,
+  pattern: 0.5,
+  chart: 0.75,
+  trend: 1
+};
+
+/**
+ * Aggregate agent signals into a weighted score
+ * @param ctx - Pipeline context with agent outputs
+ * @param options - Weights, sentiment threshold and confidence calibration
+ * @param registry - Registry providing each agent's `signal` function
+ * @returns Score in [-1, 1], calibrated confidence and per-agent contributions
+ */
+export function aggregateSignals(
+  ctx: AgentContext,
+  options: AggregationOptions = {},
+  registry: AgentRegistry = agentRegistry
+): SignalScore {
+  const weights = { ...DEFAULT_SIGNAL_WEIGHTS, ...options.weights };
+  const threshold = options.threshold ?? 0.1;
+  const { slope = 4, intercept = 0 } = options.calibration ?? {};
+
+  const votes = extractSignals(ctx, registry).map(({ agent, signal }) => ({
+    agent,
+    signal,
+    weight: weights[agent] ?? 1
+  }));
+
+  const totalWeight = votes.reduce((sum, v) => sum + v.weight, 0);
+  const contributions: SignalContribution[] = votes.map(v => ({
+    ...v,
+    contribution: totalWeight > 0 ? (v.weight * v.signal) / totalWeight : 0
+  }));
+
+  const score = clamp(contributions.reduce((sum, c) => sum + c.contribution, 0), -1, 1);
+  const mass = votes.reduce((sum, v) => sum + v.weight * Math.abs(v.signal), 0);
+  const agreement = mass > 0 ? Math.abs(score) * totalWeight / mass : 0;
+
+  let sentiment: SignalScore['sentiment'] = 'Neutral';
+  if (score >= threshold && score > 0) sentiment = 'Bullish';
+  else if (score <= -threshold && score < 0) sentiment = 'Bearish';
+
+  return {
+    score,
+    confidence: sigmoid(slope * Math.abs(score) + intercept),
+    agreement: clamp(agreement, 0, 1),
+    sentiment,
+    contributions
+  };
+}
+
+/**
+ * Raw [-1, 1] signal of every agent in the context that defines one
+ * @param ctx - Pipeline context with agent outputs
+ * @param registry - Agent registry
+ * @returns One entry per contributing agent
+ */
+export function extractSignals(
+  ctx: AgentContext,
+  registry: AgentRegistry = agentRegistry
+): Array<{ agent: string; signal: number }> {
+  return registry.list()
+    .filter(def => def.signal && ctx[def.name] !== undefined)
+    .map(def => ({ agent: def.name, signal: def.signal!(ctx[def.name], ctx) }))
+    .filter(({ signal }) => Number.isFinite(signal))
+    .map(({ agent, signal }) => ({ agent, signal: clamp(signal, -1, 1) }));
+}
+
+function sigmoid(x: number): number {
+  return 1 / (1 + Math.exp(-x));
+}
+
+function clamp(x: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, x));
+}
@@ -13,12 +13,60 @@ export type Candle = {
   volume?: number;
 };
 
+export type RsiMethod = 'wilder' | 'cutler';
+
+export type ExtraIndicator =
+  | 'sma'
+  | 'macd'
+  | 'bollinger'
+  | 'atr'
+  | 'stochastic'
+  | 'adx'
+  | 'obv'
+  | 'vwap';
+
+export type MacdReading = {
+  macd: number;
+  signal: number;
+  histogram: number;
+};
+
+export type BollingerReading = {
+  upper: number;
+  middle: number;
+  lower: number;
+  bandwidth: number;  // (upper - lower) / middle
+  percentB: number;   // (close - lower) / (upper - lower)
+};
+
+export type StochasticReading = {
+  k: number;          // 0..100
+  d: number;          // 0..100
+};
+
+export type AdxReading = {
+  adx: number;        // 0..100
+  plusDI: number;
+  minusDI: number;
+};
+
 export type IndicatorOut = {
   rsi?: number;
+  rsiMethod?: RsiMethod;
+  rsiPeriod?: number;
   regime: 'Bullish' | 'Bearish' | 'Neutral';
   overbought: boolean;
   oversold: boolean;
   confidence: number; // 0..1
+  // Optional readings, present only when enabled
+  sma?: number;
+  macd?: MacdReading;
+  bollinger?: BollingerReading;
+  atr?: number;
+  stochastic?: StochasticReading;
+  adx?: AdxReading;
+  obv?: number;
+  vwap?: number;
 };
 
 export type PatternOut = {
@@ -26,8 +74,84 @@ export type PatternOut = {
     | 'BullishEngulfing'
     | 'BearishEngulfing'
     | 'Doji'
+    | 'Hammer'
+    | 'InvertedHammer'
+    | 'ShootingStar'
+    | 'HangingMan'
+    | 'MorningStar'
+    | 'EveningStar'
+    | 'ThreeWhiteSoldiers'
+    | 'ThreeBlackCrows'
+    | 'BullishHarami'
+    | 'BearishHarami'
+    | 'PiercingLine'
+    | 'DarkCloudCover'
+    | 'TweezerTop'
+    | 'TweezerBottom'
+    | 'BullishMarubozu'
+    | 'BearishMarubozu'
     | 'None';
+  strength: number; // 0..1 (strongest match on the last candle)
+  matches: PatternMatch[]; // every match in the lookback window, oldest first
+};
+
+export type PatternMatch = {
+  pattern: Exclude<PatternOut['pattern'], 'None'>;
+  bias: 'Bullish' | 'Bearish' | 'Neutral';
   strength: number; // 0..1
+  index: number;    // candle index where the pattern completed
+  time: number;     // epoch seconds of that candle
+};
+
+export type Pivot = {
+  kind: 'High' | 'Low';
+  index: number;
+  time: number;
+  price: number;
+};
+
+export type PriceLevel = {
+  kind: 'Support' | 'Resistance'; // relative to the last close
+  price: number;                  // mean price of the clustered pivots
+  touches: number;                // pivots in the cluster
+  strength: number;               // 0..1
+  firstIndex: number;
+  lastIndex: number;
+};
+
+export type TrendLine = {
+  startIndex: number;
+  startPrice: number;
+  endIndex: number;
+  endPrice: number;
+};
+
+export type ChartPatternMatch = {
+  pattern:
+    | 'DoubleTop'
+    | 'DoubleBottom'
+    | 'HeadAndShoulders'
+    | 'InverseHeadAndShoulders'
+    | 'AscendingTriangle'
+    | 'DescendingTriangle'
+    | 'SymmetricalTriangle'
+    | 'AscendingChannel'
+    | 'DescendingChannel'
+    | 'HorizontalChannel';
+  bias: 'Bullish' | 'Bearish' | 'Neutral';
+  strength: number;               // 0..1
+  startIndex: number;
+  endIndex: number;
+  keyLevels: Array<{ label: string; price: number }>;
+  lines?: { upper: TrendLine; lower: TrendLine };
+};
+
+export type ChartPatternOut = {
+  pivots: Pivot[];
+  levels: PriceLevel[];           // strongest first
+  patterns: ChartPatternMatch[];
+  nearestSupport?: number;
+  nearestResistance?: number;
 };
 
 export type TrendOut = {
@@ -36,19 +160,102 @@ export type TrendOut = {
   emaSlow: number;
   slope: number;        // simple slope of close
   strength: number;     // 0..1
+  fastPeriod?: number;  // EMA periods used
+  slowPeriod?: number;
 };
 
+export type StopMode = 'fixed' | 'atr' | 'swing' | 'volatility' | 'level';
+
 export type RiskOut = {
-  rho: number;          // fixed stop-loss in price units
+  rho: number;          // stop-loss as a fraction of price
   rMultiplier: number;  // 1.2..1.8 (heuristic or LLM)
   takeProfit: number;   // R = r * rho
   commentary: string;
+  stopMode: StopMode;
+  stopDistance: number; // stop-loss in price units at referencePrice
+  stopPercent: number;  // stop-loss in percent of referencePrice
+  referencePrice: number; // last close the stop was computed against
+  sizing?: PositionSizing; // present when risk.sizing.equity is configured
+  costs?: CostAssessment;  // present when risk.costs.enabled is set
+};
+
+export type SizingMethod = 'fixed-fractional' | 'kelly' | 'vol-target' | 'risk-parity';
+
+export type PositionSizing = {
+  method: SizingMethod;
+  quantity: number;     // tradable units (lot-rounded)
+  notional: number;     // quantity × price × contract multiplier
+  riskAmount: number;   // loss at the stop, account currency
+  riskFraction: number; // riskAmount / equity
+  exposure: number;     // notional / equity
+  margin: number;       // notional / leverage
+  assetClass: string;
+  limitedBy: string[];  // limits that reduced the size, in the order applied
+  note: string;
 };
 
+export type CostAssessment = {
+  assetClass: string;
+  roundTrip: number;      // entry + exit costs per unit, price units
+  roundTripBps: number;   // roundTrip / referencePrice × 10_000
+  spreadBps: number;      // full bid/ask spread assumed
+  costToStop: number;     // roundTrip / stop distance
+  netRewardRisk: number;  // (target − roundTrip) / (stop + roundTrip)
+  expectancy: number;     // per unit at the assumed win rate, price units
+  viable: boolean;        // positive net reward and expectancy
+  rejected: boolean;      // not viable and risk.costs.rejectNegative is set: sizing zeroed
+  note: string;
+};
+
+export type IndicatorReadings = {
+  time: number;                  // time of the last candle folded in; ignored unless it matches the context's last candle
+  ema: Record<number, number>;   // EMA of closes by period
+  rsi: Record<string, number>;   // RSI of closes by `${method}:${period}`
+  atr: Record<number, number>;   // ATR by period
+  slope: Record<number, number>; // normalized slope of closes by lookback
+};
 export type AgentContext = {
   candles: Candle[];
+  [agent: string]: unknown; // outputs of custom registered agents, keyed by name
+  readings?: IndicatorReadings; // incrementally maintained indicator values (see utils/incremental)
   indicator?: IndicatorOut;
   pattern?: PatternOut;
+  chart?: ChartPatternOut;
   trend?: TrendOut;
   risk?: RiskOut;
-};
\ No newline at end of file
+};
+export type SignalContribution = {
+  agent: string;
+  signal: number;       // -1..1 (direction × confidence/strength)
+  weight: number;
+  contribution: number; // weight × signal / total weight
+};
+
+export type SignalScore = {
+  score: number;        // -1..1 weighted mean of agent signals
+  confidence: number;   // 0..1 calibrated probability the direction is right
+  agreement: number;    // 0..1 share of signal mass pointing the same way as the score
+  sentiment: 'Bullish' | 'Bearish' | 'Neutral';
+  contributions: SignalContribution[];
+};
+
+export type TimeframeSignal = {
+  interval: string;
+  signal: SignalScore;
+};
+
+export type TimeframeConflict = {
+  higher: string;       // longer timeframe
+  lower: string;        // shorter timeframe
+  higherSentiment: 'Bullish' | 'Bearish';
+  lowerSentiment: 'Bullish' | 'Bearish';
+};
+
+export type ConfluenceResult = {
+  score: number;        // -1..1 weighted mean of the timeframe scores
+  agreement: number;    // 0..1 share of timeframe weight on the side of the overall sentiment
+  sentiment: 'Bullish' | 'Bearish' | 'Neutral';
+  alignment: 'aligned' | 'mixed' | 'conflicting' | 'neutral';
+  weights: Record<string, number>;
+  conflicts: TimeframeConflict[];
+};
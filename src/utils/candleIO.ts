@@ -0,0 +1,482 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * CANDLE IMPORT / EXPORT
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Reads and writes Candle[] as CSV or JSON with schema detection
+ *
+ * Features:
+ * - Column detection by name (date/time/timestamp, open, high, low, close, volume),
+ *   including split Date + Time columns; positional fallback for header-less files
+ * - Timestamps as ISO strings, epoch seconds/milliseconds/microseconds, YYYYMMDD,
+ *   MetaTrader-style dates (2024.01.02) and day/month-first slash dates
+ * - CSV dialects: comma, semicolon, tab or pipe delimiters, quoted fields,
+ *   decimal commas, BOM, '#' comment lines
+ * - JSON arrays of objects or of [time, open, high, low, close, volume] tuples,
+ *   optionally wrapped as { candles: [...] } / { data: [...] }
+ * - Output sorted oldest first with duplicate timestamps collapsed (last one wins)
+ */
+
+import { readFile, writeFile } from 'fs/promises';
+import { extname } from 'path';
+import type { Candle } from '../types.js';
+
+export type CandleField = 'time' | 'date' | 'clock' | 'open' | 'high' | 'low' | 'close' | 'volume';
+
+export type TimeFormat = 'iso' | 'epoch_s' | 'epoch_ms' | 'epoch_us' | 'yyyymmdd' | 'dmy' | 'mdy';
+
+export type CandleSchema = {
+  format: 'csv' | 'json';
+  delimiter?: string;                                 // csv only
+  hasHeader: boolean;
+  decimalComma: boolean;
+  columns: Partial<Record<CandleField, string | number>>; // header name, or index when header-less
+  timeFormat: TimeFormat;
+};
+
+export type CandleImportOptions = {
+  format?: 'csv' | 'json' | 'auto';    // default 'auto' (JSON when the text starts with [ or {)
+  delimiter?: string;                  // force a CSV delimiter
+  dayFirst?: boolean;                  // force dd/mm/yyyy for slash dates (detected otherwise)
+  columns?: Partial<Record<CandleField, string>>; // override detected column names
+  extraColumns?: string[];             // other columns to keep (e.g. labels), matched case-insensitively
+};
+
+export type CandleImportResult = {
+  candles: Candle[];
+  schema: CandleSchema;
+  rows: number;        // data rows read
+  skipped: number;     // rows with a missing/invalid time or price
+  duplicates: number;  // rows dropped because their timestamp repeated
+  extras?: Record<string, unknown[]>; // requested extraColumns, aligned with candles (undefined when missing)
+};
+
+export type CandleExportOptions = {
+  timeFormat?: 'iso' | 'epoch_s' | 'epoch_ms'; // default 'iso'
+  delimiter?: string;                          // csv only (default ',')
+  header?: boolean;                            // csv only (default true)
+};
+
+const ALIASES: Record<CandleField, string[]> = {
+  time: ['time', 'timestamp', 'datetime', 'date_time', 'ts', 't', 'unix', 'open_time', 'opentime', 'start', 'period'],
+  date: ['date', 'day', 'trade_date'],
+  clock: ['clock', 'hour', 'time_of_day'],
+  open: ['open', 'o', 'open_price', 'price_open', 'first'],
+  high: ['high', 'h', 'max', 'high_price', 'price_high'],
+  low: ['low', 'l', 'min', 'low_price', 'price_low'],
+  close: ['close', 'c', 'last', 'close_price', 'price_close', 'price', 'adj_close', 'adjclose'],
+  volume: ['volume', 'vol', 'v', 'qty', 'quantity', 'tickvol', 'tick_volume', 'base_volume']
+};
+
+const DELIMITERS = [',', ';', '\t', '|'];
+
+// ── Import ───────────────────────────────────────────────────────────────────
+
+/**
+ * Parse candles from CSV or JSON text, detecting the format and schema
+ * @param text - File contents
+ * @param options - Format, delimiter and column overrides
+ * @returns Candles (oldest first) and the detected schema
+ */
+export function parseCandles(text: string, options: CandleImportOptions = {}): CandleImportResult {
+  const trimmed = stripBom(text).trim();
+  const format = options.format && options.format !== 'auto'
+    ? options.format
+    : (trimmed.startsWith('[') || trimmed.startsWith('{') ? 'json' : 'csv');
+
+  return format === 'json'
+    ? parseCandlesJson(JSON.parse(trimmed), options)
+    : parseCandlesCsv(trimmed, options);
+}
+
+/**
+ * Parse candles from CSV text
+ * @param text - CSV contents
+ * @param options - Delimiter and column overrides
+ * @returns Candles (oldest first) and the detected schema
+ */
+export function parseCandlesCsv(text: string, options: CandleImportOptions = {}): CandleImportResult {
+  const lines = stripBom(text)
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '' && !line.trimStart().startsWith('#'));
+  if (lines.length === 0) throw new Error('CSV contains no rows');
+
+  const delimiter = options.delimiter ?? detectDelimiter(lines.slice(0, 20));
+  const table = lines.map(line => splitCsvLine(line, delimiter));
+
+  // A header row has no numeric cells; data rows always have numeric prices
+  const hasHeader = !table[0].some(cell => isNumeric(cell) || isNumeric(cell.replace(',', '.')));
+  const header = hasHeader ? table[0] : table[0].map((_, i) => String(i));
+  const body = hasHeader ? table.slice(1) : table;
+
+  // Decimal commas only make sense when the comma is not the delimiter
+  const decimalComma = delimiter !== ',' &&
+    body.slice(0, 20).some(row => row.some(cell => /^-?\d+,\d+$/.test(cell)));
+
+  const rows = body.map(cells => Object.fromEntries(
+    header.map((name, i) => [name, decimalComma ? (cells[i] ?? '').replace(/^(-?\d+),(\d+)$/, '$1.$2') : cells[i] ?? ''])
+  ));
+
+  const columns = hasHeader
+    ? detectColumns(header, options.columns)
+    : positionalColumns(header.length);
+
+  const { timeFormat, ...result } = buildCandles(rows, columns, options);
+  return {
+    ...result,
+    schema: { format: 'csv', delimiter, hasHeader, decimalComma, columns: hasHeader ? columns : indexColumns(columns), timeFormat }
+  };
+}
+
+/**
+ * Parse candles from parsed JSON
+ * @param data - Array of objects/tuples, or an object wrapping one under candles/data/values/results
+ * @param options - Column overrides
+ * @returns Candles (oldest first) and the detected schema
+ */
+export function parseCandlesJson(data: unknown, options: CandleImportOptions = {}): CandleImportResult {
+  const list = unwrapJsonList(data);
+  if (list.length === 0) throw new Error('JSON contains no candles');
+
+  let rows: Array<Record<string, unknown>>;
+  let columns: Partial<Record<CandleField, string>>;
+  let hasHeader = true;
+
+  if (Array.isArray(list[0])) {
+    // [time, open, high, low, close, volume?] tuples
+    hasHeader = false;
+    rows = (list as unknown[][]).map(tuple => Object.fromEntries(tuple.map((v, i) => [String(i), v])));
+    columns = positionalColumns((list[0] as unknown[]).length);
+  } else {
+    rows = list.filter((item): item is Record<string, unknown> => typeof item === 'object' && item !== null);
+    columns = detectColumns(Object.keys(rows[0] ?? {}), options.columns);
+  }
+
+  const { timeFormat, ...result } = buildCandles(rows, columns, options);
+  return {
+    ...result,
+    schema: { format: 'json', hasHeader, decimalComma: false, columns: hasHeader ? columns : indexColumns(columns), timeFormat }
+  };
+}
+
+/**
+ * Read candles from a .csv or .json file
+ * @param path - File path
+ * @param options - Import options (format defaults to the file extension)
+ */
+export async function readCandlesFile(path: string, options: CandleImportOptions = {}): Promise<CandleImportResult> {
+  const ext = extname(path).toLowerCase();
+  const format = options.format ?? (ext === '.json' ? 'json' : ext === '.csv' || ext === '.tsv' || ext === '.txt' ? 'csv' : 'auto');
+  return parseCandles(await readFile(path, 'utf8'), { ...options, format });
+}
+
+// ── Export ───────────────────────────────────────────────────────────────────
+
+/**
+ * Serialize candles as CSV (time,open,high,low,close,volume)
+ * @param candles - Candles to write
+ * @param options - Time format, delimiter and header
+ */
+export function candlesToCsv(candles: Candle[], options: CandleExportOptions = {}): string {
+  const { timeFormat = 'iso', delimiter = ',', header = true } = options;
+  const lines = candles.map(c => [
+    formatTime(c.time, timeFormat),
+    c.open,
+    c.high,
+    c.low,
+    c.close,
+    c.volume ?? ''
+  ].join(delimiter));
+
+  if (header) lines.unshift(['time', 'open', 'high', 'low', 'close', 'volume'].join(delimiter));
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Serialize candles as a JSON array of objects
+ * @param candles - Candles to write
+ * @param options - Time format
+ */
+export function candlesToJson(candles: Candle[], options: CandleExportOptions = {}): string {
+  const { timeFormat = 'epoch_s' } = options;
+  return JSON.stringify(candles.map(c => ({ ...c, time: formatTime(c.time, timeFormat) })), null, 2);
+}
+
+/**
+ * Write candles to a .csv or .json file (by extension)
+ * @param path - File path
+ * @param candles - Candles to write
+ * @param options - Export options
+ */
+export async function writeCandlesFile(path: string, candles: Candle[], options: CandleExportOptions = {}): Promise<void> {
+  const text = extname(path).toLowerCase() === '.json'
+    ? candlesToJson(candles, options)
+    : candlesToCsv(candles, options);
+  await writeFile(path, text, 'utf8');
+}
+
+// ── Timestamps ───────────────────────────────────────────────────────────────
+
+/**
+ * Parse a timestamp into epoch seconds
+ * @param value - ISO string, epoch (s/ms/µs), YYYYMMDD, 2024.01.02 or slash date
+ * @param dayFirst - Read a/b/yyyy as day/month (default: month/day unless a > 12)
+ * @returns Epoch seconds, or NaN when unparseable
+ */
+export function parseTimestamp(value: unknown, dayFirst?: boolean): number {
+  return parseTimeWithFormat(value, dayFirst).time;
+}
+
+function parseTimeWithFormat(value: unknown, dayFirst?: boolean): { time: number; format: TimeFormat } {
+  if (value instanceof Date) return { time: value.getTime() / 1000, format: 'iso' };
+
+  const raw = String(value ?? '').trim();
+  if (raw === '') return { time: NaN, format: 'iso' };
+
+  if (/^-?\d+(\.\d+)?$/.test(raw)) {
+    const n = Number(raw);
+    if (/^(19|20)\d{6}$/.test(raw)) {
+      const iso = `${raw.slice(0, 4)}-${raw.slice(4, 6)}-${raw.slice(6, 8)}T00:00:00Z`;
+      return { time: Date.parse(iso) / 1000, format: 'yyyymmdd' };
+    }
+    const abs = Math.abs(n);
+    if (abs >= 1e14) return { time: n / 1e6, format: 'epoch_us' };
+    if (abs >= 1e11) return { time: n / 1000, format: 'epoch_ms' };
+    return { time: n, format: 'epoch_s' };
+  }
+
+  // Slash dates: mm/dd/yyyy or dd/mm/yyyy with optional time
+  const slash = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:[ T](.*))?$/);
+  if (slash) {
+    const [, a, b, year, clock] = slash;
+    const isDayFirst = dayFirst ?? Number(a) > 12;
+    const [day, month] = isDayFirst ? [a, b] : [b, a];
+    const iso = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}T${clock?.trim() || '00:00:00'}`;
+    return { time: Date.parse(withUtc(iso)) / 1000, format: isDayFirst ? 'dmy' : 'mdy' };
+  }
+
+  // ISO-like: 2024-01-02, 2024-01-02 10:00, 2024.01.02 10:00, with or without zone
+  const normalised = raw
+    .replace(/^(\d{4})\.(\d{2})\.(\d{2})/, '$1-$2-$3')
+    .replace(/^(\d{4}-\d{2}-\d{2}) /, '$1T');
+  return { time: Date.parse(withUtc(normalised)) / 1000, format: 'iso' };
+}
+
+/**
+ * Treat zone-less timestamps as UTC rather than local time
+ */
+function withUtc(iso: string): string {
+  if (!iso.includes('T')) return `${iso}T00:00:00Z`;
+  return /(Z|[+-]\d{2}:?\d{2})$/i.test(iso) ? iso : `${iso}Z`;
+}
+
+function formatTime(time: number, format: CandleExportOptions['timeFormat']): string | number {
+  if (format === 'epoch_s') return time;
+  if (format === 'epoch_ms') return Math.round(time * 1000);
+  return new Date(time * 1000).toISOString();
+}
+
+// ── Schema detection ─────────────────────────────────────────────────────────
+
+/**
+ * Map header names to candle fields
+ */
+function detectColumns(
+  header: string[],
+  overrides: Partial<Record<CandleField, string>> = {}
+): Partial<Record<CandleField, string>> {
+  const normalise = (name: string) => name.trim().toLowerCase().replace(/[\s.\-()]+/g, '_').replace(/^_|_$/g, '');
+  const byName = new Map(header.map(name => [normalise(name), name]));
+  const columns: Partial<Record<CandleField, string>> = {};
+
+  for (const field of Object.keys(ALIASES) as CandleField[]) {
+    if (overrides[field]) {
+      columns[field] = overrides[field];
+      continue;
+    }
+    const alias = ALIASES[field].find(a => byName.has(a));
+    if (alias) columns[field] = byName.get(alias);
+  }
+
+  // "volume_btc", "Volume USD", ... when no exact volume column exists
+  if (!columns.volume) {
+    const volumeLike = header.find(name => normalise(name).startsWith('vol'));
+    if (volumeLike) columns.volume = volumeLike;
+  }
+
+  // A "time" column next to a "date" column holds the time of day (MetaTrader exports)
+  if (columns.date && columns.time && !overrides.time && normalise(columns.time) === 'time') {
+    columns.clock = columns.time;
+    delete columns.time;
+  }
+  if (!columns.time && columns.date) {
+    columns.time = columns.date;
+    delete columns.date;
+  }
+
+  const missing = (['time', 'open', 'high', 'low', 'close'] as CandleField[])
+    .filter(field => !columns[field] && !(field === 'time' && columns.date));
+  if (missing.length > 0) {
+    throw new Error(`Could not detect ${missing.join(', ')} column${missing.length > 1 ? 's' : ''} (got: ${header.join(', ')})`);
+  }
+  return columns;
+}
+
+/**
+ * time, open, high, low, close[, volume] by position
+ */
+function positionalColumns(width: number): Partial<Record<CandleField, string>> {
+  if (width < 5) throw new Error(`Header-less rows need at least 5 columns (time, open, high, low, close); got ${width}`);
+  const fields: CandleField[] = ['time', 'open', 'high', 'low', 'close', 'volume'];
+  return Object.fromEntries(fields.slice(0, Math.min(width, 6)).map((field, i) => [field, String(i)]));
+}
+
+function indexColumns(columns: Partial<Record<CandleField, string>>): Partial<Record<CandleField, number>> {
+  return Object.fromEntries(Object.entries(columns).map(([field, key]) => [field, Number(key)]));
+}
+
+/**
+ * Turn keyed rows into sorted, de-duplicated candles
+ */
+function buildCandles(
+  rows: Array<Record<string, unknown>>,
+  columns: Partial<Record<CandleField, string>>,
+  options: CandleImportOptions
+): Omit<CandleImportResult, 'schema'> & { timeFormat: TimeFormat } {
+  const timeKey = (columns.time ?? columns.date)!;
+  const dayFirst = options.dayFirst ?? detectDayFirst(rows.slice(0, 200).map(row => String(row[timeKey] ?? '')));
+
+  // Requested extra columns, matched case-insensitively against the row keys
+  const keys = Object.keys(rows[0] ?? {});
+  const extraKeys = (options.extraColumns ?? []).map(name => ({
+    name,
+    key: keys.find(k => k.trim().toLowerCase() === name.trim().toLowerCase())
+  }));
+
+  let timeFormat: TimeFormat = 'iso';
+  let skipped = 0;
+  const parsed: Array<{ candle: Candle; extra: unknown[] }> = [];
+
+  for (const row of rows) {
+    const rawTime = columns.clock ? `${row[timeKey] ?? ''} ${row[columns.clock] ?? ''}` : row[timeKey];
+    const { time, format } = parseTimeWithFormat(rawTime, dayFirst);
+    const open = toNumber(row[columns.open!]);
+    const high = toNumber(row[columns.high!]);
+    const low = toNumber(row[columns.low!]);
+    const close = toNumber(row[columns.close!]);
+    const volume = columns.volume ? toNumber(row[columns.volume]) : NaN;
+
+    if (![time, open, high, low, close].every(Number.isFinite)) {
+      skipped++;
+      continue;
+    }
+    if (parsed.length === 0) timeFormat = format;
+    parsed.push({
+      candle: { time, open, high, low, close, volume: Number.isFinite(volume) ? volume : undefined },
+      extra: extraKeys.map(({ key }) => (key === undefined ? undefined : row[key]))
+    });
+  }
+
+  // Oldest first; for repeated timestamps keep the last row
+  const byTime = new Map<number, { candle: Candle; extra: unknown[] }>();
+  for (const entry of parsed) byTime.set(entry.candle.time, entry);
+  const entries = [...byTime.values()].sort((a, b) => a.candle.time - b.candle.time);
+
+  return {
+    candles: entries.map(e => e.candle),
+    rows: rows.length,
+    skipped,
+    duplicates: parsed.length - entries.length,
+    ...(extraKeys.length > 0 && {
+      extras: Object.fromEntries(extraKeys.map(({ name }, i) => [name, entries.map(e => e.extra[i])]))
+    }),
+    timeFormat
+  };
+}
+
+/**
+ * dd/mm when any slash date has a first part above 12
+ */
+function detectDayFirst(samples: string[]): boolean {
+  return samples.some(s => {
+    const m = s.trim().match(/^(\d{1,2})\/(\d{1,2})\/\d{4}/);
+    return m !== null && Number(m[1]) > 12;
+  });
+}
+
+// ── CSV helpers ──────────────────────────────────────────────────────────────
+
+/**
+ * Pick the delimiter that splits sample lines into the most, and most consistent, columns
+ */
+function detectDelimiter(lines: string[]): string {
+  let best = ',';
+  let bestScore = 0;
+  for (const delimiter of DELIMITERS) {
+    const widths = lines.map(line => splitCsvLine(line, delimiter).length);
+    const consistent = widths.every(w => w === widths[0]);
+    const score = widths[0] > 1 ? widths[0] * (consistent ? 2 : 1) : 0;
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields with "" escapes
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function unwrapJsonList(data: unknown): unknown[] {
+  if (Array.isArray(data)) return data;
+  if (typeof data === 'object' && data !== null) {
+    for (const key of ['candles', 'data', 'values', 'results', 'bars']) {
+      const value = (data as Record<string, unknown>)[key];
+      if (Array.isArray(value)) return value;
+    }
+  }
+  throw new Error('JSON must be an array of candles or an object with a candles/data array');
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (value === null || value === undefined) return NaN;
+  const s = String(value).trim().replace(/^"|"$/g, '');
+  return s === '' ? NaN : Number(s);
+}
+
+function isNumeric(value: string): boolean {
+  return value.trim() !== '' && Number.isFinite(Number(value));
+}
+
+function stripBom(text: string): string {
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
@@ -0,0 +1,454 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * DATA QUALITY VALIDATION & REPAIR
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Checks incoming candles before they reach the agents
+ *
+ * Issues detected:
+ * - non_finite / non_positive_price: NaN, Infinity, zero or negative OHLC (error)
+ * - invalid_range: high < low (error)
+ * - open_out_of_range / close_out_of_range: open or close outside [low, high] (error)
+ * - negative_volume (warning)
+ * - duplicate_timestamp / out_of_order (error)
+ * - gap: missing bars beyond the usual spacing; weekends and session breaks are ignored (warning)
+ * - spike: a return that is a robust-z-score outlier and reverts on the next bar (warning)
+ *
+ * Repair policies per issue kind: none, drop, ffill (flat bar at the previous close,
+ * or inserted bars for gaps) and clip (widen the range / clamp the spike to half the
+ * spike threshold).
+ */
+
+import { Candle } from '../types.js';
+
+export const DATA_ISSUE_KINDS = [
+  'non_finite',
+  'non_positive_price',
+  'invalid_range',
+  'open_out_of_range',
+  'close_out_of_range',
+  'negative_volume',
+  'duplicate_timestamp',
+  'out_of_order',
+  'gap',
+  'spike'
+] as const;
+
+export type DataIssueKind = typeof DATA_ISSUE_KINDS[number];
+
+export const REPAIR_POLICIES = ['none', 'drop', 'ffill', 'clip'] as const;
+
+export type RepairPolicy = typeof REPAIR_POLICIES[number];
+
+export type RepairAction = 'dropped' | 'filled' | 'clipped' | 'reordered' | 'deduplicated' | 'inserted';
+
+export interface DataIssue {
+  index: number;        // position in the checked array
+  time: number;
+  kind: DataIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface DataQualityOptions {
+  /** One policy for every issue kind, or per kind (merged over DEFAULT_REPAIR_POLICY) */
+  repair?: RepairPolicy | Partial<Record<DataIssueKind, RepairPolicy>>;
+  /** Robust z-score of a return that counts as a spike (default 8) */
+  spikeThreshold?: number;
+  /** Spacing, as a multiple of the usual one, that counts as a gap (default 1.5) */
+  gapFactor?: number;
+  /** Ignore overnight gaps in intraday data and weekend gaps in daily data (default true) */
+  ignoreSessionBreaks?: boolean;
+  /** Issues listed individually in the report (default 50; counts are always complete) */
+  maxIssues?: number;
+  /** Bars inserted per gap by the ffill policy (default 500) */
+  maxFill?: number;
+}
+
+export interface DataQualityReport {
+  total: number;        // bars checked
+  clean: number;        // bars without any issue
+  score: number;        // clean / total
+  errors: number;
+  warnings: number;
+  expectedStep: number; // usual bar spacing in seconds
+  counts: Partial<Record<DataIssueKind, number>>;
+  issues: DataIssue[];
+  truncated: boolean;   // more issues than maxIssues
+  repairs?: {
+    policy: Record<DataIssueKind, RepairPolicy>;
+    actions: Partial<Record<RepairAction, number>>;
+    output: number;     // bars after repair
+  };
+}
+
+/** Fix what can be fixed without inventing prices; leave gaps and spikes to the caller */
+export const DEFAULT_REPAIR_POLICY: Record<DataIssueKind, RepairPolicy> = {
+  non_finite: 'drop',
+  non_positive_price: 'drop',
+  invalid_range: 'clip',
+  open_out_of_range: 'clip',
+  close_out_of_range: 'clip',
+  negative_volume: 'clip',
+  duplicate_timestamp: 'drop',
+  out_of_order: 'clip',
+  gap: 'none',
+  spike: 'none'
+};
+
+const ERROR_KINDS = new Set<DataIssueKind>([
+  'non_finite', 'non_positive_price', 'invalid_range', 'open_out_of_range',
+  'close_out_of_range', 'duplicate_timestamp', 'out_of_order'
+]);
+
+const DAY = 86400;
+
+/**
+ * Classify data problems without changing the candles
+ * @param candles - Candles as received
+ * @param options - Spike/gap thresholds and report size
+ * @returns Quality report
+ */
+export function validateCandles(candles: Candle[], options: DataQualityOptions = {}): DataQualityReport {
+  const maxIssues = options.maxIssues ?? 50;
+  const issues = findIssues(candles, options);
+
+  const counts: Partial<Record<DataIssueKind, number>> = {};
+  const flagged = new Set<number>();
+  let errors = 0;
+  for (const issue of issues) {
+    counts[issue.kind] = (counts[issue.kind] ?? 0) + 1;
+    flagged.add(issue.index);
+    if (issue.severity === 'error') errors++;
+  }
+
+  const total = candles.length;
+  return {
+    total,
+    clean: total - flagged.size,
+    score: total > 0 ? (total - flagged.size) / total : 1,
+    errors,
+    warnings: issues.length - errors,
+    expectedStep: medianStep(candles),
+    counts,
+    issues: issues.slice(0, maxIssues),
+    truncated: issues.length > maxIssues
+  };
+}
+
+/**
+ * Apply repair policies
+ * @param candles - Candles as received
+ * @param options - Repair policies and detection thresholds
+ * @returns Repaired candles (sorted when reordering applies) and a count per action
+ */
+export function repairCandles(
+  candles: Candle[],
+  options: DataQualityOptions = {}
+): { candles: Candle[]; actions: Partial<Record<RepairAction, number>> } {
+  const policy = resolvePolicy(options.repair);
+  const actions: Partial<Record<RepairAction, number>> = {};
+  const count = (action: RepairAction, n = 1) => {
+    if (n > 0) actions[action] = (actions[action] ?? 0) + n;
+  };
+
+  // 1. Bar-level problems, in arrival order
+  let out: Candle[] = [];
+  let previous: Candle | undefined;
+  for (const original of candles) {
+    let c: Candle | null = { ...original };
+    for (const kind of barIssues(c)) {
+      if (!c) break;
+      c = repairBar(c, kind, policy[kind], previous, count);
+    }
+    if (c) {
+      out.push(c);
+      if (barIssues(c).length === 0) previous = c;
+    }
+  }
+
+  // 2. Ordering and duplicates
+  if (policy.out_of_order !== 'none' && !isSorted(out)) {
+    if (policy.out_of_order === 'drop') {
+      let latest = -Infinity;
+      const kept = out.filter(c => {
+        if (c.time < latest) return false;
+        latest = c.time;
+        return true;
+      });
+      count('dropped', out.length - kept.length);
+      out = kept;
+    } else {
+      out = out.map((c, i) => ({ c, i })).sort((a, b) => a.c.time - b.c.time || a.i - b.i).map(({ c }) => c);
+      count('reordered');
+    }
+  }
+  if (policy.duplicate_timestamp !== 'none') {
+    const deduped = out.filter((c, i) => i === out.length - 1 || out[i + 1].time !== c.time);
+    count('deduplicated', out.length - deduped.length);
+    out = deduped;
+  }
+
+  // 3. Spikes, measured on the cleaned series
+  if (policy.spike !== 'none') {
+    const threshold = options.spikeThreshold ?? 8;
+    const stats = returnStats(out);
+    for (const i of findSpikes(out, threshold, stats).reverse()) {
+      if (policy.spike === 'drop') {
+        out.splice(i, 1);
+        count('dropped');
+        continue;
+      }
+      const prev = out[i - 1].close;
+      if (policy.spike === 'ffill') {
+        out[i] = flatBar(out[i].time, prev, out[i].volume);
+        count('filled');
+      } else {
+        // Clamp well inside the spike threshold so the repaired bar is not flagged again
+        const band = (threshold / 2) * stats.scale;
+        const lo = prev * Math.exp(stats.median - band);
+        const hi = prev * Math.exp(stats.median + band);
+        const bar = out[i];
+        const open = clamp(bar.open, lo, hi);
+        const close = clamp(bar.close, lo, hi);
+        out[i] = {
+          ...bar,
+          open,
+          close,
+          high: Math.max(open, close, clamp(bar.high, lo, hi)),
+          low: Math.min(open, close, clamp(bar.low, lo, hi))
+        };
+        count('clipped');
+      }
+    }
+  }
+
+  // 4. Gaps: only ffill does anything
+  if (policy.gap === 'ffill') {
+    const step = medianStep(out);
+    const maxFill = options.maxFill ?? 500;
+    const filled: Candle[] = [];
+    for (let i = 0; i < out.length; i++) {
+      if (i > 0 && isGap(out[i - 1].time, out[i].time, step, options)) {
+        const missing = Math.min(maxFill, Math.round((out[i].time - out[i - 1].time) / step) - 1);
+        for (let k = 1; k <= missing; k++) {
+          filled.push(flatBar(out[i - 1].time + k * step, out[i - 1].close, 0));
+        }
+        count('inserted', missing);
+      }
+      filled.push(out[i]);
+    }
+    out = filled;
+  }
+
+  return { candles: out, actions };
+}
+
+/**
+ * Validate, then repair, candles
+ * @param candles - Candles as received
+ * @param options - Repair policies and detection thresholds
+ * @returns Repaired candles and the report of the incoming data, with the repairs applied
+ */
+export function checkCandles(
+  candles: Candle[],
+  options: DataQualityOptions = {}
+): { candles: Candle[]; report: DataQualityReport } {
+  const report = validateCandles(candles, options);
+  const { candles: repaired, actions } = repairCandles(candles, options);
+  report.repairs = { policy: resolvePolicy(options.repair), actions, output: repaired.length };
+  return { candles: repaired, report };
+}
+
+// ── Detection ────────────────────────────────────────────────────────────────
+
+function findIssues(candles: Candle[], options: DataQualityOptions): DataIssue[] {
+  const issues: DataIssue[] = [];
+  const add = (index: number, kind: DataIssueKind, message: string) => issues.push({
+    index,
+    time: candles[index].time,
+    kind,
+    severity: ERROR_KINDS.has(kind) ? 'error' : 'warning',
+    message
+  });
+
+  const seen = new Set<number>();
+  let latest = -Infinity;
+  candles.forEach((c, i) => {
+    for (const kind of barIssues(c)) add(i, kind, describeBarIssue(c, kind));
+
+    if (seen.has(c.time)) add(i, 'duplicate_timestamp', `Timestamp ${iso(c.time)} repeats`);
+    else if (c.time < latest) add(i, 'out_of_order', `${iso(c.time)} arrives after ${iso(latest)}`);
+    seen.add(c.time);
+    latest = Math.max(latest, c.time);
+  });
+
+  // Gaps need ordered, unique timestamps; spikes also need valid prices. Map positions back to the input
+  const ordered = candles
+    .map((c, index) => ({ c, index }))
+    .filter(({ c }) => Number.isFinite(c.time))
+    .sort((a, b) => a.c.time - b.c.time)
+    .filter((e, i, all) => i === all.length - 1 || all[i + 1].c.time !== e.c.time);
+
+  const step = medianStep(ordered.map(e => e.c));
+  for (let i = 1; i < ordered.length; i++) {
+    const prev = ordered[i - 1].c.time;
+    const next = ordered[i].c.time;
+    if (!isGap(prev, next, step, options)) continue;
+    const missing = Math.round((next - prev) / step) - 1;
+    add(ordered[i].index, 'gap', `${missing} bar${missing === 1 ? '' : 's'} missing before ${iso(next)}`);
+  }
+
+  const priced = ordered.filter(({ c }) => barIssues(c).every(kind => kind === 'negative_volume'));
+  const series = priced.map(e => e.c);
+  const stats = returnStats(series);
+  for (const i of findSpikes(series, options.spikeThreshold ?? 8, stats)) {
+    const move = (series[i].close / series[i - 1].close - 1) * 100;
+    add(priced[i].index, 'spike', `Close jumps ${move.toFixed(2)}% and reverts on the next bar`);
+  }
+
+  return issues.sort((a, b) => a.index - b.index);
+}
+
+function barIssues(c: Candle): DataIssueKind[] {
+  const prices = [c.open, c.high, c.low, c.close];
+  if (!Number.isFinite(c.time) || prices.some(p => !Number.isFinite(p))) return ['non_finite'];
+  if (prices.some(p => p <= 0)) return ['non_positive_price'];
+
+  const kinds: DataIssueKind[] = [];
+  if (c.high < c.low) kinds.push('invalid_range');
+  else {
+    if (c.open > c.high || c.open < c.low) kinds.push('open_out_of_range');
+    if (c.close > c.high || c.close < c.low) kinds.push('close_out_of_range');
+  }
+  if (c.volume !== undefined && !(c.volume >= 0)) kinds.push('negative_volume');
+  return kinds;
+}
+
+function describeBarIssue(c: Candle, kind: DataIssueKind): string {
+  switch (kind) {
+    case 'non_finite': return 'Price or timestamp is not a finite number';
+    case 'non_positive_price': return 'Zero or negative price';
+    case 'invalid_range': return `High ${c.high} is below low ${c.low}`;
+    case 'open_out_of_range': return `Open ${c.open} outside [${c.low}, ${c.high}]`;
+    case 'close_out_of_range': return `Close ${c.close} outside [${c.low}, ${c.high}]`;
+    case 'negative_volume': return `Invalid volume ${c.volume}`;
+    default: return kind;
+  }
+}
+
+function isGap(prev: number, next: number, step: number, options: DataQualityOptions): boolean {
+  const gapFactor = options.gapFactor ?? 1.5;
+  if (step <= 0 || next - prev <= step * gapFactor) return false;
+  if (options.ignoreSessionBreaks === false) return true;
+
+  if (step < DAY) {
+    // Intraday: a jump to another calendar day is a session break
+    return Math.floor(prev / DAY) === Math.floor(next / DAY);
+  }
+  // Daily or longer: ignore gaps whose missing days are all weekend days
+  for (let t = prev + DAY; t < next; t += DAY) {
+    const weekday = new Date(t * 1000).getUTCDay();
+    if (weekday !== 0 && weekday !== 6) return true;
+  }
+  return false;
+}
+
+/** Median and robust scale (1.4826 × MAD) of log returns */
+function returnStats(candles: Candle[]): { median: number; scale: number } {
+  const returns: number[] = [];
+  for (let i = 1; i < candles.length; i++) returns.push(Math.log(candles[i].close / candles[i - 1].close));
+  const median = medianOf(returns);
+  const scale = 1.4826 * medianOf(returns.map(r => Math.abs(r - median)));
+  return { median, scale };
+}
+
+function findSpikes(candles: Candle[], threshold: number, stats: { median: number; scale: number }): number[] {
+  if (!(stats.scale > 0)) return [];
+  const spikes: number[] = [];
+  for (let i = 1; i < candles.length - 1; i++) {
+    const r = Math.log(candles[i].close / candles[i - 1].close);
+    const next = Math.log(candles[i + 1].close / candles[i].close);
+    const z = Math.abs(r - stats.median) / stats.scale;
+    if (z > threshold && r * next < 0 && Math.abs(next) >= 0.5 * Math.abs(r)) spikes.push(i);
+  }
+  return spikes;
+}
+
+// ── Repair ───────────────────────────────────────────────────────────────────
+
+function repairBar(
+  c: Candle,
+  kind: DataIssueKind,
+  policy: RepairPolicy,
+  previous: Candle | undefined,
+  count: (action: RepairAction) => void
+): Candle | null {
+  if (policy === 'none') return c;
+
+  if (kind === 'negative_volume') {
+    if (policy === 'drop') {
+      count('dropped');
+      return null;
+    }
+    count(policy === 'ffill' ? 'filled' : 'clipped');
+    return { ...c, volume: policy === 'ffill' ? previous?.volume ?? 0 : 0 };
+  }
+
+  const canClip = kind === 'invalid_range' || kind === 'open_out_of_range' || kind === 'close_out_of_range';
+  if (policy === 'clip' && canClip) {
+    count('clipped');
+    const prices = [c.open, c.high, c.low, c.close];
+    return { ...c, high: Math.max(...prices), low: Math.min(...prices) };
+  }
+  if (policy === 'drop' || !previous) {
+    count('dropped');
+    return null;
+  }
+  // ffill, or clip of a bar that has no usable prices
+  count('filled');
+  return flatBar(c.time, previous.close, c.volume !== undefined && c.volume >= 0 ? c.volume : 0);
+}
+
+function resolvePolicy(repair: DataQualityOptions['repair']): Record<DataIssueKind, RepairPolicy> {
+  if (typeof repair === 'string') {
+    return Object.fromEntries(DATA_ISSUE_KINDS.map(kind => [kind, repair])) as Record<DataIssueKind, RepairPolicy>;
+  }
+  return { ...DEFAULT_REPAIR_POLICY, ...repair };
+}
+
+function flatBar(time: number, price: number, volume?: number): Candle {
+  return { time, open: price, high: price, low: price, close: price, volume };
+}
+
+// ── Helpers ──────────────────────────────────────────────────────────────────
+
+function medianStep(candles: Candle[]): number {
+  const diffs: number[] = [];
+  for (let i = 1; i < candles.length; i++) {
+    const diff = candles[i].time - candles[i - 1].time;
+    if (diff > 0) diffs.push(diff);
+  }
+  return medianOf(diffs);
+}
+
+function medianOf(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function isSorted(candles: Candle[]): boolean {
+  for (let i = 1; i < candles.length; i++) {
+    if (candles[i].time < candles[i - 1].time) return false;
+  }
+  return true;
+}
+
+function clamp(x: number, lo: number, hi: number): number {
+  return Math.min(hi, Math.max(lo, x));
+}
+
+function iso(time: number): string {
+  return Number.isFinite(time) ? new Date(time * 1000).toISOString() : String(time);
+}
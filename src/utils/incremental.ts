@@ -0,0 +1,373 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * INCREMENTAL INDICATORS
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Stateful calculators that fold in one value or candle at a time
+ *
+ * Features:
+ * - EMA, RSI (Wilder or Cutler), ATR and normalized slope in O(1) per new bar
+ *   (O(period) for the windowed Cutler RSI and slope), independent of history length
+ * - Same arithmetic as the batch functions in utils/technical: after folding in a series,
+ *   `value` equals ema()/rsi()/atr()/simpleSlope() on that series, bit for bit
+ * - replaceLast() revises the forming bar without replaying history
+ * - toJSON()/restore() round-trip the full state, including the revisable bar
+ * - IncrementalIndicators bundles calculators per candle and exposes them as
+ *   AgentContext.readings so agents can skip their batch computation
+ */
+
+import type { Candle, RsiMethod, AgentContext, IndicatorReadings } from '../types.js';
+import { rsiFromAverages } from './technical.js';
+
+export type CalculatorSnapshot<S> = {
+  state: S;
+  previous: S | null;       // state before the latest input (lets replaceLast revise it)
+};
+
+export type EmaState = {
+  period: number;
+  count: number;            // values folded in
+  ema: number;              // recursion value, seeded with the first value
+};
+
+export type RsiState = {
+  period: number;
+  method: RsiMethod;
+  count: number;            // closes folded in
+  prevClose: number;
+  avgGain: number;          // Wilder: running sum during the seed, then the smoothed average
+  avgLoss: number;
+  changes: number[];        // Cutler: last `period` close-to-close changes
+};
+
+export type AtrState = {
+  period: number;
+  count: number;            // candles folded in
+  prevClose: number;
+  atr: number;              // running sum of true ranges until `period` candles, then the ATR
+};
+
+export type SlopeState = {
+  lookback: number;
+  count: number;            // values folded in
+  window: number[];         // last `lookback` values, oldest first
+};
+
+/**
+ * Common update/revise/serialize plumbing. Subclasses supply a pure step function
+ * that returns the next state without mutating its input.
+ */
+abstract class IncrementalCalculator<S, In> {
+  protected state: S;
+  protected previous: S | null = null;
+
+  constructor(initial: S) {
+    this.state = initial;
+  }
+
+  protected abstract step(state: S, input: In): S;
+
+  /** Latest value (NaN, or 0 for the slope, until enough data has been seen) */
+  abstract get value(): number;
+
+  /** Number of inputs folded in */
+  get count(): number {
+    return (this.state as { count: number }).count;
+  }
+
+  /**
+   * Fold in the next bar
+   * @returns The updated value
+   */
+  update(input: In): number {
+    this.previous = this.state;
+    this.state = this.step(this.state, input);
+    return this.value;
+  }
+
+  /**
+   * Replace the most recent bar (e.g. the forming bar moved)
+   * @returns The revised value
+   */
+  replaceLast(input: In): number {
+    if (!this.previous) throw new Error('replaceLast() needs a previous update()');
+    this.state = this.step(this.previous, input);
+    return this.value;
+  }
+
+  toJSON(): CalculatorSnapshot<S> {
+    return structuredClone({ state: this.state, previous: this.previous });
+  }
+
+  protected load(snapshot: CalculatorSnapshot<S>): this {
+    this.state = structuredClone(snapshot.state);
+    this.previous = snapshot.previous ? structuredClone(snapshot.previous) : null;
+    return this;
+  }
+}
+
+/**
+ * Exponential moving average of a value stream (matches ema())
+ */
+export class IncrementalEma extends IncrementalCalculator<EmaState, number> {
+  constructor(period: number) {
+    if (!(period >= 1)) throw new Error('EMA period must be at least 1');
+    super({ period, count: 0, ema: NaN });
+  }
+
+  static restore(snapshot: CalculatorSnapshot<EmaState>): IncrementalEma {
+    return new IncrementalEma(snapshot.state.period).load(snapshot);
+  }
+
+  protected step(s: EmaState, value: number): EmaState {
+    const k = 2 / (s.period + 1);
+    const ema = s.count === 0 ? value : value * k + s.ema * (1 - k);
+    return { ...s, count: s.count + 1, ema };
+  }
+
+  get value(): number {
+    return this.state.count > 0 ? this.state.ema : NaN;
+  }
+
+  /** True once `period` values are in (emaSeries is NaN before that) */
+  get ready(): boolean {
+    return this.state.count >= this.state.period;
+  }
+}
+
+/**
+ * RSI of a close stream (matches rsi() for either method)
+ */
+export class IncrementalRsi extends IncrementalCalculator<RsiState, number> {
+  constructor(period = 14, method: RsiMethod = 'wilder') {
+    if (!(period >= 1)) throw new Error('RSI period must be at least 1');
+    super({ period, method, count: 0, prevClose: NaN, avgGain: 0, avgLoss: 0, changes: [] });
+  }
+
+  static restore(snapshot: CalculatorSnapshot<RsiState>): IncrementalRsi {
+    return new IncrementalRsi(snapshot.state.period, snapshot.state.method).load(snapshot);
+  }
+
+  protected step(s: RsiState, close: number): RsiState {
+    const next = { ...s, count: s.count + 1, prevClose: close };
+    if (s.count === 0) return next;
+    const change = close - s.prevClose;
+
+    if (s.method === 'cutler') {
+      next.changes = [...s.changes, change].slice(-s.period);
+      return next;
+    }
+
+    if (s.count <= s.period) {
+      // Seed: simple average of the first `period` changes
+      if (change >= 0) next.avgGain += change; else next.avgLoss -= change;
+      if (s.count === s.period) {
+        next.avgGain /= s.period;
+        next.avgLoss /= s.period;
+      }
+    } else {
+      const gain = change > 0 ? change : 0;
+      const loss = change < 0 ? -change : 0;
+      next.avgGain = (s.avgGain * (s.period - 1) + gain) / s.period;
+      next.avgLoss = (s.avgLoss * (s.period - 1) + loss) / s.period;
+    }
+    return next;
+  }
+
+  get value(): number {
+    const s = this.state;
+    if (s.count < s.period + 1) return NaN;
+    if (s.method === 'wilder') return rsiFromAverages(s.avgGain, s.avgLoss);
+
+    let gains = 0, losses = 0;
+    for (const change of s.changes) {
+      if (change >= 0) gains += change; else losses -= change;
+    }
+    return rsiFromAverages(gains / s.period, losses / s.period);
+  }
+}
+
+/**
+ * Average true range of a candle stream, Wilder smoothing (matches atr())
+ */
+export class IncrementalAtr extends IncrementalCalculator<AtrState, Candle> {
+  constructor(period = 14) {
+    if (!(period >= 1)) throw new Error('ATR period must be at least 1');
+    super({ period, count: 0, prevClose: NaN, atr: 0 });
+  }
+
+  static restore(snapshot: CalculatorSnapshot<AtrState>): IncrementalAtr {
+    return new IncrementalAtr(snapshot.state.period).load(snapshot);
+  }
+
+  protected step(s: AtrState, candle: Candle): AtrState {
+    const tr = s.count === 0
+      ? candle.high - candle.low
+      : Math.max(candle.high - candle.low, Math.abs(candle.high - s.prevClose), Math.abs(candle.low - s.prevClose));
+
+    let atr: number;
+    if (s.count < s.period) {
+      atr = s.atr + tr;
+      if (s.count + 1 === s.period) atr /= s.period;
+    } else {
+      atr = (s.atr * (s.period - 1) + tr) / s.period;
+    }
+    return { ...s, count: s.count + 1, prevClose: candle.close, atr };
+  }
+
+  get value(): number {
+    return this.state.count >= this.state.period ? this.state.atr : NaN;
+  }
+}
+
+/**
+ * Normalized slope over the last `lookback` values (matches simpleSlope())
+ */
+export class IncrementalSlope extends IncrementalCalculator<SlopeState, number> {
+  constructor(lookback = 10) {
+    if (!(lookback >= 1)) throw new Error('Slope lookback must be at least 1');
+    super({ lookback, count: 0, window: [] });
+  }
+
+  static restore(snapshot: CalculatorSnapshot<SlopeState>): IncrementalSlope {
+    return new IncrementalSlope(snapshot.state.lookback).load(snapshot);
+  }
+
+  protected step(s: SlopeState, value: number): SlopeState {
+    return { ...s, count: s.count + 1, window: [...s.window, value].slice(-s.lookback) };
+  }
+
+  get value(): number {
+    const { lookback, count, window } = this.state;
+    if (count < lookback) return 0;
+    const first = window[0];
+    return (window[window.length - 1] - first) / Math.max(first, 1e-9);
+  }
+}
+
+export type IncrementalIndicatorOptions = {
+  emaPeriods?: number[];                                  // EMAs of closes
+  rsi?: Array<{ period: number; method?: RsiMethod }>;    // RSIs of closes (method default 'wilder')
+  atrPeriods?: number[];
+  slopeLookbacks?: number[];                              // slopes of closes
+};
+
+export type IncrementalIndicatorsState = {
+  time: number | null;      // last candle folded in
+  ema: Array<CalculatorSnapshot<EmaState>>;
+  rsi: Array<CalculatorSnapshot<RsiState>>;
+  atr: Array<CalculatorSnapshot<AtrState>>;
+  slope: Array<CalculatorSnapshot<SlopeState>>;
+};
+
+/**
+ * A set of calculators fed from one candle stream
+ */
+export class IncrementalIndicators {
+  private time: number | null = null;
+  private ema = new Map<number, IncrementalEma>();
+  private rsi = new Map<string, IncrementalRsi>();
+  private atr = new Map<number, IncrementalAtr>();
+  private slope = new Map<number, IncrementalSlope>();
+
+  constructor(options: IncrementalIndicatorOptions = {}) {
+    for (const period of options.emaPeriods ?? []) this.ema.set(period, new IncrementalEma(period));
+    for (const { period, method = 'wilder' } of options.rsi ?? []) this.rsi.set(rsiKey(period, method), new IncrementalRsi(period, method));
+    for (const period of options.atrPeriods ?? []) this.atr.set(period, new IncrementalAtr(period));
+    for (const lookback of options.slopeLookbacks ?? []) this.slope.set(lookback, new IncrementalSlope(lookback));
+  }
+
+  static restore(state: IncrementalIndicatorsState): IncrementalIndicators {
+    const set = new IncrementalIndicators();
+    set.time = state.time;
+    for (const s of state.ema) set.ema.set(s.state.period, IncrementalEma.restore(s));
+    for (const s of state.rsi) set.rsi.set(rsiKey(s.state.period, s.state.method), IncrementalRsi.restore(s));
+    for (const s of state.atr) set.atr.set(s.state.period, IncrementalAtr.restore(s));
+    for (const s of state.slope) set.slope.set(s.state.lookback, IncrementalSlope.restore(s));
+    return set;
+  }
+
+  /** Time of the last candle folded in */
+  get lastTime(): number | null {
+    return this.time;
+  }
+
+  /**
+   * Fold in a candle: a later time appends a bar, the same time revises the last one
+   * @throws If the candle is older than the last one folded in
+   */
+  update(candle: Candle): IndicatorReadings {
+    if (this.time !== null && candle.time < this.time) {
+      throw new Error(`Candle at ${candle.time} is older than the last one folded in (${this.time})`);
+    }
+    const revise = this.time !== null && candle.time === this.time;
+    for (const calc of [...this.ema.values(), ...this.rsi.values(), ...this.slope.values()]) {
+      if (revise) calc.replaceLast(candle.close); else calc.update(candle.close);
+    }
+    for (const calc of this.atr.values()) {
+      if (revise) calc.replaceLast(candle); else calc.update(candle);
+    }
+    this.time = candle.time;
+    return this.readings();
+  }
+
+  /**
+   * Fold in candles in order, skipping any older than the last one seen
+   */
+  updateMany(candles: Candle[]): IndicatorReadings {
+    for (const candle of candles) {
+      if (this.time === null || candle.time >= this.time) this.update(candle);
+    }
+    return this.readings();
+  }
+
+  /**
+   * Current values, in the shape agents read from AgentContext.readings
+   */
+  readings(): IndicatorReadings {
+    return {
+      time: this.time ?? NaN,
+      ema: valuesOf(this.ema),
+      rsi: valuesOf(this.rsi),
+      atr: valuesOf(this.atr),
+      slope: valuesOf(this.slope)
+    };
+  }
+
+  toJSON(): IncrementalIndicatorsState {
+    return {
+      time: this.time,
+      ema: [...this.ema.values()].map(c => c.toJSON()),
+      rsi: [...this.rsi.values()].map(c => c.toJSON()),
+      atr: [...this.atr.values()].map(c => c.toJSON()),
+      slope: [...this.slope.values()].map(c => c.toJSON())
+    };
+  }
+}
+
+/**
+ * Key of an RSI reading in IndicatorReadings.rsi
+ */
+export function rsiKey(period: number, method: RsiMethod = 'wilder'): string {
+  return `${method}:${period}`;
+}
+
+/**
+ * Incremental reading for the context's latest candle, if one was supplied
+ * @param ctx - Agent context
+ * @param kind - Indicator family
+ * @param key - Period/lookback, or rsiKey() for RSI
+ * @returns The value, or undefined when the agent should compute it from the candles
+ */
+export function currentReading(
+  ctx: AgentContext,
+  kind: keyof Omit<IndicatorReadings, 'time'>,
+  key: number | string
+): number | undefined {
+  const readings = ctx.readings;
+  if (!readings || readings.time !== ctx.candles.at(-1)?.time) return undefined;
+  return (readings[kind] as Record<string, number>)[key];
+}
+
+function valuesOf<K extends number | string>(calcs: Map<K, { value: number }>): Record<K, number> {
+  return Object.fromEntries([...calcs].map(([key, calc]) => [key, calc.value])) as Record<K, number>;
+}
@@ -0,0 +1,326 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * CANDLE RESAMPLING
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Aggregates candles into higher timeframes (5min, 4h, daily, weekly, monthly, ...)
+ *
+ * Features:
+ * - OHLCV rules: first open, highest high, lowest low, last close, summed volume
+ * - Bucket boundaries in any IANA time zone, DST-aware
+ * - Trading sessions: a day can start at e.g. 17:00 (FX) or be limited to 09:30-16:00,
+ *   bars outside the session are dropped, intraday buckets align to the session start
+ * - Trading weekdays, so a week or month is complete after its last trading day
+ * - Detection (and optional removal) of a partial last bar
+ */
+
+import { Candle } from '../types.js';
+
+/**
+ * Timeframe names: '5min' / '5m', '4h', '2d', '1w', '1M' / '1mo', 'daily', 'weekly', 'monthly', 'hourly'
+ */
+export type Timeframe =
+  | 'hourly'
+  | 'daily'
+  | 'weekly'
+  | 'monthly'
+  | `${number}min`
+  | `${number}m`
+  | `${number}h`
+  | `${number}d`
+  | `${number}w`
+  | `${number}M`
+  | `${number}mo`;
+
+export interface TimeframeSpec {
+  unit: 'minute' | 'day' | 'week' | 'month';
+  count: number;
+}
+
+export interface ResampleOptions {
+  /** IANA time zone for bucket boundaries (default 'UTC') */
+  timeZone?: string;
+  /** Local trading session, 'HH:MM'; the trading day starts at `start`, bars from `end` on are dropped */
+  session?: { start: string; end?: string };
+  /** Local weekdays that trade, 0 = Sunday; a week or month closes with its last trading day (default: every day) */
+  tradingDays?: number[];
+  /** First day of the week, 0 = Sunday (default 1 = Monday) */
+  weekStart?: number;
+  /** Remove the last bar when its period is not complete yet (default false) */
+  dropPartial?: boolean;
+}
+
+export interface ResampleResult {
+  candles: Candle[];
+  /** Whether the last bar covers less than its full period */
+  partial: boolean;
+}
+
+const DAY = 86400;
+
+const NAMED: Record<string, TimeframeSpec> = {
+  hourly: { unit: 'minute', count: 60 },
+  daily: { unit: 'day', count: 1 },
+  weekly: { unit: 'week', count: 1 },
+  monthly: { unit: 'month', count: 1 }
+};
+
+/**
+ * Parse a timeframe name
+ * @param timeframe - e.g. '15min', '4h', 'daily', '2w', '1M'
+ * @returns Unit and count
+ * @throws Error for unknown names
+ */
+export function parseTimeframe(timeframe: string): TimeframeSpec {
+  const named = NAMED[timeframe.toLowerCase()];
+  if (named) return { ...named };
+
+  const match = /^(\d+)\s*([a-zA-Z]+)$/.exec(timeframe.trim());
+  const count = match ? parseInt(match[1], 10) : NaN;
+  if (!match || !(count > 0)) {
+    throw new Error(`Unknown timeframe: ${timeframe}`);
+  }
+
+  const unit = match[2];
+  if (unit === 'M' || /^mo(n|nth|nths)?$/i.test(unit)) return { unit: 'month', count };
+  if (/^(m|min|mins|minute|minutes)$/i.test(unit)) return { unit: 'minute', count };
+  if (/^(h|hr|hrs|hour|hours)$/i.test(unit)) return { unit: 'minute', count: count * 60 };
+  if (/^(d|day|days)$/i.test(unit)) return { unit: 'day', count };
+  if (/^(w|wk|week|weeks)$/i.test(unit)) return { unit: 'week', count };
+  throw new Error(`Unknown timeframe: ${timeframe}`);
+}
+
+/**
+ * Whether a string is a valid timeframe name
+ */
+export function isTimeframe(value: unknown): value is Timeframe {
+  if (typeof value !== 'string') return false;
+  try {
+    parseTimeframe(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Nominal length of a timeframe in seconds (months count as 30 days)
+ */
+export function timeframeSeconds(timeframe: string | TimeframeSpec): number {
+  const { unit, count } = typeof timeframe === 'string' ? parseTimeframe(timeframe) : timeframe;
+  switch (unit) {
+    case 'minute': return count * 60;
+    case 'day': return count * DAY;
+    case 'week': return count * 7 * DAY;
+    case 'month': return count * 30 * DAY;
+  }
+}
+
+/**
+ * Resample candles into a higher timeframe
+ * @param candles - Source candles (any spacing finer than the target)
+ * @param timeframe - Target timeframe
+ * @param options - Time zone, session, trading days and partial-bar handling
+ * @returns Aggregated candles, oldest first, and whether the last one is partial
+ * @throws Error when the target is finer than the source spacing
+ */
+export function resampleCandles(
+  candles: Candle[],
+  timeframe: Timeframe | string,
+  options: ResampleOptions = {}
+): ResampleResult {
+  const spec = parseTimeframe(timeframe);
+  if (candles.length === 0) return { candles: [], partial: false };
+
+  const sorted = isSorted(candles) ? candles : [...candles].sort((a, b) => a.time - b.time);
+  const step = sourceStep(sorted);
+  if (step > timeframeSeconds(spec)) {
+    throw new Error(`Cannot resample ${step}s candles into ${timeframe}`);
+  }
+
+  const clock = new SessionClock(options);
+  const out: Candle[] = [];
+  let bucket: number | null = null;
+  let lastShifted = 0;
+
+  for (const c of sorted) {
+    const shifted = clock.shifted(c.time);
+    if (shifted === null) continue;
+    lastShifted = shifted;
+
+    const start = bucketStart(spec, shifted, clock);
+    if (start !== bucket) {
+      bucket = start;
+      out.push({ ...c, time: clock.toUtc(start) });
+      continue;
+    }
+
+    const bar = out[out.length - 1];
+    bar.high = Math.max(bar.high, c.high);
+    bar.low = Math.min(bar.low, c.low);
+    bar.close = c.close;
+    if (c.volume !== undefined) bar.volume = (bar.volume ?? 0) + c.volume;
+  }
+
+  const partial = bucket !== null && lastShifted + step < bucketEnd(spec, bucket, clock);
+  if (partial && options.dropPartial) out.pop();
+  return { candles: out, partial: partial && !options.dropPartial };
+}
+
+/**
+ * Resample the same candles into several timeframes
+ * @param candles - Source candles
+ * @param timeframes - Target timeframes
+ * @param options - Resample options shared by every timeframe
+ * @returns Candles per timeframe name
+ */
+export function resampleMany(
+  candles: Candle[],
+  timeframes: Array<Timeframe | string>,
+  options: ResampleOptions = {}
+): Record<string, Candle[]> {
+  return Object.fromEntries(
+    timeframes.map(tf => [tf, resampleCandles(candles, tf, options).candles])
+  );
+}
+
+/**
+ * Smallest spacing between consecutive candles, in seconds (0 for a single candle)
+ */
+export function sourceStep(candles: Candle[]): number {
+  let step = Infinity;
+  for (let i = 1; i < candles.length; i++) {
+    const diff = candles[i].time - candles[i - 1].time;
+    if (diff > 0 && diff < step) step = diff;
+  }
+  return Number.isFinite(step) ? step : 0;
+}
+
+// ── Buckets ──────────────────────────────────────────────────────────────────
+// Bucket arithmetic runs on a "shifted" axis: local wall-clock seconds minus the
+// session start, so every trading day begins at a multiple of 86400.
+
+function bucketStart(spec: TimeframeSpec, shifted: number, clock: SessionClock): number {
+  const day = Math.floor(shifted / DAY);
+  switch (spec.unit) {
+    case 'minute': {
+      const size = spec.count * 60;
+      if (size >= DAY) return Math.floor(shifted / size) * size;
+      return day * DAY + Math.floor((shifted - day * DAY) / size) * size;
+    }
+    case 'day':
+      return Math.floor(day / spec.count) * spec.count * DAY;
+    case 'week': {
+      const base = mod(clock.weekStart - 4, 7); // 1970-01-01 was a Thursday
+      const weeks = Math.floor((day - base) / 7);
+      return (base + Math.floor(weeks / spec.count) * spec.count * 7) * DAY;
+    }
+    case 'month': {
+      const date = new Date(day * DAY * 1000);
+      const month = date.getUTCFullYear() * 12 + date.getUTCMonth();
+      const first = Math.floor(month / spec.count) * spec.count;
+      return Date.UTC(Math.floor(first / 12), first % 12, 1) / 1000;
+    }
+  }
+}
+
+function bucketEnd(spec: TimeframeSpec, start: number, clock: SessionClock): number {
+  const day = Math.floor(start / DAY);
+  if (spec.unit === 'minute' && spec.count * 60 < DAY) {
+    return Math.min(start + spec.count * 60, day * DAY + clock.sessionLength);
+  }
+
+  let next: number;
+  if (spec.unit === 'month') {
+    const date = new Date(start * 1000);
+    next = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + spec.count, 1) / 1000 / DAY;
+  } else {
+    next = day + Math.round(timeframeSeconds(spec) / DAY);
+  }
+
+  // The period ends with the session of its last trading day
+  let last = next - 1;
+  for (let i = 0; i < 7 && last > day && !clock.isTradingDay(last); i++) last--;
+  return last * DAY + clock.sessionLength;
+}
+
+class SessionClock {
+  readonly weekStart: number;
+  readonly sessionLength: number;
+  private sessionStart: number;
+  private tradingDays: Set<number> | null;
+  private formatter: Intl.DateTimeFormat | null;
+  private offsets = new Map<number, number>();
+
+  constructor(options: ResampleOptions) {
+    const timeZone = options.timeZone ?? 'UTC';
+    this.formatter = timeZone === 'UTC' ? null : new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    this.sessionStart = options.session ? parseClock(options.session.start) : 0;
+    const end = options.session?.end !== undefined ? parseClock(options.session.end) : this.sessionStart;
+    this.sessionLength = mod(end - this.sessionStart, DAY) || DAY;
+    this.tradingDays = options.tradingDays ? new Set(options.tradingDays) : null;
+    this.weekStart = options.weekStart ?? 1;
+  }
+
+  /** Shifted-axis seconds of a UTC time, or null when outside the session */
+  shifted(utc: number): number | null {
+    const shifted = utc + this.offset(utc) - this.sessionStart;
+    const day = Math.floor(shifted / DAY);
+    return shifted - day * DAY < this.sessionLength ? shifted : null;
+  }
+
+  /** UTC time of a shifted-axis time */
+  toUtc(shifted: number): number {
+    const local = shifted + this.sessionStart;
+    const guess = local - this.offset(local);
+    return local - this.offset(guess);
+  }
+
+  isTradingDay(day: number): boolean {
+    return !this.tradingDays || this.tradingDays.has(mod(day + 4, 7));
+  }
+
+  /** Seconds the time zone is ahead of UTC at a UTC time */
+  private offset(utc: number): number {
+    if (!this.formatter) return 0;
+    const hour = Math.floor(utc / 3600);
+    let offset = this.offsets.get(hour);
+    if (offset === undefined) {
+      const parts: Record<string, number> = {};
+      for (const part of this.formatter.formatToParts(new Date(hour * 3600 * 1000))) {
+        if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+      }
+      const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) / 1000;
+      offset = local - hour * 3600;
+      this.offsets.set(hour, offset);
+    }
+    return offset;
+  }
+}
+
+function parseClock(value: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new Error(`Invalid session time (expected HH:MM): ${value}`);
+  }
+  return Number(match[1]) * 3600 + Number(match[2]) * 60;
+}
+
+function isSorted(candles: Candle[]): boolean {
+  for (let i = 1; i < candles.length; i++) {
+    if (candles[i].time < candles[i - 1].time) return false;
+  }
+  return true;
+}
+
+function mod(a: number, n: number): number {
+  return ((a % n) + n) % n;
+}
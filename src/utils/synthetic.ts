@@ -2,39 +2,285 @@
  * ──────────────────────────────────────────────────────────────────────────────
  * SYNTHETIC DATA GENERATOR
  * ──────────────────────────────────────────────────────────────────────────────
+ *
+ * - makeSyntheticSeries: quick random walk with a slight upward drift
+ * - generateMarketSeries: seeded market model with ground-truth regime labels
+ *     · geometric Brownian motion per regime (annualised drift / volatility)
+ *     · Markov regime switching between bull, bear and range (mean-reverting) markets
+ *     · GARCH(1,1) volatility clustering
+ *     · Merton jump diffusion, with more frequent jumps in bear markets
+ *     · volume that is persistent and rises with absolute returns and jumps
  */
 
 import { Candle } from '../types.js';
+import { Timeframe, timeframeSeconds } from './resample.js';
 
 /**
  * Generate synthetic OHLCV data for testing
  * @param n - Number of candles to generate
  * @param start - Starting price
+ * @param stepSeconds - Bar spacing in seconds (default 60, 1-min bars)
+ * @param seed - Seed for a reproducible series (default: Math.random)
  * @returns Array of synthetic candles
  */
-export function makeSyntheticSeries(n = 100, start = 1.0000): Candle[] {
+export function makeSyntheticSeries(n = 100, start = 1.0000, stepSeconds = 60, seed?: number | string): Candle[] {
+  const random = seed === undefined ? Math.random : seededRandom(seed);
   const out: Candle[] = [];
   let price = start;
   const now = Math.floor(Date.now() / 1000);
 
   for (let i = n; i > 0; i--) {
-    const t = now - i * 60; // 1-min bars
+    const t = now - i * stepSeconds;
     // Random walk with slight upward drift
     const drift = 0.00002;
-    const noise = (Math.random() - 0.5) * 0.0006;
+    const noise = (random() - 0.5) * 0.0006;
     const open = price;
     const close = Math.max(0.00001, open * (1 + drift + noise));
-    const high = Math.max(open, close) * (1 + Math.random() * 0.0003);
-    const low  = Math.min(open, close) * (1 - Math.random() * 0.0003);
+    const high = Math.max(open, close) * (1 + random() * 0.0003);
+    const low  = Math.min(open, close) * (1 - random() * 0.0003);
     price = close;
-    out.push({ 
-      time: t, 
-      open, 
-      high, 
-      low, 
-      close, 
-      volume: 100 + Math.random() * 50 
+    out.push({
+      time: t,
+      open,
+      high,
+      low,
+      close,
+      volume: 100 + random() * 50
     });
   }
   return out;
-}
\ No newline at end of file
+}
+
+// ── Regime-switching market model ────────────────────────────────────────────
+
+export type MarketRegime = 'bull' | 'bear' | 'range';
+
+export interface RegimeParams {
+  drift: number;          // annualised log drift
+  volatility: number;     // annualised volatility
+  meanReversion: number;  // annual pull toward the price at regime entry (range markets)
+  duration: number;       // expected length in bars
+}
+
+export interface MarketSeriesOptions {
+  /** Number of bars (default 500) */
+  bars?: number;
+  /** First open (default 100) */
+  startPrice?: number;
+  /** Bar interval: timeframe name or seconds (default 'daily') */
+  interval?: Timeframe | number;
+  /** Epoch seconds of the first bar (default: so the last bar ends now; pass it for fully reproducible output) */
+  startTime?: number;
+  /** Seed for the random number generator (default: random) */
+  seed?: number | string;
+  /** Parameters of the single regime used when regime switching is off (default drift 0.05, volatility 0.2) */
+  gbm?: { drift?: number; volatility?: number };
+  /** Regime switching; false runs plain GBM, labelled by the sign of its drift (default on, starting in 'range') */
+  regimes?: false | {
+    initial?: MarketRegime;
+    params?: Partial<Record<MarketRegime, Partial<RegimeParams>>>;
+  };
+  /** GARCH(1,1) volatility multiplier with unit mean; false for constant volatility */
+  garch?: false | { alpha?: number; beta?: number };
+  /** Poisson jumps in log price; intensity per year, bear markets × bearMultiplier; false to disable */
+  jumps?: false | { intensity?: number; mean?: number; stdDev?: number; bearMultiplier?: number };
+  /** Mean volume per bar (default scales 1,000,000 per day to the interval) */
+  baseVolume?: number;
+}
+
+export interface MarketSeries {
+  candles: Candle[];
+  regimes: MarketRegime[];    // ground-truth regime of every bar
+  segments: Array<{ regime: MarketRegime; start: number; end: number }>; // bar index ranges, end inclusive
+  jumps: number[];            // bar indices with a price jump
+  volatility: number[];       // annualised volatility in force for every bar
+  seed: number | string;
+}
+
+export const DEFAULT_REGIME_PARAMS: Record<MarketRegime, RegimeParams> = {
+  bull: { drift: 0.3, volatility: 0.18, meanReversion: 0, duration: 120 },
+  bear: { drift: -0.4, volatility: 0.35, meanReversion: 0, duration: 60 },
+  range: { drift: 0, volatility: 0.15, meanReversion: 30, duration: 90 }
+};
+
+const YEAR = 365 * 86400;
+const SUBSTEPS = 8;
+const REGIMES: MarketRegime[] = ['bull', 'bear', 'range'];
+
+/**
+ * Generate a seeded synthetic market with ground-truth regimes
+ * @param options - Length, interval, seed and model components
+ * @returns Candles plus per-bar regime labels, jump positions and volatility
+ */
+export function generateMarketSeries(options: MarketSeriesOptions = {}): MarketSeries {
+  const bars = options.bars ?? 500;
+  const step = typeof options.interval === 'number'
+    ? options.interval
+    : timeframeSeconds(options.interval ?? 'daily');
+  if (!(step > 0) || !(bars >= 0)) {
+    throw new Error('generateMarketSeries needs a positive interval and a non-negative bar count');
+  }
+
+  const seed = options.seed ?? Math.floor(Math.random() * 2 ** 32);
+  const rng = new Gaussian(seededRandom(seed));
+  const dt = step / YEAR;
+  const startTime = options.startTime ?? Math.floor(Date.now() / 1000 / step) * step - bars * step;
+
+  const regimeOptions = options.regimes === false ? null : options.regimes ?? {};
+  const params = Object.fromEntries(REGIMES.map(r => [
+    r, { ...DEFAULT_REGIME_PARAMS[r], ...regimeOptions?.params?.[r] }
+  ])) as Record<MarketRegime, RegimeParams>;
+
+  const garch = options.garch === false ? null : { alpha: 0.08, beta: 0.9, ...options.garch };
+  if (garch && garch.alpha + garch.beta >= 1) {
+    throw new Error('GARCH alpha + beta must be below 1');
+  }
+  const jumps = options.jumps === false ? null : { intensity: 6, mean: -0.02, stdDev: 0.04, bearMultiplier: 3, ...options.jumps };
+  const baseVolume = options.baseVolume ?? Math.max(100, 1_000_000 * step / 86400);
+
+  const candles: Candle[] = [];
+  const regimes: MarketRegime[] = [];
+  const jumpBars: number[] = [];
+  const volatility: number[] = [];
+
+  let regime: MarketRegime = regimeOptions?.initial ?? 'range';
+  if (!regimeOptions) {
+    const gbm = { drift: 0.05, volatility: 0.2, ...options.gbm };
+    regime = gbm.drift > 0 ? 'bull' : gbm.drift < 0 ? 'bear' : 'range';
+    params[regime] = { ...gbm, meanReversion: 0, duration: Infinity };
+  }
+  let logPrice = Math.log(options.startPrice ?? 100);
+  let anchor = logPrice;
+  let variance = 1;      // GARCH multiplier, unconditional mean 1
+  let shock = 0;         // last standardised shock
+  let logVolume = 0;
+
+  for (let i = 0; i < bars; i++) {
+    // Regime switch: leave with probability 1 / expected duration
+    if (regimeOptions && i > 0 && rng.uniform() < 1 / Math.max(1, params[regime].duration)) {
+      const others = REGIMES.filter(r => r !== regime);
+      regime = others[Math.floor(rng.uniform() * others.length)];
+      anchor = logPrice;
+    }
+    const p = params[regime];
+
+    if (garch) variance = (1 - garch.alpha - garch.beta) + garch.alpha * shock * shock * variance + garch.beta * variance;
+    const sigma = p.volatility * Math.sqrt(variance);
+
+    // Intrabar path for a realistic high/low
+    const open = Math.exp(logPrice);
+    let high = open;
+    let low = open;
+    let z = 0;
+    const subDt = dt / SUBSTEPS;
+    for (let k = 0; k < SUBSTEPS; k++) {
+      const eps = rng.normal();
+      z += eps;
+      const pull = -p.meanReversion * (logPrice - anchor);
+      logPrice += (p.drift + pull - 0.5 * sigma * sigma) * subDt + sigma * Math.sqrt(subDt) * eps;
+      const price = Math.exp(logPrice);
+      high = Math.max(high, price);
+      low = Math.min(low, price);
+    }
+    shock = z / Math.sqrt(SUBSTEPS);
+
+    // Jumps land at the close of the bar
+    let jumped = false;
+    if (jumps) {
+      const count = rng.poisson(jumps.intensity * (regime === 'bear' ? jumps.bearMultiplier : 1) * dt);
+      for (let j = 0; j < count; j++) logPrice += jumps.mean + jumps.stdDev * rng.normal();
+      if (count > 0) {
+        jumped = true;
+        jumpBars.push(i);
+        const price = Math.exp(logPrice);
+        high = Math.max(high, price);
+        low = Math.min(low, price);
+      }
+    }
+    const close = Math.exp(logPrice);
+
+    // Volume: persistent log-normal noise, scaled by the size of the move
+    logVolume = 0.6 * logVolume + 0.3 * rng.normal();
+    const moveSize = Math.abs(Math.log(close / open)) / (sigma * Math.sqrt(dt) || 1);
+    const volume = baseVolume * Math.exp(logVolume - 0.125) * (0.6 + 0.4 * moveSize) * (jumped ? 3 : 1);
+
+    candles.push({ time: startTime + i * step, open, high, low, close, volume: Math.round(volume) });
+    regimes.push(regime);
+    volatility.push(sigma);
+  }
+
+  return { candles, regimes, segments: toSegments(regimes), jumps: jumpBars, volatility, seed };
+}
+
+function toSegments(regimes: MarketRegime[]): MarketSeries['segments'] {
+  const segments: MarketSeries['segments'] = [];
+  regimes.forEach((regime, i) => {
+    const last = segments[segments.length - 1];
+    if (last && last.regime === regime) last.end = i;
+    else segments.push({ regime, start: i, end: i });
+  });
+  return segments;
+}
+
+// ── Random numbers ───────────────────────────────────────────────────────────
+
+/**
+ * Seeded uniform generator in [0, 1) (mulberry32; string seeds are hashed)
+ * @param seed - Number or string seed
+ * @returns Function returning the next number of the sequence
+ */
+export function seededRandom(seed: number | string): () => number {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashString(seed);
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string): number {
+  let h = 1779033703 ^ value.length;
+  for (let i = 0; i < value.length; i++) {
+    h = Math.imul(h ^ value.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  return h >>> 0;
+}
+
+class Gaussian {
+  private spare: number | null = null;
+
+  constructor(private random: () => number) {}
+
+  uniform(): number {
+    return this.random();
+  }
+
+  /** Standard normal (Box-Muller) */
+  normal(): number {
+    if (this.spare !== null) {
+      const value = this.spare;
+      this.spare = null;
+      return value;
+    }
+    const u = 1 - this.random();
+    const v = this.random();
+    const r = Math.sqrt(-2 * Math.log(u));
+    this.spare = r * Math.sin(2 * Math.PI * v);
+    return r * Math.cos(2 * Math.PI * v);
+  }
+
+  /** Poisson count (Knuth; intensities here are small) */
+  poisson(lambda: number): number {
+    const limit = Math.exp(-lambda);
+    let count = 0;
+    let product = this.random();
+    while (product > limit) {
+      count++;
+      product *= this.random();
+    }
+    return count;
+  }
+}
@@ -2,8 +2,45 @@
  * ──────────────────────────────────────────────────────────────────────────────
  * TECHNICAL ANALYSIS UTILITIES
  * ──────────────────────────────────────────────────────────────────────────────
+ * Series functions return one value per input element, with NaN during warm-up.
+ * Scalar functions return the latest value of the matching series.
  */
 
+import type {
+  Candle,
+  RsiMethod,
+  MacdReading,
+  BollingerReading,
+  StochasticReading,
+  AdxReading
+} from '../types.js';
+
+/**
+ * Run the EMA recursion over every value (seeded with the first value)
+ */
+function emaRecursion(values: number[], period: number): number[] {
+  const out: number[] = [];
+  if (values.length === 0) return out;
+  const k = 2 / (period + 1);
+  let e = values[0];
+  out.push(e);
+  for (let i = 1; i < values.length; i++) {
+    e = values[i] * k + e * (1 - k);
+    out.push(e);
+  }
+  return out;
+}
+
+/**
+ * Calculate Exponential Moving Average series
+ * @param values - Array of price values
+ * @param period - EMA period
+ * @returns EMA per input value (NaN for the first period-1 values)
+ */
+export function emaSeries(values: number[], period: number): number[] {
+  return emaRecursion(values, period).map((e, i) => (i < period - 1 ? NaN : e));
+}
+
 /**
  * Calculate Exponential Moving Average
  * @param values - Array of price values
@@ -12,34 +49,100 @@
  */
 export function ema(values: number[], period: number): number {
   if (values.length === 0) return NaN;
-  const k = 2 / (period + 1);
-  let e = values[0];
-  for (let i = 1; i < values.length; i++) {
-    e = values[i] * k + e * (1 - k);
+  return emaRecursion(values, period)[values.length - 1];
+}
+
+/**
+ * Cutler's RSI: simple average of gains and losses over a rolling window
+ */
+function cutlerRsiSeries(closes: number[], period: number): number[] {
+  const out: number[] = new Array(closes.length).fill(NaN);
+  for (let end = period; end < closes.length; end++) {
+    let gains = 0, losses = 0;
+    for (let i = end - period + 1; i <= end; i++) {
+      const change = closes[i] - closes[i - 1];
+      if (change >= 0) gains += change; else losses -= change;
+    }
+    out[end] = rsiFromAverages(gains / period, losses / period);
   }
-  return e;
+  return out;
 }
 
 /**
- * Calculate Relative Strength Index (RSI)
- * @param closes - Array of closing prices
- * @param period - RSI period (default 14)
- * @returns RSI value (0-100)
+ * Wilder's RSI: seeded with a simple average, then smoothed with α = 1/period
  */
-export function rsi(closes: number[], period = 14): number {
-  if (closes.length < period + 1) return NaN;
-  let gains = 0, losses = 0;
-  for (let i = closes.length - period; i < closes.length; i++) {
+function wilderRsiSeries(closes: number[], period: number): number[] {
+  const out: number[] = new Array(closes.length).fill(NaN);
+  if (closes.length < period + 1) return out;
+
+  let avgGain = 0, avgLoss = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = closes[i] - closes[i - 1];
+    if (change >= 0) avgGain += change; else avgLoss -= change;
+  }
+  avgGain /= period;
+  avgLoss /= period;
+  out[period] = rsiFromAverages(avgGain, avgLoss);
+
+  for (let i = period + 1; i < closes.length; i++) {
     const change = closes[i] - closes[i - 1];
-    if (change >= 0) gains += change; else losses -= change;
+    const gain = change > 0 ? change : 0;
+    const loss = change < 0 ? -change : 0;
+    avgGain = (avgGain * (period - 1) + gain) / period;
+    avgLoss = (avgLoss * (period - 1) + loss) / period;
+    out[i] = rsiFromAverages(avgGain, avgLoss);
   }
-  const avgGain = gains / period;
-  const avgLoss = losses / period;
+  return out;
+}
+
+/**
+ * RSI from average gain and average loss (100 when there are no losses)
+ */
+export function rsiFromAverages(avgGain: number, avgLoss: number): number {
   if (avgLoss === 0) return 100;
   const rs = avgGain / avgLoss;
   return 100 - (100 / (1 + rs));
 }
 
+/**
+ * Calculate Relative Strength Index (RSI) series
+ * @param closes - Array of closing prices
+ * @param period - RSI period (default 14)
+ * @param method - 'wilder' (standard charting RSI) or 'cutler' (SMA of gains/losses)
+ * @returns RSI per close (NaN for the first `period` closes)
+ */
+export function rsiSeries(closes: number[], period = 14, method: RsiMethod = 'wilder'): number[] {
+  return method === 'cutler'
+    ? cutlerRsiSeries(closes, period)
+    : wilderRsiSeries(closes, period);
+}
+
+/**
+ * Calculate Relative Strength Index (RSI)
+ * @param closes - Array of closing prices
+ * @param period - RSI period (default 14)
+ * @param method - 'wilder' (standard charting RSI) or 'cutler' (SMA of gains/losses)
+ * @returns RSI value (0-100)
+ */
+export function rsi(closes: number[], period = 14, method: RsiMethod = 'wilder'): number {
+  if (closes.length < period + 1) return NaN;
+  return rsiSeries(closes, period, method)[closes.length - 1];
+}
+
+/**
+ * Calculate simple slope series of a price series
+ * @param series - Array of price values
+ * @param lookback - Number of periods to look back (default 10)
+ * @returns Normalized slope per value (NaN for the first lookback-1 values)
+ */
+export function slopeSeries(series: number[], lookback = 10): number[] {
+  return series.map((v, i) => {
+    if (i < lookback - 1) return NaN;
+    const first = series[i - lookback + 1];
+    return (v - first) / Math.max(first, 1e-9);
+  });
+}
+
 /**
  * Calculate simple slope of a price series
  * @param series - Array of price values
@@ -48,6 +151,370 @@ export function rsi(closes: number[], period = 14): number {
  */
 export function simpleSlope(series: number[], lookback = 10): number {
   if (series.length < lookback) return 0;
-  const seg = series.slice(-lookback);
-  return (seg[seg.length - 1] - seg[0]) / Math.max(seg[0], 1e-9);
-}
\ No newline at end of file
+  return slopeSeries(series, lookback)[series.length - 1];
+}
+
+/**
+ * Last element of a series (NaN if empty)
+ */
+function last(series: number[]): number {
+  return series.length > 0 ? series[series.length - 1] : NaN;
+}
+
+/**
+ * Calculate Simple Moving Average series
+ * @param values - Array of price values
+ * @param period - SMA period
+ * @returns SMA per value (NaN for the first period-1 values)
+ */
+export function smaSeries(values: number[], period: number): number[] {
+  const out: number[] = new Array(values.length).fill(NaN);
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) sum -= values[i - period];
+    if (i >= period - 1) out[i] = sum / period;
+  }
+  return out;
+}
+
+/**
+ * Calculate Simple Moving Average
+ * @param values - Array of price values
+ * @param period - SMA period
+ * @returns SMA value
+ */
+export function sma(values: number[], period: number): number {
+  return last(smaSeries(values, period));
+}
+
+/**
+ * EMA seeded with the SMA of the first `period` valid values, as used by
+ * charting platforms for MACD. Leading NaNs in the input are skipped.
+ */
+function smaSeededEmaSeries(values: number[], period: number): number[] {
+  const out: number[] = new Array(values.length).fill(NaN);
+  const start = values.findIndex(v => !Number.isNaN(v));
+  if (start < 0 || values.length - start < period) return out;
+
+  const k = 2 / (period + 1);
+  let e = 0;
+  for (let i = start; i < start + period; i++) e += values[i];
+  e /= period;
+  out[start + period - 1] = e;
+  for (let i = start + period; i < values.length; i++) {
+    e = values[i] * k + e * (1 - k);
+    out[i] = e;
+  }
+  return out;
+}
+
+/**
+ * Calculate MACD series (line, signal, histogram)
+ * @param closes - Array of closing prices
+ * @param fast - Fast EMA period (default 12)
+ * @param slow - Slow EMA period (default 26)
+ * @param signal - Signal EMA period (default 9)
+ * @returns MACD components per close (NaN during warm-up)
+ */
+export function macdSeries(
+  closes: number[],
+  fast = 12,
+  slow = 26,
+  signal = 9
+): { macd: number[]; signal: number[]; histogram: number[] } {
+  const fastEma = smaSeededEmaSeries(closes, fast);
+  const slowEma = smaSeededEmaSeries(closes, slow);
+  const macdLine = closes.map((_, i) => fastEma[i] - slowEma[i]);
+  const signalLine = smaSeededEmaSeries(macdLine, signal);
+  const histogram = macdLine.map((m, i) => m - signalLine[i]);
+  return { macd: macdLine, signal: signalLine, histogram };
+}
+
+/**
+ * Calculate MACD
+ * @param closes - Array of closing prices
+ * @param fast - Fast EMA period (default 12)
+ * @param slow - Slow EMA period (default 26)
+ * @param signal - Signal EMA period (default 9)
+ * @returns Latest MACD line, signal and histogram
+ */
+export function macd(closes: number[], fast = 12, slow = 26, signal = 9): MacdReading {
+  const s = macdSeries(closes, fast, slow, signal);
+  return { macd: last(s.macd), signal: last(s.signal), histogram: last(s.histogram) };
+}
+
+/**
+ * Calculate Bollinger Bands series (population standard deviation)
+ * @param closes - Array of closing prices
+ * @param period - Moving average period (default 20)
+ * @param multiplier - Band width in standard deviations (default 2)
+ * @returns Upper, middle and lower bands per close (NaN during warm-up)
+ */
+export function bollingerSeries(
+  closes: number[],
+  period = 20,
+  multiplier = 2
+): { upper: number[]; middle: number[]; lower: number[] } {
+  const middle = smaSeries(closes, period);
+  const upper: number[] = new Array(closes.length).fill(NaN);
+  const lower: number[] = new Array(closes.length).fill(NaN);
+
+  for (let i = period - 1; i < closes.length; i++) {
+    let sq = 0;
+    for (let j = i - period + 1; j <= i; j++) sq += (closes[j] - middle[i]) ** 2;
+    const sd = Math.sqrt(sq / period);
+    upper[i] = middle[i] + multiplier * sd;
+    lower[i] = middle[i] - multiplier * sd;
+  }
+  return { upper, middle, lower };
+}
+
+/**
+ * Calculate Bollinger Bands
+ * @param closes - Array of closing prices
+ * @param period - Moving average period (default 20)
+ * @param multiplier - Band width in standard deviations (default 2)
+ * @returns Latest bands plus bandwidth and %B
+ */
+export function bollinger(closes: number[], period = 20, multiplier = 2): BollingerReading {
+  const s = bollingerSeries(closes, period, multiplier);
+  const upper = last(s.upper), middle = last(s.middle), lower = last(s.lower);
+  const width = upper - lower;
+  return {
+    upper,
+    middle,
+    lower,
+    bandwidth: width / Math.max(middle, 1e-9),
+    percentB: width > 0 ? (last(closes) - lower) / width : 0.5
+  };
+}
+
+/**
+ * True range of each candle (first candle uses high - low)
+ */
+function trueRangeSeries(candles: Candle[]): number[] {
+  return candles.map((c, i) => {
+    if (i === 0) return c.high - c.low;
+    const prevClose = candles[i - 1].close;
+    return Math.max(c.high - c.low, Math.abs(c.high - prevClose), Math.abs(c.low - prevClose));
+  });
+}
+
+/**
+ * Calculate Average True Range series (Wilder smoothing)
+ * @param candles - Array of OHLCV candles
+ * @param period - ATR period (default 14)
+ * @returns ATR per candle (NaN for the first period-1 candles)
+ */
+export function atrSeries(candles: Candle[], period = 14): number[] {
+  const tr = trueRangeSeries(candles);
+  const out: number[] = new Array(candles.length).fill(NaN);
+  if (candles.length < period) return out;
+
+  let a = 0;
+  for (let i = 0; i < period; i++) a += tr[i];
+  a /= period;
+  out[period - 1] = a;
+  for (let i = period; i < candles.length; i++) {
+    a = (a * (period - 1) + tr[i]) / period;
+    out[i] = a;
+  }
+  return out;
+}
+
+/**
+ * Calculate Average True Range
+ * @param candles - Array of OHLCV candles
+ * @param period - ATR period (default 14)
+ * @returns ATR value in price units
+ */
+export function atr(candles: Candle[], period = 14): number {
+  return last(atrSeries(candles, period));
+}
+
+/**
+ * Calculate Stochastic Oscillator series
+ * @param candles - Array of OHLCV candles
+ * @param kPeriod - High/low lookback (default 14)
+ * @param dPeriod - %D smoothing period (default 3)
+ * @param smoothing - %K slowing period (default 1 = fast stochastic)
+ * @returns %K and %D per candle (NaN during warm-up)
+ */
+export function stochasticSeries(
+  candles: Candle[],
+  kPeriod = 14,
+  dPeriod = 3,
+  smoothing = 1
+): { k: number[]; d: number[] } {
+  const rawK: number[] = new Array(candles.length).fill(NaN);
+  for (let i = kPeriod - 1; i < candles.length; i++) {
+    let hh = -Infinity, ll = Infinity;
+    for (let j = i - kPeriod + 1; j <= i; j++) {
+      hh = Math.max(hh, candles[j].high);
+      ll = Math.min(ll, candles[j].low);
+    }
+    rawK[i] = hh > ll ? 100 * (candles[i].close - ll) / (hh - ll) : 50;
+  }
+  const k = smoothing > 1 ? smaOfValid(rawK, smoothing) : rawK;
+  const d = smaOfValid(k, dPeriod);
+  return { k, d };
+}
+
+/**
+ * SMA over a series that starts with NaN warm-up values
+ */
+function smaOfValid(values: number[], period: number): number[] {
+  const start = values.findIndex(v => !Number.isNaN(v));
+  if (start < 0) return new Array(values.length).fill(NaN);
+  return [
+    ...new Array(start).fill(NaN),
+    ...smaSeries(values.slice(start), period)
+  ];
+}
+
+/**
+ * Calculate Stochastic Oscillator
+ * @param candles - Array of OHLCV candles
+ * @param kPeriod - High/low lookback (default 14)
+ * @param dPeriod - %D smoothing period (default 3)
+ * @param smoothing - %K slowing period (default 1 = fast stochastic)
+ * @returns Latest %K and %D
+ */
+export function stochastic(candles: Candle[], kPeriod = 14, dPeriod = 3, smoothing = 1): StochasticReading {
+  const s = stochasticSeries(candles, kPeriod, dPeriod, smoothing);
+  return { k: last(s.k), d: last(s.d) };
+}
+
+/**
+ * Calculate ADX / DMI series (Wilder smoothing)
+ * @param candles - Array of OHLCV candles
+ * @param period - DMI period (default 14)
+ * @returns ADX, +DI and -DI per candle (NaN during warm-up)
+ */
+export function adxSeries(
+  candles: Candle[],
+  period = 14
+): { adx: number[]; plusDI: number[]; minusDI: number[] } {
+  const n = candles.length;
+  const adx: number[] = new Array(n).fill(NaN);
+  const plusDI: number[] = new Array(n).fill(NaN);
+  const minusDI: number[] = new Array(n).fill(NaN);
+  if (n <= period) return { adx, plusDI, minusDI };
+
+  const tr = trueRangeSeries(candles);
+  const plusDM: number[] = [0];
+  const minusDM: number[] = [0];
+  for (let i = 1; i < n; i++) {
+    const up = candles[i].high - candles[i - 1].high;
+    const down = candles[i - 1].low - candles[i].low;
+    plusDM.push(up > down && up > 0 ? up : 0);
+    minusDM.push(down > up && down > 0 ? down : 0);
+  }
+
+  // Wilder running sums, seeded over bars 1..period
+  let sTR = 0, sPlus = 0, sMinus = 0;
+  for (let i = 1; i <= period; i++) {
+    sTR += tr[i];
+    sPlus += plusDM[i];
+    sMinus += minusDM[i];
+  }
+
+  const dx: number[] = new Array(n).fill(NaN);
+  for (let i = period; i < n; i++) {
+    if (i > period) {
+      sTR = sTR - sTR / period + tr[i];
+      sPlus = sPlus - sPlus / period + plusDM[i];
+      sMinus = sMinus - sMinus / period + minusDM[i];
+    }
+    plusDI[i] = sTR > 0 ? 100 * sPlus / sTR : 0;
+    minusDI[i] = sTR > 0 ? 100 * sMinus / sTR : 0;
+    const diSum = plusDI[i] + minusDI[i];
+    dx[i] = diSum > 0 ? 100 * Math.abs(plusDI[i] - minusDI[i]) / diSum : 0;
+  }
+
+  // ADX: mean of the first `period` DX values, then Wilder smoothing
+  const firstAdx = 2 * period - 1;
+  if (n > firstAdx) {
+    let a = 0;
+    for (let i = period; i <= firstAdx; i++) a += dx[i];
+    a /= period;
+    adx[firstAdx] = a;
+    for (let i = firstAdx + 1; i < n; i++) {
+      a = (a * (period - 1) + dx[i]) / period;
+      adx[i] = a;
+    }
+  }
+
+  return { adx, plusDI, minusDI };
+}
+
+/**
+ * Calculate ADX / DMI
+ * @param candles - Array of OHLCV candles
+ * @param period - DMI period (default 14)
+ * @returns Latest ADX, +DI and -DI
+ */
+export function adx(candles: Candle[], period = 14): AdxReading {
+  const s = adxSeries(candles, period);
+  return { adx: last(s.adx), plusDI: last(s.plusDI), minusDI: last(s.minusDI) };
+}
+
+/**
+ * Calculate On-Balance Volume series
+ * @param candles - Array of OHLCV candles (missing volume counts as 0)
+ * @returns Cumulative OBV per candle, starting at 0
+ */
+export function obvSeries(candles: Candle[]): number[] {
+  let total = 0;
+  return candles.map((c, i) => {
+    if (i > 0) {
+      const vol = c.volume ?? 0;
+      if (c.close > candles[i - 1].close) total += vol;
+      else if (c.close < candles[i - 1].close) total -= vol;
+    }
+    return total;
+  });
+}
+
+/**
+ * Calculate On-Balance Volume
+ * @param candles - Array of OHLCV candles
+ * @returns Latest OBV value
+ */
+export function obv(candles: Candle[]): number {
+  return last(obvSeries(candles));
+}
+
+/**
+ * Calculate Volume-Weighted Average Price series from typical price
+ * @param candles - Array of OHLCV candles
+ * @param resetDaily - Restart the accumulation at each UTC day boundary
+ * @returns VWAP per candle (NaN until volume has been seen)
+ */
+export function vwapSeries(candles: Candle[], resetDaily = false): number[] {
+  let pv = 0, vol = 0;
+  let day = -1;
+  return candles.map(c => {
+    const cDay = Math.floor(c.time / 86400);
+    if (resetDaily && cDay !== day) {
+      pv = 0;
+      vol = 0;
+    }
+    day = cDay;
+    const v = c.volume ?? 0;
+    pv += ((c.high + c.low + c.close) / 3) * v;
+    vol += v;
+    return vol > 0 ? pv / vol : NaN;
+  });
+}
+
+/**
+ * Calculate Volume-Weighted Average Price
+ * @param candles - Array of OHLCV candles
+ * @param resetDaily - Restart the accumulation at each UTC day boundary
+ * @returns Latest VWAP value
+ */
+export function vwap(candles: Candle[], resetDaily = false): number {
+  return last(vwapSeries(candles, resetDaily));
+}
@@ -0,0 +1,127 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * ALERT TESTS
+ * ──────────────────────────────────────────────────────────────────────────────
+ * The expression language (precedence, crossings, changes) and the per-rule
+ * state the alert service keeps between runs: debounce, cooldown and source
+ */
+
+import { test, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AgentContext } from '../src/types.js';
+import { AlertFacts, evaluateCondition, parseAlertExpression } from '../src/alerts.js';
+import { AlertService } from '../src/services/alerts.js';
+
+const dirs: string[] = [];
+after(() => Promise.all(dirs.map(dir => rm(dir, { recursive: true, force: true }))));
+
+function facts(values: Record<string, unknown>): AlertFacts {
+  return { symbol: 'EURUSD', interval: '1m', price: NaN, time: 0, ...values };
+}
+
+/** Service with a settable clock (ms) and its state in a fresh directory */
+async function service(): Promise<{ alerts: AlertService; clock: { ms: number } }> {
+  const dir = await mkdtemp(join(tmpdir(), 'alerts-test-'));
+  dirs.push(dir);
+  const clock = { ms: 0 };
+  return { alerts: new AlertService({ dir, now: () => clock.ms }), clock };
+}
+
+/** Run with a single candle closing at price */
+function run(time: number, price: number, source?: string) {
+  const ctx = { candles: [{ time, open: price, high: price, low: price, close: price }] } as AgentContext;
+  return { symbol: 'EURUSD', interval: '1m', ctx, source };
+}
+
+test('"and" binds tighter than "or", and parentheses and "not" group', () => {
+  assert.deepEqual(parseAlertExpression('a > 1 or b > 1 and c > 1'), {
+    any: [
+      { field: 'a', op: '>', value: 1 },
+      { all: [{ field: 'b', op: '>', value: 1 }, { field: 'c', op: '>', value: 1 }] }
+    ]
+  });
+  assert.deepEqual(parseAlertExpression('(a > 1 or b > 1) and not c > 1'), {
+    all: [
+      { any: [{ field: 'a', op: '>', value: 1 }, { field: 'b', op: '>', value: 1 }] },
+      { not: { field: 'c', op: '>', value: 1 } }
+    ]
+  });
+
+  const values = facts({ a: 2, b: 0, c: 0 });
+  assert.equal(evaluateCondition(parseAlertExpression('a > 1 or b > 1 and c > 1'), values), true);
+  assert.equal(evaluateCondition(parseAlertExpression('(a > 1 or b > 1) and c > 1'), values), false);
+  assert.equal(evaluateCondition(parseAlertExpression('!(b > 1 || c > 1) && a > 1'), values), true);
+});
+
+test('"crosses above" and "crosses below" need the previous run on the other side', () => {
+  const above = parseAlertExpression('fast crosses above slow');
+  const below = parseAlertExpression('indicator.rsi crosses below 30');
+  assert.deepEqual(above, { field: 'fast', op: 'crossesAbove', ref: 'slow' });
+
+  assert.equal(evaluateCondition(above, facts({ fast: 2, slow: 1 })), false, 'no previous run');
+  assert.equal(evaluateCondition(above, facts({ fast: 2, slow: 1 }), facts({ fast: 1, slow: 1 })), true);
+  assert.equal(evaluateCondition(above, facts({ fast: 3, slow: 1 }), facts({ fast: 2, slow: 1 })), false, 'already above');
+  assert.equal(evaluateCondition(below, facts({ indicator: { rsi: 28 } }), facts({ indicator: { rsi: 35 } })), true);
+  assert.equal(evaluateCondition(below, facts({ indicator: { rsi: 28 } }), facts({ indicator: { rsi: 29 } })), false);
+  assert.equal(evaluateCondition(below, facts({ indicator: { rsi: NaN } }), facts({ indicator: { rsi: 35 } })), false);
+});
+
+test('"changes to" fires only on a change into the given value', () => {
+  const changesTo = parseAlertExpression('trend.direction changes to "Bull"');
+  const changes = parseAlertExpression('trend.direction changes');
+  const trend = (direction: string) => facts({ trend: { direction } });
+
+  assert.equal(evaluateCondition(changesTo, trend('Bull'), trend('Bear')), true);
+  assert.equal(evaluateCondition(changesTo, trend('bull'), trend('Bear')), true, 'strings compare case-insensitively');
+  assert.equal(evaluateCondition(changesTo, trend('Bull'), trend('Bull')), false);
+  assert.equal(evaluateCondition(changesTo, trend('Sideways'), trend('Bear')), false);
+  assert.equal(evaluateCondition(changes, trend('Sideways'), trend('Bear')), true);
+  assert.equal(evaluateCondition(changes, trend('Bull')), false, 'no previous run');
+  assert.throws(() => parseAlertExpression('trend.direction changes to other.field'), /literal/);
+});
+
+test('debounce fires on the Nth consecutive matching run', async () => {
+  const { alerts } = await service();
+  await alerts.createRule({ name: 'debounced', expression: 'price > 10', debounce: 3, cooldownSec: 0 });
+
+  assert.equal((await alerts.evaluate(run(60, 11))).length, 0);
+  assert.equal((await alerts.evaluate(run(120, 11))).length, 0);
+  assert.equal((await alerts.evaluate(run(180, 9))).length, 0, 'a miss resets the streak');
+  assert.equal((await alerts.evaluate(run(240, 11))).length, 0);
+  assert.equal((await alerts.evaluate(run(300, 11))).length, 0);
+  assert.equal((await alerts.evaluate(run(360, 11))).length, 1);
+  assert.equal((await alerts.evaluate(run(420, 11))).length, 0, 'state-change: no repeat while true');
+});
+
+test('a match suppressed by the cooldown does not fire once the cooldown ends', async () => {
+  const { alerts, clock } = await service();
+  await alerts.createRule({ name: 'cooldown', expression: 'price > 10', cooldownSec: 60 });
+
+  clock.ms = 0;
+  assert.equal((await alerts.evaluate(run(60, 11))).length, 1);
+  clock.ms = 10_000;
+  assert.equal((await alerts.evaluate(run(120, 9))).length, 0);
+  clock.ms = 20_000;
+  assert.equal((await alerts.evaluate(run(180, 11))).length, 0, 'within the cooldown');
+  clock.ms = 90_000;
+  assert.equal((await alerts.evaluate(run(240, 12))).length, 0, 'the suppressed match was the state change');
+  clock.ms = 100_000;
+  assert.equal((await alerts.evaluate(run(300, 9))).length, 0);
+  clock.ms = 110_000;
+  assert.equal((await alerts.evaluate(run(360, 11))).length, 1);
+  assert.equal((await alerts.getHistory()).length, 2);
+});
+
+test('rule state is kept per source', async () => {
+  const { alerts } = await service();
+  await alerts.createRule({ name: 'cross', expression: 'price crosses above 10', cooldownSec: 0 });
+
+  assert.equal((await alerts.evaluate(run(60, 9, 'stream'))).length, 0);
+  assert.equal((await alerts.evaluate(run(120, 11, 'api'))).length, 0, 'no previous run from this source');
+  const fired = await alerts.evaluate(run(120, 11, 'stream'));
+  assert.equal(fired.length, 1);
+  assert.equal(fired[0].price, 11);
+});
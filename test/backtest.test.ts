@@ -0,0 +1,52 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * BACKTEST TESTS
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Regression checks on the demo backtest (500 synthetic 1-min candles) and on
+ * the volume participation cap applied when trading costs are enabled
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runBacktest } from '../src/backtest.js';
+import { runPipeline } from '../src/orchestrator.js';
+import { averageVolume } from '../src/costs.js';
+import { makeSyntheticSeries } from '../src/utils/synthetic.js';
+
+const demo = (seed: number) => makeSyntheticSeries(500, 1.0000, 60, seed);
+
+test('the demo backtest is frictionless by default and still wins trades', async () => {
+  for (const seed of [1, 7, 42]) {
+    const { metrics, trades } = await runBacktest(demo(seed));
+    assert.ok(metrics.totalTrades > 0, `seed ${seed}: trades`);
+    assert.ok(metrics.wins > 0, `seed ${seed}: expected winning trades, got ${metrics.wins} of ${metrics.totalTrades}`);
+    assert.equal(metrics.totalCosts, 0, `seed ${seed}: costs are opt-in`);
+    assert.ok(trades.every(t => t.pnl === t.grossPnl));
+  }
+});
+
+test('with costs, backtest entries stay within maxParticipation of the average bar volume', async () => {
+  const candles = demo(1);
+  const { trades } = await runBacktest(candles, {
+    pipeline: { risk: { costs: { enabled: true, maxParticipation: 0.1 } } }
+  });
+  assert.ok(trades.length > 0);
+  for (const t of trades) {
+    const volume = averageVolume(candles.slice(Math.max(0, t.entryIndex - 20), t.entryIndex))!;
+    assert.ok(t.quantity <= 0.1 * volume + 1e-9, `quantity ${t.quantity} above 10% of ${volume}`);
+    assert.ok(t.costs > 0);
+  }
+});
+
+test('with costs, the RiskAgent size is capped by volume participation', async () => {
+  const candles = demo(3);
+  const sizing = { equity: 100_000, lotStep: 1, minQuantity: 1 };
+  const { ctx } = await runPipeline(candles, { risk: { sizing, costs: { enabled: true, maxParticipation: 0.2 } } });
+  const capped = ctx.risk!.sizing!;
+  assert.ok(capped.limitedBy.includes('volume participation'));
+  assert.ok(capped.quantity <= 0.2 * averageVolume(candles)!);
+
+  const { ctx: frictionless } = await runPipeline(candles, { risk: { sizing } });
+  assert.equal(frictionless.risk!.costs, undefined);
+  assert.ok(!frictionless.risk!.sizing!.limitedBy.includes('volume participation'));
+});
@@ -0,0 +1,74 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * INCREMENTAL INDICATOR TESTS
+ * ──────────────────────────────────────────────────────────────────────────────
+ * The readings the backtester and the live stream pass to the agents are the
+ * batch indicator values over the same bars: the whole history folded in so far
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle } from '../src/types.js';
+import { ema, rsi, atr, simpleSlope } from '../src/utils/technical.js';
+import { IncrementalIndicators, rsiKey } from '../src/utils/incremental.js';
+import { incrementalIndicatorsFor, runPipeline } from '../src/orchestrator.js';
+import { makeSyntheticSeries } from '../src/utils/synthetic.js';
+
+const candles = makeSyntheticSeries(400, 1.0000, 60, 11);
+
+function assertReadingsMatchBatch(indicators: IncrementalIndicators, bars: Candle[], label: string): void {
+  const closes = bars.map(c => c.close);
+  const readings = indicators.readings();
+  assert.equal(readings.time, bars.at(-1)!.time, `${label}: time`);
+  for (const period of [1, 5, 12, 26]) {
+    assert.ok(Object.is(readings.ema[period], ema(closes, period)), `${label}: EMA(${period})`);
+  }
+  for (const method of ['wilder', 'cutler'] as const) {
+    assert.ok(Object.is(readings.rsi[rsiKey(14, method)], rsi(closes, 14, method)), `${label}: RSI(14, ${method})`);
+  }
+  assert.ok(Object.is(readings.atr[14], atr(bars, 14)), `${label}: ATR(14)`);
+  assert.ok(Object.is(readings.slope[10], simpleSlope(closes, 10)), `${label}: slope(10)`);
+}
+
+test('incremental readings equal the batch functions over the same bars', () => {
+  const indicators = new IncrementalIndicators({
+    emaPeriods: [1, 5, 12, 26],
+    rsi: [{ period: 14, method: 'wilder' }, { period: 14, method: 'cutler' }],
+    atrPeriods: [14],
+    slopeLookbacks: [10]
+  });
+  for (let i = 0; i < candles.length; i++) {
+    indicators.update(candles[i]);
+    assertReadingsMatchBatch(indicators, candles.slice(0, i + 1), `bar ${i}`);
+  }
+
+  // Revising the forming bar matches the batch value over the revised series
+  const last = candles.at(-1)!;
+  const revised = { ...last, close: last.close * 1.001, high: Math.max(last.high, last.close * 1.001) };
+  indicators.update(revised);
+  assertReadingsMatchBatch(indicators, [...candles.slice(0, -1), revised], 'revised bar');
+
+  const restored = IncrementalIndicators.restore(JSON.parse(JSON.stringify(indicators.toJSON())));
+  assert.deepEqual(restored.readings(), indicators.readings());
+});
+
+test('readings cover the whole history, not the lookback window the agents see', () => {
+  const indicators = incrementalIndicatorsFor({});
+  indicators.updateMany(candles);
+  const closes = candles.map(c => c.close);
+  // Default trend slow EMA period is 26 and it seeds from the first close: over a 30-bar
+  // window that seed still carries (25/27)^29 ≈ 11% of the weight, so the values differ
+  assert.ok(Object.is(indicators.readings().ema[26], ema(closes, 26)));
+  assert.notEqual(indicators.readings().ema[26], ema(closes.slice(-30), 26));
+});
+
+test('agents given the readings decide as they do when recomputing over the same bars', async () => {
+  const indicators = incrementalIndicatorsFor({});
+  indicators.updateMany(candles);
+  const config = { risk: { stopMode: 'atr' as const } };
+  const batch = await runPipeline(candles, config);
+  const incremental = await runPipeline(candles, config, undefined, indicators.readings());
+  assert.deepEqual(incremental.ctx.indicator, batch.ctx.indicator);
+  assert.deepEqual(incremental.ctx.trend, batch.ctx.trend);
+  assert.deepEqual(incremental.ctx.risk, batch.ctx.risk);
+});
@@ -0,0 +1,109 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * PAPER TRADING TESTS
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Limit, stop and bracket fills against incoming bars, and the one-cancels-other
+ * link between bracket exits
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle } from '../src/types.js';
+import { PaperAccount } from '../src/services/paperTrading.js';
+
+const bar = (time: number, open: number, high: number, low: number, close: number): Candle =>
+  ({ time, open, high, low, close });
+
+/** Account that has seen one bar closing at 100, so new orders fill from the next bar */
+function account(): PaperAccount {
+  const paper = PaperAccount.create('test');
+  paper.processCandle('AAPL', bar(1000, 100, 100, 100, 100));
+  return paper;
+}
+
+test('limit orders fill at the limit, or at the open when the bar gaps through it', () => {
+  const paper = account();
+  const buy = paper.submitOrder({ symbol: 'AAPL', side: 'buy', type: 'limit', quantity: 10, limitPrice: 98 });
+
+  assert.deepEqual(paper.processCandle('AAPL', bar(1060, 99, 100, 98.5, 99)), []);
+  assert.equal(buy.status, 'open');
+  const [fill] = paper.processCandle('AAPL', bar(1120, 99, 99, 97, 97.5));
+  assert.equal(fill.price, 98);
+  assert.equal(buy.status, 'filled');
+
+  const sell = paper.submitOrder({ symbol: 'AAPL', side: 'sell', type: 'limit', quantity: 10, limitPrice: 105 });
+  const [gap] = paper.processCandle('AAPL', bar(1180, 107, 108, 106, 107));
+  assert.equal(gap.price, 107, 'a gap above a sell limit fills at the better open');
+  assert.equal(gap.realizedPnl, 90);
+  assert.equal(sell.status, 'filled');
+});
+
+test('stop orders fill at the stop, or at the open when the bar gaps through it', () => {
+  const paper = account();
+  const buy = paper.submitOrder({ symbol: 'AAPL', side: 'buy', type: 'stop', quantity: 10, stopPrice: 102 });
+
+  assert.deepEqual(paper.processCandle('AAPL', bar(1060, 100, 101, 99, 100)), []);
+  const [fill] = paper.processCandle('AAPL', bar(1120, 101, 103, 100.5, 102.5));
+  assert.equal(fill.price, 102);
+  assert.equal(buy.status, 'filled');
+
+  const sell = paper.submitOrder({ symbol: 'AAPL', side: 'sell', type: 'stop', quantity: 10, stopPrice: 95 });
+  const [gap] = paper.processCandle('AAPL', bar(1180, 93, 94, 92, 93));
+  assert.equal(gap.price, 93, 'a gap below a sell stop fills at the worse open');
+  assert.equal(sell.status, 'filled');
+  assert.equal(paper.summary().realizedPnl, -90);
+});
+
+test('bracket exits are priced from the entry fill and the filled exit cancels the other', () => {
+  const paper = account();
+  const { entry, stopLoss, takeProfit } = paper.submitBracket({
+    symbol: 'AAPL', side: 'buy', quantity: 10, stopDistance: 2, targetDistance: 4
+  });
+  assert.equal(stopLoss.status, 'pending');
+  assert.equal(takeProfit.status, 'pending');
+
+  paper.processCandle('AAPL', bar(1060, 101, 101.5, 100.5, 101));
+  assert.equal(entry.fillPrice, 101, 'market entry fills at the next open');
+  assert.equal(stopLoss.stopPrice, 99);
+  assert.equal(takeProfit.limitPrice, 105);
+  assert.equal(stopLoss.status, 'open');
+
+  const [exit] = paper.processCandle('AAPL', bar(1120, 103, 105.5, 102, 105));
+  assert.equal(exit.orderId, takeProfit.id);
+  assert.equal(exit.price, 105);
+  assert.equal(stopLoss.status, 'cancelled');
+  assert.equal(stopLoss.reason, 'Take-profit filled');
+  assert.equal(paper.summary().realizedPnl, 40);
+  assert.deepEqual(paper.summary().openOrders, []);
+});
+
+test('when one bar touches both bracket exits the stop-loss fills and the target is cancelled', () => {
+  const paper = account();
+  const { stopLoss, takeProfit } = paper.submitBracket({
+    symbol: 'AAPL', side: 'sell', type: 'limit', quantity: 10, limitPrice: 101, stopDistance: 2, targetDistance: 4
+  });
+
+  paper.processCandle('AAPL', bar(1060, 100, 101.5, 99.5, 101));
+  assert.equal(stopLoss.stopPrice, 103);
+  assert.equal(takeProfit.limitPrice, 97);
+
+  const fills = paper.processCandle('AAPL', bar(1120, 101, 104, 96, 100));
+  assert.deepEqual(fills.map(f => f.orderId), [stopLoss.id]);
+  assert.equal(fills[0].price, 103);
+  assert.equal(takeProfit.status, 'cancelled');
+  assert.equal(takeProfit.reason, 'Stop-loss filled');
+  assert.equal(paper.summary().positions[0].quantity, 0);
+});
+
+test('cancelling a bracket entry cancels its exits', () => {
+  const paper = account();
+  const { entry, stopLoss, takeProfit } = paper.submitBracket({
+    symbol: 'AAPL', side: 'buy', type: 'limit', quantity: 10, limitPrice: 95, stopDistance: 2, targetDistance: 4
+  });
+  paper.cancelOrder(entry.id);
+  for (const exit of [stopLoss, takeProfit]) {
+    assert.equal(exit.status, 'cancelled');
+    assert.equal(exit.reason, 'Entry cancelled');
+  }
+  assert.deepEqual(paper.processCandle('AAPL', bar(1060, 94, 96, 90, 92)), []);
+});
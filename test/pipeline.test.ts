@@ -0,0 +1,37 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * PIPELINE TESTS
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Agent output validation on series too short for the indicators, and the
+ * context keys custom agents may not take
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runPipeline } from '../src/orchestrator.js';
+import { runBacktest } from '../src/backtest.js';
+import { AgentRegistry } from '../src/agents/index.js';
+import { makeSyntheticSeries } from '../src/utils/synthetic.js';
+
+test('runPipeline returns a neutral indicator before RSI has enough bars', async () => {
+  for (const n of [1, 5, 10, 14]) {
+    const { ctx } = await runPipeline(makeSyntheticSeries(n, 1.0000, 60, 5));
+    assert.ok(Number.isNaN(ctx.indicator!.rsi), `${n} bars: RSI warming up`);
+    assert.equal(ctx.indicator!.regime, 'Neutral');
+    assert.equal(ctx.indicator!.confidence, 0);
+    assert.ok(ctx.risk, `${n} bars: risk output`);
+  }
+});
+
+test('runBacktest runs with a warmup shorter than the RSI period', async () => {
+  const { metrics, equityCurve } = await runBacktest(makeSyntheticSeries(40, 1.0000, 60, 5), { warmup: 5 });
+  assert.equal(equityCurve.length, 40);
+  assert.ok(Number.isFinite(metrics.totalReturn));
+});
+
+test('custom agents cannot be registered under the context keys the pipeline fills', () => {
+  const registry = new AgentRegistry();
+  for (const name of ['candles', 'readings']) {
+    assert.throws(() => registry.register({ name, run: async () => ({}) }), /Invalid agent name/);
+  }
+});
@@ -0,0 +1,175 @@
+/**
+ * ──────────────────────────────────────────────────────────────────────────────
+ * TECHNICAL INDICATOR TESTS
+ * ──────────────────────────────────────────────────────────────────────────────
+ * Indicator series checked against reference values
+ *
+ * - RSI, ATR, Stochastic and ADX: StockCharts ChartSchool worked examples
+ *   (published tables round intermediate steps, hence the tolerances)
+ * - MACD, Bollinger, OBV and VWAP: closed-form cases that pin the definition
+ *   (SMA seeding, population standard deviation, volume signs, typical price)
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Candle } from '../src/types.js';
+import {
+  rsiSeries,
+  atrSeries,
+  stochasticSeries,
+  adxSeries,
+  macdSeries,
+  bollingerSeries,
+  obvSeries,
+  vwapSeries
+} from '../src/utils/technical.js';
+
+function assertSeries(actual: number[], expected: number[], tolerance: number, label: string): void {
+  assert.equal(actual.length, expected.length, `${label}: length`);
+  expected.forEach((e, i) => {
+    if (Number.isNaN(e)) {
+      assert.ok(Number.isNaN(actual[i]), `${label}[${i}]: expected warm-up NaN, got ${actual[i]}`);
+    } else {
+      assert.ok(Math.abs(actual[i] - e) <= tolerance, `${label}[${i}]: expected ${e} ± ${tolerance}, got ${actual[i]}`);
+    }
+  });
+}
+
+function candles(high: number[], low: number[], close: number[], volume?: number[]): Candle[] {
+  return close.map((c, i) => ({ time: i * 86400, open: c, high: high[i], low: low[i], close: c, volume: volume?.[i] }));
+}
+
+const warmup = (n: number) => new Array<number>(n).fill(NaN);
+
+// StockCharts "Relative Strength Index" example (cs-rsi)
+test('Wilder RSI(14) matches the StockCharts example', () => {
+  const closes = [
+    44.34, 44.09, 44.15, 43.61, 44.33, 44.83, 45.10, 45.42, 45.84, 46.08, 45.89, 46.03, 45.61, 46.28, 46.28,
+    46.00, 46.03, 46.41, 46.22, 45.64, 46.21, 46.25, 45.71, 46.45, 45.78, 45.35, 44.03, 44.18, 44.22, 44.57,
+    43.42, 42.66, 43.13
+  ];
+  const expected = [
+    ...warmup(14),
+    70.46, 66.25, 66.48, 69.35, 66.29, 57.92, 62.88, 63.21, 56.01, 62.34, 54.67, 50.39, 40.02, 41.49, 41.90,
+    45.50, 37.32, 33.09, 37.79
+  ];
+  assertSeries(rsiSeries(closes, 14, 'wilder'), expected, 0.01, 'RSI');
+});
+
+// StockCharts "Average True Range" example (cs-atr)
+test('ATR(14) matches the StockCharts example', () => {
+  const high = [
+    48.70, 48.72, 48.90, 48.87, 48.82, 49.05, 49.20, 49.35, 49.92, 50.19, 50.12, 49.66, 49.88, 50.19, 50.36,
+    50.57, 50.65, 50.43, 49.63, 50.33, 50.29, 50.17, 49.32, 48.50, 48.32, 46.80, 47.80, 48.39, 48.66, 48.79
+  ];
+  const low = [
+    47.79, 48.14, 48.39, 48.37, 48.24, 48.64, 48.94, 48.86, 49.50, 49.87, 49.20, 48.90, 49.43, 49.73, 49.26,
+    50.09, 50.30, 49.21, 48.98, 49.61, 49.20, 49.43, 48.08, 47.64, 41.55, 44.28, 47.31, 47.20, 47.90, 47.73
+  ];
+  const close = [
+    48.16, 48.61, 48.75, 48.63, 48.74, 49.03, 49.07, 49.32, 49.91, 50.13, 49.53, 49.50, 49.75, 50.03, 50.31,
+    50.52, 50.41, 49.34, 49.37, 50.23, 49.24, 49.93, 48.43, 48.18, 46.57, 45.41, 47.77, 47.72, 48.62, 47.85
+  ];
+  const expected = [
+    ...warmup(13),
+    0.56, 0.59, 0.59, 0.57, 0.62, 0.62, 0.64, 0.67, 0.69, 0.78, 0.78, 1.21, 1.30, 1.38, 1.37, 1.34, 1.32
+  ];
+  assertSeries(atrSeries(candles(high, low, close), 14), expected, 0.01, 'ATR');
+});
+
+// StockCharts "Stochastic Oscillator" example (cs-stochastic)
+test('Stochastic %K(14) and %D(3) match the StockCharts example', () => {
+  const high = [
+    127.009, 127.616, 126.591, 127.347, 128.173, 128.432, 127.367, 126.422, 126.900, 126.850, 125.646, 125.716,
+    127.159, 127.715, 127.686, 128.223, 128.273, 128.093, 128.273, 127.735, 128.770, 129.287, 130.063, 129.118,
+    129.287, 128.472, 128.093, 128.651, 129.138, 128.641
+  ];
+  const low = [
+    125.357, 126.163, 124.930, 126.094, 126.820, 126.482, 126.034, 124.830, 126.392, 125.716, 124.562, 124.572,
+    125.069, 126.860, 126.631, 126.800, 126.711, 126.800, 126.134, 125.925, 126.989, 127.815, 128.472, 128.064,
+    127.606, 127.596, 126.999, 126.900, 127.490, 127.397
+  ];
+  // Only the closes from the first full 14-bar window onwards are published
+  const close = [
+    ...high.slice(0, 13).map((h, i) => (h + low[i]) / 2),
+    127.2876, 127.1781, 128.0138, 127.1085, 127.7253, 127.0587, 127.3273, 128.7103, 127.8745, 128.5809,
+    128.6008, 127.9342, 128.1133, 127.5960, 127.5960, 128.6904, 128.2725
+  ];
+  const { k, d } = stochasticSeries(candles(high, low, close), 14, 3);
+  assertSeries(k, [
+    ...warmup(13),
+    70.44, 67.61, 89.20, 65.81, 81.75, 64.52, 74.53, 98.58, 70.10, 73.06, 73.42, 61.23, 60.96, 40.39, 40.39,
+    66.83, 56.73
+  ], 0.015, '%K');
+  assertSeries(d.slice(0, 17), [...warmup(15), 75.75, 74.21], 0.015, '%D');
+  for (let i = 15; i < k.length; i++) {
+    assert.ok(Math.abs(d[i] - (k[i] + k[i - 1] + k[i - 2]) / 3) < 1e-9, `%D[${i}] is the 3-bar SMA of %K`);
+  }
+});
+
+// StockCharts "Average Directional Index" example (cs-adx)
+test('ADX(14) matches the StockCharts example', () => {
+  const high = [
+    30.20, 30.28, 30.45, 29.35, 29.35, 29.29, 28.83, 28.73, 28.67, 28.85, 28.64, 27.68, 27.21, 26.87, 27.41,
+    26.94, 26.52, 26.52, 27.09, 27.69, 28.45, 28.53, 28.67, 29.01, 29.87, 29.80, 29.75, 30.65, 30.60, 30.76,
+    31.17, 30.89, 30.04, 30.66, 30.60, 31.97, 32.10, 32.03, 31.63, 31.85, 32.71
+  ];
+  const low = [
+    29.41, 29.32, 29.96, 28.74, 28.56, 28.41, 28.08, 27.43, 27.66, 27.83, 27.40, 27.09, 26.18, 26.13, 26.63,
+    26.13, 25.43, 25.35, 25.88, 26.96, 27.14, 28.01, 27.88, 27.99, 28.76, 29.14, 28.71, 28.93, 30.03, 29.39,
+    30.14, 30.43, 29.35, 29.99, 29.52, 30.94, 31.54, 31.36, 30.92, 31.20, 32.13
+  ];
+  const close = [
+    29.87, 30.24, 30.10, 28.90, 28.92, 28.48, 28.56, 27.56, 28.47, 28.28, 27.49, 27.23, 26.35, 26.33, 27.03,
+    26.22, 26.01, 25.46, 27.03, 27.45, 28.36, 28.43, 27.95, 29.01, 29.38, 29.36, 28.91, 30.61, 30.05, 30.19,
+    31.12, 30.54, 29.78, 30.04, 30.49, 31.47, 32.05, 31.97, 31.13, 31.66, 32.64
+  ];
+  const { adx } = adxSeries(candles(high, low, close), 14);
+  // First ADX (bar 2 × 14 - 1); the sheet rounds DI and DX to 2 decimals before smoothing
+  assertSeries(adx.slice(0, 28), [...warmup(27), 33.58], 0.15, 'ADX');
+});
+
+test('ADX is 100 and -DI is 0 in a steady uptrend', () => {
+  const high = Array.from({ length: 40 }, (_, i) => i + 1);
+  const low = high.map(h => h - 1);
+  const close = high.map(h => h - 0.5);
+  const { adx, plusDI, minusDI } = adxSeries(candles(high, low, close), 14);
+  // +DM = 1 and TR = 1.5 (high − previous close) on every bar
+  assertSeries(plusDI.slice(14), new Array(26).fill(100 / 1.5), 1e-9, '+DI');
+  assertSeries(minusDI.slice(14), new Array(26).fill(0), 1e-9, '-DI');
+  assertSeries(adx.slice(27), new Array(13).fill(100), 1e-9, 'ADX');
+});
+
+test('MACD(12, 26, 9) seeds its EMAs with an SMA', () => {
+  // On a linear series an SMA-seeded EMA(n) lags by exactly (n − 1) / 2 from the first value,
+  // so MACD = (26 − 1) / 2 − (12 − 1) / 2 = 7 and the signal line is 7 too
+  const closes = Array.from({ length: 60 }, (_, i) => i + 1);
+  const { macd, signal, histogram } = macdSeries(closes, 12, 26, 9);
+  assertSeries(macd, [...warmup(25), ...new Array(35).fill(7)], 1e-9, 'MACD');
+  assertSeries(signal, [...warmup(33), ...new Array(27).fill(7)], 1e-9, 'signal');
+  assertSeries(histogram, [...warmup(33), ...new Array(27).fill(0)], 1e-9, 'histogram');
+});
+
+test('Bollinger Bands use the population standard deviation', () => {
+  // Window 1..5: mean 3, population variance 2
+  const { upper, middle, lower } = bollingerSeries([1, 2, 3, 4, 5, 6], 5, 2);
+  assertSeries(middle, [...warmup(4), 3, 4], 1e-12, 'middle');
+  assertSeries(upper, [...warmup(4), 3 + 2 * Math.SQRT2, 4 + 2 * Math.SQRT2], 1e-12, 'upper');
+  assertSeries(lower, [...warmup(4), 3 - 2 * Math.SQRT2, 4 - 2 * Math.SQRT2], 1e-12, 'lower');
+});
+
+test('OBV adds volume on up closes, subtracts it on down closes and ignores flat closes', () => {
+  const close = [10, 11, 10.5, 10.5, 12];
+  const series = candles(close, close, close, [100, 200, 300, 400, 500]);
+  assert.deepEqual(obvSeries(series), [0, 200, -100, -100, 400]);
+});
+
+test('VWAP weights the typical price by volume and can reset daily', () => {
+  const high = [12, 14, 20, 22];
+  const low = [9, 10, 16, 18];
+  const close = [10.5, 12, 18, 20];                   // typical prices 10.5, 12, 18, 20
+  const series = candles(high, low, close, [100, 300, 0, 200]).map((c, i) => ({ ...c, time: [0, 3600, 86400, 90000][i] }));
+  assertSeries(vwapSeries(series), [10.5, (1050 + 3600) / 400, (1050 + 3600) / 400, (1050 + 3600 + 4000) / 600], 1e-12, 'VWAP');
+  // Day two starts with a zero-volume bar: no VWAP until volume trades
+  assertSeries(vwapSeries(series, true), [10.5, (1050 + 3600) / 400, NaN, 20], 1e-12, 'daily VWAP');
+});